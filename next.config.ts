@@ -8,6 +8,13 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  experimental: {
+    serverActions: {
+      // Photos and voice notes are sent to server actions as base64 data URIs: a phone photo
+      // alone can pass the default 1 MB, and a saved diagnosis carries a photo plus its voice notes.
+      bodySizeLimit: '20mb',
+    },
+  },
   images: {
     remotePatterns: [
       {
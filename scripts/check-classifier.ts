@@ -0,0 +1,55 @@
+/**
+ * Checks that the files the offline breed classifier needs are in `public/`, and
+ * that its labels match the breed catalogue. Catalogue breeds the model has no
+ * label for are listed as a to-do, not an error, unless --strict is passed.
+ *
+ * Usage:
+ *   npm run models:check -- [--strict]
+ */
+
+import path from 'node:path';
+import { existsSync, readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { BREED_IDS, UNKNOWN_BREED_ID } from '@/lib/breed-data';
+import { toBreedId } from '@/lib/breed-matching';
+import { DEFAULT_MANIFEST_URL, ORT_RUNTIME_FILES, type ClassifierManifest } from '@/lib/offline-classifier/onnx-classifier';
+
+const publicPath = (url: string) => path.join(process.cwd(), 'public', url);
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      strict: { type: 'boolean', default: false },
+    },
+  });
+
+  const manifest: ClassifierManifest = JSON.parse(readFileSync(publicPath(DEFAULT_MANIFEST_URL), 'utf8'));
+
+  const files = [manifest.modelUrl, ...ORT_RUNTIME_FILES.map(file => `${manifest.wasmPaths}${file}`)];
+  const missingFiles = files.filter(url => !existsSync(publicPath(url)));
+  for (const url of missingFiles) {
+    console.log(`missing: public${url}`);
+  }
+
+  const labels = manifest.labels.filter(label => label !== manifest.backgroundLabel);
+  const unmatched = labels.filter(label => toBreedId(label) === UNKNOWN_BREED_ID);
+  for (const label of unmatched) {
+    console.log(`not in the catalogue: ${label}`);
+  }
+
+  const labelled = new Set(labels.map(toBreedId));
+  const unlabelled = BREED_IDS.filter(id => id !== UNKNOWN_BREED_ID && !labelled.has(id));
+  console.log(`${labels.length} breed labels; ${unlabelled.length === 0 ? 'every catalogue breed is covered' : `${unlabelled.length} catalogue breeds have none`}`);
+  for (const id of unlabelled) {
+    console.log(`  ${id}`);
+  }
+
+  if (missingFiles.length > 0 || unmatched.length > 0 || (values.strict && unlabelled.length > 0)) {
+    process.exit(1);
+  }
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,46 @@
+/**
+ * Lists the keys each language pack has no text for. Missing keys are shown in
+ * English in the app, so this is a to-do list for translators, not an error,
+ * unless --strict is passed.
+ *
+ * Usage:
+ *   npm run i18n:check -- [--locale mr --locale ta] [--strict]
+ */
+
+import { parseArgs } from 'node:util';
+import { isLanguage, LANGUAGES, missingTranslationKeys, type Language } from '@/lib/translations';
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      locale: { type: 'string', multiple: true },
+      strict: { type: 'boolean', default: false },
+    },
+  });
+
+  const locales: Language[] = values.locale?.map(locale => {
+    if (!isLanguage(locale)) {
+      throw new Error(`--locale must be one of ${LANGUAGES.map(language => language.code).join(', ')}, got "${locale}".`);
+    }
+    return locale;
+  }) ?? LANGUAGES.map(language => language.code).filter(code => code !== 'en');
+
+  let total = 0;
+  for (const locale of locales) {
+    const missing = missingTranslationKeys(locale);
+    total += missing.length;
+    console.log(`${locale}: ${missing.length === 0 ? 'complete' : `${missing.length} missing`}`);
+    for (const key of missing) {
+      console.log(`  ${key}`);
+    }
+  }
+
+  if (values.strict && total > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
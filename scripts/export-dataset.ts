@@ -0,0 +1,57 @@
+/**
+ * Exports confirmed and corrected breed labels as a training dataset.
+ *
+ * Usage:
+ *   npm run dataset:export -- --out ./dataset [--from 2025-01-01] [--to 2025-03-31]
+ *     [--breed Gir --breed Sahiwal] [--source correction]
+ */
+
+import { parseArgs } from 'node:util';
+import { exportDataset, parseDateBound } from '@/lib/server/dataset-export';
+import type { LabelRecord } from '@/lib/server/label-store';
+
+const SOURCES: LabelRecord['source'][] = ['confirmation', 'correction'];
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      out: { type: 'string', default: 'dataset' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      breed: { type: 'string', multiple: true },
+      source: { type: 'string', multiple: true },
+    },
+  });
+
+  const sources = values.source?.map(source => {
+    if (!SOURCES.includes(source as LabelRecord['source'])) {
+      throw new Error(`--source must be one of ${SOURCES.join(', ')}, got "${source}".`);
+    }
+    return source as LabelRecord['source'];
+  });
+
+  const entries = await exportDataset(values.out!, {
+    from: values.from ? parseDateBound(values.from, 'from') : undefined,
+    to: values.to ? parseDateBound(values.to, 'to') : undefined,
+    breeds: values.breed,
+    sources,
+  });
+
+  const perBreed = new Map<string, number>();
+  for (const entry of entries) {
+    perBreed.set(entry.label, (perBreed.get(entry.label) ?? 0) + 1);
+  }
+  console.log(`Exported ${entries.length} images to ${values.out}`);
+  for (const [breed, count] of [...perBreed].sort((a, b) => b[1] - a[1])) {
+    console.log(`  ${breed}: ${count}`);
+  }
+  const conflicts = entries.filter(entry => entry.conflictingLabels.length > 0).length;
+  if (conflicts > 0) {
+    console.log(`${conflicts} images had conflicting labels; the most recent label was used.`);
+  }
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,49 @@
+/**
+ * Imports veterinary hospitals, dispensaries and helplines into the vet directory.
+ *
+ * Accepts a JSON array or a CSV file with the columns
+ *   id,name,type,address,district,state,pincode,phone,latitude,longitude,verified,source
+ * where `type` is Hospital, Dispensary, Clinic or Helpline and `id`, `latitude` and
+ * `longitude` are optional. Entries with coordinates can be ranked by distance.
+ * Only mark a row verified once its phone number has been checked against the source.
+ * `data/vet-directory.template.csv` has the header; docs/vet-directory.md describes each column.
+ *
+ * Usage:
+ *   npm run vets:import -- --file ./maharashtra-vets.csv [--replace]
+ */
+
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { parseCsv } from '@/lib/server/csv';
+import { VetDirectoryImportRow, importVetDirectory } from '@/lib/server/vet-directory';
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      file: { type: 'string' },
+      replace: { type: 'boolean', default: false },
+    },
+  });
+  if (!values.file) {
+    throw new Error('--file is required.');
+  }
+
+  const contents = await readFile(values.file, 'utf8');
+  const rows: VetDirectoryImportRow[] =
+    path.extname(values.file).toLowerCase() === '.csv' ? parseCsv(contents) : JSON.parse(contents);
+  if (!Array.isArray(rows)) {
+    throw new Error('A JSON import must be an array of entries.');
+  }
+
+  const { added, updated, removed, unverified } = await importVetDirectory(rows, { replace: values.replace });
+  console.log(`Imported ${rows.length} entries from ${values.file}: ${added} added, ${updated} updated, ${removed} removed.`);
+  if (unverified > 0) {
+    console.log(`${unverified} entries are not marked verified and will be flagged to farmers.`);
+  }
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
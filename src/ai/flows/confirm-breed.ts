@@ -0,0 +1,59 @@
+'use server';
+
+/**
+ * @fileOverview This file defines a Genkit flow that records a field worker's confirmation of a suggested breed.
+ *
+ * - confirmBreed - A function that stores a confirmed breed as labelled training data.
+ * - ConfirmBreedInput - The input type for the confirmBreed function.
+ * - ConfirmBreedOutput - The return type for the confirmBreed function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {SubmittedBreedIdSchema} from '@/ai/schemas/breed-id-schema';
+import {toBreedId} from '@/lib/breed-matching';
+import {saveLabelRecord} from '@/lib/server/label-store';
+
+const ConfirmBreedInputSchema = z.object({
+  imageDataUri: z
+    .string()
+    .describe(
+      "A photo of the animal, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
+    ),
+  confirmedBreed: SubmittedBreedIdSchema.describe('The catalogue ID of the suggested breed the field worker confirmed.'),
+  originalSuggestions: z
+    .array(z.object({breed: z.string(), confidence: z.number()}))
+    .describe('The breed suggestions the model returned, with their confidence scores.'),
+  predictionMode: z.enum(['online', 'offline']).describe('Which model produced the suggestions.'),
+  language: z.string().describe('The language the scanner was used in (e.g., "en", "hi" or "ta").'),
+  submittedBy: z.string().describe('An identifier for the field worker or device that confirmed the breed.'),
+  capturedAt: z.string().datetime().optional().describe('When the breed was confirmed on the device, if known.'),
+  clientId: z.string().optional().describe('A client-generated identifier that makes replayed submissions idempotent.'),
+});
+export type ConfirmBreedInput = z.infer<typeof ConfirmBreedInputSchema>;
+
+const ConfirmBreedOutputSchema = z.object({
+  recordId: z.string().describe('The identifier of the stored label record.'),
+});
+export type ConfirmBreedOutput = z.infer<typeof ConfirmBreedOutputSchema>;
+
+export async function confirmBreed(input: ConfirmBreedInput): Promise<ConfirmBreedOutput> {
+  return confirmBreedFlow(input);
+}
+
+const confirmBreedFlow = ai.defineFlow(
+  {
+    name: 'confirmBreedFlow',
+    inputSchema: ConfirmBreedInputSchema,
+    outputSchema: ConfirmBreedOutputSchema,
+  },
+  async ({imageDataUri, confirmedBreed, ...details}) => {
+    const record = await saveLabelRecord({
+      ...details,
+      imageDataUri,
+      source: 'confirmation',
+      label: toBreedId(confirmedBreed),
+    });
+    return {recordId: record.id};
+  }
+);
@@ -0,0 +1,87 @@
+// Loaded first so the flows are created against the fixture model.
+import { clearRecordings, recordModelOutput, TEST_PHOTO } from '@/ai/testing/harness';
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ai } from '@/ai/genkit';
+import { diagnoseAnimalHealth } from './diagnose-animal-health';
+
+const input = { photoDataUri: TEST_PHOTO, description: 'Blisters on the mouth and feet, drooling.', language: 'en' };
+
+const footAndMouth = {
+  diseaseName: 'Foot-and-mouth disease',
+  confidenceScore: 0.85,
+  urgency: 'High',
+  description: 'A highly contagious viral disease.',
+  firstAid: 'Isolate the animal and wash the lesions with potassium permanganate solution.',
+  veterinaryAttention: 'Call a veterinarian today.',
+};
+
+describe('diagnoseAnimalHealth', () => {
+  beforeEach(clearRecordings);
+
+  it('returns the diagnosis of a sick animal', async () => {
+    await recordModelOutput('diagnoseAnimalHealthPrompt', input, { isHealthy: false, diagnosis: [footAndMouth] });
+
+    const result = await diagnoseAnimalHealth(input);
+
+    assert.deepEqual(result, { isHealthy: false, diagnosis: [footAndMouth] });
+  });
+
+  it('returns preventive care for a healthy animal', async () => {
+    const healthyInput = { ...input, description: undefined };
+    await recordModelOutput('diagnoseAnimalHealthPrompt', healthyInput, {
+      isHealthy: true,
+      preventiveCare: 'Keep up FMD and HS vaccinations.',
+    });
+
+    const result = await diagnoseAnimalHealth(healthyInput);
+
+    assert.deepEqual(result, { isHealthy: true, preventiveCare: 'Keep up FMD and HS vaccinations.' });
+  });
+
+  it('lists the glossary terms for the response language in the prompt', async () => {
+    const { messages } = await ai.prompt('diagnoseAnimalHealthPrompt').render({ ...input, language: 'hi' });
+
+    const text = messages!.flatMap(message => message.content.map(part => part.text ?? '')).join('');
+    assert.match(text, /- Foot-and-mouth disease: खुरपका-मुंहपका\n/);
+    assert.match(text, /- Dewormer: कृमिनाशक\n/);
+  });
+
+  it('rewrites other names for a disease or medicine to the glossary term', async () => {
+    const hindiInput = { ...input, language: 'hi' };
+    await recordModelOutput('diagnoseAnimalHealthPrompt', hindiInput, {
+      isHealthy: false,
+      diagnosis: [
+        {
+          ...footAndMouth,
+          diseaseName: 'एफएमडी',
+          description: 'मुंहपका-खुरपका (FMD) एक संक्रामक रोग है।',
+          firstAid: 'घावों पर एंटीसेप्टिक लगाएं।',
+        },
+      ],
+    });
+
+    const { diagnosis } = await diagnoseAnimalHealth(hindiInput);
+
+    assert.equal(diagnosis![0].diseaseName, 'खुरपका-मुंहपका');
+    assert.equal(diagnosis![0].description, 'खुरपका-मुंहपका एक संक्रामक रोग है।');
+    assert.equal(diagnosis![0].firstAid, 'घावों पर रोगाणुरोधक लगाएं।');
+  });
+
+  it('rejects an urgency outside Low, Medium and High', async () => {
+    await recordModelOutput('diagnoseAnimalHealthPrompt', input, {
+      isHealthy: false,
+      diagnosis: [{ ...footAndMouth, urgency: 'Critical' }],
+    });
+
+    await assert.rejects(diagnoseAnimalHealth(input), /Schema validation failed/);
+  });
+
+  for (const answer of ['', 'The animal looks unwell.']) {
+    it(`rejects a model answer with no output (${JSON.stringify(answer)})`, async () => {
+      await recordModelOutput('diagnoseAnimalHealthPrompt', input, answer);
+
+      await assert.rejects(diagnoseAnimalHealth(input), /Schema validation failed/);
+    });
+  }
+});
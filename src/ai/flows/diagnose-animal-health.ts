@@ -5,38 +5,20 @@
  * - diagnoseAnimalHealth - A function that handles the animal health diagnosis process.
  * - DiagnoseAnimalHealthInput - The input type for the diagnoseAnimalHealth function.
  * - DiagnoseAnimalHealthOutput - The return type for the diagnoseAnimalHealth function.
+ *
+ * Disease, symptom and medicine names in the answer are rewritten to the glossary's terms.
  */
 
 import { ai } from '@/ai/genkit';
-import { z } from 'genkit';
-
-const DiagnoseAnimalHealthInputSchema = z.object({
-  photoDataUri: z
-    .string()
-    .describe(
-      "A photo of the animal, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
-    ),
-  description: z.string().optional().describe('A text description of any observed symptoms.'),
-  language: z.string().describe('The language for the response (e.g., "en" or "hi").'),
-});
-export type DiagnoseAnimalHealthInput = z.infer<typeof DiagnoseAnimalHealthInputSchema>;
-
-const DiseaseInfoSchema = z.object({
-    diseaseName: z.string().describe('The name of the likely disease.'),
-    confidenceScore: z.number().describe('The confidence score of the diagnosis (0-1).'),
-    urgency: z.enum(['Low', 'Medium', 'High']).describe('The urgency level for seeking veterinary help.'),
-    description: z.string().describe('A short description of the disease.'),
-    firstAid: z.string().describe('First-aid or immediate care suggestions for the farmer.'),
-    veterinaryAttention: z.string().describe('A recommendation on whether veterinary attention is needed and how urgently.')
-});
-
-const DiagnoseAnimalHealthOutputSchema = z.object({
-    isHealthy: z.boolean().describe('Whether the animal is likely healthy or not.'),
-    diagnosis: z.array(DiseaseInfoSchema).optional().describe('An array of potential diseases if the animal is not healthy.'),
-    preventiveCare: z.string().optional().describe('Preventive care suggestions if the animal is healthy.'),
-});
-export type DiagnoseAnimalHealthOutput = z.infer<typeof DiagnoseAnimalHealthOutputSchema>;
+import { glossaryTerm, normalizeTerms } from '@/lib/glossary';
+import {
+  DiagnoseAnimalHealthInput,
+  DiagnoseAnimalHealthInputSchema,
+  DiagnoseAnimalHealthOutput,
+  DiagnoseAnimalHealthOutputSchema,
+} from '@/ai/schemas/diagnose-animal-health-schema';
 
+export type { DiagnoseAnimalHealthInput, DiagnoseAnimalHealthOutput };
 
 export async function diagnoseAnimalHealth(input: DiagnoseAnimalHealthInput): Promise<DiagnoseAnimalHealthOutput> {
   return diagnoseAnimalHealthFlow(input);
@@ -64,7 +46,9 @@ const diagnosePrompt = ai.definePrompt({
         - Set \`isHealthy\` to \`true\`.
         - Provide practical \`preventiveCare\` suggestions covering nutrition, vaccination, or hygiene to help the farmer maintain the animal's health.
     
-    The response must be in the language: {{{language}}}.
+    The response must be in the language: {{languageName language}}.
+    Name diseases, symptoms and medicines with these terms, written exactly as given:
+    {{glossary language "disease" "symptom" "drugClass"}}
 
     Farmer's Description: "{{{description}}}"
     Image: {{media url=photoDataUri}}
@@ -79,6 +63,20 @@ const diagnoseAnimalHealthFlow = ai.defineFlow(
   },
   async (input) => {
     const { output } = await diagnosePrompt(input);
-    return output!;
+    const normalize = (text: string) => normalizeTerms(text, input.language);
+    const { diagnosis, preventiveCare } = output!;
+    return {
+      ...output!,
+      ...(diagnosis && {
+        diagnosis: diagnosis.map(disease => ({
+          ...disease,
+          diseaseName: glossaryTerm(disease.diseaseName, input.language, 'disease') ?? normalize(disease.diseaseName),
+          description: normalize(disease.description),
+          firstAid: normalize(disease.firstAid),
+          veterinaryAttention: normalize(disease.veterinaryAttention),
+        })),
+      }),
+      ...(preventiveCare && { preventiveCare: normalize(preventiveCare) }),
+    };
   }
 );
@@ -0,0 +1,94 @@
+// Loaded first so the flows are created against the fixture model.
+import '@/ai/testing/harness';
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { importVetDirectory, NATIONAL_HELPLINES } from '@/lib/server/vet-directory';
+import { findVetServices } from './find-vet-services';
+
+const ANAND = { latitude: 22.5645, longitude: 72.9289 };
+
+describe('findVetServices before a directory is imported', () => {
+  it('lists only the national helplines and says the directory is not loaded', async () => {
+    const result = await findVetServices({ location: 'Anand', language: 'en' });
+
+    assert.deepEqual(
+      result.services.map(service => service.name),
+      NATIONAL_HELPLINES.map(helpline => helpline.name)
+    );
+    assert.equal(result.directoryLoaded, false);
+  });
+});
+
+describe('findVetServices', () => {
+  before(async () => {
+    await importVetDirectory([
+      {
+        name: 'Veterinary Hospital Anand',
+        type: 'Hospital',
+        address: 'Station Road',
+        district: 'Anand',
+        state: 'Gujarat',
+        pincode: '388001',
+        phone: '02692 260000',
+        latitude: ANAND.latitude,
+        longitude: ANAND.longitude,
+        verified: true,
+      },
+      {
+        name: 'Nadiad Veterinary Clinic',
+        type: 'Clinic',
+        address: 'College Road',
+        district: 'Kheda',
+        state: 'Gujarat',
+        phone: '0268 2550000',
+        latitude: 22.6916,
+        longitude: 72.8634,
+      },
+      {
+        name: 'Delhi Veterinary Hospital',
+        type: 'Hospital',
+        address: 'Tis Hazari',
+        district: 'Delhi',
+        state: 'Delhi',
+        phone: '011 23900000',
+        latitude: 28.6667,
+        longitude: 77.2167,
+        verified: true,
+      },
+    ]);
+  });
+
+  it('needs a location or coordinates', async () => {
+    await assert.rejects(findVetServices({ language: 'en' }), /Either a location or coordinates are required/);
+  });
+
+  it('lists nearby services by distance after the national helplines', async () => {
+    const { services, directoryLoaded } = await findVetServices({ coordinates: ANAND, language: 'en' });
+
+    assert.deepEqual(
+      services.map(service => service.name),
+      [...NATIONAL_HELPLINES.map(helpline => helpline.name), 'Veterinary Hospital Anand', 'Nadiad Veterinary Clinic']
+    );
+    const [hospital, clinic] = services.slice(NATIONAL_HELPLINES.length);
+    assert.equal(hospital.distanceKm, 0);
+    assert.ok(clinic.distanceKm! > 10 && clinic.distanceKm! < 20);
+    assert.equal(clinic.distanceKm, Math.round(clinic.distanceKm! * 10) / 10);
+    assert.equal(directoryLoaded, true);
+  });
+
+  it('matches a typed district and flags unchecked entries', async () => {
+    const { services } = await findVetServices({ location: 'Kheda', language: 'en' });
+
+    const clinic = services.find(service => service.name === 'Nadiad Veterinary Clinic');
+    assert.deepEqual(clinic, {
+      name: 'Nadiad Veterinary Clinic',
+      address: 'College Road, Kheda, Gujarat',
+      phone: '0268 2550000',
+      type: 'Clinic',
+      verified: false,
+      coordinates: { latitude: 22.6916, longitude: 72.8634 },
+      distanceKm: undefined,
+    });
+    assert.equal(services.some(service => service.name === 'Delhi Veterinary Hospital'), false);
+  });
+});
@@ -2,6 +2,13 @@
 /**
  * @fileOverview A flow to find nearby veterinary services.
  *
+ * Services come from the curated vet directory, never from the model, so every phone
+ * number shown to a farmer has a real source. Entries that have not been checked against
+ * that source are returned with `verified: false` so the UI can flag them. When the device's
+ * coordinates are known, services are sorted by straight-line distance from them. Until a
+ * directory has been imported only the national helplines are listed, and `directoryLoaded`
+ * says so.
+ *
  * - findVetServices - A function that takes a location and returns a list of veterinary services.
  * - FindVetServicesInput - The input type for the findVetServices function.
  * - FindVetServicesOutput - The return type for the findVetServices function.
@@ -9,43 +16,45 @@
 
 import { ai } from '@/ai/genkit';
 import { z } from 'genkit';
+import { VET_SERVICE_TYPES, isVetDirectoryLoaded, searchVetDirectory } from '@/lib/server/vet-directory';
+
+const GeoPointSchema = z.object({
+  latitude: z.number().describe('Latitude in decimal degrees.'),
+  longitude: z.number().describe('Longitude in decimal degrees.'),
+});
 
 const VetServiceSchema = z.object({
   name: z.string().describe('The name of the veterinary hospital or clinic.'),
   address: z.string().describe('The physical address of the service.'),
   phone: z.string().describe('The contact phone number.'),
-  type: z.enum(['Hospital', 'Clinic', 'Helpline']).describe('The type of service.'),
+  type: z.enum(VET_SERVICE_TYPES).describe('The type of service.'),
+  verified: z.boolean().describe('Whether the entry has been checked against an official source.'),
+  coordinates: GeoPointSchema.optional().describe('Where the service is, if the directory knows.'),
+  distanceKm: z.number().optional().describe('Straight-line distance from the user, in kilometres.'),
 });
 
-const FindVetServicesInputSchema = z.object({
-  location: z.string().describe('The user\'s city, district, or pincode.'),
-  language: z.string().describe('The language for the response (e.g., "en" or "hi").'),
-});
+const FindVetServicesInputSchema = z
+  .object({
+    location: z.string().optional().describe('The user\'s city, district, or pincode.'),
+    coordinates: GeoPointSchema.optional().describe('The device\'s position, when the user shares it.'),
+    language: z.string().describe('The language for the response (e.g., "en", "hi" or "ta").'),
+  })
+  .refine(input => input.location?.trim() || input.coordinates, {
+    message: 'Either a location or coordinates are required.',
+  });
 export type FindVetServicesInput = z.infer<typeof FindVetServicesInputSchema>;
 
 const FindVetServicesOutputSchema = z.object({
   services: z.array(VetServiceSchema).describe('A list of nearby veterinary services.'),
+  directoryLoaded: z.boolean().describe('False when no vet directory has been imported, so only national helplines are listed.'),
 });
 export type FindVetServicesOutput = z.infer<typeof FindVetServicesOutputSchema>;
 
 export async function findVetServices(input: FindVetServicesInput): Promise<FindVetServicesOutput> {
-  return findVetServicesFlow(input);
+  // Genkit validates flow input against the JSON schema, which cannot express the refinement.
+  return findVetServicesFlow(FindVetServicesInputSchema.parse(input));
 }
 
-const findVetPrompt = ai.definePrompt({
-  name: 'findVetServicesPrompt',
-  input: { schema: FindVetServicesInputSchema },
-  output: { schema: FindVetServicesOutputSchema },
-  prompt: `You are a helpful assistant for Indian farmers. A user needs to find emergency veterinary help for their animal.
-    Based on the provided location, generate a list of 3 to 5 plausible and realistic-sounding veterinary hospitals, clinics, or government animal husbandry helplines.
-
-    For each service, provide a name, a plausible-looking address within the given location, a contact phone number, and the type of service.
-    The response must be in the language: {{{language}}}.
-    
-    Location: "{{{location}}}"
-  `,
-});
-
 const findVetServicesFlow = ai.defineFlow(
   {
     name: 'findVetServicesFlow',
@@ -53,7 +62,18 @@ const findVetServicesFlow = ai.defineFlow(
     outputSchema: FindVetServicesOutputSchema,
   },
   async (input) => {
-    const { output } = await findVetPrompt(input);
-    return output!;
+    const entries = await searchVetDirectory({ location: input.location, coordinates: input.coordinates });
+    return {
+      services: entries.map(entry => ({
+        name: entry.name,
+        address: [entry.address, entry.district, entry.state, entry.pincode].filter(Boolean).join(', '),
+        phone: entry.phone,
+        type: entry.type,
+        verified: entry.verified,
+        coordinates: entry.coordinates,
+        distanceKm: entry.distanceKm === undefined ? undefined : Math.round(entry.distanceKm * 10) / 10,
+      })),
+      directoryLoaded: await isVetDirectoryLoaded(),
+    };
   }
 );
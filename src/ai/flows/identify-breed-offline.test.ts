@@ -0,0 +1,95 @@
+// Loaded first so the flows are created against the fixture model.
+import { clearRecordings, recordModelOutput, TEST_PHOTO } from '@/ai/testing/harness';
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { findBreedBySlug } from '@/lib/breed-data';
+import { breedDetails } from '@/lib/breed-matching';
+import { identifyBreedOffline } from './identify-breed-offline';
+
+const input = { photoDataUri: TEST_PHOTO, language: 'en' };
+
+const modelAnswer = (breedSuggestion: string, isAnimal = true) => ({
+  isAnimal,
+  breedSuggestion,
+  confidenceScore: 0.7,
+  description: 'Text written by the model.',
+  size: 'Medium',
+  colors: ['Brown'],
+  nutrition: 'Green fodder.',
+});
+
+describe('identifyBreedOffline', () => {
+  beforeEach(clearRecordings);
+
+  it('replaces the details of a catalogue breed with the catalogue text', async () => {
+    await recordModelOutput('identifyBreedOfflinePrompt', input, modelAnswer('murrah'));
+
+    const result = await identifyBreedOffline(input);
+
+    const murrah = findBreedBySlug('murrah')!;
+    assert.deepEqual(result, {
+      ...modelAnswer('murrah'),
+      description: murrah.description,
+      size: murrah.size,
+      colors: murrah.colors,
+      nutrition: murrah.nutrition,
+      verified: true,
+    });
+  });
+
+  it("gives the catalogue details in the farmer's language", async () => {
+    const hindi = { ...input, language: 'hi' };
+    const translated = {
+      description: 'हरियाणा की काली दुधारू भैंस।',
+      size: 'भैंसें लगभग 133 सेमी ऊँची और 450 किलो।',
+      colors: ['गहरा काला'],
+      nutrition: 'हरा चारा, भूसा और दाना।',
+    };
+    await recordModelOutput('identifyBreedOfflinePrompt', hindi, modelAnswer('murrah'));
+    await recordModelOutput(
+      'translateBreedDetailsPrompt',
+      { ...breedDetails(findBreedBySlug('murrah')!), language: 'hi' },
+      translated
+    );
+
+    const result = await identifyBreedOffline(hindi);
+
+    assert.deepEqual(result, { ...modelAnswer('murrah'), ...translated, verified: true });
+  });
+
+  it('keeps the model text for unknown animals and marks it unverified', async () => {
+    await recordModelOutput('identifyBreedOfflinePrompt', input, modelAnswer('unknown'));
+
+    const result = await identifyBreedOffline(input);
+
+    assert.deepEqual(result, { ...modelAnswer('unknown'), verified: false });
+  });
+
+  it('does not vouch for a breed when the photo is not of an animal', async () => {
+    await recordModelOutput('identifyBreedOfflinePrompt', input, {
+      ...modelAnswer('gir', false),
+      reason: 'No animal in the photo.',
+    });
+
+    const result = await identifyBreedOffline(input);
+
+    assert.equal(result.verified, false);
+    assert.equal(result.description, 'Text written by the model.');
+    assert.equal(result.reason, 'No animal in the photo.');
+  });
+
+  it('rejects an answer that is missing required fields', async () => {
+    const { confidenceScore, ...incomplete } = modelAnswer('gir');
+    await recordModelOutput('identifyBreedOfflinePrompt', input, incomplete);
+
+    await assert.rejects(identifyBreedOffline(input), /Schema validation failed/);
+  });
+
+  for (const answer of ['', 'null']) {
+    it(`rejects a model answer with no output (${JSON.stringify(answer)})`, async () => {
+      await recordModelOutput('identifyBreedOfflinePrompt', input, answer);
+
+      await assert.rejects(identifyBreedOffline(input), /Schema validation failed/);
+    });
+  }
+});
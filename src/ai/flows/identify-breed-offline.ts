@@ -1,15 +1,25 @@
 'use server';
 
 /**
- * @fileOverview Provides offline breed identification for cattle and buffaloes using a pre-trained AI model.
+ * @fileOverview Provides single-suggestion breed identification for cattle and buffaloes using a pre-trained AI model.
+ * This is the server-hosted variant; the scanner's offline mode runs on the device through
+ * `identifyBreedLocally` in `@/lib/offline-classifier`, which returns the same output shape.
  *
  * - identifyBreedOffline -  A function that takes an image of an animal and returns the AI's breed suggestion.
  * - IdentifyBreedOfflineInput - The input type for the identifyBreedOffline function.
  * - IdentifyBreedOfflineOutput - The return type for the identifyBreedOffline function.
+ *
+ * The suggestion is a catalogue breed ID. Breed details come from the catalogue, in the farmer's
+ * language through `translateBreedDetails`; for `unknown` animals the model's own text is
+ * returned with `verified` set to false.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {findBreedBySlug} from '@/lib/breed-data';
+import {normalizeTerms} from '@/lib/glossary';
+import {BreedIdSchema} from '@/ai/schemas/breed-id-schema';
+import {translateBreedDetails} from './translate-breed-details';
 
 const IdentifyBreedOfflineInputSchema = z.object({
   photoDataUri: z
@@ -17,20 +27,24 @@ const IdentifyBreedOfflineInputSchema = z.object({
     .describe(
       "A photo of the animal, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
     ),
-  language: z.string().describe('The language for the response (e.g., "en" or "hi").'),
+  language: z.string().describe('The language for the response (e.g., "en", "hi" or "ta").'),
 });
 export type IdentifyBreedOfflineInput = z.infer<typeof IdentifyBreedOfflineInputSchema>;
 
-const IdentifyBreedOfflineOutputSchema = z.object({
+const ModelOutputSchema = z.object({
     isAnimal: z.boolean().describe('Whether the image contains a cattle or buffalo.'),
     reason: z.string().optional().describe('Reason why the image is not valid (e.g., blurry, not an animal).'),
-    breedSuggestion: z.string().describe('The AI-suggested breed of the animal.'),
+    breedSuggestion: BreedIdSchema.describe('The catalogue ID of the AI-suggested breed.'),
     confidenceScore: z.number().describe('The confidence score of the breed suggestion (0-1).'),
     description: z.string().describe('A general description of the breed.'),
     size: z.string().describe('The approximate size of the breed (e.g., height and weight).'),
     colors: z.array(z.string()).describe('Common colors found in this breed.'),
     nutrition: z.string().describe('Typical nutritional requirements for the breed.'),
   });
+
+const IdentifyBreedOfflineOutputSchema = ModelOutputSchema.extend({
+    verified: z.boolean().describe('True when the details come from the breed catalogue rather than the model.'),
+});
 export type IdentifyBreedOfflineOutput = z.infer<typeof IdentifyBreedOfflineOutputSchema>;
 
 export async function identifyBreedOffline(input: IdentifyBreedOfflineInput): Promise<IdentifyBreedOfflineOutput> {
@@ -40,15 +54,18 @@ export async function identifyBreedOffline(input: IdentifyBreedOfflineInput): Pr
 const identifyBreedOfflinePrompt = ai.definePrompt({
   name: 'identifyBreedOfflinePrompt',
   input: {schema: IdentifyBreedOfflineInputSchema},
-  output: {schema: IdentifyBreedOfflineOutputSchema},
+  output: {schema: ModelOutputSchema},
   prompt: `You are an AI model that has been trained to identify the breed of Indian cattle and buffaloes based on images.
   First, determine if the image contains a cattle or buffalo. The image could be blurry, unclear, or of a different subject.
   If the image is not a clear photo of a cattle or buffalo, set isAnimal to false and provide a brief reason.
   If it is a valid image, set isAnimal to true, provide the breed suggestion, the confidence score of your prediction, and detailed information about the breed including a general description, approximate size (height and weight), common colors, and typical nutritional requirements.
 
   The confidence score should be between 0 and 1.
+  Identify the breed by its catalogue ID (e.g. "gir", "murrah", "hf-cross"). Use "unknown" for other crossbred animals or breeds that are not in the list.
 
-  The response should be in the language: {{{language}}}.
+  The response should be in the language: {{languageName language}}.
+  Write breed names with these terms, exactly as given:
+  {{glossary language "breed"}}
 
   Image: {{media url=photoDataUri}}
 
@@ -64,6 +81,16 @@ const identifyBreedOfflineFlow = ai.defineFlow(
   },
   async input => {
     const {output} = await identifyBreedOfflinePrompt(input);
-    return output!;
+    const breed = output!.isAnimal ? findBreedBySlug(output!.breedSuggestion) : undefined;
+    if (!breed) {
+      return {
+        ...output!,
+        description: normalizeTerms(output!.description, input.language),
+        nutrition: normalizeTerms(output!.nutrition, input.language),
+        verified: false,
+      };
+    }
+    const details = await translateBreedDetails({breedId: output!.breedSuggestion, language: input.language});
+    return {...output!, ...details, verified: true};
   }
 );
@@ -0,0 +1,49 @@
+// Loaded first so the flows are created against the fixture model.
+import { TEST_PHOTO } from '@/ai/testing/harness';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readLabelRecords } from '@/lib/server/label-store';
+import { improveModelAccuracy, ImproveModelAccuracyInput } from './improve-model-accuracy';
+
+const correction = (correctedBreed: string, clientId?: string): ImproveModelAccuracyInput => ({
+  imageDataUri: TEST_PHOTO,
+  correctedBreed,
+  originalSuggestions: [{ breed: 'gir', confidence: 0.6 }],
+  predictionMode: 'online',
+  language: 'en',
+  submittedBy: 'test-device',
+  clientId,
+});
+
+async function storedRecord(recordId: string) {
+  return (await readLabelRecords()).find(record => record.id === recordId);
+}
+
+describe('improveModelAccuracy', () => {
+  it('stores the correction as a label record', async () => {
+    const result = await improveModelAccuracy(correction('sahiwal'));
+
+    const record = await storedRecord(result.recordId);
+    assert.equal(record?.source, 'correction');
+    assert.equal(record?.label, 'sahiwal');
+    assert.deepEqual(record?.originalSuggestions, [{ breed: 'gir', confidence: 0.6 }]);
+    assert.match(result.message, new RegExp(result.recordId));
+  });
+
+  it('resolves breed names queued before breed IDs existed', async () => {
+    const matched = await improveModelAccuracy(correction('Sahival cow'));
+    const unmatched = await improveModelAccuracy(correction('Holstein bull from Canada'));
+
+    assert.equal((await storedRecord(matched.recordId))?.label, 'sahiwal');
+    assert.equal((await storedRecord(unmatched.recordId))?.label, 'unknown');
+  });
+
+  it('stores a replayed submission only once', async () => {
+    const first = await improveModelAccuracy(correction('murrah', 'client-1'));
+    const replay = await improveModelAccuracy(correction('murrah', 'client-1'));
+
+    assert.equal(replay.recordId, first.recordId);
+    const records = (await readLabelRecords()).filter(record => record.clientId === 'client-1');
+    assert.equal(records.length, 1);
+  });
+});
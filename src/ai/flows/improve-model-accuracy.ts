@@ -3,13 +3,16 @@
 /**
  * @fileOverview This file defines a Genkit flow for improving the AI model's accuracy using corrected breed data.
  *
- * - improveModelAccuracy - A function that triggers the model retraining process.
+ * - improveModelAccuracy - A function that stores a breed correction as labelled training data.
  * - ImproveModelAccuracyInput - The input type for the improveModelAccuracy function.
  * - ImproveModelAccuracyOutput - The return type for the improveModelAccuracy function.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {SubmittedBreedIdSchema} from '@/ai/schemas/breed-id-schema';
+import {toBreedId} from '@/lib/breed-matching';
+import {saveLabelRecord} from '@/lib/server/label-store';
 
 const ImproveModelAccuracyInputSchema = z.object({
   imageDataUri: z
@@ -17,12 +20,21 @@ const ImproveModelAccuracyInputSchema = z.object({
     .describe(
       "A photo of the animal, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
     ),
-  correctedBreed: z.string().describe('The corrected breed of the animal.'),
+  correctedBreed: SubmittedBreedIdSchema.describe('The catalogue ID of the corrected breed of the animal.'),
+  originalSuggestions: z
+    .array(z.object({breed: z.string(), confidence: z.number()}))
+    .describe('The breed suggestions the model returned, with their confidence scores.'),
+  predictionMode: z.enum(['online', 'offline']).describe('Which model produced the original suggestions.'),
+  language: z.string().describe('The language the scanner was used in (e.g., "en", "hi" or "ta").'),
+  submittedBy: z.string().describe('An identifier for the field worker or device that submitted the correction.'),
+  capturedAt: z.string().datetime().optional().describe('When the correction was made on the device, if known.'),
+  clientId: z.string().optional().describe('A client-generated identifier that makes replayed submissions idempotent.'),
 });
 export type ImproveModelAccuracyInput = z.infer<typeof ImproveModelAccuracyInputSchema>;
 
 const ImproveModelAccuracyOutputSchema = z.object({
-  message: z.string().describe('A message indicating the status of the retraining process.'),
+  recordId: z.string().describe('The identifier of the stored label record.'),
+  message: z.string().describe('A message indicating that the correction was stored.'),
 });
 export type ImproveModelAccuracyOutput = z.infer<typeof ImproveModelAccuracyOutputSchema>;
 
@@ -32,36 +44,22 @@ export async function improveModelAccuracy(
   return improveModelAccuracyFlow(input);
 }
 
-const improveModelAccuracyPrompt = ai.definePrompt({
-  name: 'improveModelAccuracyPrompt',
-  prompt: `You are an AI model retraining pipeline.  You have received new data from a user who has corrected a misclassification of an animal breed.
-
-  The image of the animal is represented by this data: {{media url=imageDataUri}}.
-  The user has indicated that the animal is of breed: {{{correctedBreed}}}.
-
-  Generate a message that confirms that this new information has been received and that the model retraining pipeline will be triggered.
-  {
-    "message": "Confirmation message"
-  }
-  `,
-  input: {schema: ImproveModelAccuracyInputSchema},
-  output: {schema: ImproveModelAccuracyOutputSchema},
-});
-
 const improveModelAccuracyFlow = ai.defineFlow(
   {
     name: 'improveModelAccuracyFlow',
     inputSchema: ImproveModelAccuracyInputSchema,
     outputSchema: ImproveModelAccuracyOutputSchema,
   },
-  async input => {
-    const {output} = await improveModelAccuracyPrompt(input);
-    // TODO: Trigger model retraining pipeline here.
-    // This is a placeholder for the actual retraining process.
-    // It should involve sending the image and corrected breed to a service
-    // that handles the retraining of the AI model.
+  async ({imageDataUri, correctedBreed, ...details}) => {
+    const record = await saveLabelRecord({
+      ...details,
+      imageDataUri,
+      source: 'correction',
+      label: toBreedId(correctedBreed),
+    });
     return {
-      message: `Received corrected breed data for retraining: ${output?.message}. Retraining pipeline triggered.`, //Improved typing
+      recordId: record.id,
+      message: `Stored correction ${record.id} (${record.label}) for the next retraining run.`,
     };
   }
 );
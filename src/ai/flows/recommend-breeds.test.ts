@@ -0,0 +1,165 @@
+// Loaded first so the flows are created against the fixture model.
+import { clearRecordings, recordModelOutput } from '@/ai/testing/harness';
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BreedData, indianBreedData } from '@/lib/breed-data';
+import { DEFAULT_ECONOMICS, monthlyEconomics } from '@/lib/economics';
+import { RecommendBreedsInput } from '@/ai/schemas/recommend-breeds-schema';
+import { recommendBreeds } from './recommend-breeds';
+
+const baseInput: RecommendBreedsInput = {
+  goal: 'milk',
+  budget: 60000,
+  landSize: 2,
+  regionalClimate: 'Hot and Dry',
+  language: 'en',
+};
+
+const breedNamed = (name: string) => indianBreedData.find(breed => breed.breedName === name);
+
+/** The model only writes pros and cons; any prompt input gets the same answer. */
+async function recordProsAndCons(count = 3) {
+  await recordModelOutput(
+    'recommendationPrompt',
+    { language: 'en', goal: 'milk', breeds: [] },
+    {
+      recommendedBreeds: Array.from({ length: count }, (_, i) => ({
+        pros: `Pros ${i + 1}`,
+        cons: `Cons ${i + 1}`,
+      })),
+    },
+    { anyInput: true }
+  );
+}
+
+describe('recommendBreeds', () => {
+  beforeEach(clearRecordings);
+
+  it('only recommends breeds within budget that suit the climate', async () => {
+    await recordProsAndCons();
+
+    const { recommendedBreeds } = await recommendBreeds({ ...baseInput, regionalClimate: 'Cold', budget: 40000 });
+
+    assert.ok(recommendedBreeds.length > 0);
+    for (const rec of recommendedBreeds) {
+      const breed = breedNamed(rec.breedName);
+      assert.ok(breed, `${rec.breedName} is not a catalogue breed`);
+      assert.ok(
+        breed.marketPrice <= 40000 && breed.climateSuitability.includes('Cold'),
+        `recommendation ${rec.breedName} breaks the filters`
+      );
+    }
+  });
+
+  it('only recommends low-maintenance breeds for the low-maintenance goal', async () => {
+    await recordProsAndCons(1);
+
+    // Motu is the only low-maintenance breed for a hot and humid climate at this budget.
+    const { recommendedBreeds } = await recommendBreeds({
+      ...baseInput,
+      goal: 'low-maintenance',
+      regionalClimate: 'Hot and Humid',
+      budget: 20000,
+    });
+
+    assert.deepEqual(
+      recommendedBreeds.map(rec => rec.breedName),
+      ['Motu']
+    );
+  });
+
+  it('scores and prices a breed from the catalogue, not the model', async () => {
+    await recordProsAndCons(1);
+    const motu: BreedData = breedNamed('Motu')!;
+
+    const [rec] = (
+      await recommendBreeds({ ...baseInput, goal: 'low-maintenance', regionalClimate: 'Hot and Humid', budget: 20000 })
+    ).recommendedBreeds;
+
+    const { monthlyIncome, monthlyCost, milkPricePerLitre } = monthlyEconomics(motu, DEFAULT_ECONOMICS);
+    const profit = monthlyIncome - monthlyCost;
+    const milkYieldScore = Math.max(0, Math.min(1, (motu.milkYield - 1) / 14)) * 10;
+    const roiScore = Math.max(0, Math.min(1, (profit + 5000) / 25000)) * 10;
+    const careRequirementScore = 10 - 1; // Low care
+    // Low-maintenance weights: milk 0.1, ROI 0.3, care 0.4, climate 0.1.
+    const overall = milkYieldScore * 0.1 + roiScore * 0.3 + careRequirementScore * 0.4 + 10 * 0.1;
+
+    assert.equal(rec.breedName, 'Motu');
+    assert.equal(rec.pros, 'Pros 1');
+    assert.equal(rec.cons, 'Cons 1');
+    assert.equal(rec.roi, Math.round(((profit * 12) / motu.marketPrice) * 100));
+    assert.equal(rec.monthlyIncome, Math.round(monthlyIncome));
+    assert.equal(rec.monthlyCost, Math.round(monthlyCost));
+    assert.equal(rec.milkPricePerLitre, Math.round(milkPricePerLitre * 100) / 100);
+    assert.equal(rec.overallScore, Math.round(Math.min(10, overall) * 10) / 10);
+    assert.deepEqual(rec.scores, {
+      milkYieldScore: Math.round(milkYieldScore),
+      strengthScore: motu.strength === 'High' ? 10 : motu.strength === 'Medium' ? 5 : 1,
+      careRequirementScore,
+      roiScore: Math.round(roiScore),
+      climateMatchScore: 10,
+    });
+    assert.equal(rec.projection.years.length, 8);
+  });
+
+  it('returns the top three breeds, best first', async () => {
+    await recordProsAndCons();
+
+    const { recommendedBreeds, herdPlan } = await recommendBreeds({ ...baseInput, goal: 'draught', budget: 100000 });
+
+    assert.equal(recommendedBreeds.length, 3);
+    const scores = recommendedBreeds.map(rec => rec.overallScore);
+    assert.deepEqual(scores, [...scores].sort((a, b) => b - a));
+    for (const score of scores) {
+      assert.ok(score >= 0 && score <= 10);
+    }
+    assert.equal(herdPlan, undefined);
+  });
+
+  it('drops breeds the model wrote no text for', async () => {
+    await recordProsAndCons(2);
+
+    const { recommendedBreeds } = await recommendBreeds(baseInput);
+
+    assert.deepEqual(
+      recommendedBreeds.map(rec => rec.pros),
+      ['Pros 1', 'Pros 2']
+    );
+  });
+
+  it('plans a herd in herd mode', async () => {
+    await recordProsAndCons();
+
+    const { herdPlan } = await recommendBreeds({ ...baseInput, mode: 'herd', budget: 300000, labour: 2 });
+
+    assert.ok(herdPlan);
+    assert.ok(herdPlan.totalInvestment <= 300000);
+    assert.equal(
+      herdPlan.totalAnimals,
+      herdPlan.animals.reduce((sum, animal) => sum + animal.count, 0)
+    );
+  });
+
+  it('returns no recommendations, without asking the model, when no breed fits', async () => {
+    // Nothing is recorded, so calling the model would fail.
+    const result = await recommendBreeds({ ...baseInput, budget: 1000 });
+
+    assert.deepEqual(result, { recommendedBreeds: [], herdPlan: undefined });
+  });
+
+  it('plans an empty herd when no breed fits', async () => {
+    const { herdPlan } = await recommendBreeds({ ...baseInput, mode: 'herd', budget: 1000 });
+
+    assert.equal(herdPlan?.totalAnimals, 0);
+  });
+
+  for (const answer of ['', 'I recommend Gir.']) {
+    it(`rejects a model answer with no output (${JSON.stringify(answer)})`, async () => {
+      await recordModelOutput('recommendationPrompt', { language: 'en', goal: 'milk', breeds: [] }, answer, {
+        anyInput: true,
+      });
+
+      await assert.rejects(recommendBreeds(baseInput), /Schema validation failed/);
+    });
+  }
+});
@@ -3,18 +3,26 @@
 /**
  * @fileOverview A breed recommendation engine for Indian farmers.
  *
- * - recommendBreeds - A function that takes farmer inputs and recommends suitable breeds.
+ * - recommendBreeds - A function that takes farmer inputs and recommends suitable breeds,
+ *   and in herd mode also plans the best mix of animals for the farm.
  */
 
 import { ai } from '@/ai/genkit';
 import { z } from 'genkit';
 import { indianBreedData } from '@/lib/breed-data';
+import { monthlyEconomics } from '@/lib/economics';
+import { projectCashFlows } from '@/lib/cash-flow-projection';
+import { planHerd } from '@/lib/herd-planner';
+import { normalizeTerms } from '@/lib/glossary';
 import {
   RecommendBreedsInput,
+  RecommendBreedsInputSchema,
   RecommendBreedsOutput,
-  RecommendBreedsOutputSchema,
 } from '@/ai/schemas/recommend-breeds-schema';
 
+// Number of top-scoring breeds the herd planner mixes from.
+const HERD_CANDIDATES = 4;
+
 // Helper functions for scoring
 const normalize = (value: number, min: number, max: number) => {
     if (max === min) return 1;
@@ -36,11 +44,23 @@ const recommendationPrompt = ai.definePrompt({
       breeds: z.array(z.any()),
     }),
   },
-  output: { schema: RecommendBreedsOutputSchema },
+  // The model only writes the text; names and numbers come from the catalogue, scoring and projection code.
+  output: {
+    schema: z.object({
+      recommendedBreeds: z.array(
+        z.object({
+          pros: z.string().describe('The key advantages of this breed for the farmer.'),
+          cons: z.string().describe('The key disadvantages or challenges of this breed for the farmer.'),
+        })
+      ).describe('One entry per breed, in the order the breeds are given.'),
+    }),
+  },
   prompt: `
     You are an agricultural advisor for Indian farmers.
     Based on the farmer's goal and the provided data for each breed, generate a short "pros" and "cons" summary.
-    The response must be in the language: {{{language}}}.
+    The response must be in the language: {{languageName language}}.
+    In the pros and cons, write breed names, diseases and medicines with these terms, exactly as given:
+    {{glossary language "breed" "disease" "drugClass"}}
     The output must be a valid JSON object following the specified schema. Do not include any other text, formatting, or explanations.
     
     Farmer's Goal: {{{goal}}}
@@ -51,10 +71,12 @@ const recommendationPrompt = ai.definePrompt({
 });
 
 
-export async function recommendBreeds(input: RecommendBreedsInput): Promise<RecommendBreedsOutput> {
+export async function recommendBreeds(rawInput: RecommendBreedsInput): Promise<RecommendBreedsOutput> {
+  const input = RecommendBreedsInputSchema.parse(rawInput);
+
   // 1. Filter breeds based on hard constraints
   let filteredBreeds = indianBreedData.filter(breed => {
-    // Budget filter
+    // Budget filter (in herd mode the budget covers the whole herd, so at least one animal must fit)
     if (breed.marketPrice > input.budget) {
       return false;
     }
@@ -71,7 +93,10 @@ export async function recommendBreeds(input: RecommendBreedsInput): Promise<Reco
 
   // Handle case where no breeds match filters
   if (filteredBreeds.length === 0) {
-      return { recommendedBreeds: [] };
+      return {
+        recommendedBreeds: [],
+        herdPlan: input.mode === 'herd' ? planHerd([], input) : undefined,
+      };
   }
 
   // 2. Score the filtered breeds
@@ -82,10 +107,7 @@ export async function recommendBreeds(input: RecommendBreedsInput): Promise<Reco
     const careRequirementScore = 10 - getScore(breed.careLevel); // Inverted score
     const climateMatchScore = 10; // Already filtered, so it's a perfect match
     
-    // Assumes an average milk price of ₹55/liter
-    const monthlyIncome = breed.milkYield * 30 * 55;
-    const maintenanceMapping = { 'Low': 3000, 'Medium': 5000, 'High': 8000 };
-    const monthlyCost = maintenanceMapping[breed.maintenanceCost];
+    const { monthlyIncome, monthlyCost, milkPricePerLitre } = monthlyEconomics(breed, input.economics);
     const estimatedProfit = monthlyIncome - monthlyCost;
     const roiScore = normalize(estimatedProfit, -5000, 20000) * 10;
     
@@ -131,21 +153,40 @@ export async function recommendBreeds(input: RecommendBreedsInput): Promise<Reco
         roiScore: Math.round(roiScore),
         climateMatchScore: Math.round(climateMatchScore),
       },
-      roi: Math.round(roi)
+      roi: Math.round(roi),
+      monthlyIncome: Math.round(monthlyIncome),
+      monthlyCost: Math.round(monthlyCost),
+      milkPricePerLitre: Math.round(milkPricePerLitre * 100) / 100,
     };
   });
 
   // 4. Sort and select top 3
-  const topBreeds = scoredBreeds.sort((a, b) => b.overallScore - a.overallScore).slice(0, 3);
+  const rankedBreeds = scoredBreeds.sort((a, b) => b.overallScore - a.overallScore);
+  const topBreeds = rankedBreeds.slice(0, 3);
+
+  // In herd mode, mix the best-suited breeds within the farm's budget, land and labour
+  const herdPlan =
+    input.mode === 'herd'
+      ? planHerd(
+          rankedBreeds.slice(0, HERD_CANDIDATES).map(({ breed }) => ({
+            breedName: breed.breedName,
+            price: breed.marketPrice,
+            feedRequirement: breed.feedRequirement,
+            ...monthlyEconomics(breed, input.economics),
+          })),
+          input
+        )
+      : undefined;
   
   // 5. Use Genkit to format the output with translated pros and cons
   const breedsForPrompt = topBreeds.map(b => ({
-      breedName: b.breed.breedName,
+      // Pass the raw data so the LLM can make a good summary
+      ...b.breed,
       overallScore: b.overallScore,
       roi: b.roi,
-      careLevel: b.breed.careLevel,
-      // Pass the raw data so the LLM can make a good summary
-      ...b.breed
+      monthlyIncome: b.monthlyIncome,
+      monthlyCost: b.monthlyCost,
+      milkPricePerLitre: b.milkPricePerLitre,
   }));
 
   const { output } = await recommendationPrompt({
@@ -166,13 +207,22 @@ export async function recommendBreeds(input: RecommendBreedsInput): Promise<Reco
         if (!originalBreedData) return null;
         
         return {
-            ...rec, // pros, cons, breedName from LLM
+            breedName: originalBreedData.breed.breedName,
+            pros: normalizeTerms(rec.pros, input.language),
+            cons: normalizeTerms(rec.cons, input.language),
             overallScore: originalBreedData.overallScore,
             roi: originalBreedData.roi,
+            monthlyIncome: originalBreedData.monthlyIncome,
+            monthlyCost: originalBreedData.monthlyCost,
+            milkPricePerLitre: originalBreedData.milkPricePerLitre,
+            fatPercentage: originalBreedData.breed.fatPercentage,
+            snfPercentage: originalBreedData.breed.snfPercentage,
+            projection: projectCashFlows(originalBreedData.breed, input.economics, input.projectionYears),
             careLevel: originalBreedData.breed.careLevel,
             scores: originalBreedData.scores
         }
-    }).filter(b => b !== null) as RecommendBreedsOutput['recommendedBreeds'] // Filter out any nulls
+    }).filter(b => b !== null) as RecommendBreedsOutput['recommendedBreeds'], // Filter out any nulls
+    herdPlan,
   };
 
   return combinedResult;
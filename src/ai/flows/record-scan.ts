@@ -0,0 +1,52 @@
+'use server';
+
+/**
+ * @fileOverview This file defines a Genkit flow that records a completed scan for auditing and later labelling.
+ *
+ * - recordScan - A function that stores a scan and the breed suggestions it produced.
+ * - RecordScanInput - The input type for the recordScan function.
+ * - RecordScanOutput - The return type for the recordScan function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {saveScanRecord} from '@/lib/server/scan-store';
+
+const RecordScanInputSchema = z.object({
+  imageDataUri: z
+    .string()
+    .describe(
+      "A photo of the animal, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
+    ),
+  predictionMode: z.enum(['online', 'offline']).describe('Which model produced the suggestions.'),
+  isAnimal: z.boolean().describe('Whether the model accepted the image as a cattle or buffalo.'),
+  suggestions: z
+    .array(z.object({breed: z.string(), confidence: z.number()}))
+    .describe('The breed suggestions the model returned, with their confidence scores.'),
+  language: z.string().describe('The language the scanner was used in (e.g., "en", "hi" or "ta").'),
+  submittedBy: z.string().describe('An identifier for the field worker or device that made the scan.'),
+  capturedAt: z.string().datetime().optional().describe('When the scan was made on the device, if known.'),
+  clientId: z.string().optional().describe('A client-generated identifier that makes replayed submissions idempotent.'),
+});
+export type RecordScanInput = z.infer<typeof RecordScanInputSchema>;
+
+const RecordScanOutputSchema = z.object({
+  recordId: z.string().describe('The identifier of the stored scan record.'),
+});
+export type RecordScanOutput = z.infer<typeof RecordScanOutputSchema>;
+
+export async function recordScan(input: RecordScanInput): Promise<RecordScanOutput> {
+  return recordScanFlow(input);
+}
+
+const recordScanFlow = ai.defineFlow(
+  {
+    name: 'recordScanFlow',
+    inputSchema: RecordScanInputSchema,
+    outputSchema: RecordScanOutputSchema,
+  },
+  async input => {
+    const record = await saveScanRecord(input);
+    return {recordId: record.id};
+  }
+);
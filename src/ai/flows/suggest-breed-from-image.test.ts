@@ -0,0 +1,137 @@
+// Loaded first so the flows are created against the fixture model.
+import { clearRecordings, recordModelOutput, TEST_PHOTO } from '@/ai/testing/harness';
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ai } from '@/ai/genkit';
+import { findBreedBySlug } from '@/lib/breed-data';
+import { breedDetails } from '@/lib/breed-matching';
+import { suggestBreedFromImage } from './suggest-breed-from-image';
+
+const input = { photoDataUri: TEST_PHOTO, language: 'en' };
+
+const modelSuggestion = (breedId: string, confidence: number) => ({
+  breedId,
+  confidence,
+  description: 'Text written by the model.',
+  size: 'Medium',
+  colors: ['Brown'],
+  nutrition: 'Green fodder.',
+});
+
+describe('suggestBreedFromImage', () => {
+  beforeEach(clearRecordings);
+
+  it('replaces the details of catalogue breeds with the catalogue text', async () => {
+    await recordModelOutput('suggestBreedFromImagePrompt', input, {
+      isAnimal: true,
+      breedSuggestions: [modelSuggestion('gir', 0.8)],
+    });
+
+    const result = await suggestBreedFromImage(input);
+
+    const gir = findBreedBySlug('gir')!;
+    assert.equal(result.isAnimal, true);
+    assert.deepEqual(result.breedSuggestions, [
+      {
+        breedId: 'gir',
+        confidence: 0.8,
+        description: gir.description,
+        size: gir.size,
+        colors: gir.colors,
+        nutrition: gir.nutrition,
+        verified: true,
+      },
+    ]);
+  });
+
+  it("gives the catalogue details in the farmer's language", async () => {
+    const hindi = { ...input, language: 'hi' };
+    const translated = {
+      description: 'गुजरात की देसी दुधारू नस्ल।',
+      size: 'गायें लगभग 130 सेमी ऊँची और 385 किलो।',
+      colors: ['लाल', 'चॉकलेटी भूरा'],
+      nutrition: 'हरा चारा और खली।',
+    };
+    await recordModelOutput('suggestBreedFromImagePrompt', hindi, {
+      isAnimal: true,
+      breedSuggestions: [modelSuggestion('gir', 0.8)],
+    });
+    await recordModelOutput(
+      'translateBreedDetailsPrompt',
+      { ...breedDetails(findBreedBySlug('gir')!), language: 'hi' },
+      translated
+    );
+
+    const result = await suggestBreedFromImage(hindi);
+
+    assert.deepEqual(result.breedSuggestions, [{ breedId: 'gir', confidence: 0.8, ...translated, verified: true }]);
+  });
+
+  it('keeps the model text for unknown animals and marks it unverified', async () => {
+    await recordModelOutput('suggestBreedFromImagePrompt', input, {
+      isAnimal: true,
+      breedSuggestions: [modelSuggestion('unknown', 0.4)],
+    });
+
+    const result = await suggestBreedFromImage(input);
+
+    assert.deepEqual(result.breedSuggestions, [{ ...modelSuggestion('unknown', 0.4), verified: false }]);
+  });
+
+  it('keeps only the most confident suggestion for a repeated breed', async () => {
+    await recordModelOutput('suggestBreedFromImagePrompt', input, {
+      isAnimal: true,
+      breedSuggestions: [
+        modelSuggestion('unknown', 0.2),
+        modelSuggestion('sahiwal', 0.5),
+        modelSuggestion('unknown', 0.3),
+      ],
+    });
+
+    const result = await suggestBreedFromImage(input);
+
+    assert.deepEqual(
+      result.breedSuggestions.map(s => [s.breedId, s.confidence]),
+      [
+        ['unknown', 0.3],
+        ['sahiwal', 0.5],
+      ]
+    );
+  });
+
+  it('passes on the reason when the photo is not of an animal', async () => {
+    await recordModelOutput('suggestBreedFromImagePrompt', input, {
+      isAnimal: false,
+      reason: 'The photo is too blurry.',
+      breedSuggestions: [],
+    });
+
+    const result = await suggestBreedFromImage(input);
+
+    assert.deepEqual(result, { isAnimal: false, reason: 'The photo is too blurry.', breedSuggestions: [] });
+  });
+
+  it('rejects breed IDs outside the catalogue vocabulary', async () => {
+    await recordModelOutput('suggestBreedFromImagePrompt', input, {
+      isAnimal: true,
+      breedSuggestions: [modelSuggestion('holstein-bull', 0.9)],
+    });
+
+    await assert.rejects(suggestBreedFromImage(input), /Schema validation failed/);
+  });
+
+  it('asks for the answer in the language by name', async () => {
+    const { messages } = await ai.prompt('suggestBreedFromImagePrompt').render({ ...input, language: 'mr' });
+
+    const text = messages!.flatMap(message => message.content.map(part => part.text ?? '')).join('');
+    assert.match(text, /in the language: Marathi\./);
+  });
+
+  for (const answer of ['', 'Sorry, I cannot help with that.', 'null']) {
+    it(`rejects a model answer with no output (${JSON.stringify(answer)})`, async () => {
+      await recordModelOutput('suggestBreedFromImagePrompt', input, answer);
+
+      await assert.rejects(suggestBreedFromImage(input), /Schema validation failed/);
+    });
+  }
+});
@@ -5,10 +5,19 @@
  * - suggestBreedFromImage - A function that takes an image and returns breed suggestions.
  * - SuggestBreedFromImageInput - The input type for the suggestBreedFromImage function.
  * - SuggestBreedFromImageOutput - The return type for the suggestBreedFromImage function.
+ *
+ * The model picks a breed ID from the catalogue. Description, size, colours and nutrition come
+ * from the catalogue, in the farmer's language through `translateBreedDetails`; the model's own
+ * text is kept, marked unverified, for `unknown` animals, with breed names rewritten to the
+ * glossary's terms.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {findBreedBySlug} from '@/lib/breed-data';
+import {normalizeTerms} from '@/lib/glossary';
+import {BreedIdSchema} from '@/ai/schemas/breed-id-schema';
+import {translateBreedDetails} from './translate-breed-details';
 
 const SuggestBreedFromImageInputSchema = z.object({
   photoDataUri: z
@@ -16,12 +25,12 @@ const SuggestBreedFromImageInputSchema = z.object({
     .describe(
       "A photo of cattle or buffalo, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
     ),
-  language: z.string().describe('The language for the response (e.g., "en" or "hi").'),
+  language: z.string().describe('The language for the response (e.g., "en", "hi" or "ta").'),
 });
 export type SuggestBreedFromImageInput = z.infer<typeof SuggestBreedFromImageInputSchema>;
 
 const BreedInfoSchema = z.object({
-    breed: z.string().describe('The name of the breed.'),
+    breedId: BreedIdSchema,
     confidence: z.number().describe('The confidence score for this breed suggestion.'),
     description: z.string().describe('A general description of the breed.'),
     size: z.string().describe('The approximate size of the breed (e.g., height and weight).'),
@@ -29,13 +38,21 @@ const BreedInfoSchema = z.object({
     nutrition: z.string().describe('Typical nutritional requirements for the breed.'),
 });
 
-const SuggestBreedFromImageOutputSchema = z.object({
+const GroundedBreedInfoSchema = BreedInfoSchema.extend({
+    verified: z.boolean().describe('True when the details come from the breed catalogue rather than the model.'),
+});
+
+const ModelOutputSchema = z.object({
     isAnimal: z.boolean().describe('Whether the image contains a cattle or buffalo.'),
     reason: z.string().optional().describe('Reason why the image is not valid (e.g., blurry, not an animal).'),
     breedSuggestions: z
         .array(BreedInfoSchema)
         .describe('An array of breed suggestions, each including detailed information.'),
 });
+
+const SuggestBreedFromImageOutputSchema = ModelOutputSchema.extend({
+    breedSuggestions: z.array(GroundedBreedInfoSchema),
+});
 export type SuggestBreedFromImageOutput = z.infer<typeof SuggestBreedFromImageOutputSchema>;
 
 export async function suggestBreedFromImage(input: SuggestBreedFromImageInput): Promise<SuggestBreedFromImageOutput> {
@@ -45,13 +62,16 @@ export async function suggestBreedFromImage(input: SuggestBreedFromImageInput):
 const suggestBreedFromImagePrompt = ai.definePrompt({
   name: 'suggestBreedFromImagePrompt',
   input: {schema: SuggestBreedFromImageInputSchema},
-  output: {schema: SuggestBreedFromImageOutputSchema},
+  output: {schema: ModelOutputSchema},
   prompt: `You are an AI breed recognition system for Indian cattle and buffaloes.
   First, determine if the image contains a cattle or buffalo. The image could be blurry, unclear, or of a different subject.
   If the image is not a clear photo of a cattle or buffalo, set isAnimal to false and provide a brief reason.
-  If it is a valid image, set isAnimal to true and suggest up to 3 breeds. For each suggestion, provide the breed name, a confidence score, a general description, approximate size (height and weight), common colors, and typical nutritional requirements.
+  If it is a valid image, set isAnimal to true and suggest up to 3 breeds. For each suggestion, provide the breed ID, a confidence score, a general description, approximate size (height and weight), common colors, and typical nutritional requirements.
+  Identify the breed by its catalogue ID (e.g. "gir", "murrah", "hf-cross"). Use "unknown" for other crossbred animals or breeds that are not in the list.
 
-  The response should be in the language: {{{language}}}.
+  The response should be in the language: {{languageName language}}.
+  Write breed names with these terms, exactly as given:
+  {{glossary language "breed"}}
 
   Image: {{media url=photoDataUri}}
 
@@ -66,6 +86,30 @@ const suggestBreedFromImageFlow = ai.defineFlow(
   },
   async input => {
     const {output} = await suggestBreedFromImagePrompt(input);
-    return output!;
+    // The model may repeat a breed (most often "unknown"); keep the more confident suggestion.
+    const suggestions = new Map<string, z.infer<typeof BreedInfoSchema>>();
+    for (const suggestion of output!.breedSuggestions) {
+      const existing = suggestions.get(suggestion.breedId);
+      if (!existing || existing.confidence < suggestion.confidence) {
+        suggestions.set(suggestion.breedId, suggestion);
+      }
+    }
+    const breedSuggestions = await Promise.all(
+      [...suggestions.values()].map(async suggestion =>
+        findBreedBySlug(suggestion.breedId)
+          ? {
+              ...suggestion,
+              ...(await translateBreedDetails({breedId: suggestion.breedId, language: input.language})),
+              verified: true,
+            }
+          : {
+              ...suggestion,
+              description: normalizeTerms(suggestion.description, input.language),
+              nutrition: normalizeTerms(suggestion.nutrition, input.language),
+              verified: false,
+            }
+      )
+    );
+    return {...output!, breedSuggestions};
   }
 );
@@ -0,0 +1,43 @@
+// Loaded first so the flows are created against the fixture model.
+import { clearRecordings, recordModelOutput, TEST_AUDIO } from '@/ai/testing/harness';
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { transcribeAudio } from './transcribe-audio';
+
+const input = { audioDataUri: TEST_AUDIO, language: 'hi' };
+
+describe('transcribeAudio', () => {
+  beforeEach(clearRecordings);
+
+  it('returns what was said', async () => {
+    await recordModelOutput('transcribeAudioPrompt', input, { transcript: ' गाय दो दिन से चारा नहीं खा रही है। ' });
+
+    const result = await transcribeAudio(input);
+
+    assert.deepEqual(result, { transcript: 'गाय दो दिन से चारा नहीं खा रही है।' });
+  });
+
+  it('rewrites other names for a disease to the glossary term', async () => {
+    await recordModelOutput('transcribeAudioPrompt', input, { transcript: 'मुझे लगता है इसे एफएमडी है।' });
+
+    const result = await transcribeAudio(input);
+
+    assert.deepEqual(result, { transcript: 'मुझे लगता है इसे खुरपका-मुंहपका है।' });
+  });
+
+  it('returns an empty transcript for a silent recording', async () => {
+    await recordModelOutput('transcribeAudioPrompt', input, { transcript: '' });
+
+    const result = await transcribeAudio(input);
+
+    assert.deepEqual(result, { transcript: '' });
+  });
+
+  for (const answer of ['', 'The farmer says the cow is not eating.']) {
+    it(`rejects a model answer with no output (${JSON.stringify(answer)})`, async () => {
+      await recordModelOutput('transcribeAudioPrompt', input, answer);
+
+      await assert.rejects(transcribeAudio(input), /Schema validation failed/);
+    });
+  }
+});
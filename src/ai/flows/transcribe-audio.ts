@@ -0,0 +1,62 @@
+'use server';
+/**
+ * @fileOverview Transcribes a farmer's spoken description of an animal's symptoms.
+ * This is the server transcription used by voice input when the browser has no speech
+ * recognition of its own; see `@/lib/speech-to-text`.
+ *
+ * - transcribeAudio - A function that takes a voice recording and returns what was said.
+ * - TranscribeAudioInput - The input type for the transcribeAudio function.
+ * - TranscribeAudioOutput - The return type for the transcribeAudio function.
+ *
+ * Disease, symptom and medicine names in the transcript are rewritten to the glossary's terms.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {normalizeTerms} from '@/lib/glossary';
+
+const TranscribeAudioInputSchema = z.object({
+  audioDataUri: z
+    .string()
+    .describe(
+      "A voice recording, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
+    ),
+  language: z.string().describe('The language spoken in the recording (e.g., "en", "hi" or "ta").'),
+});
+export type TranscribeAudioInput = z.infer<typeof TranscribeAudioInputSchema>;
+
+const TranscribeAudioOutputSchema = z.object({
+  transcript: z.string().describe('What was said, word for word. Empty if nothing was said.'),
+});
+export type TranscribeAudioOutput = z.infer<typeof TranscribeAudioOutputSchema>;
+
+export async function transcribeAudio(input: TranscribeAudioInput): Promise<TranscribeAudioOutput> {
+  return transcribeAudioFlow(input);
+}
+
+const transcribeAudioPrompt = ai.definePrompt({
+  name: 'transcribeAudioPrompt',
+  input: {schema: TranscribeAudioInputSchema},
+  output: {schema: TranscribeAudioOutputSchema},
+  prompt: `You transcribe what Indian farmers say about the health of their cattle and buffaloes.
+  Write down exactly what is said in the recording. Do not translate, summarise, answer or add anything.
+  If nothing is said, or the recording is only noise, return an empty transcript.
+
+  The recording is in the language: {{languageName language}}. Write it in that language's own script.
+  When a disease, symptom or medicine is mentioned, write it with these terms, exactly as given:
+  {{glossary language "disease" "symptom" "drugClass"}}
+
+  Recording: {{media url=audioDataUri}}`,
+});
+
+const transcribeAudioFlow = ai.defineFlow(
+  {
+    name: 'transcribeAudioFlow',
+    inputSchema: TranscribeAudioInputSchema,
+    outputSchema: TranscribeAudioOutputSchema,
+  },
+  async input => {
+    const {output} = await transcribeAudioPrompt(input);
+    return {transcript: normalizeTerms(output!.transcript.trim(), input.language)};
+  }
+);
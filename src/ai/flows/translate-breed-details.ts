@@ -0,0 +1,78 @@
+'use server';
+/**
+ * @fileOverview Gives the catalogue details of a breed in the farmer's language. The catalogue
+ * is written in English; for other languages its text is translated by the model, so the
+ * facts stay the catalogue's while the words are the farmer's.
+ *
+ * - translateBreedDetails - A function that takes a catalogue breed ID and a language and returns the breed's details.
+ * - TranslateBreedDetailsInput - The input type for the translateBreedDetails function.
+ * - TranslateBreedDetailsOutput - The return type for the translateBreedDetails function.
+ *
+ * Breed, disease and medicine names in the translation are rewritten to the glossary's terms.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {findBreedBySlug} from '@/lib/breed-data';
+import {breedDetails} from '@/lib/breed-matching';
+import {normalizeTerms} from '@/lib/glossary';
+import {BreedIdSchema} from '@/ai/schemas/breed-id-schema';
+
+const TranslateBreedDetailsInputSchema = z.object({
+  breedId: BreedIdSchema.describe('The catalogue ID of the breed.'),
+  language: z.string().describe('The language for the response (e.g., "en", "hi" or "ta").'),
+});
+export type TranslateBreedDetailsInput = z.infer<typeof TranslateBreedDetailsInputSchema>;
+
+const BreedDetailsSchema = z.object({
+  description: z.string().describe('A general description of the breed.'),
+  size: z.string().describe('The approximate size of the breed (e.g., height and weight).'),
+  colors: z.array(z.string()).describe('Common colors found in this breed.'),
+  nutrition: z.string().describe('Typical nutritional requirements for the breed.'),
+});
+export type TranslateBreedDetailsOutput = z.infer<typeof BreedDetailsSchema>;
+
+const TranslatePromptInputSchema = BreedDetailsSchema.extend({
+  language: z.string(),
+});
+
+export async function translateBreedDetails(input: TranslateBreedDetailsInput): Promise<TranslateBreedDetailsOutput> {
+  return translateBreedDetailsFlow(input);
+}
+
+const translateBreedDetailsPrompt = ai.definePrompt({
+  name: 'translateBreedDetailsPrompt',
+  input: {schema: TranslatePromptInputSchema},
+  output: {schema: BreedDetailsSchema},
+  prompt: `You translate the breed catalogue of an app for Indian cattle and buffalo farmers.
+  Translate the details below into the language: {{languageName language}}, in that language's own script.
+  Keep every fact and number exactly as given. Do not add, drop or explain anything.
+  Write breed, disease and medicine names with these terms, exactly as given:
+  {{glossary language "breed" "disease" "drugClass"}}
+
+  Description: {{description}}
+  Size: {{size}}
+  Colors: {{#each colors}}{{this}}; {{/each}}
+  Nutrition: {{nutrition}}`,
+});
+
+const translateBreedDetailsFlow = ai.defineFlow(
+  {
+    name: 'translateBreedDetailsFlow',
+    inputSchema: TranslateBreedDetailsInputSchema,
+    outputSchema: BreedDetailsSchema,
+  },
+  async ({breedId, language}) => {
+    const breed = findBreedBySlug(breedId);
+    if (!breed) throw new Error(`"${breedId}" is not a catalogue breed.`);
+    const details = breedDetails(breed);
+    if (language === 'en') return details;
+
+    const {output} = await translateBreedDetailsPrompt({...details, language});
+    return {
+      ...output!,
+      description: normalizeTerms(output!.description, language),
+      nutrition: normalizeTerms(output!.nutrition, language),
+    };
+  }
+);
@@ -1,7 +1,22 @@
 import {genkit} from 'genkit';
-import {googleAI} from '@genkit-ai/googleai';
+import {modelProvider} from '@/ai/providers';
+import {languageName} from '@/lib/translations';
+import {glossaryPrompt, type GlossaryCategory} from '@/lib/glossary';
+
+const provider = modelProvider();
 
 export const ai = genkit({
-  plugins: [googleAI()],
-  model: 'googleai/gemini-2.5-flash',
+  plugins: provider.plugins,
+  model: provider.model,
 });
+
+// Prompts name the response language in words ("Marathi"), which models follow
+// more reliably than a bare code ("mr").
+ai.defineHelper('languageName', (code: string) => languageName(code));
+
+// Lists the glossary terms in the response language, e.g. {{glossary language "disease"}}, so
+// breed and disease names are the same from one answer to the next. Handlebars passes its
+// options object last, which is not a category.
+ai.defineHelper('glossary', (language: string, ...categories: unknown[]) =>
+  glossaryPrompt(language, categories.filter((category): category is GlossaryCategory => typeof category === 'string'))
+);
@@ -0,0 +1,134 @@
+/**
+ * @fileOverview Deterministic stand-in model that replays recorded model outputs, so flows
+ * run in CI and on machines without any model access.
+ *
+ * Each recording is `<dir>/<request key>.json`. The request key hashes the prompt messages
+ * (photos by their hash) together with the requested output schema, so the same prompt and
+ * input always replays the same output. A request that was never recorded fails, unless a
+ * recording of the same prompt, identified by its output schema, was saved for any input, or
+ * `fallback` is set; then the most recent such recording is replayed.
+ *
+ * - fixtureModels - Creates the plugin with the `fixture/replay` model and, when recording,
+ *   `fixture/record`, which forwards to a real model and saves each response.
+ * - requestKey - The recording key for a model request.
+ * - saveRecording - Stores the response to replay for a model request.
+ */
+
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { genkitPlugin } from 'genkit/plugin';
+import type { GenerateRequest, GenerateResponseData } from 'genkit';
+import type { ModelInfo } from 'genkit/model';
+
+export type FixtureModelOptions = {
+  dir: string;
+  /** The real model (e.g. `googleai/gemini-2.5-flash`) whose responses `fixture/record` saves. */
+  recordFrom?: string;
+  /**
+   * Replay the newest recording of the same prompt when a request was never recorded. Off by
+   * default, so a changed prompt or input fails instead of passing on a stale answer.
+   */
+  fallback?: boolean;
+};
+
+type Recording = {
+  key: string;
+  /** Hash of the output schema; recordings that share it came from the same prompt. */
+  promptKey: string;
+  /** Start of the prompt text, so a person can tell recordings apart. */
+  excerpt: string;
+  recordedAt: string;
+  /** Replayed for any request to the same prompt that has no recording of its own. */
+  anyInput?: boolean;
+  response: Pick<GenerateResponseData, 'message' | 'finishReason'>;
+};
+
+// Both models must accept requests identically, or a replayed request would not hash like the recorded one.
+const SUPPORTS: ModelInfo['supports'] = {
+  multiturn: true,
+  media: true,
+  systemRole: true,
+  output: ['text', 'json'],
+  constrained: 'all',
+};
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+const promptKey = (request: GenerateRequest) => sha256(JSON.stringify(request.output?.schema ?? null)).slice(0, 16);
+
+export function requestKey(request: GenerateRequest): string {
+  const messages = request.messages.map(message => ({
+    role: message.role,
+    content: message.content.map(part => (part.media ? { media: sha256(part.media.url) } : { text: part.text ?? '' })),
+  }));
+  return sha256(JSON.stringify({ messages, schema: request.output?.schema ?? null })).slice(0, 16);
+}
+
+export async function saveRecording(
+  dir: string,
+  request: GenerateRequest,
+  response: Pick<GenerateResponseData, 'message' | 'finishReason'>,
+  { anyInput = false }: { anyInput?: boolean } = {}
+): Promise<void> {
+  const text = request.messages.flatMap(message => message.content.map(part => part.text ?? '')).join(' ');
+  const recording: Recording = {
+    key: requestKey(request),
+    promptKey: promptKey(request),
+    excerpt: text.replace(/\s+/g, ' ').trim().slice(0, 120),
+    recordedAt: new Date().toISOString(),
+    ...(anyInput && { anyInput }),
+    response: { message: response.message, finishReason: response.finishReason },
+  };
+  await mkdir(dir, { recursive: true });
+  await writeFile(path.join(dir, `${recording.key}.json`), JSON.stringify(recording, null, 2) + '\n');
+}
+
+async function readRecordings(dir: string): Promise<Recording[]> {
+  let files: string[];
+  try {
+    files = await readdir(dir);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw err;
+  }
+  const recordings = await Promise.all(
+    files.filter(file => file.endsWith('.json')).map(async file => JSON.parse(await readFile(path.join(dir, file), 'utf8')) as Recording)
+  );
+  return recordings.sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+}
+
+export function fixtureModels({ dir, recordFrom, fallback = false }: FixtureModelOptions) {
+  return genkitPlugin('fixture', async ai => {
+    ai.defineModel(
+      { name: 'fixture/replay', label: 'Recorded model outputs', supports: SUPPORTS },
+      async (request: GenerateRequest) => {
+        const recordings = await readRecordings(dir);
+        const key = requestKey(request);
+        const recording =
+          recordings.find(candidate => candidate.key === key) ??
+          recordings.findLast(
+            candidate => candidate.promptKey === promptKey(request) && (fallback || candidate.anyInput)
+          );
+        if (!recording) {
+          throw new Error(
+            `No recorded model output for request ${key} in ${dir}. Run the flow once with AI_RECORD_FIXTURES=1 and a real provider to record it (see docs/ai-fixtures.md).`
+          );
+        }
+        return recording.response;
+      }
+    );
+
+    if (!recordFrom) return;
+    ai.defineModel(
+      { name: 'fixture/record', label: `Recording ${recordFrom}`, supports: SUPPORTS },
+      async (request: GenerateRequest) => {
+        const upstream = await ai.registry.lookupAction(`/model/${recordFrom}`);
+        if (!upstream) throw new Error(`Cannot record from unknown model ${recordFrom}.`);
+        const response: GenerateResponseData = await upstream(request);
+        await saveRecording(dir, request, response);
+        return response;
+      }
+    );
+  });
+}
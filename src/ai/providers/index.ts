@@ -0,0 +1,80 @@
+/**
+ * @fileOverview Chooses the model provider from the environment.
+ *
+ * - `AI_PROVIDER=googleai` (default) - Gemini; needs `GEMINI_API_KEY` or `GOOGLE_API_KEY`.
+ * - `AI_PROVIDER=openai` - Any OpenAI-compatible endpoint at `OPENAI_BASE_URL`, with `OPENAI_API_KEY`.
+ * - `AI_PROVIDER=ollama` - A local Ollama server at `OLLAMA_HOST`.
+ * - `AI_PROVIDER=fixture` - Replays recordings from `AI_FIXTURES_DIR` (default `fixtures/ai`).
+ *   A request that was never recorded fails; with `AI_FIXTURES_FALLBACK=1` it replays the
+ *   newest recording of the same prompt instead.
+ *
+ * `AI_MODEL` overrides the provider's default model. With a real provider, setting
+ * `AI_RECORD_FIXTURES=1` saves every response to `AI_FIXTURES_DIR` for later replay.
+ * docs/ai-fixtures.md describes recording a set (`npm run dev:record`) and replaying it
+ * (`npm run dev:offline`).
+ *
+ * - modelProvider - Resolves the Genkit plugins and default model for an environment.
+ */
+
+import path from 'node:path';
+import type { GenkitPlugin } from 'genkit/plugin';
+import { googleAI } from '@genkit-ai/googleai';
+import { openAICompatible } from './openai-compatible';
+import { ollama } from './ollama';
+import { fixtureModels } from './fixtures';
+
+export const PROVIDERS = ['googleai', 'openai', 'ollama', 'fixture'] as const;
+export type Provider = (typeof PROVIDERS)[number];
+
+export type ModelProvider = {
+  plugins: GenkitPlugin[];
+  /** The default model for prompts, e.g. `googleai/gemini-2.5-flash`. */
+  model: string;
+};
+
+type Env = Record<string, string | undefined>;
+
+function realProvider(provider: Exclude<Provider, 'fixture'>, env: Env): ModelProvider {
+  switch (provider) {
+    case 'googleai': {
+      const model = env.AI_MODEL ?? 'gemini-2.5-flash';
+      return { plugins: [googleAI()], model: `googleai/${model}` };
+    }
+    case 'openai': {
+      const model = env.AI_MODEL ?? 'gpt-4o-mini';
+      return {
+        plugins: [openAICompatible({ baseUrl: env.OPENAI_BASE_URL ?? 'https://api.openai.com/v1', apiKey: env.OPENAI_API_KEY, model })],
+        model: `openai/${model}`,
+      };
+    }
+    case 'ollama': {
+      const model = env.AI_MODEL ?? 'llama3.2-vision';
+      return {
+        plugins: [ollama({ host: env.OLLAMA_HOST ?? 'http://127.0.0.1:11434', model })],
+        model: `ollama/${model}`,
+      };
+    }
+  }
+}
+
+export function modelProvider(env: Env = process.env): ModelProvider {
+  const provider = (env.AI_PROVIDER ?? 'googleai') as Provider;
+  if (!PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown AI_PROVIDER "${env.AI_PROVIDER}". Use one of: ${PROVIDERS.join(', ')}.`);
+  }
+
+  const dir = env.AI_FIXTURES_DIR ?? path.join(process.cwd(), 'fixtures', 'ai');
+  if (provider === 'fixture') {
+    return {
+      plugins: [fixtureModels({ dir, fallback: env.AI_FIXTURES_FALLBACK === '1' })],
+      model: 'fixture/replay',
+    };
+  }
+
+  const real = realProvider(provider, env);
+  if (env.AI_RECORD_FIXTURES !== '1') return real;
+  return {
+    plugins: [...real.plugins, fixtureModels({ dir, recordFrom: real.model })],
+    model: 'fixture/record',
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * @fileOverview Genkit plugin for a local Ollama server, so the app can run without
+ * network access to a hosted model.
+ *
+ * - ollama - Creates the plugin; the model is registered as `ollama/<model>`.
+ */
+
+import { genkitPlugin } from 'genkit/plugin';
+import type { GenerateRequest, GenerateResponseData, Part } from 'genkit';
+
+export type OllamaOptions = {
+  /** Server address, e.g. `http://127.0.0.1:11434`. */
+  host: string;
+  /** A vision-capable model is needed for breed recognition, e.g. `llama3.2-vision`. */
+  model: string;
+};
+
+const FINISH_REASONS: Record<string, GenerateResponseData['finishReason']> = {
+  stop: 'stop',
+  length: 'length',
+};
+
+/** Ollama takes images as bare base64, so data URIs are stripped and remote URLs downloaded. */
+async function toBase64Image(url: string): Promise<string> {
+  const dataUri = url.match(/^data:[^;,]+;base64,(.*)$/);
+  if (dataUri) return dataUri[1];
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Could not download image ${url}: ${res.status}`);
+  return Buffer.from(await res.arrayBuffer()).toString('base64');
+}
+
+async function toOllamaMessage(role: string, parts: Part[]) {
+  const images = await Promise.all(parts.filter(part => part.media).map(part => toBase64Image(part.media!.url)));
+  return {
+    role: role === 'model' ? 'assistant' : role,
+    content: parts.map(part => part.text ?? '').join(''),
+    ...(images.length ? { images } : {}),
+  };
+}
+
+export function ollama({ host, model }: OllamaOptions) {
+  return genkitPlugin('ollama', async ai => {
+    ai.defineModel(
+      {
+        name: `ollama/${model}`,
+        label: `Ollama - ${model}`,
+        supports: { multiturn: true, media: true, systemRole: true, output: ['text', 'json'], constrained: 'all' },
+      },
+      async (request: GenerateRequest) => {
+        const config = (request.config ?? {}) as Record<string, unknown>;
+        const res = await fetch(`${host.replace(/\/$/, '')}/api/chat`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            model,
+            stream: false,
+            messages: await Promise.all(request.messages.map(message => toOllamaMessage(message.role, message.content))),
+            options: {
+              temperature: config.temperature,
+              top_p: config.topP,
+              num_predict: config.maxOutputTokens,
+              stop: config.stopSequences,
+            },
+            // Ollama constrains decoding to a JSON schema passed as `format`.
+            ...(request.output?.schema ? { format: request.output.schema } : request.output?.format === 'json' ? { format: 'json' } : {}),
+          }),
+        });
+        if (!res.ok) {
+          throw new Error(`The Ollama server returned ${res.status}: ${await res.text()}`);
+        }
+
+        const body = await res.json();
+        return {
+          message: { role: 'model', content: [{ text: body.message?.content ?? '' }] },
+          finishReason: FINISH_REASONS[body.done_reason] ?? 'other',
+          usage: {
+            inputTokens: body.prompt_eval_count,
+            outputTokens: body.eval_count,
+          },
+        };
+      }
+    );
+  });
+}
@@ -0,0 +1,91 @@
+/**
+ * @fileOverview Genkit plugin for any OpenAI-compatible chat completions endpoint
+ * (OpenAI itself, Azure-style gateways, vLLM, LM Studio, llama.cpp server, ...).
+ *
+ * - openAICompatible - Creates the plugin; the model is registered as `openai/<model>`.
+ */
+
+import { genkitPlugin } from 'genkit/plugin';
+import type { GenerateRequest, GenerateResponseData, MessageData, Part } from 'genkit';
+
+export type OpenAICompatibleOptions = {
+  /** Base URL up to and including the API version, e.g. `https://api.openai.com/v1`. */
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+};
+
+type ChatContentPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+const ROLES: Record<MessageData['role'], string> = {
+  system: 'system',
+  user: 'user',
+  model: 'assistant',
+  tool: 'tool',
+};
+
+const FINISH_REASONS: Record<string, GenerateResponseData['finishReason']> = {
+  stop: 'stop',
+  length: 'length',
+  content_filter: 'blocked',
+};
+
+function toChatContent(parts: Part[]): string | ChatContentPart[] {
+  if (parts.every(part => part.media === undefined)) {
+    return parts.map(part => part.text ?? '').join('');
+  }
+  return parts.flatMap((part): ChatContentPart[] => {
+    if (part.media) return [{ type: 'image_url', image_url: { url: part.media.url } }];
+    if (part.text !== undefined) return [{ type: 'text', text: part.text }];
+    return [];
+  });
+}
+
+export function openAICompatible({ baseUrl, apiKey, model }: OpenAICompatibleOptions) {
+  return genkitPlugin('openai', async ai => {
+    ai.defineModel(
+      {
+        name: `openai/${model}`,
+        label: `OpenAI-compatible - ${model}`,
+        // Not every compatible server implements `response_format`, so Genkit puts the output schema in the prompt instead.
+        supports: { multiturn: true, media: true, systemRole: true, output: ['text', 'json'], constrained: 'none' },
+      },
+      async (request: GenerateRequest) => {
+        const config = (request.config ?? {}) as Record<string, unknown>;
+        const res = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model,
+            messages: request.messages.map(message => ({
+              role: ROLES[message.role],
+              content: toChatContent(message.content),
+            })),
+            temperature: config.temperature,
+            top_p: config.topP,
+            max_tokens: config.maxOutputTokens,
+            stop: config.stopSequences,
+          }),
+        });
+        if (!res.ok) {
+          throw new Error(`The model endpoint returned ${res.status}: ${await res.text()}`);
+        }
+
+        const body = await res.json();
+        const choice = body.choices?.[0];
+        return {
+          message: { role: 'model', content: [{ text: choice?.message?.content ?? '' }] },
+          finishReason: FINISH_REASONS[choice?.finish_reason] ?? 'other',
+          usage: {
+            inputTokens: body.usage?.prompt_tokens,
+            outputTokens: body.usage?.completion_tokens,
+            totalTokens: body.usage?.total_tokens,
+          },
+        };
+      }
+    );
+  });
+}
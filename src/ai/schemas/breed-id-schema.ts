@@ -0,0 +1,17 @@
+/**
+ * @fileOverview Schemas for the canonical breed vocabulary shared by the breed flows.
+ *
+ * - BreedIdSchema - The Zod enum of catalogue breed IDs plus `unknown`.
+ * - SubmittedBreedIdSchema - A breed ID from the scanner, or a breed name from an older client; resolve it with `toBreedId`.
+ */
+
+import { z } from 'genkit';
+import { BREED_IDS, UNKNOWN_BREED_ID } from '@/lib/breed-data';
+
+export const BreedIdSchema = z
+  .enum(BREED_IDS)
+  .describe(`The catalogue breed ID. Use "${UNKNOWN_BREED_ID}" for crossbred animals or breeds not in the list.`);
+
+// Outbox entries queued before breed IDs existed carry breed names, so these are accepted as any
+// string. Genkit checks flow input against the JSON schema only, so a Zod transform would not run.
+export const SubmittedBreedIdSchema = z.string();
@@ -0,0 +1,39 @@
+/**
+ * @fileOverview Schema and type definitions for the animal health diagnosis flow.
+ *
+ * - DiagnoseAnimalHealthInputSchema - The Zod schema for the input of the diagnoseAnimalHealth function.
+ * - DiagnoseAnimalHealthInput - The TypeScript type for the input of the diagnoseAnimalHealth function.
+ * - DiseaseInfoSchema - The Zod schema for one likely disease in a diagnosis.
+ * - DiagnoseAnimalHealthOutputSchema - The Zod schema for the output of the diagnoseAnimalHealth function.
+ * - DiagnoseAnimalHealthOutput - The TypeScript type for the output of the diagnoseAnimalHealth function.
+ */
+
+import { z } from 'genkit';
+
+export const DiagnoseAnimalHealthInputSchema = z.object({
+  photoDataUri: z
+    .string()
+    .describe(
+      "A photo of the animal, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
+    ),
+  description: z.string().optional().describe('A text description of any observed symptoms.'),
+  language: z.string().describe('The language for the response (e.g., "en", "hi" or "ta").'),
+});
+export type DiagnoseAnimalHealthInput = z.infer<typeof DiagnoseAnimalHealthInputSchema>;
+
+export const DiseaseInfoSchema = z.object({
+    diseaseName: z.string().describe('The name of the likely disease.'),
+    confidenceScore: z.number().describe('The confidence score of the diagnosis (0-1).'),
+    urgency: z.enum(['Low', 'Medium', 'High']).describe('The urgency level for seeking veterinary help.'),
+    description: z.string().describe('A short description of the disease.'),
+    firstAid: z.string().describe('First-aid or immediate care suggestions for the farmer.'),
+    veterinaryAttention: z.string().describe('A recommendation on whether veterinary attention is needed and how urgently.')
+});
+export type DiseaseInfo = z.infer<typeof DiseaseInfoSchema>;
+
+export const DiagnoseAnimalHealthOutputSchema = z.object({
+    isHealthy: z.boolean().describe('Whether the animal is likely healthy or not.'),
+    diagnosis: z.array(DiseaseInfoSchema).optional().describe('An array of potential diseases if the animal is not healthy.'),
+    preventiveCare: z.string().optional().describe('Preventive care suggestions if the animal is healthy.'),
+});
+export type DiagnoseAnimalHealthOutput = z.infer<typeof DiagnoseAnimalHealthOutputSchema>;
@@ -8,15 +8,45 @@
  */
 
 import { z } from 'genkit';
+import { DEFAULT_ECONOMICS, EconomicsProfileSchema } from '@/lib/economics';
 
 export const RecommendBreedsInputSchema = z.object({
+  mode: z
+    .enum(['single', 'herd'])
+    .default('single')
+    .describe('Score breeds for one animal, or plan a whole herd within the total budget.'),
   goal: z.enum(['milk', 'draught', 'dual-purpose', 'low-maintenance']),
-  budget: z.number(),
-  landSize: z.number(),
+  budget: z.number().describe('Budget in INR: per animal in single mode, for the whole herd in herd mode.'),
+  landSize: z.number().describe('Land available for the herd, in acres.'),
+  fodderAvailability: z
+    .enum(['Scarce', 'Adequate', 'Abundant'])
+    .default('Adequate')
+    .describe('How much green and dry fodder is grown or can be bought in.'),
+  labour: z.number().default(1).describe('Full-time workers available to look after the herd.'),
   regionalClimate: z.string(),
+  projectionYears: z.number().int().min(5).max(10).default(7).describe('How many years the cash-flow projection covers.'),
+  economics: EconomicsProfileSchema.default(DEFAULT_ECONOMICS).describe(
+    'Milk prices and running costs used for income, cost and ROI.'
+  ),
   language: z.string(),
 });
-export type RecommendBreedsInput = z.infer<typeof RecommendBreedsInputSchema>;
+export type RecommendBreedsInput = z.input<typeof RecommendBreedsInputSchema>;
+
+const CashFlowProjectionSchema = z.object({
+  years: z
+    .array(
+      z.object({
+        year: z.number(),
+        income: z.number(),
+        cost: z.number(),
+        net: z.number(),
+        cumulative: z.number(),
+      })
+    )
+    .describe('Yearly cash flows in INR; year 0 is the purchase.'),
+  npv: z.number().describe('Net present value of the cash flows in INR.'),
+  irr: z.number().nullable().describe('Internal rate of return in percent, or null if the animal never pays back.'),
+});
 
 const RecommendedBreedSchema = z.object({
   breedName: z.string().describe('The name of the recommended breed.'),
@@ -24,6 +54,12 @@ const RecommendedBreedSchema = z.object({
   pros: z.string().describe('The key advantages of this breed for the farmer.'),
   cons: z.string().describe('The key disadvantages or challenges of this breed for the farmer.'),
   roi: z.number().describe('Estimated Return on Investment percentage.'),
+  monthlyIncome: z.number().describe('Estimated monthly milk income in INR.'),
+  monthlyCost: z.number().describe('Estimated monthly running cost in INR.'),
+  milkPricePerLitre: z.number().describe('The milk price per litre used for this breed, in INR.'),
+  fatPercentage: z.number().describe('Typical milk fat percentage of the breed.'),
+  snfPercentage: z.number().describe('Typical milk solids-not-fat percentage of the breed.'),
+  projection: CashFlowProjectionSchema.describe('A multi-year cash-flow projection for one animal of this breed.'),
   careLevel: z.string().describe('The care level required (Low, Medium, or High).'),
   scores: z
     .object({
@@ -36,8 +72,23 @@ const RecommendedBreedSchema = z.object({
     .describe('A breakdown of scores for different suitability aspects.'),
 });
 
+const HerdPlanSchema = z.object({
+  animals: z
+    .array(z.object({ breedName: z.string(), count: z.number(), unitPrice: z.number() }))
+    .describe('How many animals of each breed to buy.'),
+  totalAnimals: z.number(),
+  carryingCapacity: z.number().describe('Animals of the suggested mix that the land and fodder can sustain.'),
+  totalInvestment: z.number().describe('Purchase cost of the whole herd in INR.'),
+  monthlyIncome: z.number(),
+  monthlyCost: z.number(),
+  monthlyProfit: z.number(),
+  paybackMonths: z.number().nullable().describe('Months to recover the investment, or null if the herd is not profitable.'),
+  limitingFactor: z.enum(['budget', 'land', 'labour', 'herdSize']).describe('The resource that stops the herd from growing.'),
+});
+
 export const RecommendBreedsOutputSchema = z.object({
   recommendedBreeds: z.array(RecommendedBreedSchema),
+  herdPlan: HerdPlanSchema.optional().describe('The suggested herd, in herd mode.'),
 });
 export type RecommendBreedsOutput = z.infer<
   typeof RecommendBreedsOutputSchema
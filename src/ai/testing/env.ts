@@ -0,0 +1,19 @@
+/**
+ * @fileOverview Test environment for the flow tests: the fixture model replays recordings
+ * from a throwaway directory and server-side records go to another, so tests never call a
+ * real model or touch `.data/`. Must be imported before anything that creates the Genkit
+ * instance; `./harness` does that.
+ */
+
+import os from 'node:os';
+import path from 'node:path';
+import { mkdtempSync, rmSync } from 'node:fs';
+
+const root = mkdtempSync(path.join(os.tmpdir(), 'pashu-test-'));
+process.on('exit', () => rmSync(root, { recursive: true, force: true }));
+
+process.env.AI_PROVIDER = 'fixture';
+process.env.AI_FIXTURES_DIR = path.join(root, 'fixtures');
+process.env.PASHU_DATA_DIR = path.join(root, 'data');
+delete process.env.AI_RECORD_FIXTURES;
+delete process.env.AI_FIXTURES_FALLBACK;
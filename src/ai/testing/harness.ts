@@ -0,0 +1,54 @@
+/**
+ * @fileOverview Helpers for testing flows against the fixture model instead of a real one.
+ *
+ * - recordModelOutput - Sets what the model answers when a prompt is rendered with an input.
+ * - clearRecordings - Forgets every recorded answer.
+ * - TEST_PHOTO - A tiny valid image data URI.
+ * - TEST_AUDIO - A tiny valid, silent audio data URI.
+ */
+
+import './env';
+import { rm } from 'node:fs/promises';
+import type { GenerateRequest } from 'genkit';
+import { toJsonSchema } from 'genkit/schema';
+import { ai } from '@/ai/genkit';
+import { saveRecording } from '@/ai/providers/fixtures';
+
+/** A 1x1 transparent PNG. */
+export const TEST_PHOTO =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+/** A WAV file with no samples. */
+export const TEST_AUDIO = 'data:audio/wav;base64,UklGRiQAAABXQVZFZm10IBAAAAABAAEAQB8AAEAfAAABAAgAZGF0YQAAAAA=';
+
+/**
+ * Renders the named prompt with `input` and records `output` as the model's answer to it.
+ * Strings are recorded verbatim, so malformed or empty answers can be tested too; anything
+ * else is recorded as JSON. With `anyInput`, the answer is also given to the prompt rendered
+ * with any other input.
+ */
+export async function recordModelOutput(
+  promptName: string,
+  input: unknown,
+  output: unknown,
+  { anyInput = false }: { anyInput?: boolean } = {}
+): Promise<void> {
+  const options = await ai.prompt(promptName).render(input);
+  const request: GenerateRequest = {
+    messages: options.messages ?? [],
+    output: options.output && {
+      schema: toJsonSchema({ schema: options.output.schema, jsonSchema: options.output.jsonSchema }),
+    },
+  };
+  const text = typeof output === 'string' ? output : JSON.stringify(output);
+  await saveRecording(
+    process.env.AI_FIXTURES_DIR!,
+    request,
+    { message: { role: 'model', content: [{ text }] }, finishReason: 'stop' },
+    { anyInput }
+  );
+}
+
+export async function clearRecordings(): Promise<void> {
+  await rm(process.env.AI_FIXTURES_DIR!, { recursive: true, force: true });
+}
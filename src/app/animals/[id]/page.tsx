@@ -0,0 +1,21 @@
+"use client";
+
+import React from 'react';
+import { useParams } from 'next/navigation';
+import Header from '@/components/pashu-ai/Header';
+import { useLocale } from '@/components/locale-provider';
+import AnimalProfile from '@/components/pashu-ai/AnimalProfile';
+
+export default function AnimalProfilePage() {
+  const { id } = useParams<{ id: string }>();
+  const { language } = useLocale();
+
+  return (
+    <div className="flex min-h-screen w-full flex-col">
+      <Header />
+      <main className="flex-1">
+        <AnimalProfile language={language} animalId={id} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+'use server';
+
+/**
+ * @fileOverview Server actions for the animal registry.
+ *
+ * - listAnimals - Lists registered animals, optionally filtered by a search query.
+ * - getAnimal - Returns one animal profile, or null.
+ * - registerAnimal - Registers a new animal, optionally with a first photo.
+ * - updateAnimalProfile - Edits an animal's profile fields.
+ * - attachScanToAnimal - Saves a confirmed breed and its scan photo to an animal's profile.
+ * - uploadAnimalPhoto - Adds a photo to an animal's profile.
+ * - saveDiagnosisToAnimal - Saves a health diagnosis to an animal's health history.
+ * - listHealthRecords - Lists an animal's saved diagnoses, newest first.
+ * - updateDiagnosisStatus - Marks a saved diagnosis as vet-confirmed, ruled out or resolved.
+ * - getVaccinationSchedule - Returns an animal's vaccination and deworming schedule.
+ * - recordVaccinationDose - Records that a vaccine or dewormer was given to an animal.
+ * - listVaccinationReminders - Lists animals with due or overdue doses, optionally for one village.
+ */
+
+import {
+  Animal,
+  AnimalProfileFields,
+  addAnimalPhoto,
+  createAnimalRecord,
+  getAnimalRecord,
+  listAnimalRecords,
+  updateAnimalRecord,
+} from '@/lib/server/animal-store';
+import {
+  HealthRecord,
+  HealthStatus,
+  NewHealthRecord,
+  createHealthRecord,
+  listHealthRecordsForAnimal,
+  updateHealthRecordStatus,
+} from '@/lib/server/health-store';
+import { createDoseRecord, listDoseRecords } from '@/lib/server/vaccination-store';
+import { findBreedBySlug } from '@/lib/breed-data';
+import { ScheduleItem, computeSchedule } from '@/lib/vaccination-schedule';
+
+export async function listAnimals(query?: string): Promise<Animal[]> {
+  return listAnimalRecords(query);
+}
+
+export async function getAnimal(id: string): Promise<Animal | null> {
+  return getAnimalRecord(id);
+}
+
+export async function registerAnimal(
+  fields: AnimalProfileFields,
+  photo?: { dataUri: string; source: 'scan' | 'upload' }
+): Promise<Animal> {
+  return createAnimalRecord(fields, photo);
+}
+
+export async function updateAnimalProfile(id: string, fields: Partial<AnimalProfileFields>): Promise<Animal> {
+  return updateAnimalRecord(id, fields);
+}
+
+export async function attachScanToAnimal(id: string, scan: { breedId: string; photoDataUri: string }): Promise<Animal> {
+  // An unknown or crossbred scan adds the photo but keeps whatever breed was recorded before.
+  if (scan.breedId) {
+    const breed = findBreedBySlug(scan.breedId);
+    if (!breed) throw new Error(`"${scan.breedId}" is not a catalogue breed.`);
+    const animal = await getAnimalRecord(id);
+    if (animal && breed.category !== animal.species) {
+      throw new Error(`${breed.breedName} is a ${breed.category.toLowerCase()} breed, but this animal is registered as ${animal.species.toLowerCase()}.`);
+    }
+    await updateAnimalRecord(id, { breed: scan.breedId });
+  }
+  return addAnimalPhoto(id, scan.photoDataUri, 'scan');
+}
+
+export async function uploadAnimalPhoto(id: string, photoDataUri: string): Promise<Animal> {
+  return addAnimalPhoto(id, photoDataUri, 'upload');
+}
+
+export async function saveDiagnosisToAnimal(animalId: string, diagnosis: NewHealthRecord): Promise<HealthRecord> {
+  return createHealthRecord(animalId, diagnosis);
+}
+
+export async function listHealthRecords(animalId: string): Promise<HealthRecord[]> {
+  return listHealthRecordsForAnimal(animalId);
+}
+
+export async function updateDiagnosisStatus(id: string, status: HealthStatus): Promise<HealthRecord> {
+  return updateHealthRecordStatus(id, status);
+}
+
+export async function getVaccinationSchedule(animalId: string): Promise<ScheduleItem[]> {
+  const animal = await getAnimalRecord(animalId);
+  if (!animal) throw new Error('Animal not found.');
+  return computeSchedule(animal, await listDoseRecords(animalId));
+}
+
+export async function recordVaccinationDose(animalId: string, ruleId: string, givenOn: string): Promise<ScheduleItem[]> {
+  await createDoseRecord(animalId, ruleId, givenOn);
+  return getVaccinationSchedule(animalId);
+}
+
+export async function listVaccinationReminders(village?: string): Promise<{ animal: Animal; items: ScheduleItem[] }[]> {
+  const [animals, doses] = await Promise.all([listAnimalRecords(), listDoseRecords()]);
+  const wanted = village?.trim().toLowerCase();
+  return animals
+    .filter(animal => !wanted || animal.village.toLowerCase() === wanted)
+    .map(animal => ({
+      animal,
+      items: computeSchedule(animal, doses.filter(dose => dose.animalId === animal.id))
+        .filter(item => item.status !== 'upcoming'),
+    }))
+    .filter(reminder => reminder.items.length > 0)
+    .sort((a, b) => a.animal.village.localeCompare(b.animal.village) || a.items[0].dueOn.localeCompare(b.items[0].dueOn));
+}
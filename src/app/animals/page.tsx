@@ -0,0 +1,19 @@
+"use client";
+
+import React from 'react';
+import Header from '@/components/pashu-ai/Header';
+import { useLocale } from '@/components/locale-provider';
+import AnimalRegistry from '@/components/pashu-ai/AnimalRegistry';
+
+export default function AnimalsPage() {
+  const { language } = useLocale();
+
+  return (
+    <div className="flex min-h-screen w-full flex-col">
+      <Header />
+      <main className="flex-1">
+        <AnimalRegistry language={language} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import { readStoredAudio } from '@/lib/server/audio-files';
+
+/** Serves voice notes from the content-addressed audio store, e.g. for health records. */
+export async function GET(_request: Request, { params }: { params: Promise<{ sha256: string }> }) {
+  const { sha256 } = await params;
+  const audio = await readStoredAudio(sha256);
+  if (!audio) {
+    return new Response('Not found', { status: 404 });
+  }
+  return new Response(new Uint8Array(audio.data), {
+    headers: {
+      'Content-Type': audio.mimeType,
+      // The URL is the content hash, so the response never changes.
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    },
+  });
+}
@@ -0,0 +1,17 @@
+import { readStoredImage } from '@/lib/server/image-files';
+
+/** Serves photos from the content-addressed image store, e.g. for animal profiles. */
+export async function GET(_request: Request, { params }: { params: Promise<{ sha256: string }> }) {
+  const { sha256 } = await params;
+  const image = await readStoredImage(sha256);
+  if (!image) {
+    return new Response('Not found', { status: 404 });
+  }
+  return new Response(new Uint8Array(image.data), {
+    headers: {
+      'Content-Type': image.mimeType,
+      // The URL is the content hash, so the response never changes.
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    },
+  });
+}
@@ -0,0 +1,21 @@
+"use client";
+
+import React from 'react';
+import { useParams } from 'next/navigation';
+import Header from '@/components/pashu-ai/Header';
+import { useLocale } from '@/components/locale-provider';
+import BreedDetail from '@/components/pashu-ai/BreedDetail';
+
+export default function BreedPage() {
+  const { slug } = useParams<{ slug: string }>();
+  const { language } = useLocale();
+
+  return (
+    <div className="flex min-h-screen w-full flex-col">
+      <Header />
+      <main className="flex-1">
+        <BreedDetail language={language} slug={slug} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+"use client";
+
+import React from 'react';
+import Header from '@/components/pashu-ai/Header';
+import { useLocale } from '@/components/locale-provider';
+import BreedCatalogue from '@/components/pashu-ai/BreedCatalogue';
+
+export default function BreedsPage() {
+  const { language } = useLocale();
+
+  return (
+    <div className="flex min-h-screen w-full flex-col">
+      <Header />
+      <main className="flex-1">
+        <BreedCatalogue language={language} />
+      </main>
+    </div>
+  );
+}
@@ -1,29 +1,16 @@
 "use client";
 
-import React, { useState, useMemo } from 'react';
+import React from 'react';
 import Header from '@/components/pashu-ai/Header';
-import { Language, translations } from '@/lib/translations';
+import { useLocale } from '@/components/locale-provider';
 import DiseaseDetection from '@/components/pashu-ai/DiseaseDetection';
 
 export default function DiseaseDetectionPage() {
-  const [language, setLanguage] = useState<Language>('en');
-  // Mode is not used on this page, but the header needs it.
-  const [mode, setMode] = useState<'online' | 'offline'>('online');
-
-  const t = useMemo(() => translations[language], [language]);
+  const { language } = useLocale();
 
   return (
     <div className="flex min-h-screen w-full flex-col">
-      <Header
-        language={language}
-        onLanguageChange={setLanguage}
-        mode={mode}
-        onModeChange={setMode}
-        appName={t.appName}
-        tagline={t.tagline}
-        onlineText={t.online}
-        offlineText={t.offline}
-      />
+      <Header />
       <main className="flex-1">
         <DiseaseDetection language={language} />
       </main>
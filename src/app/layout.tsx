@@ -1,12 +1,22 @@
-import type { Metadata } from 'next';
+import type { Metadata, Viewport } from 'next';
 import './globals.css';
 import { cn } from '@/lib/utils';
 import { Toaster } from '@/components/ui/toaster';
 import { ThemeProvider } from '@/components/theme-provider';
+import { LocaleProvider } from '@/components/locale-provider';
+import ServiceWorkerRegistration from '@/components/pashu-ai/ServiceWorkerRegistration';
 
 export const metadata: Metadata = {
   title: 'Pashu AI',
   description: 'AI-Powered Breed Recognition for Indian Livestock',
+  appleWebApp: {
+    capable: true,
+    title: 'Pashu AI',
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: '#A0522D',
 };
 
 export default function RootLayout({
@@ -35,8 +45,11 @@ export default function RootLayout({
           enableSystem
           disableTransitionOnChange
         >
-          {children}
-          <Toaster />
+          <LocaleProvider>
+            {children}
+            <Toaster />
+          </LocaleProvider>
+          <ServiceWorkerRegistration />
         </ThemeProvider>
       </body>
     </html>
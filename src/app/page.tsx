@@ -5,31 +5,30 @@ import Link from 'next/link';
 import { motion } from 'framer-motion';
 import { Scan, BrainCircuit, HeartPulse } from 'lucide-react';
 import Header from '@/components/pashu-ai/Header';
-import { Language, translations } from '@/lib/translations';
+import { translations } from '@/lib/translations';
+import { useLocale } from '@/components/locale-provider';
 import { CowIcon } from '@/components/pashu-ai/icons';
 
 export default function MainPage() {
-  const [language, setLanguage] = React.useState<Language>('en');
-  // Mode is not used on this page, but the header needs it.
-  const [mode, setMode] = React.useState<'online' | 'offline'>('online');
+  const { language } = useLocale();
   const t = React.useMemo(() => translations[language], [language]);
 
   const features = [
     {
       title: t.scanAnimal,
-      description: "Instantly identify cattle and buffalo breeds using your camera or by uploading an image.",
+      description: t.featureScanDescription,
       href: '/scanner',
       icon: <Scan className="h-10 w-10 text-primary" />,
     },
     {
       title: t.breedRecommendationEngine,
-      description: "Get tailored recommendations for the best breeds based on your specific farming goals and conditions.",
+      description: t.featureRecommendDescription,
       href: '/decision-support',
       icon: <BrainCircuit className="h-10 w-10 text-primary" />,
     },
     {
       title: t.diseaseDetection,
-      description: "Upload an image of an animal to detect early signs of common diseases and get care suggestions.",
+      description: t.featureDiseaseDescription,
       href: '/disease-detection',
       icon: <HeartPulse className="h-10 w-10 text-primary" />,
     }
@@ -37,16 +36,7 @@ export default function MainPage() {
 
   return (
     <div className="flex min-h-screen w-full flex-col">
-       <Header
-        language={language}
-        onLanguageChange={setLanguage}
-        mode={mode}
-        onModeChange={setMode}
-        appName={t.appName}
-        tagline={t.tagline}
-        onlineText={t.online}
-        offlineText={t.offline}
-      />
+       <Header />
       <main className="flex-1 flex flex-col items-center justify-center p-4 text-center">
         <motion.div
           initial={{ opacity: 0, scale: 0.5 }}
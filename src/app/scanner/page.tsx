@@ -1,28 +1,17 @@
 "use client";
 
-import React, { useState, useMemo } from 'react';
+import React, { useState } from 'react';
 import Header from '@/components/pashu-ai/Header';
 import BreedRecognition from '@/components/pashu-ai/BreedRecognition';
-import { Language, translations } from '@/lib/translations';
+import { useLocale } from '@/components/locale-provider';
 
 export default function ScannerPage() {
-  const [language, setLanguage] = useState<Language>('en');
+  const { language } = useLocale();
   const [mode, setMode] = useState<'online' | 'offline'>('online');
 
-  const t = useMemo(() => translations[language], [language]);
-
   return (
     <div className="flex min-h-screen w-full flex-col">
-      <Header
-        language={language}
-        onLanguageChange={setLanguage}
-        mode={mode}
-        onModeChange={setMode}
-        appName={t.appName}
-        tagline={t.tagline}
-        onlineText={t.online}
-        offlineText={t.offline}
-      />
+      <Header mode={mode} onModeChange={setMode} />
       <main className="flex-1">
         <BreedRecognition language={language} mode={mode} />
       </main>
@@ -0,0 +1,165 @@
+/**
+ * @fileOverview Serves the service worker that lets Pashu AI open without coverage.
+ *
+ * The worker is generated here rather than kept in `public/` so that its precache list
+ * comes from the same sources as the app (the routes, the breed catalogue, `PlaceHolderImages`
+ * and the offline classifier's manifest).
+ *
+ * - App pages are network-first, falling back to the cached copy when offline.
+ * - Build assets and on-device model files are cache-first.
+ * - Images are stale-while-revalidate.
+ * - Server actions (POST requests) are never cached; the outbox handles those.
+ */
+
+import { PlaceHolderImages } from '@/lib/placeholder-images';
+import { BREED_IDS, UNKNOWN_BREED_ID } from '@/lib/breed-data';
+import classifierManifest from '../../../public/models/breed-classifier/manifest.json';
+import { DEFAULT_MANIFEST_URL, ORT_RUNTIME_FILES } from '@/lib/offline-classifier/onnx-classifier';
+
+export const dynamic = 'force-static';
+
+const CACHE_VERSION = 'v3';
+
+// Every breed page too, so a breed suggested offline can be looked up.
+const APP_ROUTES = [
+  '/',
+  '/scanner',
+  '/disease-detection',
+  '/decision-support',
+  '/animals',
+  '/breeds',
+  ...BREED_IDS.filter(id => id !== UNKNOWN_BREED_ID).map(id => `/breeds/${id}`),
+];
+
+// The offline classifier's model and runtime, so scans work offline from the first install.
+const STATIC_ASSETS = [
+  '/manifest.webmanifest',
+  '/icon.svg',
+  DEFAULT_MANIFEST_URL,
+  classifierManifest.modelUrl,
+  ...ORT_RUNTIME_FILES.map(file => `${classifierManifest.wasmPaths}${file}`),
+];
+
+// next/image requests for the 200px-wide demo thumbnails (1x and 2x srcset entries).
+const DEMO_IMAGE_WIDTHS = [256, 640];
+
+function demoImageUrls(): string[] {
+  return PlaceHolderImages.flatMap(image => [
+    image.imageUrl,
+    ...DEMO_IMAGE_WIDTHS.map(width => `/_next/image?url=${encodeURIComponent(image.imageUrl)}&w=${width}&q=75`),
+  ]);
+}
+
+function serviceWorkerSource(): string {
+  const config = {
+    cacheVersion: CACHE_VERSION,
+    appRoutes: APP_ROUTES,
+    staticAssets: STATIC_ASSETS,
+    imageUrls: demoImageUrls(),
+  };
+
+  return `const CONFIG = ${JSON.stringify(config)};
+const PAGE_CACHE = 'pashu-pages-' + CONFIG.cacheVersion;
+const ASSET_CACHE = 'pashu-assets-' + CONFIG.cacheVersion;
+const IMAGE_CACHE = 'pashu-images-' + CONFIG.cacheVersion;
+const CACHES = [PAGE_CACHE, ASSET_CACHE, IMAGE_CACHE];
+
+async function precachePage(route) {
+  const pages = await caches.open(PAGE_CACHE);
+  const assets = await caches.open(ASSET_CACHE);
+  const response = await fetch(route, { credentials: 'same-origin' });
+  if (!response.ok) return;
+  await pages.put(route, response.clone());
+  // Cache the scripts and styles the page needs, so it can hydrate offline.
+  const html = await response.text();
+  const assetUrls = new Set(html.match(/\\/_next\\/static\\/[^"'\\s)\\\\]+/g) || []);
+  await Promise.all([...assetUrls].map(url => assets.add(url).catch(() => undefined)));
+}
+
+async function precacheImage(url) {
+  const images = await caches.open(IMAGE_CACHE);
+  const request = url.startsWith('/') ? new Request(url) : new Request(url, { mode: 'cors' });
+  try {
+    const response = await fetch(request);
+    if (response.ok) await images.put(request, response);
+  } catch (err) {
+    // A missing demo image should not stop the worker from installing.
+  }
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const assets = await caches.open(ASSET_CACHE);
+    await Promise.all(CONFIG.staticAssets.map(url => assets.add(url).catch(() => undefined)));
+    await Promise.all(CONFIG.appRoutes.map(route => precachePage(route).catch(() => undefined)));
+    await Promise.all(CONFIG.imageUrls.map(precacheImage));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => name.startsWith('pashu-') && !CACHES.includes(name)).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+async function networkFirst(request) {
+  const cache = await caches.open(PAGE_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request, { ignoreSearch: true });
+    return cached || (await cache.match('/')) || Response.error();
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(ASSET_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(IMAGE_CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request)
+    .then(response => {
+      if (response.ok) cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached || Response.error());
+  return cached || refresh;
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else if (url.origin === self.location.origin && (url.pathname.startsWith('/_next/static/') || url.pathname.startsWith('/models/'))) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.destination === 'image' || url.pathname === '/_next/image' || CONFIG.imageUrls.includes(request.url)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+`;
+}
+
+export function GET() {
+  return new Response(serviceWorkerSource(), {
+    headers: {
+      'Content-Type': 'application/javascript; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      'Service-Worker-Allowed': '/',
+    },
+  });
+}
@@ -0,0 +1,75 @@
+"use client"
+
+import * as React from "react"
+import { usePathname } from "next/navigation"
+
+import { isLanguage, type Language } from "@/lib/translations"
+
+const LANGUAGE_KEY = "pashu-ai:language"
+const LANGUAGE_PARAM = "lang"
+const DEFAULT_LANGUAGE: Language = "en"
+
+type LocaleContextValue = {
+  language: Language
+  setLanguage: (language: Language) => void
+}
+
+const LocaleContext = React.createContext<LocaleContextValue | null>(null)
+
+/** A `?lang=` link wins over the stored choice, so a shared link opens in its language. */
+function initialLanguage(): Language {
+  const fromUrl = new URLSearchParams(window.location.search).get(LANGUAGE_PARAM)
+  if (fromUrl && isLanguage(fromUrl)) return fromUrl
+  const stored = window.localStorage.getItem(LANGUAGE_KEY)
+  return stored && isLanguage(stored) ? stored : DEFAULT_LANGUAGE
+}
+
+/**
+ * Holds the app language for every page, keeps it in local storage and in the URL, and sets
+ * `<html lang>` to match. Pages render in English on the server and switch once mounted.
+ */
+export function LocaleProvider({ children }: { children: React.ReactNode }) {
+  const pathname = usePathname()
+  // Null until the stored choice has been read on the client.
+  const [chosen, setChosen] = React.useState<Language | null>(null)
+  const language = chosen ?? DEFAULT_LANGUAGE
+
+  React.useEffect(() => {
+    setChosen(initialLanguage())
+  }, [])
+
+  const setLanguage = React.useCallback((next: Language) => {
+    window.localStorage.setItem(LANGUAGE_KEY, next)
+    setChosen(next)
+  }, [])
+
+  React.useEffect(() => {
+    document.documentElement.lang = language
+  }, [language])
+
+  // Links inside the app drop the query string, so put the language back after each navigation.
+  React.useEffect(() => {
+    if (chosen === null) return
+    const url = new URL(window.location.href)
+    if (language === DEFAULT_LANGUAGE) {
+      url.searchParams.delete(LANGUAGE_PARAM)
+    } else {
+      url.searchParams.set(LANGUAGE_PARAM, language)
+    }
+    if (url.href !== window.location.href) {
+      window.history.replaceState(window.history.state, "", url)
+    }
+  }, [chosen, language, pathname])
+
+  const value = React.useMemo(() => ({ language, setLanguage }), [language, setLanguage])
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>
+}
+
+export function useLocale(): LocaleContextValue {
+  const context = React.useContext(LocaleContext)
+  if (!context) {
+    throw new Error("useLocale must be used within a LocaleProvider")
+  }
+  return context
+}
@@ -0,0 +1,205 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import type { AnimalProfileFields } from '@/lib/server/animal-store';
+import { findBreedBySlug } from '@/lib/breed-data';
+import { Language, translations } from '@/lib/translations';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import BreedPicker from './BreedPicker';
+
+const formSchema = z.object({
+  tagId: z.string().trim().min(1, "Ear tag ID is required"),
+  species: z.enum(['Cattle', 'Buffalo']),
+  breed: z.string().trim().optional(),
+  sex: z.enum(['Female', 'Male']),
+  dateOfBirth: z.string().optional(),
+  ownerName: z.string().trim().min(1, "Owner is required"),
+  village: z.string().trim().min(1, "Village is required"),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+type AnimalFormProps = {
+  language: Language;
+  defaultValues?: Partial<AnimalProfileFields>;
+  submitLabel: string;
+  isSubmitting?: boolean;
+  onSubmit: (values: AnimalProfileFields) => void | Promise<void>;
+};
+
+export default function AnimalForm({
+  language,
+  defaultValues,
+  submitLabel,
+  isSubmitting,
+  onSubmit,
+}: AnimalFormProps) {
+  const t = useMemo(() => translations[language], [language]);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      tagId: '',
+      species: 'Cattle',
+      breed: '',
+      sex: 'Female',
+      dateOfBirth: '',
+      ownerName: '',
+      village: '',
+      ...defaultValues,
+    },
+  });
+
+  const handleSubmit = (values: FormValues) =>
+    onSubmit({
+      ...values,
+      breed: values.breed || undefined,
+      dateOfBirth: values.dateOfBirth || undefined,
+    });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <div className="grid sm:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="tagId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t.earTag}</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="breed"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t.breed}</FormLabel>
+                <BreedPicker
+                  language={language}
+                  value={field.value || null}
+                  onChange={(breedId) => {
+                    field.onChange(breedId);
+                    const breed = findBreedBySlug(breedId);
+                    if (breed) form.setValue('species', breed.category);
+                  }}
+                />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="species"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t.species}</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="Cattle">{t.Cattle}</SelectItem>
+                    <SelectItem value="Buffalo">{t.Buffalo}</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="sex"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t.sex}</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="Female">{t.Female}</SelectItem>
+                    <SelectItem value="Male">{t.Male}</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="dateOfBirth"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t.dateOfBirth}</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="ownerName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t.owner}</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="village"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t.village}</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <Button type="submit" className="w-full" disabled={isSubmitting}>
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+}
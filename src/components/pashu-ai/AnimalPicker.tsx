@@ -0,0 +1,73 @@
+"use client";
+
+import React, { useState, useMemo, useEffect } from 'react';
+import { listAnimals } from '@/app/animals/actions';
+import type { Animal } from '@/lib/server/animal-store';
+import { animalBreedName } from '@/lib/animals';
+import { Language, translations } from '@/lib/translations';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Search } from 'lucide-react';
+
+type AnimalPickerProps = {
+  language: Language;
+  actionLabel: string;
+  /** Id of the animal whose action is in progress; every action is disabled while set. */
+  busyId: string | null;
+  onPick: (animal: Animal) => void;
+};
+
+/** A searchable list of registered animals with one action button per row. */
+export default function AnimalPicker({ language, actionLabel, busyId, onPick }: AnimalPickerProps) {
+  const [query, setQuery] = useState('');
+  const [animals, setAnimals] = useState<Animal[]>([]);
+  const t = useMemo(() => translations[language], [language]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      listAnimals(query)
+        .then(result => !cancelled && setAnimals(result))
+        .catch(err => console.error('Could not load animals:', err));
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          className="pl-9"
+          placeholder={t.searchAnimals}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2 max-h-64 overflow-y-auto pr-2">
+        {animals.map(animal => (
+          <div key={animal.id} className="flex items-center justify-between gap-2 p-3 border rounded-md">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-bold truncate">{animal.tagId}</span>
+                <Badge variant="secondary">{t[animal.species]}</Badge>
+              </div>
+              <p className="text-sm text-muted-foreground truncate">
+                {animalBreedName(animal, t.unknownBreed)} · {animal.ownerName} · {animal.village}
+              </p>
+            </div>
+            <Button size="sm" onClick={() => onPick(animal)} disabled={busyId !== null}>
+              {busyId === animal.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {actionLabel}
+            </Button>
+          </div>
+        ))}
+        {animals.length === 0 && <p className="text-sm text-muted-foreground">{t.noAnimalsFound}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import React, { useState, useMemo, useEffect, useRef, ChangeEvent } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { getAnimal, updateAnimalProfile, uploadAnimalPhoto } from '@/app/animals/actions';
+import type { Animal, AnimalProfileFields } from '@/lib/server/animal-store';
+import { ageInYearsAndMonths, animalBreedName, animalPhotoUrl } from '@/lib/animals';
+import { useToast } from '@/hooks/use-toast';
+import { Language, translations } from '@/lib/translations';
+import { formatDate } from '@/lib/format';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '../ui/alert';
+import { ArrowLeft, ImagePlus, Loader2, Pencil } from 'lucide-react';
+import AnimalForm from './AnimalForm';
+import BreedLink from './BreedLink';
+import HealthTimeline from './HealthTimeline';
+import VaccinationSchedule from './VaccinationSchedule';
+
+type AnimalProfileProps = {
+  language: Language;
+  animalId: string;
+};
+
+export default function AnimalProfile({ language, animalId }: AnimalProfileProps) {
+  const [animal, setAnimal] = useState<Animal | null | undefined>(undefined);
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const t = useMemo(() => translations[language], [language]);
+
+  useEffect(() => {
+    getAnimal(animalId)
+      .then(setAnimal)
+      .catch(err => {
+        setAnimal(null);
+        toast({ variant: 'destructive', title: t.errorTitle, description: (err as Error).message });
+      });
+  }, [animalId, toast, t]);
+
+  const handleSave = async (values: AnimalProfileFields) => {
+    setIsSaving(true);
+    try {
+      setAnimal(await updateAnimalProfile(animalId, values));
+      setIsEditOpen(false);
+    } catch (err) {
+      toast({ variant: 'destructive', title: t.errorTitle, description: (err as Error).message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePhotoChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setIsUploading(true);
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      try {
+        setAnimal(await uploadAnimalPhoto(animalId, event.target?.result as string));
+      } catch (err) {
+        toast({ variant: 'destructive', title: t.errorTitle, description: (err as Error).message });
+      } finally {
+        setIsUploading(false);
+      }
+    };
+    reader.onerror = () => {
+      toast({ variant: 'destructive', title: t.errorTitle, description: t.errorDescription });
+      setIsUploading(false);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const formatAge = (dateOfBirth: string) => {
+    const { years, months } = ageInYearsAndMonths(dateOfBirth);
+    return `${years} ${t.yearsShort} ${months} ${t.monthsShort}`;
+  };
+
+  const details: { label: string; value?: string }[] = animal
+    ? [
+        { label: t.breed, value: animalBreedName(animal, t.unknownBreed) },
+        { label: t.species, value: t[animal.species] },
+        { label: t.sex, value: t[animal.sex] },
+        { label: t.dateOfBirth, value: animal.dateOfBirth && formatDate(animal.dateOfBirth, language) },
+        { label: t.age, value: animal.dateOfBirth && formatAge(animal.dateOfBirth) },
+        { label: t.owner, value: animal.ownerName },
+        { label: t.village, value: animal.village },
+      ]
+    : [];
+
+  return (
+    <div className="w-full max-w-4xl mx-auto py-8 px-4 space-y-4">
+      <Button variant="ghost" asChild>
+        <Link href="/animals">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          {t.backToRegistry}
+        </Link>
+      </Button>
+
+      {animal === undefined && <Skeleton className="h-64 w-full" />}
+
+      {animal === null && (
+        <Alert variant="destructive">
+          <AlertDescription>{t.animalNotFound}</AlertDescription>
+        </Alert>
+      )}
+
+      {animal && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle className="font-headline text-2xl">{animal.tagId}</CardTitle>
+                <CardDescription className="text-lg text-primary font-semibold">
+                  <BreedLink name={animalBreedName(animal, t.unknownBreed)} />
+                </CardDescription>
+              </div>
+              <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+                <DialogTrigger asChild>
+                  <Button variant="outline">
+                    <Pencil className="mr-2 h-4 w-4" />
+                    {t.edit}
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-2xl">
+                  <DialogHeader>
+                    <DialogTitle>{t.edit}</DialogTitle>
+                  </DialogHeader>
+                  <AnimalForm
+                    language={language}
+                    defaultValues={animal}
+                    submitLabel={t.save}
+                    isSubmitting={isSaving}
+                    onSubmit={handleSave}
+                  />
+                </DialogContent>
+              </Dialog>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <dl className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              {details.map(detail => (
+                <div key={detail.label}>
+                  <dt className="text-sm font-medium text-muted-foreground">{detail.label}</dt>
+                  <dd className="font-semibold">{detail.value || '—'}</dd>
+                </div>
+              ))}
+            </dl>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold">{t.photos}</h3>
+                <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isUploading}>
+                  {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ImagePlus className="mr-2 h-4 w-4" />}
+                  {t.addPhoto}
+                </Button>
+                <input
+                  type="file"
+                  ref={fileInputRef}
+                  onChange={handlePhotoChange}
+                  className="hidden"
+                  accept="image/*"
+                />
+              </div>
+              {animal.photos.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t.noPhotos}</p>
+              ) : (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                  {animal.photos.map(photo => (
+                    <div key={photo.sha256} className="relative overflow-hidden rounded-lg border">
+                      <Image
+                        src={animalPhotoUrl(photo)}
+                        alt={animal.tagId}
+                        width={300}
+                        height={200}
+                        className="aspect-video w-full object-cover"
+                      />
+                      <Badge variant="secondary" className="absolute bottom-2 left-2 text-xs">
+                        {formatDate(photo.addedAt, language)}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-semibold">{t.vaccinationSchedule}</h3>
+              <VaccinationSchedule language={language} animalId={animal.id} />
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-semibold">{t.healthHistory}</h3>
+              <HealthTimeline language={language} animalId={animal.id} />
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
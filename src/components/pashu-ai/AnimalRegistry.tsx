@@ -0,0 +1,159 @@
+"use client";
+
+import React, { useState, useMemo, useEffect } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { listAnimals, registerAnimal } from '@/app/animals/actions';
+import type { Animal, AnimalProfileFields } from '@/lib/server/animal-store';
+import { animalBreedName, animalPhotoUrl } from '@/lib/animals';
+import { useToast } from '@/hooks/use-toast';
+import { Language, translations } from '@/lib/translations';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '../ui/alert';
+import { ClipboardList, Plus, Search } from 'lucide-react';
+import { CowIcon } from './icons';
+import AnimalForm from './AnimalForm';
+import VaccinationReminders from './VaccinationReminders';
+
+type AnimalRegistryProps = {
+  language: Language;
+};
+
+export default function AnimalRegistry({ language }: AnimalRegistryProps) {
+  const [query, setQuery] = useState('');
+  const [animals, setAnimals] = useState<Animal[] | null>(null);
+  const [isRegisterOpen, setIsRegisterOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const router = useRouter();
+  const { toast } = useToast();
+  const t = useMemo(() => translations[language], [language]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const result = await listAnimals(query);
+        if (!cancelled) setAnimals(result);
+      } catch (err) {
+        if (!cancelled) toast({ variant: 'destructive', title: t.errorTitle, description: (err as Error).message });
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, toast, t]);
+
+  const handleRegister = async (values: AnimalProfileFields) => {
+    setIsSaving(true);
+    try {
+      const animal = await registerAnimal(values);
+      setIsRegisterOpen(false);
+      router.push(`/animals/${animal.id}`);
+    } catch (err) {
+      toast({ variant: 'destructive', title: t.errorTitle, description: (err as Error).message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto py-8 px-4 space-y-4">
+      <VaccinationReminders language={language} />
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <div className="p-3 bg-primary/10 rounded-full">
+                <ClipboardList className="h-8 w-8 text-primary" />
+              </div>
+              <div>
+                <CardTitle className="font-headline">{t.animalRegistry}</CardTitle>
+                <CardDescription>{t.animalRegistryDescription}</CardDescription>
+              </div>
+            </div>
+            <Dialog open={isRegisterOpen} onOpenChange={setIsRegisterOpen}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  {t.registerAnimal}
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                  <DialogTitle>{t.registerAnimal}</DialogTitle>
+                </DialogHeader>
+                <AnimalForm
+                  language={language}
+                  submitLabel={t.registerAnimal}
+                  isSubmitting={isSaving}
+                  onSubmit={handleRegister}
+                />
+              </DialogContent>
+            </Dialog>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              className="pl-9"
+              placeholder={t.searchAnimals}
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+          </div>
+
+          {animals === null ? (
+            <div className="space-y-3">
+              <Skeleton className="h-20 w-full" />
+              <Skeleton className="h-20 w-full" />
+            </div>
+          ) : animals.length === 0 ? (
+            <Alert>
+              <AlertDescription>{t.noAnimalsFound}</AlertDescription>
+            </Alert>
+          ) : (
+            <div className="grid gap-3">
+              {animals.map(animal => (
+                <Link href={`/animals/${animal.id}`} key={animal.id}>
+                  <div className="flex items-center gap-4 p-3 border rounded-lg hover:bg-muted/50 transition-colors">
+                    <div className="h-16 w-16 flex-shrink-0 overflow-hidden rounded-md bg-muted flex items-center justify-center">
+                      {animal.photos.length > 0 ? (
+                        <Image
+                          src={animalPhotoUrl(animal.photos[animal.photos.length - 1])}
+                          alt={animal.tagId}
+                          width={64}
+                          height={64}
+                          className="h-16 w-16 object-cover"
+                        />
+                      ) : (
+                        <CowIcon className="h-8 w-8 text-muted-foreground" />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-bold truncate">{animal.tagId}</p>
+                        <Badge variant="secondary">{t[animal.species]}</Badge>
+                      </div>
+                      <p className="text-sm text-primary">{animalBreedName(animal, t.unknownBreed)}</p>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {animal.ownerName} · {animal.village}
+                      </p>
+                    </div>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import React, { useState, useMemo } from 'react';
+import { attachScanToAnimal, registerAnimal } from '@/app/animals/actions';
+import type { Animal, AnimalProfileFields } from '@/lib/server/animal-store';
+import { findBreedBySlug } from '@/lib/breed-data';
+import { useToast } from '@/hooks/use-toast';
+import { Language, translations } from '@/lib/translations';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ClipboardPlus } from 'lucide-react';
+import AnimalForm from './AnimalForm';
+import AnimalPicker from './AnimalPicker';
+
+type AttachToAnimalDialogProps = {
+  language: Language;
+  /** The confirmed catalogue breed ID, or '' for an unknown or crossbred animal. */
+  breedId: string;
+  photoDataUri: string;
+  onAttached: (animal: Animal) => void;
+};
+
+/** Saves a confirmed breed and its scan photo to a new or existing animal profile. */
+export default function AttachToAnimalDialog({
+  language,
+  breedId,
+  photoDataUri,
+  onAttached,
+}: AttachToAnimalDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const t = useMemo(() => translations[language], [language]);
+  const catalogueBreed = findBreedBySlug(breedId);
+
+  const finish = (animal: Animal) => {
+    toast({ title: t.animalSavedTitle, description: t.animalSavedDescription });
+    setIsOpen(false);
+    onAttached(animal);
+  };
+
+  const handleAttach = async (animal: Animal) => {
+    if (catalogueBreed && catalogueBreed.category !== animal.species) {
+      toast({ variant: 'destructive', title: t.errorTitle, description: t.breedSpeciesMismatch });
+      return;
+    }
+    setSavingId(animal.id);
+    try {
+      finish(await attachScanToAnimal(animal.id, { breedId, photoDataUri }));
+    } catch (err) {
+      toast({ variant: 'destructive', title: t.errorTitle, description: (err as Error).message });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleRegister = async (values: AnimalProfileFields) => {
+    setSavingId('new');
+    try {
+      finish(await registerAnimal(values, { dataUri: photoDataUri, source: 'scan' }));
+    } catch (err) {
+      toast({ variant: 'destructive', title: t.errorTitle, description: (err as Error).message });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full">
+          <ClipboardPlus className="mr-2 h-4 w-4" />
+          {t.saveToAnimalProfile}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t.saveToAnimalProfile}</DialogTitle>
+        </DialogHeader>
+        <Tabs defaultValue="existing">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="existing">{t.existingAnimal}</TabsTrigger>
+            <TabsTrigger value="new">{t.newAnimal}</TabsTrigger>
+          </TabsList>
+          <TabsContent value="existing">
+            <AnimalPicker language={language} actionLabel={t.attach} busyId={savingId} onPick={handleAttach} />
+          </TabsContent>
+          <TabsContent value="new">
+            <AnimalForm
+              language={language}
+              defaultValues={{ breed: breedId || undefined, species: catalogueBreed?.category ?? 'Cattle' }}
+              submitLabel={t.registerAnimal}
+              isSubmitting={savingId === 'new'}
+              onSubmit={handleRegister}
+            />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import React, { useState, useMemo } from 'react';
+import Link from 'next/link';
+import { BreedData, breedSlug, indianBreedData, purposeLabels } from '@/lib/breed-data';
+import { Language, translations } from '@/lib/translations';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Alert, AlertDescription } from '../ui/alert';
+import { BookOpen, Search } from 'lucide-react';
+
+type BreedCatalogueProps = {
+  language: Language;
+};
+
+type CategoryFilter = BreedData['category'] | 'all';
+type PurposeFilter = BreedData['purpose'] | 'all';
+
+export default function BreedCatalogue({ language }: BreedCatalogueProps) {
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState<CategoryFilter>('all');
+  const [purpose, setPurpose] = useState<PurposeFilter>('all');
+  const t = useMemo(() => translations[language], [language]);
+
+  const breeds = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return indianBreedData
+      .filter(breed => category === 'all' || breed.category === category)
+      .filter(breed => purpose === 'all' || breed.purpose === purpose)
+      .filter(breed =>
+        !needle ||
+        breed.breedName.toLowerCase().includes(needle) ||
+        breed.nativeTract.some(state => state.toLowerCase().includes(needle))
+      )
+      .sort((a, b) => a.breedName.localeCompare(b.breedName));
+  }, [query, category, purpose]);
+
+  return (
+    <div className="w-full max-w-5xl mx-auto py-8 px-4 space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-4">
+            <div className="p-3 bg-primary/10 rounded-full">
+              <BookOpen className="h-8 w-8 text-primary" />
+            </div>
+            <div>
+              <CardTitle className="font-headline">{t.breedEncyclopedia}</CardTitle>
+              <CardDescription>{t.breedEncyclopediaDescription}</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid sm:grid-cols-3 gap-3">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                className="pl-9"
+                placeholder={t.searchBreeds}
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+              />
+            </div>
+            <Select value={category} onValueChange={(value) => setCategory(value as CategoryFilter)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t.allSpecies}</SelectItem>
+                <SelectItem value="Cattle">{t.Cattle}</SelectItem>
+                <SelectItem value="Buffalo">{t.Buffalo}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={purpose} onValueChange={(value) => setPurpose(value as PurposeFilter)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t.allPurposes}</SelectItem>
+                {(Object.keys(purposeLabels) as BreedData['purpose'][]).map(p => (
+                  <SelectItem key={p} value={p}>{t[purposeLabels[p]]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {breeds.length === 0 ? (
+            <Alert>
+              <AlertDescription>{t.noBreedsMatch}</AlertDescription>
+            </Alert>
+          ) : (
+            <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+              {breeds.map(breed => (
+                <Link href={`/breeds/${breedSlug(breed.breedName)}`} key={breed.breedName}>
+                  <div className="h-full p-4 border rounded-lg hover:bg-muted/50 transition-colors space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-bold text-primary">{breed.breedName}</p>
+                      <Badge variant="secondary">{t[breed.category]}</Badge>
+                    </div>
+                    <Badge variant="outline">{t[purposeLabels[breed.purpose]]}</Badge>
+                    <p className="text-sm text-muted-foreground">
+                      {t.milkYield}: {breed.milkYield} {t.litresPerDay} · {t.fat}: {breed.fatPercentage}%
+                    </p>
+                    <p className="text-sm text-muted-foreground truncate">{breed.nativeTract.join(', ')}</p>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
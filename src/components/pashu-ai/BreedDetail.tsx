@@ -0,0 +1,142 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { climateLabels, findBreedBySlug, purposeLabels } from '@/lib/breed-data';
+import { breedReferenceImages } from '@/lib/placeholder-images';
+import { Language, translations } from '@/lib/translations';
+import { formatRupees } from '@/lib/format';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '../ui/alert';
+import { ArrowLeft } from 'lucide-react';
+
+type BreedDetailProps = {
+  language: Language;
+  slug: string;
+};
+
+export default function BreedDetail({ language, slug }: BreedDetailProps) {
+  const t = useMemo(() => translations[language], [language]);
+  const breed = findBreedBySlug(slug);
+  const photos = breed ? breedReferenceImages(breed) : [];
+
+  const figures: { label: string; value: string }[] = breed
+    ? [
+        { label: t.milkYield, value: `${breed.milkYield} ${t.litresPerDay}` },
+        { label: t.fat, value: `${breed.fatPercentage}%` },
+        { label: t.snf, value: `${breed.snfPercentage}%` },
+        { label: t.diseaseResistance, value: t[breed.diseaseResistance] },
+        { label: t.careLevel, value: t[breed.careLevel] },
+        { label: t.lifespan, value: `${breed.lifespan} ${t.years}` },
+        { label: t.marketPrice, value: formatRupees(breed.marketPrice, language) },
+        { label: t.size, value: breed.size },
+      ]
+    : [];
+
+  return (
+    <div className="w-full max-w-4xl mx-auto py-8 px-4 space-y-4">
+      <Button variant="ghost" asChild>
+        <Link href="/breeds">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          {t.backToBreeds}
+        </Link>
+      </Button>
+
+      {!breed && (
+        <Alert variant="destructive">
+          <AlertDescription>{t.breedNotFound}</AlertDescription>
+        </Alert>
+      )}
+
+      {breed && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="font-headline text-2xl">{breed.breedName}</CardTitle>
+            <CardDescription className="flex flex-wrap gap-2 pt-1">
+              <Badge variant="secondary">{t[breed.category]}</Badge>
+              <Badge variant="outline">{t[purposeLabels[breed.purpose]]}</Badge>
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <p>{breed.description}</p>
+
+            <dl className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {figures.map(figure => (
+                <div key={figure.label}>
+                  <dt className="text-sm font-medium text-muted-foreground">{figure.label}</dt>
+                  <dd className="font-semibold">{figure.value}</dd>
+                </div>
+              ))}
+            </dl>
+
+            <div className="grid md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <h3 className="font-semibold">{t.nativeTract}</h3>
+                <div className="flex flex-wrap gap-2">
+                  {breed.nativeTract.map(state => <Badge key={state} variant="outline">{state}</Badge>)}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <h3 className="font-semibold">{t.climateSuitability}</h3>
+                <div className="flex flex-wrap gap-2">
+                  {breed.climateSuitability.map(climate => (
+                    <Badge key={climate} variant="outline">{t[climateLabels[climate]]}</Badge>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <h3 className="font-semibold">{t.physicalTraits}</h3>
+                <ul className="list-disc pl-5 text-sm space-y-1">
+                  {breed.physicalTraits.map(trait => <li key={trait}>{trait}</li>)}
+                </ul>
+              </div>
+              <div className="space-y-2">
+                <h3 className="font-semibold">{t.colors}</h3>
+                <div className="flex flex-wrap gap-2">
+                  {breed.colors.map(color => <Badge key={color} variant="secondary">{color}</Badge>)}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <h3 className="font-semibold">{t.pros}</h3>
+                <p className="text-sm">{breed.pros}</p>
+              </div>
+              <div className="space-y-2">
+                <h3 className="font-semibold">{t.cons}</h3>
+                <p className="text-sm">{breed.cons}</p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-semibold">{t.nutrition}</h3>
+              <p className="text-sm">{breed.nutrition}</p>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-semibold">{t.referencePhotos}</h3>
+              {photos.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t.noReferencePhotos}</p>
+              ) : (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                  {photos.map(img => (
+                    <Image
+                      key={img.id}
+                      src={img.imageUrl}
+                      alt={img.description}
+                      data-ai-hint={img.imageHint}
+                      width={300}
+                      height={200}
+                      className="aspect-video w-full rounded-lg border object-cover"
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
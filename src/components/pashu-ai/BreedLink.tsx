@@ -0,0 +1,24 @@
+"use client";
+
+import React from 'react';
+import Link from 'next/link';
+import { breedSlug, findBreedByName } from '@/lib/breed-data';
+import { cn } from '@/lib/utils';
+
+type BreedLinkProps = {
+  name: string;
+  className?: string;
+  children?: React.ReactNode;
+};
+
+/** Links a breed name to its encyclopedia page; names outside the catalogue stay plain text. */
+export default function BreedLink({ name, className, children }: BreedLinkProps) {
+  const breed = findBreedByName(name);
+  if (!breed) return <span className={className}>{name}</span>;
+
+  return (
+    <Link href={`/breeds/${breedSlug(breed.breedName)}`} className={cn('hover:underline', className)}>
+      {children ?? name}
+    </Link>
+  );
+}
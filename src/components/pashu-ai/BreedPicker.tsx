@@ -0,0 +1,84 @@
+"use client";
+
+import React, { useState, useMemo } from 'react';
+import { breedSlug, findBreedBySlug, UNKNOWN_BREED_ID } from '@/lib/breed-data';
+import { searchBreeds } from '@/lib/breed-matching';
+import { Language, translations } from '@/lib/translations';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Check, ChevronsUpDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+type BreedPickerProps = {
+  language: Language;
+  value: string | null;
+  onChange: (breedId: string) => void;
+};
+
+/** Searchable picker over the canonical breed IDs, including "unknown / crossbred". */
+export default function BreedPicker({ language, value, onChange }: BreedPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const t = useMemo(() => translations[language], [language]);
+
+  const options = useMemo(
+    () => [
+      ...searchBreeds(query).map(breed => ({
+        id: breedSlug(breed.breedName),
+        label: breed.breedName,
+        category: t[breed.category],
+      })),
+      { id: UNKNOWN_BREED_ID, label: t.unknownBreed, category: null },
+    ],
+    [query, t]
+  );
+
+  const selectedLabel = value === UNKNOWN_BREED_ID ? t.unknownBreed : value && findBreedBySlug(value)?.breedName;
+
+  const handleSelect = (breedId: string) => {
+    onChange(breedId);
+    setIsOpen(false);
+    setQuery('');
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" role="combobox" aria-expanded={isOpen} className="w-full justify-between font-normal">
+          {selectedLabel || <span className="text-muted-foreground">{t.selectCorrectBreed}</span>}
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-2" align="start">
+        <Input
+          autoFocus
+          placeholder={t.searchBreeds}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="mb-2"
+        />
+        <ScrollArea className="h-64">
+          <div role="listbox" className="space-y-1 pr-3">
+            {options.map(option => (
+              <button
+                type="button"
+                role="option"
+                aria-selected={option.id === value}
+                key={option.id}
+                onClick={() => handleSelect(option.id)}
+                className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent hover:text-accent-foreground"
+              >
+                <Check className={cn('h-4 w-4', option.id === value ? 'opacity-100' : 'opacity-0')} />
+                <span className="flex-1">{option.label}</span>
+                {option.category && <Badge variant="secondary">{option.category}</Badge>}
+              </button>
+            ))}
+          </div>
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -2,18 +2,21 @@
 
 import React, { useState, useRef, useMemo, ChangeEvent, useEffect } from 'react';
 import Image from 'next/image';
+import Link from 'next/link';
 import {
   suggestBreedFromImage,
   SuggestBreedFromImageOutput,
 } from '@/ai/flows/suggest-breed-from-image';
-import {
-  identifyBreedOffline,
-  IdentifyBreedOfflineOutput,
-} from '@/ai/flows/identify-breed-offline';
-import { improveModelAccuracy } from '@/ai/flows/improve-model-accuracy';
+import type { IdentifyBreedOfflineOutput } from '@/ai/flows/identify-breed-offline';
 import { useToast } from '@/hooks/use-toast';
 import { Language, translations } from '@/lib/translations';
 import { PlaceHolderImages } from '@/lib/placeholder-images';
+import { identifyBreedLocally, rememberBreedDetails } from '@/lib/offline-classifier';
+import { findBreedByName, findBreedBySlug, UNKNOWN_BREED_ID } from '@/lib/breed-data';
+import { breedDetails } from '@/lib/breed-matching';
+import { getDeviceId } from '@/lib/device-id';
+import { isNetworkError, submitViaOutbox } from '@/lib/outbox';
+import type { Animal } from '@/lib/server/animal-store';
 import { Button } from '@/components/ui/button';
 import {
   Card,
@@ -23,13 +26,25 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Camera, CheckCircle, RotateCcw, ThumbsDown, Upload, Video, X, AlertTriangle, RefreshCw } from 'lucide-react';
+import { Camera, CheckCircle, RotateCcw, ThumbsDown, Upload, Video, X, AlertTriangle, RefreshCw, ClipboardList } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import AttachToAnimalDialog from './AttachToAnimalDialog';
+import BreedPicker from './BreedPicker';
+import BreedLink from './BreedLink';
+import ReadAloud, { type ReadAloudSection } from './ReadAloud';
+
+const breedNameFor = (breedId: string, t: (typeof translations)['en']) =>
+  findBreedBySlug(breedId)?.breedName ?? t.unknownBreed;
+
+const breedSections = (breed: BreedSuggestion, t: (typeof translations)['en']): ReadAloudSection[] => [
+  { id: 'description', title: breed.breed, text: breed.description },
+  { id: 'size', title: t.size, text: breed.size },
+  { id: 'nutrition', title: t.nutrition, text: breed.nutrition },
+];
 
 type BreedRecognitionProps = {
   language: Language;
@@ -37,12 +52,16 @@ type BreedRecognitionProps = {
 };
 
 type BreedSuggestion = {
+  breedId: string;
+  /** Display name: the catalogue name, or "Unknown / crossbred". */
   breed: string;
   confidence: number;
   description: string;
   size: string;
   colors: string[];
   nutrition: string;
+  /** False when the details are model-written because the breed is not in the catalogue. */
+  verified: boolean;
 };
 
 export default function BreedRecognition({
@@ -56,11 +75,13 @@ export default function BreedRecognition({
   const [suggestions, setSuggestions] = useState<BreedSuggestion[]>([]);
   const [finalBreed, setFinalBreed] = useState<BreedSuggestion | null>(null);
   const [showCorrection, setShowCorrection] = useState(false);
-  const [correctionText, setCorrectionText] = useState('');
+  const [correctionBreedId, setCorrectionBreedId] = useState<string | null>(null);
   const [isCameraOpen, setIsCameraOpen] = useState(false);
   const [hasCameraPermission, setHasCameraPermission] = useState<boolean | null>(null);
   const [validationError, setValidationError] = useState<string | null>(null);
   const [facingMode, setFacingMode] = useState<'environment' | 'user'>('environment');
+  const [predictionMode, setPredictionMode] = useState<'online' | 'offline'>(mode);
+  const [attachedAnimal, setAttachedAnimal] = useState<Animal | null>(null);
 
 
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -76,10 +97,11 @@ export default function BreedRecognition({
     setSuggestions([]);
     setFinalBreed(null);
     setShowCorrection(false);
-    setCorrectionText('');
+    setCorrectionBreedId(null);
     setIsUploading(false);
     setIsCameraOpen(false);
     setValidationError(null);
+    setAttachedAnimal(null);
     if (videoRef.current?.srcObject) {
         (videoRef.current.srcObject as MediaStream).getTracks().forEach(track => track.stop());
     }
@@ -181,6 +203,23 @@ export default function BreedRecognition({
     }
   };
 
+  const recordCompletedScan = (
+    scanMode: 'online' | 'offline',
+    isAnimal: boolean,
+    scanSuggestions: { breed: string; confidence: number }[]
+  ) => {
+    if (!imageSrc) return;
+    submitViaOutbox('scan', {
+      imageDataUri: imageSrc,
+      predictionMode: scanMode,
+      isAnimal,
+      suggestions: scanSuggestions.map(s => ({ breed: s.breed, confidence: s.confidence })),
+      language,
+      submittedBy: getDeviceId(),
+      capturedAt: new Date().toISOString(),
+    }).catch(err => console.error('Could not queue scan record:', err));
+  };
+
   useEffect(() => {
     if (imageSrc) {
       const analyzeImage = async () => {
@@ -189,41 +228,73 @@ export default function BreedRecognition({
         setValidationError(null);
         setSuggestions([]);
 
+        const identifyOnDevice = async () => {
+            const result: IdentifyBreedOfflineOutput =
+              await identifyBreedLocally({ photoDataUri: imageSrc, language });
+
+            setPredictionMode('offline');
+            recordCompletedScan(
+              'offline',
+              result.isAnimal,
+              result.isAnimal ? [{ breed: result.breedSuggestion, confidence: result.confidenceScore }] : []
+            );
+            if (!result.isAnimal) {
+                setValidationError(result.reason || t.invalidImage);
+            } else {
+                setSuggestions([
+                    {
+                        breedId: result.breedSuggestion,
+                        breed: breedNameFor(result.breedSuggestion, t),
+                        confidence: result.confidenceScore,
+                        description: result.description,
+                        size: result.size,
+                        colors: result.colors,
+                        nutrition: result.nutrition,
+                        verified: result.verified,
+                    },
+                ]);
+            }
+        };
+
         try {
           if (mode === 'online') {
-            const result: SuggestBreedFromImageOutput =
-              await suggestBreedFromImage({ photoDataUri: imageSrc, language });
+            let result: SuggestBreedFromImageOutput;
+            try {
+              result = await suggestBreedFromImage({ photoDataUri: imageSrc, language });
+            } catch (err) {
+              if (!isNetworkError(err)) throw err;
+              // No coverage: fall back to the on-device model; the scan is queued for upload.
+              toast({ title: t.offlineFallbackTitle, description: t.offlineFallbackDescription });
+              await identifyOnDevice();
+              return;
+            }
 
+            setPredictionMode('online');
+            recordCompletedScan(
+              'online',
+              result.isAnimal,
+              result.breedSuggestions.map(s => ({ breed: s.breedId, confidence: s.confidence }))
+            );
             if (!result.isAnimal) {
                 setValidationError(result.reason || t.invalidImage);
             } else {
+                // Offline scans cannot translate the catalogue, so keep these translations for them.
+                for (const { breedId, description, size, colors, nutrition, verified } of result.breedSuggestions) {
+                    if (verified) rememberBreedDetails(breedId, language, { description, size, colors, nutrition });
+                }
                 setSuggestions(result.breedSuggestions.map(s => ({
-                    breed: s.breed,
+                    breedId: s.breedId,
+                    breed: breedNameFor(s.breedId, t),
                     confidence: s.confidence,
                     description: s.description,
                     size: s.size,
                     colors: s.colors,
-                    nutrition: s.nutrition
+                    nutrition: s.nutrition,
+                    verified: s.verified,
                 })));
             }
           } else {
-            const result: IdentifyBreedOfflineOutput =
-              await identifyBreedOffline({ photoDataUri: imageSrc, language });
-            
-            if (!result.isAnimal) {
-                setValidationError(result.reason || t.invalidImage);
-            } else {
-                setSuggestions([
-                    {
-                        breed: result.breedSuggestion,
-                        confidence: result.confidenceScore,
-                        description: result.description,
-                        size: result.size,
-                        colors: result.colors,
-                        nutrition: result.nutrition
-                    },
-                ]);
-            }
+            await identifyOnDevice();
           }
         } catch (err) {
           setError(t.errorDescription);
@@ -236,30 +307,65 @@ export default function BreedRecognition({
     }
   }, [imageSrc, mode, t, toast, language]);
 
-  const handleConfirmBreed = (suggestion: BreedSuggestion) => {
+  const handleConfirmBreed = async (suggestion: BreedSuggestion) => {
     setFinalBreed(suggestion);
     setShowCorrection(false);
+    if (!imageSrc) return;
+
+    try {
+      await submitViaOutbox('confirmation', {
+        imageDataUri: imageSrc,
+        confirmedBreed: suggestion.breedId,
+        originalSuggestions: suggestions.map(s => ({ breed: s.breedId, confidence: s.confidence })),
+        predictionMode,
+        language,
+        submittedBy: getDeviceId(),
+        capturedAt: new Date().toISOString(),
+      });
+    } catch (err) {
+      toast({ variant: 'destructive', title: t.errorTitle, description: (err as Error).message });
+    }
   };
 
   const handleCorrectionSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!correctionText.trim() || !imageSrc) return;
+    if (!correctionBreedId || !imageSrc) return;
 
-    await improveModelAccuracy({
-      imageDataUri: imageSrc,
-      correctedBreed: correctionText,
-    });
+    let delivery: 'sent' | 'queued';
+    try {
+      delivery = await submitViaOutbox('correction', {
+        imageDataUri: imageSrc,
+        correctedBreed: correctionBreedId,
+        originalSuggestions: suggestions.map(s => ({ breed: s.breedId, confidence: s.confidence })),
+        predictionMode,
+        language,
+        submittedBy: getDeviceId(),
+        capturedAt: new Date().toISOString(),
+      });
+    } catch (err) {
+      toast({ variant: 'destructive', title: t.errorTitle, description: (err as Error).message });
+      return;
+    }
     toast({
       title: t.correctionSubmittedTitle,
-      description: t.correctionSubmittedDescription,
+      description: delivery === 'sent' ? t.correctionSubmittedDescription : t.correctionQueuedDescription,
     });
-    setFinalBreed({
-        breed: correctionText,
+    const correctedBreed = findBreedBySlug(correctionBreedId);
+    setFinalBreed(correctedBreed ? {
+        breedId: correctionBreedId,
+        breed: correctedBreed.breedName,
+        confidence: 1,
+        ...breedDetails(correctedBreed),
+        verified: true,
+      } : {
+        breedId: correctionBreedId,
+        breed: t.unknownBreed,
         confidence: 1,
         description: t.noInfo,
         size: t.noInfo,
         colors: [],
         nutrition: t.noInfo,
+        verified: false,
       });
     setShowCorrection(false);
   };
@@ -442,7 +548,12 @@ export default function BreedRecognition({
                     <AccordionTrigger>
                         <div className="w-full">
                             <div className="flex justify-between items-center">
-                                <p className="font-bold text-lg">{s.breed}</p>
+                                <div className="flex items-center gap-2">
+                                    <p className="font-bold text-lg">{s.breed}</p>
+                                    {!s.verified && (
+                                        <Badge variant="outline" className="bg-yellow-500/20 text-yellow-700 border-yellow-500/50">{t.unverified}</Badge>
+                                    )}
+                                </div>
                                 <span className="text-sm text-muted-foreground pr-4">
                                 {(s.confidence * 100).toFixed(0)}% {t.confidence}
                                 </span>
@@ -451,7 +562,16 @@ export default function BreedRecognition({
                         </div>
                     </AccordionTrigger>
                     <AccordionContent className="space-y-4">
+                        {!s.verified && (
+                            <p className="text-sm text-muted-foreground">{t.unverifiedBreedInfo}</p>
+                        )}
+                        <ReadAloud language={language} sections={breedSections(s, t)} />
                         <p>{s.description}</p>
+                        {findBreedByName(s.breed) && (
+                            <BreedLink name={s.breed} className="block text-sm font-medium text-primary">
+                                {t.viewBreedPage}
+                            </BreedLink>
+                        )}
                         <div>
                             <h4 className="font-semibold">{t.size}</h4>
                             <p>{s.size}</p>
@@ -493,13 +613,8 @@ export default function BreedRecognition({
             </Button>
             {showCorrection && (
                 <form onSubmit={handleCorrectionSubmit} className="w-full space-y-2">
-                <Input
-                    placeholder={t.enterCorrectBreed}
-                    value={correctionText}
-                    onChange={(e) => setCorrectionText(e.target.value)}
-                    required
-                />
-                <Button type="submit" className="w-full">{t.submitCorrection}</Button>
+                <BreedPicker language={language} value={correctionBreedId} onChange={setCorrectionBreedId} />
+                <Button type="submit" className="w-full" disabled={!correctionBreedId}>{t.submitCorrection}</Button>
                 </form>
             )}
             </>
@@ -515,7 +630,10 @@ export default function BreedRecognition({
                 <CheckCircle className="h-8 w-8 text-accent-foreground" />
             </div>
             <CardTitle className="font-headline">{t.finalBreed}</CardTitle>
-            <CardDescription className="text-2xl font-bold text-primary">{finalBreed?.breed}</CardDescription>
+            <CardDescription className="text-2xl font-bold text-primary">{finalBreed && <BreedLink name={finalBreed.breed} />}</CardDescription>
+            {finalBreed && !finalBreed.verified && (
+                <Badge variant="outline" className="mx-auto w-fit bg-yellow-500/20 text-yellow-700 border-yellow-500/50">{t.unverified}</Badge>
+            )}
         </CardHeader>
         <CardContent className="space-y-6">
         {imageSrc && (
@@ -530,6 +648,7 @@ export default function BreedRecognition({
             </div>
             )}
             <div className="space-y-4 text-left">
+                {finalBreed && <ReadAloud language={language} sections={breedSections(finalBreed, t)} />}
                 <p>{finalBreed?.description}</p>
                 <div>
                     <h4 className="font-semibold">{t.size}</h4>
@@ -549,7 +668,24 @@ export default function BreedRecognition({
                 </div>
             </div>
         </CardContent>
-        <CardFooter>
+        <CardFooter className="flex-col gap-4 items-stretch">
+            {attachedAnimal ? (
+                <Button variant="outline" asChild>
+                    <Link href={`/animals/${attachedAnimal.id}`}>
+                        <ClipboardList className="mr-2 h-4 w-4" />
+                        {t.viewProfile} ({attachedAnimal.tagId})
+                    </Link>
+                </Button>
+            ) : (
+                finalBreed && imageSrc && (
+                    <AttachToAnimalDialog
+                        language={language}
+                        breedId={finalBreed.breedId === UNKNOWN_BREED_ID ? '' : finalBreed.breedId}
+                        photoDataUri={imageSrc}
+                        onAttached={setAttachedAnimal}
+                    />
+                )
+            )}
             <Button className="w-full" onClick={resetState}>
                 <RotateCcw className="mr-2 h-4 w-4" />
                 {t.startOver}
@@ -0,0 +1,72 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import { Bar, CartesianGrid, ComposedChart, Line, ReferenceLine, XAxis, YAxis } from 'recharts';
+import type { RecommendBreedsOutput } from '@/ai/schemas/recommend-breeds-schema';
+import { Language, translations } from '@/lib/translations';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { cn } from '@/lib/utils';
+import { formatRupees } from '@/lib/format';
+
+type CashFlowChartProps = {
+  language: Language;
+  projection: RecommendBreedsOutput['recommendedBreeds'][0]['projection'];
+};
+
+/** Yearly net cash flow (bars) and cumulative position (line) for one animal, with NPV and IRR. */
+export default function CashFlowChart({ language, projection }: CashFlowChartProps) {
+  const t = useMemo(() => translations[language], [language]);
+
+  const chartConfig = {
+    net: { label: t.netCashFlow, color: 'hsl(var(--chart-1))' },
+    cumulative: { label: t.cumulativeCashFlow, color: 'hsl(var(--chart-2))' },
+  } satisfies ChartConfig;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-6">
+        <div>
+          <p className="text-sm font-medium text-muted-foreground">{t.npv}</p>
+          <p className={cn('text-lg font-bold', projection.npv >= 0 ? 'text-green-500' : 'text-red-500')}>
+            {formatRupees(projection.npv, language)}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm font-medium text-muted-foreground">{t.irr}</p>
+          <p className="text-lg font-bold">{projection.irr === null ? t.notProfitable : `${projection.irr}%`}</p>
+        </div>
+      </div>
+      <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+        <ComposedChart data={projection.years} margin={{ left: 8, right: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="year" tickLine={false} axisLine={false} tickFormatter={(year) => `${t.yearShort}${year}`} />
+          <YAxis tickLine={false} axisLine={false} width={64} tickFormatter={(value) => formatRupees(value, language, { compact: true })} />
+          <ReferenceLine y={0} stroke="hsl(var(--border))" />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => `${t.year} ${payload?.[0]?.payload?.year ?? ''}`}
+                formatter={(value, name) => (
+                  <div className="flex w-full justify-between gap-4">
+                    <span className="text-muted-foreground">{chartConfig[name as keyof typeof chartConfig]?.label}</span>
+                    <span className="font-mono font-medium">{formatRupees(Number(value), language)}</span>
+                  </div>
+                )}
+              />
+            }
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Bar dataKey="net" fill="var(--color-net)" radius={4} />
+          <Line dataKey="cumulative" type="monotone" stroke="var(--color-cumulative)" strokeWidth={2} dot={false} />
+        </ComposedChart>
+      </ChartContainer>
+    </div>
+  );
+}
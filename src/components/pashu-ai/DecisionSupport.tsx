@@ -7,6 +7,8 @@ import { z } from 'zod';
 import { recommendBreeds } from '@/ai/flows/recommend-breeds';
 import type { RecommendBreedsInput, RecommendBreedsOutput } from '@/ai/schemas/recommend-breeds-schema';
 import { Language, translations } from '@/lib/translations';
+import { DEFAULT_ECONOMICS, EconomicsProfile } from '@/lib/economics';
+import { getSelectedEconomicsRegion, loadEconomicsProfile } from '@/lib/economics-profiles';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import {
@@ -29,9 +31,15 @@ import { BrainCircuit, Loader2, Search, Scale } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
+import { formatRupees } from '@/lib/format';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import HerdPlanCard from './HerdPlanCard';
+import EconomicsProfileDialog from './EconomicsProfileDialog';
+import CashFlowChart from './CashFlowChart';
+import BreedLink from './BreedLink';
 
 type DecisionSupportProps = {
   language: Language;
@@ -40,12 +48,21 @@ type DecisionSupportProps = {
 type RecommendedBreed = RecommendBreedsOutput['recommendedBreeds'][0];
 
 const formSchema = z.object({
+  mode: z.enum(['single', 'herd']),
   goal: z.enum(['milk', 'draught', 'dual-purpose', 'low-maintenance']),
   budget: z.coerce.number().min(10000, "Budget must be at least 10,000"),
   landSize: z.coerce.number().min(0.1, "Land size must be positive"),
   regionalClimate: z.string().min(1, "Climate is required"),
+  fodderAvailability: z.enum(['Scarce', 'Adequate', 'Abundant']),
+  labour: z.coerce.number().min(1, "At least one worker is needed"),
+  projectionYears: z.coerce.number().int().min(5).max(10),
 });
 
+const BUDGET_RANGE = {
+  single: { max: 200000, step: 5000 },
+  herd: { max: 2000000, step: 10000 },
+};
+
 type FormValues = z.infer<typeof formSchema>;
 
 export default function DecisionSupport({ language }: DecisionSupportProps) {
@@ -54,9 +71,14 @@ export default function DecisionSupport({ language }: DecisionSupportProps) {
   const [recommendations, setRecommendations] = useState<RecommendBreedsOutput | null>(null);
   const [selectedBreeds, setSelectedBreeds] = useState<RecommendedBreed[]>([]);
   const [isClient, setIsClient] = useState(false);
+  const [economicsRegion, setEconomicsRegion] = useState('');
+  const [economics, setEconomics] = useState<EconomicsProfile>(DEFAULT_ECONOMICS);
 
   useEffect(() => {
     setIsClient(true);
+    const region = getSelectedEconomicsRegion();
+    setEconomicsRegion(region);
+    setEconomics(loadEconomicsProfile(region));
   }, []);
 
   const t = useMemo(() => translations[language], [language]);
@@ -64,12 +86,25 @@ export default function DecisionSupport({ language }: DecisionSupportProps) {
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
+      mode: 'single',
       goal: 'milk',
       budget: 50000,
       landSize: 1,
       regionalClimate: 'Hot and Dry',
+      fodderAvailability: 'Adequate',
+      labour: 1,
+      projectionYears: 7,
     },
   });
+  const mode = form.watch('mode');
+
+  const handleModeChange = (value: string) => {
+    const next = value as FormValues['mode'];
+    form.setValue('mode', next);
+    form.setValue('budget', Math.min(form.getValues('budget'), BUDGET_RANGE[next].max));
+    setRecommendations(null);
+    setSelectedBreeds([]);
+  };
 
   const onSubmit = async (values: FormValues) => {
     setIsLoading(true);
@@ -79,6 +114,7 @@ export default function DecisionSupport({ language }: DecisionSupportProps) {
 
     const input: RecommendBreedsInput = {
       ...values,
+      economics,
       language,
     };
 
@@ -122,8 +158,27 @@ export default function DecisionSupport({ language }: DecisionSupportProps) {
           </div>
         </CardHeader>
         <CardContent>
+          {isClient && (
+            <div className="mb-8">
+              <EconomicsProfileDialog
+                language={language}
+                region={economicsRegion}
+                profile={economics}
+                onChange={(region, profile) => {
+                  setEconomicsRegion(region);
+                  setEconomics(profile);
+                }}
+              />
+            </div>
+          )}
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+              <Tabs value={mode} onValueChange={handleModeChange}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="single">{t.singleAnimal}</TabsTrigger>
+                  <TabsTrigger value="herd">{t.herdPlanner}</TabsTrigger>
+                </TabsList>
+              </Tabs>
               <div className="grid md:grid-cols-2 gap-8">
                 <FormField
                   control={form.control}
@@ -176,13 +231,14 @@ export default function DecisionSupport({ language }: DecisionSupportProps) {
                   name="budget"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>{t.budgetPerAnimalInRupees} (₹{field.value.toLocaleString()})</FormLabel>
+                      <FormLabel>{mode === 'herd' ? t.totalBudgetInRupees : t.budgetPerAnimalInRupees} ({formatRupees(field.value, language)})</FormLabel>
                        <FormControl>
                         {isClient ? (
                          <Slider
+                            key={mode}
                             min={10000}
-                            max={200000}
-                            step={5000}
+                            max={BUDGET_RANGE[mode].max}
+                            step={BUDGET_RANGE[mode].step}
                             defaultValue={[field.value]}
                             onValueChange={(value) => field.onChange(value[0])}
                           />
@@ -213,6 +269,72 @@ export default function DecisionSupport({ language }: DecisionSupportProps) {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="projectionYears"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t.projectionYears} ({field.value} {t.years})</FormLabel>
+                      <FormControl>
+                        {isClient ? (
+                          <Slider
+                            min={5}
+                            max={10}
+                            step={1}
+                            defaultValue={[field.value]}
+                            onValueChange={(value) => field.onChange(value[0])}
+                          />
+                        ) : <div className="h-5" />}
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {mode === 'herd' && (
+                  <>
+                    <FormField
+                      control={form.control}
+                      name="fodderAvailability"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t.fodderAvailability}</FormLabel>
+                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="Scarce">{t.fodderScarce}</SelectItem>
+                              <SelectItem value="Adequate">{t.fodderAdequate}</SelectItem>
+                              <SelectItem value="Abundant">{t.fodderAbundant}</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="labour"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t.labourAvailable} ({field.value})</FormLabel>
+                          <FormControl>
+                            <Slider
+                              min={1}
+                              max={10}
+                              step={1}
+                              defaultValue={[field.value]}
+                              onValueChange={(value) => field.onChange(value[0])}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </>
+                )}
               </div>
 
               <Button type="submit" disabled={isLoading} className="w-full">
@@ -240,6 +362,7 @@ export default function DecisionSupport({ language }: DecisionSupportProps) {
 
           {recommendations && (
              <div className="mt-12 space-y-8">
+                {recommendations.herdPlan && <HerdPlanCard language={language} plan={recommendations.herdPlan} />}
                 <div className="flex justify-between items-center">
                     <h2 className="text-2xl font-bold text-center font-headline">{t.topRecommendations}</h2>
                     {selectedBreeds.length >= 2 && (
@@ -259,7 +382,7 @@ export default function DecisionSupport({ language }: DecisionSupportProps) {
                                     <TableHeader>
                                         <TableRow>
                                             <TableHead>{t.feature}</TableHead>
-                                            {selectedBreeds.map(b => <TableHead key={b.breedName} className="text-center">{b.breedName}</TableHead>)}
+                                            {selectedBreeds.map(b => <TableHead key={b.breedName} className="text-center"><BreedLink name={b.breedName} /></TableHead>)}
                                         </TableRow>
                                     </TableHeader>
                                     <TableBody>
@@ -271,6 +394,18 @@ export default function DecisionSupport({ language }: DecisionSupportProps) {
                                             <TableCell className="font-medium">{t.estimatedROI}</TableCell>
                                             {selectedBreeds.map(b => <TableCell key={b.breedName} className={cn("text-center font-bold", b.roi > 50 ? 'text-green-500' : b.roi > 20 ? 'text-yellow-500' : 'text-red-500')}>{b.roi.toFixed(0)}%</TableCell>)}
                                         </TableRow>
+                                        <TableRow>
+                                            <TableCell className="font-medium">{t.milkPrice}</TableCell>
+                                            {selectedBreeds.map(b => <TableCell key={b.breedName} className="text-center">{formatRupees(b.milkPricePerLitre, language, { fractionDigits: 2 })}/{t.litreShort}</TableCell>)}
+                                        </TableRow>
+                                        <TableRow>
+                                            <TableCell className="font-medium">{t.monthlyIncome}</TableCell>
+                                            {selectedBreeds.map(b => <TableCell key={b.breedName} className="text-center">{formatRupees(b.monthlyIncome, language)}</TableCell>)}
+                                        </TableRow>
+                                        <TableRow>
+                                            <TableCell className="font-medium">{t.monthlyCost}</TableCell>
+                                            {selectedBreeds.map(b => <TableCell key={b.breedName} className="text-center">{formatRupees(b.monthlyCost, language)}</TableCell>)}
+                                        </TableRow>
                                         <TableRow>
                                             <TableCell className="font-medium">{t.careLevel}</TableCell>
                                             {selectedBreeds.map(b => <TableCell key={b.breedName} className="text-center">{b.careLevel}</TableCell>)}
@@ -301,7 +436,7 @@ export default function DecisionSupport({ language }: DecisionSupportProps) {
                        <CardHeader className="bg-muted/50 p-4">
                             <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
                                 <div className="flex-1 space-y-1">
-                                    <CardTitle className="text-xl font-bold text-primary">{index + 1}. {rec.breedName}</CardTitle>
+                                    <CardTitle className="text-xl font-bold text-primary">{index + 1}. <BreedLink name={rec.breedName} /></CardTitle>
                                     <CardDescription>{t.overallScore}: {rec.overallScore.toFixed(1)} / 10</CardDescription>
                                 </div>
                                 <div className="flex items-center gap-4 flex-shrink-0">
@@ -314,6 +449,11 @@ export default function DecisionSupport({ language }: DecisionSupportProps) {
                                             {t[rec.careLevel as keyof typeof t]}
                                         </Badge>
                                     </div>
+                                    <div className="text-center">
+                                        <p className="font-semibold text-sm text-muted-foreground">{t.milkPrice}</p>
+                                        <p className="text-xl font-bold">{formatRupees(rec.milkPricePerLitre, language, { fractionDigits: 2 })}<span className="text-sm font-normal text-muted-foreground">/{t.litreShort}</span></p>
+                                        <p className="text-xs text-muted-foreground">{t.fat} {rec.fatPercentage}% · SNF {rec.snfPercentage}%</p>
+                                    </div>
                                     <div className="text-center">
                                         <p className="font-semibold text-sm text-muted-foreground">{t.estimatedROI}</p>
                                         <p className={cn('text-xl font-bold', rec.roi > 50 ? 'text-green-500' : rec.roi > 20 ? 'text-yellow-500' : 'text-red-500')}>
@@ -341,6 +481,16 @@ export default function DecisionSupport({ language }: DecisionSupportProps) {
                                     <h4 className="font-semibold">{t.cons}</h4>
                                     <p className="text-sm text-muted-foreground">{rec.cons}</p>
                                  </div>
+                                 <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <h4 className="font-semibold">{t.monthlyIncome}</h4>
+                                        <p className="text-sm text-muted-foreground">{formatRupees(rec.monthlyIncome, language)}</p>
+                                    </div>
+                                    <div>
+                                        <h4 className="font-semibold">{t.monthlyCost}</h4>
+                                        <p className="text-sm text-muted-foreground">{formatRupees(rec.monthlyCost, language)}</p>
+                                    </div>
+                                 </div>
                             </div>
                             <div className="space-y-2">
                                 <h4 className="font-semibold mb-2">{t.suitabilityScorecard}</h4>
@@ -353,6 +503,10 @@ export default function DecisionSupport({ language }: DecisionSupportProps) {
                                     </div>
                                 ))}
                              </div>
+                             <div className="md:col-span-2 space-y-2">
+                                <h4 className="font-semibold">{t.cashFlowProjection}</h4>
+                                <CashFlowChart language={language} projection={rec.projection} />
+                             </div>
                         </CardContent>
                     </Card>
                 ))}
@@ -2,13 +2,17 @@
 
 import React, { useState, useRef, useMemo, ChangeEvent, useEffect } from 'react';
 import Image from 'next/image';
+import Link from 'next/link';
 import {
   diagnoseAnimalHealth,
   DiagnoseAnimalHealthOutput,
 } from '@/ai/flows/diagnose-animal-health';
 import { useToast } from '@/hooks/use-toast';
 import { Language, translations } from '@/lib/translations';
+import { formatNumber } from '@/lib/format';
 import { PlaceHolderImages } from '@/lib/placeholder-images';
+import { SYMPTOMS, Symptom, symptomLabels } from '@/lib/symptoms';
+import type { Animal } from '@/lib/server/animal-store';
 import { Button } from '@/components/ui/button';
 import {
   Card,
@@ -19,24 +23,26 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Camera, RotateCcw, Upload, Video, X, RefreshCw, HeartPulse, Sparkles, ShieldCheck, Siren, Activity, ListPlus, LifeBuoy, Loader2, Search, AlertTriangle } from 'lucide-react';
+import { Camera, RotateCcw, Upload, Video, X, RefreshCw, HeartPulse, Sparkles, ShieldCheck, ListPlus, LifeBuoy, Loader2, Search, AlertTriangle, ClipboardList, LocateFixed } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { Textarea } from '../ui/textarea';
-import { cn } from '@/lib/utils';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogClose } from '../ui/dialog';
 import { Checkbox } from '../ui/checkbox';
 import { Input } from '../ui/input';
 import { findVetServices, FindVetServicesOutput } from '@/ai/flows/find-vet-services';
+import { isNetworkError } from '@/lib/outbox';
+import UrgencyBadge from './UrgencyBadge';
+import SaveDiagnosisDialog from './SaveDiagnosisDialog';
+import VoiceInput from './VoiceInput';
+import ReadAloud from './ReadAloud';
 
 
 type DiseaseDetectionProps = {
   language: Language;
 };
 
-type Symptom = 'lethargy' | 'appetiteLoss' | 'coughing' | 'sores' | 'limping' | 'swelling' | 'discharge' | 'diarrhea';
-
 export default function DiseaseDetection({ language }: DiseaseDetectionProps) {
   const [imageSrc, setImageSrc] = useState<string | null>(null);
   const [symptomDescription, setSymptomDescription] = useState('');
@@ -50,8 +56,11 @@ export default function DiseaseDetection({ language }: DiseaseDetectionProps) {
   const [selectedSymptoms, setSelectedSymptoms] = useState<Set<Symptom>>(new Set());
   const [location, setLocation] = useState('');
   const [isFindingVets, setIsFindingVets] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
   const [vetServices, setVetServices] = useState<FindVetServicesOutput | null>(null);
   const [isHelplineOpen, setIsHelplineOpen] = useState(false);
+  const [savedToAnimal, setSavedToAnimal] = useState<Animal | null>(null);
+  const [voiceNotes, setVoiceNotes] = useState<string[]>([]);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -59,16 +68,7 @@ export default function DiseaseDetection({ language }: DiseaseDetectionProps) {
   const { toast } = useToast();
   const t = useMemo(() => translations[language], [language]);
 
-  const symptomOptions: { id: Symptom; label: keyof (typeof t) }[] = [
-      { id: 'lethargy', label: 'symptomLethargy' },
-      { id: 'appetiteLoss', label: 'symptomAppetiteLoss' },
-      { id: 'coughing', label: 'symptomCoughing' },
-      { id: 'sores', label: 'symptomSores' },
-      { id: 'limping', label: 'symptomLimping' },
-      { id: 'swelling', label: 'symptomSwelling' },
-      { id: 'discharge', label: 'symptomDischarge' },
-      { id: 'diarrhea', label: 'symptomDiarrhea' },
-  ];
+  const symptomOptions = SYMPTOMS.map(id => ({ id, label: symptomLabels[id] }));
 
   const resetState = () => {
     setImageSrc(null);
@@ -83,6 +83,8 @@ export default function DiseaseDetection({ language }: DiseaseDetectionProps) {
     setVetServices(null);
     setIsFindingVets(false);
     setIsHelplineOpen(false);
+    setSavedToAnimal(null);
+    setVoiceNotes([]);
     if (videoRef.current?.srcObject) {
         (videoRef.current.srcObject as MediaStream).getTracks().forEach(track => track.stop());
     }
@@ -187,6 +189,7 @@ export default function DiseaseDetection({ language }: DiseaseDetectionProps) {
     setIsLoading(true);
     setError(null);
     setDiagnosisResult(null);
+    setSavedToAnimal(null);
     
     const checkedSymptoms = symptomOptions
         .filter(symptom => selectedSymptoms.has(symptom.id))
@@ -203,6 +206,11 @@ export default function DiseaseDetection({ language }: DiseaseDetectionProps) {
       });
       setDiagnosisResult(result);
     } catch (err: any) {
+      if (isNetworkError(err)) {
+        // Keep the photo and symptoms so the farmer can retry once coverage returns.
+        toast({ title: t.noConnectionTitle, description: t.noConnectionDescription });
+        return;
+      }
       if (err.message && err.message.includes('503')) {
         setError(t.serviceUnavailableError);
       } else {
@@ -226,17 +234,25 @@ export default function DiseaseDetection({ language }: DiseaseDetectionProps) {
     })
   }
   
-  const handleFindVets = async () => {
-    if (!location) return;
+  const handleFindVets = async (coordinates?: GeolocationCoordinates) => {
+    if (!location && !coordinates) return;
 
     setIsFindingVets(true);
     setVetServices(null);
     setError(null);
 
     try {
-        const result = await findVetServices({ location, language });
+        const result = await findVetServices(
+            coordinates
+                ? { coordinates: { latitude: coordinates.latitude, longitude: coordinates.longitude }, language }
+                : { location, language }
+        );
         setVetServices(result);
     } catch (err: any) {
+        if (isNetworkError(err)) {
+            toast({ title: t.noConnectionTitle, description: t.noConnectionDescription });
+            return;
+        }
         if (err.message && err.message.includes('503')) {
             setError(t.serviceUnavailableError);
         } else {
@@ -248,41 +264,43 @@ export default function DiseaseDetection({ language }: DiseaseDetectionProps) {
     }
   };
 
+  // Without GPS, a pincode in the search box ranks services around the pincode's centroid instead.
+  const fallBackToPincode = () => {
+    if (/^\d{6}$/.test(location.trim())) {
+        handleFindVets();
+    } else {
+        toast({ title: t.locationUnavailableTitle, description: t.locationUnavailableDescription });
+    }
+  };
+
+  const handleUseMyLocation = () => {
+    if (!('geolocation' in navigator)) {
+        fallBackToPincode();
+        return;
+    }
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+        (position) => {
+            setIsLocating(false);
+            handleFindVets(position.coords);
+        },
+        () => {
+            setIsLocating(false);
+            fallBackToPincode();
+        },
+        { enableHighAccuracy: false, timeout: 15000, maximumAge: 5 * 60 * 1000 }
+    );
+  };
+
+  const handleDictated = (transcript: string, audioDataUri: string) => {
+    setSymptomDescription(prev => [prev.trim(), transcript].filter(Boolean).join(' '));
+    setVoiceNotes(prev => [...prev, audioDataUri]);
+  };
+
   const handleRotateCamera = () => {
     setFacingMode(prev => prev === 'user' ? 'environment' : 'user');
   }
   
-  const UrgencyBadge = ({ urgency }: { urgency: 'Low' | 'Medium' | 'High' }) => {
-    const urgencyMap = {
-      Low: {
-        label: t.Low,
-        icon: <Activity className="h-4 w-4" />,
-        variant: 'default',
-        className: 'bg-green-500/20 text-green-700 border-green-500/50',
-      },
-      Medium: {
-        label: t.Medium,
-        icon: <Siren className="h-4 w-4" />,
-        variant: 'default',
-        className: 'bg-yellow-500/20 text-yellow-700 border-yellow-500/50',
-      },
-      High: {
-        label: t.High,
-        icon: <Siren className="h-4 w-4" />,
-        variant: 'destructive',
-        className: 'bg-red-500/20 text-red-700 border-red-500/50',
-      },
-    };
-    const { label, icon, variant, className: badgeClassName } = urgencyMap[urgency];
-  
-    return (
-      <Badge variant={variant as any} className={cn('gap-1.5', badgeClassName)}>
-        {icon}
-        {label}
-      </Badge>
-    );
-  };
-
   const renderInitialState = () => (
     <Card className="w-full">
       <CardHeader className="text-center">
@@ -374,6 +392,20 @@ export default function DiseaseDetection({ language }: DiseaseDetectionProps) {
                     onChange={(e) => setSymptomDescription(e.target.value)}
                     rows={3}
                 />
+                <VoiceInput language={language} disabled={isLoading} onDictated={handleDictated} />
+                {voiceNotes.map((voiceNote, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                        <audio controls src={voiceNote} className="h-10 flex-1" aria-label={t.voiceNote} />
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setVoiceNotes(prev => prev.filter((_, i) => i !== index))}
+                            title={t.removeVoiceNote}
+                        >
+                            <X className="h-4 w-4" />
+                        </Button>
+                    </div>
+                ))}
                 <Dialog>
                     <DialogTrigger asChild>
                         <Button variant="outline" className="w-full">
@@ -521,6 +553,11 @@ export default function DiseaseDetection({ language }: DiseaseDetectionProps) {
                     <AlertDescription>
                         <p className="font-semibold mt-2">{t.preventiveCare}:</p>
                         {diagnosisResult.preventiveCare}
+                        <ReadAloud
+                            language={language}
+                            className="mt-4"
+                            sections={[{ id: 'preventiveCare', title: t.preventiveCare, text: diagnosisResult.preventiveCare ?? '' }]}
+                        />
                     </AlertDescription>
                 </Alert>
             ) : (
@@ -530,10 +567,18 @@ export default function DiseaseDetection({ language }: DiseaseDetectionProps) {
                             <AccordionTrigger>
                                 <div className="w-full flex justify-between items-center pr-4">
                                     <p className="font-bold text-lg">{d.diseaseName}</p>
-                                    <UrgencyBadge urgency={d.urgency} />
+                                    <UrgencyBadge language={language} urgency={d.urgency} />
                                 </div>
                             </AccordionTrigger>
                             <AccordionContent className="space-y-4 pt-2">
+                                <ReadAloud
+                                    language={language}
+                                    sections={[
+                                        { id: 'description', title: d.diseaseName, text: d.description },
+                                        { id: 'firstAid', title: t.firstAid, text: d.firstAid },
+                                        { id: 'veterinaryAttention', title: t.veterinaryAttention, text: d.veterinaryAttention },
+                                    ]}
+                                />
                                 <p>{d.description}</p>
                                 <div>
                                     <h4 className="font-semibold text-amber-700">{t.firstAid}</h4>
@@ -552,6 +597,24 @@ export default function DiseaseDetection({ language }: DiseaseDetectionProps) {
         )}
       </CardContent>
       <CardFooter className="flex-col gap-4 items-stretch">
+        {diagnosisResult && imageSrc && (savedToAnimal ? (
+            <Button variant="outline" asChild>
+                <Link href={`/animals/${savedToAnimal.id}`}>
+                    <ClipboardList className="mr-2 h-4 w-4" />
+                    {t.viewProfile} ({savedToAnimal.tagId})
+                </Link>
+            </Button>
+        ) : (
+            <SaveDiagnosisDialog
+                language={language}
+                photoDataUri={imageSrc}
+                symptoms={SYMPTOMS.filter(symptom => selectedSymptoms.has(symptom))}
+                description={symptomDescription}
+                audioDataUris={voiceNotes}
+                result={diagnosisResult}
+                onSaved={setSavedToAnimal}
+            />
+        ))}
         {diagnosisResult && !diagnosisResult.isHealthy && (
             <Dialog open={isHelplineOpen} onOpenChange={setIsHelplineOpen}>
                 <DialogTrigger asChild>
@@ -572,10 +635,14 @@ export default function DiseaseDetection({ language }: DiseaseDetectionProps) {
                                 value={location}
                                 onChange={(e) => setLocation(e.target.value)}
                             />
-                            <Button onClick={handleFindVets} disabled={isFindingVets || !location}>
+                            <Button onClick={() => handleFindVets()} disabled={isFindingVets || !location}>
                                 {isFindingVets ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
                             </Button>
                         </div>
+                        <Button variant="outline" className="w-full" onClick={handleUseMyLocation} disabled={isFindingVets || isLocating}>
+                            {isLocating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LocateFixed className="mr-2 h-4 w-4" />}
+                            {t.useMyLocation}
+                        </Button>
 
                         {isFindingVets && <div className="text-sm text-muted-foreground">{t.findingHelp}...</div>}
 
@@ -586,12 +653,22 @@ export default function DiseaseDetection({ language }: DiseaseDetectionProps) {
                                         <div className="font-bold flex items-center gap-2">
                                             <span>{service.name}</span>
                                             <Badge variant="outline">{t[service.type as keyof typeof t] || service.type}</Badge>
+                                            {!service.verified && (
+                                                <Badge variant="outline" className="bg-yellow-500/20 text-yellow-700 border-yellow-500/50">{t.unverified}</Badge>
+                                            )}
                                         </div>
                                         <p className="text-sm text-muted-foreground">{service.address}</p>
+                                        {service.distanceKm !== undefined && (
+                                            <p className="text-sm font-medium">{formatNumber(service.distanceKm, language)} {t.kmAway}</p>
+                                        )}
                                         <a href={`tel:${service.phone}`} className="text-sm text-primary hover:underline">{service.phone}</a>
                                     </div>
                                 ))}
-                                {vetServices.services.length === 0 && <p>{t.noVetsFound}</p>}
+                                {!vetServices.directoryLoaded ? (
+                                    <p>{t.vetDirectoryNotLoaded}</p>
+                                ) : (
+                                    vetServices.services.every(service => service.type === 'Helpline') && <p>{t.noVetsFound}</p>
+                                )}
                             </div>
                         )}
                          {error && isFindingVets && (
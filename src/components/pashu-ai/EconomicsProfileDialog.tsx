@@ -0,0 +1,212 @@
+"use client";
+
+import React, { useState, useMemo, useEffect } from 'react';
+import { useForm, FieldPath } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { EconomicsProfile, EconomicsProfileSchema } from '@/lib/economics';
+import {
+  DEFAULT_REGION,
+  deleteEconomicsProfile,
+  listEconomicsRegions,
+  loadEconomicsProfile,
+  saveEconomicsProfile,
+} from '@/lib/economics-profiles';
+import { Language, translations } from '@/lib/translations';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { IndianRupee, Trash2 } from 'lucide-react';
+import RateChartTable from './RateChartTable';
+
+type EconomicsProfileDialogProps = {
+  language: Language;
+  region: string;
+  profile: EconomicsProfile;
+  onChange: (region: string, profile: EconomicsProfile) => void;
+};
+
+/** Lets farmers edit the milk prices and running costs behind ROI scoring, saved per region on this device. */
+export default function EconomicsProfileDialog({ language, region, profile, onChange }: EconomicsProfileDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [regions, setRegions] = useState<string[]>([]);
+  const [regionName, setRegionName] = useState(region);
+  const t = useMemo(() => translations[language], [language]);
+
+  const form = useForm<EconomicsProfile>({
+    resolver: zodResolver(EconomicsProfileSchema),
+    defaultValues: profile,
+  });
+  const milkPricing = form.watch('milkPricing');
+  const milkRates = form.watch('milkRates');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setRegions(listEconomicsRegions());
+    setRegionName(region);
+    form.reset(profile);
+  }, [isOpen, region, profile, form]);
+
+  const handleRegionSelect = (selected: string) => {
+    setRegionName(selected);
+    form.reset(loadEconomicsProfile(selected));
+  };
+
+  const handleSave = (values: EconomicsProfile) => {
+    const name = regionName.trim() || DEFAULT_REGION;
+    saveEconomicsProfile(name, values);
+    onChange(name, values);
+    setIsOpen(false);
+  };
+
+  const handleDelete = () => {
+    deleteEconomicsProfile(regionName);
+    setRegions(listEconomicsRegions());
+    handleRegionSelect(DEFAULT_REGION);
+  };
+
+  const numberField = (name: FieldPath<EconomicsProfile>, label: string) => (
+    <FormField
+      key={name}
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              name={field.name}
+              ref={field.ref}
+              onBlur={field.onBlur}
+              value={Number.isNaN(field.value) ? '' : (field.value as number)}
+              onChange={(e) => field.onChange(e.target.valueAsNumber)}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" className="w-full">
+          <IndianRupee className="mr-2 h-4 w-4" />
+          {t.economicAssumptions} ({region})
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t.economicAssumptions}</DialogTitle>
+        </DialogHeader>
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>{t.savedRegions}</Label>
+            <Select value={regions.includes(regionName) ? regionName : DEFAULT_REGION} onValueChange={handleRegionSelect}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_REGION}>{DEFAULT_REGION}</SelectItem>
+                {regions
+                  .filter(name => name !== DEFAULT_REGION)
+                  .map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="economics-region-name">{t.regionName}</Label>
+            <div className="flex gap-2">
+              <Input
+                id="economics-region-name"
+                placeholder={t.regionNamePlaceholder}
+                value={regionName}
+                onChange={(e) => setRegionName(e.target.value)}
+              />
+              {regions.includes(regionName) && (
+                <Button type="button" variant="outline" size="icon" onClick={handleDelete} title={t.deleteRegion}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSave)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="milkPricing"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t.milkPricing}</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="flat">{t.milkPricingFlat}</SelectItem>
+                      <SelectItem value="fat-snf">{t.milkPricingFatSnf}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid sm:grid-cols-2 gap-4">
+              {(['Cattle', 'Buffalo'] as const).map(species => (
+                <div key={species} className="space-y-4 p-3 border rounded-md">
+                  <h4 className="font-semibold">{t[species]}</h4>
+                  {milkPricing === 'flat'
+                    ? numberField(`milkRates.${species}.pricePerLitre`, t.pricePerLitre)
+                    : [
+                        numberField(`milkRates.${species}.fatRatePerKg`, t.fatRatePerKg),
+                        numberField(`milkRates.${species}.snfRatePerKg`, t.snfRatePerKg),
+                        <RateChartTable key="chart" language={language} species={species} rates={milkRates[species]} />,
+                      ]}
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <h4 className="font-semibold">{t.feedCostPerDay}</h4>
+              <div className="grid grid-cols-3 gap-4">
+                {numberField('feedCostPerDay.Low', t.Low)}
+                {numberField('feedCostPerDay.Medium', t.Medium)}
+                {numberField('feedCostPerDay.High', t.High)}
+              </div>
+            </div>
+            <div className="grid sm:grid-cols-3 gap-4">
+              {numberField('labourCostPerMonth', t.labourCostPerMonth)}
+              {numberField('vetCostPerMonth', t.vetCostPerMonth)}
+              {numberField('insurancePercentPerYear', t.insurancePercentPerYear)}
+              {numberField('discountRatePercent', t.discountRatePercent)}
+            </div>
+            <Button type="submit" className="w-full">{t.save}</Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import { discardFailedOutboxEntries } from '@/lib/outbox';
+import { Language, translations } from '@/lib/translations';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { CloudOff } from 'lucide-react';
+
+type FailedSyncBadgeProps = {
+  language: Language;
+  count: number;
+};
+
+/** Shows how many submissions the server rejected, and discards them once the farmer confirms. */
+export default function FailedSyncBadge({ language, count }: FailedSyncBadgeProps) {
+  const t = useMemo(() => translations[language], [language]);
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <button type="button" title={`${count} ${t.failedSync}`} aria-label={`${count} ${t.failedSync}`}>
+          <Badge variant="destructive" className="gap-1.5">
+            <CloudOff className="h-3.5 w-3.5" />
+            {count}
+          </Badge>
+        </button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{`${count} ${t.failedSync}`}</AlertDialogTitle>
+          <AlertDialogDescription>{t.discardFailedSyncDescription}</AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>{t.cancel}</AlertDialogCancel>
+          <AlertDialogAction onClick={() => discardFailedOutboxEntries()}>{t.discardFailedSync}</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -1,49 +1,54 @@
 "use client";
 
-import React from 'react';
+import React, { useMemo } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { CowIcon } from './icons';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
-import type { Language } from '@/lib/translations';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { LANGUAGES, translations, type Language } from '@/lib/translations';
+import { useLocale } from '@/components/locale-provider';
 import { Separator } from '@/components/ui/separator';
 import { ThemeToggle } from '@/components/theme-toggle';
-import { BrainCircuit, Scan, Home, HeartPulse } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { BrainCircuit, Scan, Home, HeartPulse, CloudUpload, ClipboardList, BookOpen } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useOutboxCounts } from '@/hooks/use-outbox';
+import FailedSyncBadge from './FailedSyncBadge';
 
 
 type HeaderProps = {
-  language: Language;
-  onLanguageChange: (lang: Language) => void;
-  mode: 'online' | 'offline';
-  onModeChange: (mode: 'online' | 'offline') => void;
-  appName: string;
-  tagline: string;
-  onlineText: string;
-  offlineText: string;
+  /** Only pages that can run offline pass these, and only they show the mode switch. */
+  mode?: 'online' | 'offline';
+  onModeChange?: (mode: 'online' | 'offline') => void;
 };
 
-export default function Header({
-  language,
-  onLanguageChange,
-  mode,
-  onModeChange,
-  appName,
-  tagline,
-  onlineText,
-  offlineText,
-}: HeaderProps) {
+export default function Header({ mode, onModeChange }: HeaderProps) {
   const pathname = usePathname();
+  const { pending: pendingCount, failed: failedCount } = useOutboxCounts();
+  const { language, setLanguage } = useLocale();
+  const t = useMemo(() => translations[language], [language]);
 
   const navItems = [
-    { href: '/', label: 'Home', icon: Home },
-    { href: '/scanner', label: 'Scanner', icon: Scan },
-    { href: '/decision-support', label: 'Decision Support', icon: BrainCircuit },
-    { href: '/disease-detection', label: 'Disease Detection', icon: HeartPulse },
+    { href: '/', label: t.navHome, icon: Home },
+    { href: '/scanner', label: t.navScanner, icon: Scan },
+    { href: '/decision-support', label: t.navDecisionSupport, icon: BrainCircuit },
+    { href: '/disease-detection', label: t.navDiseaseDetection, icon: HeartPulse },
+    { href: '/animals', label: t.navAnimals, icon: ClipboardList },
+    { href: '/breeds', label: t.navBreeds, icon: BookOpen },
   ];
 
+  const isActive = (href: string) =>
+    pathname === href || (href !== '/' && pathname.startsWith(`${href}/`));
+
 
   return (
     <header className="sticky top-0 z-50 w-full border-b border-border/40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
@@ -52,10 +57,10 @@ export default function Header({
           <CowIcon className="h-8 w-8 text-primary" />
           <div>
             <h1 className="text-xl font-bold font-headline tracking-tight text-primary">
-              {appName}
+              {t.appName}
             </h1>
             <p className="hidden text-xs text-muted-foreground sm:block">
-              {tagline}
+              {t.tagline}
             </p>
           </div>
         </Link>
@@ -64,11 +69,11 @@ export default function Header({
           {navItems.map((item) => (
             <Link href={item.href} key={item.href}>
               <Button
-                variant={pathname === item.href ? "secondary" : "ghost"}
+                variant={isActive(item.href) ? "secondary" : "ghost"}
                 size="sm"
                 className={cn(
                   "rounded-full gap-2",
-                   pathname === item.href ? "shadow-sm" : ""
+                   isActive(item.href) ? "shadow-sm" : ""
                 )}
               >
                 <item.icon className="h-4 w-4" />
@@ -80,11 +85,23 @@ export default function Header({
 
 
         <div className="flex items-center gap-4">
+          {pendingCount > 0 && (
+            <Badge
+              variant="secondary"
+              className="gap-1.5"
+              title={`${pendingCount} ${t.pendingSync}`}
+              aria-label={`${pendingCount} ${t.pendingSync}`}
+            >
+              <CloudUpload className="h-3.5 w-3.5" />
+              {pendingCount}
+            </Badge>
+          )}
+          {failedCount > 0 && <FailedSyncBadge language={language} count={failedCount} />}
           <ThemeToggle />
-          {pathname === '/scanner' && (
+          {mode && onModeChange && (
             <div className="flex items-center space-x-2">
                 <Label htmlFor="mode-switch" className="text-sm font-medium">
-                {mode === 'online' ? onlineText : offlineText}
+                {mode === 'online' ? t.online : t.offline}
                 </Label>
                 <Switch
                 id="mode-switch"
@@ -92,27 +109,23 @@ export default function Header({
                 onCheckedChange={(checked) =>
                     onModeChange(checked ? 'online' : 'offline')
                 }
-                aria-label="Toggle online/offline mode"
+                aria-label={t.toggleMode}
                 />
             </div>
           )}
           <Separator orientation="vertical" className="h-6" />
-          <div className="flex items-center gap-1">
-            <Button
-              variant={language === 'en' ? 'secondary' : 'ghost'}
-              size="sm"
-              onClick={() => onLanguageChange('en')}
-            >
-              EN
-            </Button>
-            <Button
-              variant={language === 'hi' ? 'secondary' : 'ghost'}
-              size="sm"
-              onClick={() => onLanguageChange('hi')}
-            >
-              HI
-            </Button>
-          </div>
+          <Select value={language} onValueChange={(value) => setLanguage(value as Language)}>
+            <SelectTrigger className="h-9 w-[110px]" aria-label={t.language}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LANGUAGES.map((lang) => (
+                <SelectItem key={lang.code} value={lang.code} lang={lang.code}>
+                  {lang.nativeName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
       </div>
       <div className="md:hidden flex justify-center border-t">
@@ -120,7 +133,7 @@ export default function Header({
           {navItems.map((item) => (
             <Link href={item.href} key={item.href} className="flex-1">
               <Button
-                variant={pathname === item.href ? "secondary" : "ghost"}
+                variant={isActive(item.href) ? "secondary" : "ghost"}
                 size="sm"
                 className="w-full gap-2"
               >
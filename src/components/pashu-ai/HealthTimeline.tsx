@@ -0,0 +1,139 @@
+"use client";
+
+import React, { useState, useMemo, useEffect } from 'react';
+import Image from 'next/image';
+import { listHealthRecords, updateDiagnosisStatus } from '@/app/animals/actions';
+import type { HealthRecord, HealthStatus } from '@/lib/server/health-store';
+import { animalPhotoUrl, voiceNoteUrl } from '@/lib/animals';
+import { symptomLabels } from '@/lib/symptoms';
+import { useToast } from '@/hooks/use-toast';
+import { Language, translations } from '@/lib/translations';
+import { formatDateTime } from '@/lib/format';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ShieldCheck } from 'lucide-react';
+import UrgencyBadge from './UrgencyBadge';
+
+type HealthTimelineProps = {
+  language: Language;
+  animalId: string;
+};
+
+const statusLabels: Record<HealthStatus, 'statusPending' | 'statusVetConfirmed' | 'statusRuledOut' | 'statusResolved'> = {
+  pending: 'statusPending',
+  'vet-confirmed': 'statusVetConfirmed',
+  'ruled-out': 'statusRuledOut',
+  resolved: 'statusResolved',
+};
+
+/** Saved diagnoses for one animal, newest first, with controls to record the vet's outcome. */
+export default function HealthTimeline({ language, animalId }: HealthTimelineProps) {
+  const [records, setRecords] = useState<HealthRecord[] | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const t = useMemo(() => translations[language], [language]);
+
+  useEffect(() => {
+    listHealthRecords(animalId)
+      .then(setRecords)
+      .catch(err => {
+        setRecords([]);
+        toast({ variant: 'destructive', title: t.errorTitle, description: (err as Error).message });
+      });
+  }, [animalId, toast, t]);
+
+  const handleStatusChange = async (id: string, status: HealthStatus) => {
+    setUpdatingId(id);
+    try {
+      const updated = await updateDiagnosisStatus(id, status);
+      setRecords(prev => prev?.map(record => (record.id === id ? updated : record)) ?? null);
+    } catch (err) {
+      toast({ variant: 'destructive', title: t.errorTitle, description: (err as Error).message });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  if (records === null) return <Skeleton className="h-32 w-full" />;
+
+  if (records.length === 0) return <p className="text-sm text-muted-foreground">{t.noHealthRecords}</p>;
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-6">
+      {records.map(record => (
+        <li key={record.id} className="ml-6">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary" />
+          <div className="flex flex-col sm:flex-row gap-4 p-3 border rounded-lg">
+            <Image
+              src={animalPhotoUrl(record.image)}
+              alt={t.uploadedAnimalAlt}
+              width={160}
+              height={120}
+              className="h-24 w-32 flex-shrink-0 rounded-md object-cover"
+            />
+            <div className="flex-1 min-w-0 space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <time className="text-sm font-medium text-muted-foreground">
+                  {formatDateTime(record.diagnosedAt, language)}
+                </time>
+                <Select
+                  value={record.status}
+                  onValueChange={(value) => handleStatusChange(record.id, value as HealthStatus)}
+                  disabled={updatingId === record.id}
+                >
+                  <SelectTrigger className="h-8 w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(statusLabels) as HealthStatus[]).map(status => (
+                      <SelectItem key={status} value={status}>{t[statusLabels[status]]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {record.result.isHealthy ? (
+                <div className="flex items-center gap-2 text-green-700 font-semibold">
+                  <ShieldCheck className="h-4 w-4" />
+                  {t.noDiseaseDetected}
+                </div>
+              ) : (
+                record.result.diagnosis?.map(disease => (
+                  <div key={disease.diseaseName} className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="font-bold">{disease.diseaseName}</p>
+                      <UrgencyBadge language={language} urgency={disease.urgency} />
+                    </div>
+                    <p className="text-sm">
+                      <span className="font-semibold text-amber-700">{t.firstAid}: </span>
+                      {disease.firstAid}
+                    </p>
+                  </div>
+                ))
+              )}
+
+              {record.symptoms.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {record.symptoms.map(symptom => (
+                    <Badge key={symptom} variant="secondary">{t[symptomLabels[symptom]]}</Badge>
+                  ))}
+                </div>
+              )}
+              {record.description && <p className="text-sm text-muted-foreground">{record.description}</p>}
+              {record.audio?.map(audio => (
+                <audio key={audio.sha256} controls preload="none" src={voiceNoteUrl(audio)} className="h-10 w-full" aria-label={t.voiceNote} />
+              ))}
+            </div>
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import type { RecommendBreedsOutput } from '@/ai/schemas/recommend-breeds-schema';
+import { Language, translations } from '@/lib/translations';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { formatRupees } from '@/lib/format';
+import { Users } from 'lucide-react';
+import BreedLink from './BreedLink';
+
+type HerdPlanCardProps = {
+  language: Language;
+  plan: NonNullable<RecommendBreedsOutput['herdPlan']>;
+};
+
+export default function HerdPlanCard({ language, plan }: HerdPlanCardProps) {
+  const t = useMemo(() => translations[language], [language]);
+
+  const limitLabels = {
+    budget: t.limitBudget,
+    land: t.limitLand,
+    labour: t.limitLabour,
+    herdSize: t.limitHerdSize,
+  };
+
+  if (plan.animals.length === 0) {
+    return (
+      <Alert>
+        <AlertTitle>{t.herdPlanTitle}</AlertTitle>
+        <AlertDescription>{t.noHerdPlan}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const figures = [
+    { label: t.totalInvestment, value: formatRupees(plan.totalInvestment, language) },
+    { label: t.monthlyIncome, value: formatRupees(plan.monthlyIncome, language) },
+    { label: t.monthlyCost, value: formatRupees(plan.monthlyCost, language) },
+    { label: t.monthlyProfit, value: formatRupees(plan.monthlyProfit, language), highlight: plan.monthlyProfit > 0 },
+  ];
+
+  return (
+    <Card className="overflow-hidden border-primary/50">
+      <CardHeader className="bg-primary/10 p-4">
+        <div className="flex items-center gap-3">
+          <Users className="h-6 w-6 text-primary" />
+          <div>
+            <CardTitle className="text-xl font-bold text-primary">{t.herdPlanTitle}</CardTitle>
+            <CardDescription>
+              {plan.animals.map((animal, index) => (
+                <React.Fragment key={animal.breedName}>
+                  {index > 0 && ' + '}
+                  {animal.count} × <BreedLink name={animal.breedName} />
+                </React.Fragment>
+              ))}
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="secondary">
+            {plan.totalAnimals} / {plan.carryingCapacity} {t.animalsLandCanSustain}
+          </Badge>
+          <Badge variant="outline">
+            {t.limitedBy}: {limitLabels[plan.limitingFactor]}
+          </Badge>
+        </div>
+        <dl className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {figures.map(figure => (
+            <div key={figure.label}>
+              <dt className="text-sm font-medium text-muted-foreground">{figure.label}</dt>
+              <dd className={cn('text-lg font-bold', figure.highlight && 'text-green-500')}>{figure.value}</dd>
+            </div>
+          ))}
+        </dl>
+        <p className="font-semibold">
+          {t.paybackPeriod}:{' '}
+          <span className={cn(plan.paybackMonths === null ? 'text-red-500' : 'text-primary')}>
+            {plan.paybackMonths === null ? t.notProfitable : `${plan.paybackMonths} ${t.months}`}
+          </span>
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
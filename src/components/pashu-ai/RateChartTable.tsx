@@ -0,0 +1,52 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import type { BreedData } from '@/lib/breed-data';
+import { MilkRates, buildRateChart } from '@/lib/economics';
+import { Language, translations } from '@/lib/translations';
+import { formatRupees } from '@/lib/format';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+type RateChartTableProps = {
+  language: Language;
+  species: BreedData['category'];
+  rates: MilkRates;
+};
+
+// The fat and SNF ranges normally seen at collection centres for each species.
+const CHART_AXES: Record<BreedData['category'], { fat: number[]; snf: number[] }> = {
+  Cattle: { fat: [3.0, 3.5, 4.0, 4.5, 5.0], snf: [8.0, 8.5, 9.0] },
+  Buffalo: { fat: [5.5, 6.0, 6.5, 7.0, 7.5, 8.0], snf: [8.5, 9.0, 9.5] },
+};
+
+/** A preview of the cooperative-style rate chart (₹ per litre) the fat and SNF rates produce. */
+export default function RateChartTable({ language, species, rates }: RateChartTableProps) {
+  const t = useMemo(() => translations[language], [language]);
+  const axes = CHART_AXES[species];
+  const chart = buildRateChart(rates, axes.fat, axes.snf);
+
+  return (
+    <Table className="text-xs">
+      <TableHeader>
+        <TableRow>
+          <TableHead>{t.fatSnfAxis}</TableHead>
+          {axes.snf.map(snf => (
+            <TableHead key={snf} className="text-right">{snf.toFixed(1)}</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {axes.fat.map((fat, row) => (
+          <TableRow key={fat}>
+            <TableCell className="font-medium">{fat.toFixed(1)}</TableCell>
+            {chart[row].map((price, column) => (
+              <TableCell key={axes.snf[column]} className="text-right">
+                {Number.isFinite(price) ? formatRupees(price, language, { fractionDigits: 2 }) : '—'}
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { getTextToSpeech, SPEECH_RATES, type SpeechRate } from '@/lib/text-to-speech';
+import { Language, translations } from '@/lib/translations';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Play, Square, Volume2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+export type ReadAloudSection = {
+  id: string;
+  /** Read before the text, e.g. "First-Aid / Care". */
+  title: string;
+  text: string;
+};
+
+type ReadAloudProps = {
+  language: Language;
+  sections: ReadAloudSection[];
+  className?: string;
+};
+
+const RATE_KEY = 'pashu-ai:speech-rate';
+
+const rateLabels: Record<SpeechRate, 'speedSlow' | 'speedNormal' | 'speedFast'> = {
+  slow: 'speedSlow',
+  normal: 'speedNormal',
+  fast: 'speedFast',
+};
+
+/**
+ * A "Listen" control that reads result sections aloud in the app language, all in order or one
+ * at a time, at a chosen speed. Renders nothing where the device cannot speak.
+ */
+export default function ReadAloud({ language, sections, className }: ReadAloudProps) {
+  const [isSupported, setIsSupported] = useState(false);
+  const [rate, setRate] = useState<SpeechRate>('normal');
+  const [readingId, setReadingId] = useState<string | null>(null);
+  // Bumped whenever reading starts or stops, so an earlier reading does not go on to its next section.
+  const runRef = useRef(0);
+  const t = useMemo(() => translations[language], [language]);
+
+  useEffect(() => {
+    setIsSupported(getTextToSpeech().isSupported());
+    const stored = window.localStorage.getItem(RATE_KEY);
+    if (stored && stored in SPEECH_RATES) setRate(stored as SpeechRate);
+  }, []);
+
+  // Stop reading when the results are closed or replaced.
+  useEffect(
+    () => () => {
+      if (runRef.current > 0) getTextToSpeech().stop();
+    },
+    []
+  );
+
+  const read = async (queue: ReadAloudSection[]) => {
+    const tts = getTextToSpeech();
+    const run = ++runRef.current;
+    tts.stop();
+    for (const section of queue) {
+      setReadingId(section.id);
+      const finished = await tts.speak(`${section.title}. ${section.text}`, { language, rate: SPEECH_RATES[rate] });
+      if (runRef.current !== run) return;
+      // Another result's Listen control took over the speaker.
+      if (!finished) break;
+    }
+    setReadingId(null);
+  };
+
+  const handleStop = () => {
+    runRef.current++;
+    getTextToSpeech().stop();
+    setReadingId(null);
+  };
+
+  const handleRateChange = (next: SpeechRate) => {
+    setRate(next);
+    window.localStorage.setItem(RATE_KEY, next);
+  };
+
+  const readable = sections.filter(section => section.text.trim());
+  if (!isSupported || readable.length === 0) return null;
+
+  return (
+    <div className={cn('space-y-2 rounded-lg border p-3', className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        {readingId ? (
+          <Button size="sm" variant="secondary" onClick={handleStop}>
+            <Square className="mr-2 h-4 w-4" />
+            {t.stopReading}
+          </Button>
+        ) : (
+          <Button size="sm" onClick={() => read(readable)}>
+            <Volume2 className="mr-2 h-4 w-4" />
+            {t.listen}
+          </Button>
+        )}
+        <Select value={rate} onValueChange={(value) => handleRateChange(value as SpeechRate)}>
+          <SelectTrigger className="h-9 w-32" aria-label={t.readingSpeed}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(SPEECH_RATES) as SpeechRate[]).map(option => (
+              <SelectItem key={option} value={option}>{t[rateLabels[option]]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {readable.map(section => (
+          <Button
+            key={section.id}
+            size="sm"
+            variant={readingId === section.id ? 'default' : 'outline'}
+            onClick={() => (readingId === section.id ? handleStop() : read([section]))}
+            aria-label={`${t.listenTo} ${section.title}`}
+          >
+            {readingId === section.id ? <Square className="mr-2 h-3 w-3" /> : <Play className="mr-2 h-3 w-3" />}
+            {section.title}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
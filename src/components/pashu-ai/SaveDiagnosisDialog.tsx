@@ -0,0 +1,71 @@
+"use client";
+
+import React, { useState, useMemo } from 'react';
+import { saveDiagnosisToAnimal } from '@/app/animals/actions';
+import type { DiagnoseAnimalHealthOutput } from '@/ai/schemas/diagnose-animal-health-schema';
+import type { Animal } from '@/lib/server/animal-store';
+import type { Symptom } from '@/lib/symptoms';
+import { useToast } from '@/hooks/use-toast';
+import { Language, translations } from '@/lib/translations';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { ClipboardPlus } from 'lucide-react';
+import AnimalPicker from './AnimalPicker';
+
+type SaveDiagnosisDialogProps = {
+  language: Language;
+  photoDataUri: string;
+  symptoms: Symptom[];
+  description: string;
+  /** The farmer's spoken descriptions, if the symptoms were given by voice. */
+  audioDataUris: string[];
+  result: DiagnoseAnimalHealthOutput;
+  onSaved: (animal: Animal) => void;
+};
+
+/** Saves a diagnosis, with its photo, reported symptoms and any voice notes, to a registered animal's health history. */
+export default function SaveDiagnosisDialog({
+  language,
+  photoDataUri,
+  symptoms,
+  description,
+  audioDataUris,
+  result,
+  onSaved,
+}: SaveDiagnosisDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const t = useMemo(() => translations[language], [language]);
+
+  const handleSave = async (animal: Animal) => {
+    setSavingId(animal.id);
+    try {
+      await saveDiagnosisToAnimal(animal.id, { photoDataUri, audioDataUris, symptoms, description, language, result });
+      toast({ title: t.diagnosisSavedTitle, description: t.diagnosisSavedDescription });
+      setIsOpen(false);
+      onSaved(animal);
+    } catch (err) {
+      toast({ variant: 'destructive', title: t.errorTitle, description: (err as Error).message });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full">
+          <ClipboardPlus className="mr-2 h-4 w-4" />
+          {t.saveToHealthHistory}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t.saveToHealthHistory}</DialogTitle>
+        </DialogHeader>
+        <AnimalPicker language={language} actionLabel={t.save} busyId={savingId} onPick={handleSave} />
+      </DialogContent>
+    </Dialog>
+  );
+}
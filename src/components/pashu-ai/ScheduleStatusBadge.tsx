@@ -0,0 +1,29 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import type { ScheduleStatus } from '@/lib/vaccination-schedule';
+import { Badge } from '@/components/ui/badge';
+import { Language, translations } from '@/lib/translations';
+import { cn } from '@/lib/utils';
+
+type ScheduleStatusBadgeProps = {
+  language: Language;
+  status: ScheduleStatus;
+};
+
+export default function ScheduleStatusBadge({ language, status }: ScheduleStatusBadgeProps) {
+  const t = useMemo(() => translations[language], [language]);
+
+  const statusMap = {
+    overdue: { label: t.overdue, className: 'bg-red-500/20 text-red-700 border-red-500/50' },
+    due: { label: t.dueSoon, className: 'bg-yellow-500/20 text-yellow-700 border-yellow-500/50' },
+    upcoming: { label: t.upcoming, className: 'bg-muted text-muted-foreground' },
+  };
+  const { label, className } = statusMap[status];
+
+  return (
+    <Badge variant="outline" className={cn('whitespace-nowrap', className)}>
+      {label}
+    </Badge>
+  );
+}
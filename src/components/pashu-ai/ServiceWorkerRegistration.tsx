@@ -0,0 +1,25 @@
+"use client";
+
+import { useEffect } from 'react';
+import { preloadBreedClassifier } from '@/lib/offline-classifier';
+
+/**
+ * Registers the offline service worker served from `/sw.js`, then loads the offline breed
+ * model through it so the scanner works without coverage. Skipped in development, where
+ * cached pages would hide code changes.
+ */
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    navigator.serviceWorker
+      .register('/sw.js', { scope: '/' })
+      .then(() => navigator.serviceWorker.ready)
+      .then(() => preloadBreedClassifier())
+      .catch(err => {
+        console.error('Service worker registration failed:', err);
+      });
+  }, []);
+
+  return null;
+}
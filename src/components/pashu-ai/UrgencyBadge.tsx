@@ -0,0 +1,52 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import { Language, translations } from '@/lib/translations';
+import { cn } from '@/lib/utils';
+import { Activity, Siren } from 'lucide-react';
+
+type UrgencyBadgeProps = {
+  language: Language;
+  urgency: 'Low' | 'Medium' | 'High';
+};
+
+type UrgencyStyle = {
+  label: string;
+  icon: React.ReactNode;
+  variant: BadgeProps['variant'];
+  className: string;
+};
+
+export default function UrgencyBadge({ language, urgency }: UrgencyBadgeProps) {
+  const t = useMemo(() => translations[language], [language]);
+
+  const urgencyMap: Record<UrgencyBadgeProps['urgency'], UrgencyStyle> = {
+    Low: {
+      label: t.Low,
+      icon: <Activity className="h-4 w-4" />,
+      variant: 'default',
+      className: 'bg-green-500/20 text-green-700 border-green-500/50',
+    },
+    Medium: {
+      label: t.Medium,
+      icon: <Siren className="h-4 w-4" />,
+      variant: 'default',
+      className: 'bg-yellow-500/20 text-yellow-700 border-yellow-500/50',
+    },
+    High: {
+      label: t.High,
+      icon: <Siren className="h-4 w-4" />,
+      variant: 'destructive',
+      className: 'bg-red-500/20 text-red-700 border-red-500/50',
+    },
+  };
+  const { label, icon, variant, className: badgeClassName } = urgencyMap[urgency];
+
+  return (
+    <Badge variant={variant} className={cn('gap-1.5', badgeClassName)}>
+      {icon}
+      {label}
+    </Badge>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import React, { useState, useMemo, useEffect } from 'react';
+import Link from 'next/link';
+import { listVaccinationReminders } from '@/app/animals/actions';
+import type { Animal } from '@/lib/server/animal-store';
+import type { ScheduleItem } from '@/lib/vaccination-schedule';
+import { useToast } from '@/hooks/use-toast';
+import { Language, translations } from '@/lib/translations';
+import { formatDate } from '@/lib/format';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { BellRing } from 'lucide-react';
+import ScheduleStatusBadge from './ScheduleStatusBadge';
+
+type VaccinationRemindersProps = {
+  language: Language;
+};
+
+type Reminder = { animal: Animal; items: ScheduleItem[] };
+
+const ALL_VILLAGES = '__all__';
+
+/** Due and overdue vaccinations and dewormings across the registry, grouped by village. */
+export default function VaccinationReminders({ language }: VaccinationRemindersProps) {
+  const [reminders, setReminders] = useState<Reminder[] | null>(null);
+  const [villages, setVillages] = useState<string[]>([]);
+  const [village, setVillage] = useState(ALL_VILLAGES);
+  const { toast } = useToast();
+  const t = useMemo(() => translations[language], [language]);
+
+  useEffect(() => {
+    let cancelled = false;
+    listVaccinationReminders(village === ALL_VILLAGES ? undefined : village)
+      .then(result => {
+        if (cancelled) return;
+        setReminders(result);
+        if (village === ALL_VILLAGES) {
+          setVillages(Array.from(new Set(result.map(reminder => reminder.animal.village))));
+        }
+      })
+      .catch(err => {
+        if (!cancelled) toast({ variant: 'destructive', title: t.errorTitle, description: (err as Error).message });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [village, toast, t]);
+
+  const byVillage = useMemo(() => {
+    const groups = new Map<string, Reminder[]>();
+    for (const reminder of reminders ?? []) {
+      groups.set(reminder.animal.village, [...(groups.get(reminder.animal.village) ?? []), reminder]);
+    }
+    return Array.from(groups.entries());
+  }, [reminders]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <CardTitle className="font-headline flex items-center gap-2">
+            <BellRing className="h-5 w-5 text-primary" />
+            {t.vaccinationReminders}
+          </CardTitle>
+          {villages.length > 1 && (
+            <Select value={village} onValueChange={setVillage}>
+              <SelectTrigger className="w-full sm:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_VILLAGES}>{t.allVillages}</SelectItem>
+                {villages.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {reminders === null ? (
+          <Skeleton className="h-16 w-full" />
+        ) : byVillage.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t.noRemindersDue}</p>
+        ) : (
+          byVillage.map(([name, villageReminders]) => (
+            <div key={name} className="space-y-2">
+              <h3 className="text-sm font-semibold text-muted-foreground">{name}</h3>
+              {villageReminders.map(({ animal, items }) => (
+                <Link href={`/animals/${animal.id}`} key={animal.id} className="block">
+                  <div className="p-3 border rounded-lg hover:bg-muted/50 transition-colors space-y-2">
+                    <p className="font-bold">
+                      {animal.tagId} <span className="font-normal text-muted-foreground">· {animal.ownerName}</span>
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {items.map(item => (
+                        <div key={item.rule.id} className="flex items-center gap-1.5 text-sm">
+                          <ScheduleStatusBadge language={language} status={item.status} />
+                          <span>{t[item.rule.nameKey]}</span>
+                          <span className="text-muted-foreground">({formatDate(item.dueOn, language)})</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import React, { useState, useMemo, useEffect } from 'react';
+import { getVaccinationSchedule, recordVaccinationDose } from '@/app/animals/actions';
+import type { ScheduleItem } from '@/lib/vaccination-schedule';
+import { useToast } from '@/hooks/use-toast';
+import { Language, translations } from '@/lib/translations';
+import { formatDate } from '@/lib/format';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2, Syringe } from 'lucide-react';
+import ScheduleStatusBadge from './ScheduleStatusBadge';
+
+type VaccinationScheduleProps = {
+  language: Language;
+  animalId: string;
+};
+
+const todayIso = () => new Date().toISOString().slice(0, 10);
+
+/** An animal's vaccination and deworming schedule, with a control to record each dose as it is given. */
+export default function VaccinationSchedule({ language, animalId }: VaccinationScheduleProps) {
+  const [items, setItems] = useState<ScheduleItem[] | null>(null);
+  const [recording, setRecording] = useState<ScheduleItem | null>(null);
+  const [givenOn, setGivenOn] = useState(todayIso);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const t = useMemo(() => translations[language], [language]);
+
+  useEffect(() => {
+    getVaccinationSchedule(animalId)
+      .then(setItems)
+      .catch(err => {
+        setItems([]);
+        toast({ variant: 'destructive', title: t.errorTitle, description: (err as Error).message });
+      });
+  }, [animalId, toast, t]);
+
+  const openRecordDialog = (item: ScheduleItem) => {
+    setGivenOn(todayIso());
+    setRecording(item);
+  };
+
+  const handleRecord = async () => {
+    if (!recording || !givenOn) return;
+    setIsSaving(true);
+    try {
+      setItems(await recordVaccinationDose(animalId, recording.rule.id, givenOn));
+      toast({ title: t.doseRecordedTitle, description: t[recording.rule.nameKey] });
+      setRecording(null);
+    } catch (err) {
+      toast({ variant: 'destructive', title: t.errorTitle, description: (err as Error).message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (items === null) return <Skeleton className="h-32 w-full" />;
+
+  if (items.length === 0) return <p className="text-sm text-muted-foreground">{t.noScheduleItems}</p>;
+
+  return (
+    <>
+      <div className="space-y-2">
+        {items.map(item => (
+          <div key={item.rule.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 border rounded-md">
+            <div className="min-w-0 space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-semibold">{t[item.rule.nameKey]}</span>
+                <ScheduleStatusBadge language={language} status={item.status} />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {t.dueOn}: {formatDate(item.dueOn, language)}
+                {item.lastGivenOn && ` · ${t.lastGiven}: ${formatDate(item.lastGivenOn, language)}`}
+              </p>
+              <p className="text-xs text-muted-foreground">{t[item.rule.notesKey]}</p>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => openRecordDialog(item)}>
+              <Syringe className="mr-2 h-4 w-4" />
+              {t.markGiven}
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <Dialog open={recording !== null} onOpenChange={(open) => !open && setRecording(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{recording && t[recording.rule.nameKey]}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="dose-given-on">{t.givenOn}</Label>
+            <Input
+              id="dose-given-on"
+              type="date"
+              max={todayIso()}
+              value={givenOn}
+              onChange={(e) => setGivenOn(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleRecord} disabled={isSaving || !givenOn}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t.markGiven}
+          </Button>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
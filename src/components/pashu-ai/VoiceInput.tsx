@@ -0,0 +1,99 @@
+"use client";
+
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { MAX_RECORDING_SECONDS, getSpeechToText, type Dictation } from '@/lib/speech-to-text';
+import { useToast } from '@/hooks/use-toast';
+import { Language, translations } from '@/lib/translations';
+import { Button } from '@/components/ui/button';
+import { Loader2, Mic, Square } from 'lucide-react';
+
+type VoiceInputProps = {
+  language: Language;
+  disabled?: boolean;
+  /** Called once the farmer stops speaking, with what was said and the recording. */
+  onDictated: (transcript: string, audioDataUri: string) => void;
+};
+
+/** A microphone button that records speech in the app language and transcribes it. */
+export default function VoiceInput({ language, disabled, onDictated }: VoiceInputProps) {
+  const [state, setState] = useState<'idle' | 'listening' | 'transcribing'>('idle');
+  const [partialTranscript, setPartialTranscript] = useState('');
+  const dictationRef = useRef<Dictation | null>(null);
+  const { toast } = useToast();
+  const t = useMemo(() => translations[language], [language]);
+
+  // Release the microphone if the form goes away mid-recording.
+  useEffect(() => () => dictationRef.current?.cancel(), []);
+
+  // The recording stops by itself at the length limit; finish the dictation with it.
+  useEffect(() => {
+    if (state !== 'listening') return;
+    const timer = setTimeout(handleStop, MAX_RECORDING_SECONDS * 1000);
+    return () => clearTimeout(timer);
+  }, [state]);
+
+  const handleStart = async () => {
+    setPartialTranscript('');
+    try {
+      dictationRef.current = await getSpeechToText().start(language, setPartialTranscript);
+      setState('listening');
+    } catch (err) {
+      console.error('Error accessing microphone:', err);
+      toast({
+        variant: 'destructive',
+        title: t.microphoneAccessDeniedTitle,
+        description: t.microphoneAccessDeniedDescription,
+      });
+    }
+  };
+
+  const handleStop = async () => {
+    const dictation = dictationRef.current;
+    if (!dictation) return;
+    dictationRef.current = null;
+    setState('transcribing');
+    try {
+      const { transcript, audioDataUri } = await dictation.stop();
+      if (transcript) {
+        onDictated(transcript, audioDataUri);
+      } else {
+        toast({ title: t.transcriptionFailed });
+      }
+    } catch (err) {
+      toast({ variant: 'destructive', title: t.errorTitle, description: t.transcriptionFailed });
+    } finally {
+      setState('idle');
+      setPartialTranscript('');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {state === 'listening' ? (
+        <Button type="button" variant="destructive" className="w-full" onClick={handleStop}>
+          <Square className="mr-2 h-4 w-4" />
+          {t.stopRecording}
+        </Button>
+      ) : (
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full"
+          onClick={handleStart}
+          disabled={disabled || state === 'transcribing'}
+        >
+          {state === 'transcribing' ? (
+            <><Loader2 className="mr-2 h-4 w-4 animate-spin" /> {t.transcribing}</>
+          ) : (
+            <><Mic className="mr-2 h-4 w-4" /> {t.speakSymptoms}</>
+          )}
+        </Button>
+      )}
+      {state === 'listening' && (
+        <p className="text-sm text-muted-foreground" aria-live="polite">
+          {partialTranscript || t.listening}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,9 @@ import * as React from "react"
 import { Moon, Sun } from "lucide-react"
 import { useTheme } from "next-themes"
 
+import { useLocale } from "@/components/locale-provider"
+import { translations } from "@/lib/translations"
+
 import { Button } from "@/components/ui/button"
 import {
   DropdownMenu,
@@ -14,6 +17,8 @@ import {
 
 export function ThemeToggle() {
   const { setTheme } = useTheme()
+  const { language } = useLocale()
+  const t = translations[language]
 
   return (
     <DropdownMenu>
@@ -21,18 +26,18 @@ export function ThemeToggle() {
         <Button variant="outline" size="icon">
           <Sun className="h-[1.2rem] w-[1.2rem] rotate-0 scale-100 transition-all dark:-rotate-90 dark:scale-0" />
           <Moon className="absolute h-[1.2rem] w-[1.2rem] rotate-90 scale-0 transition-all dark:rotate-0 dark:scale-100" />
-          <span className="sr-only">Toggle theme</span>
+          <span className="sr-only">{t.toggleTheme}</span>
         </Button>
       </DropdownMenuTrigger>
       <DropdownMenuContent align="end">
         <DropdownMenuItem onClick={() => setTheme("light")}>
-          Light
+          {t.themeLight}
         </DropdownMenuItem>
         <DropdownMenuItem onClick={() => setTheme("dark")}>
-          Dark
+          {t.themeDark}
         </DropdownMenuItem>
         <DropdownMenuItem onClick={() => setTheme("system")}>
-          System
+          {t.themeSystem}
         </DropdownMenuItem>
       </DropdownMenuContent>
     </DropdownMenu>
@@ -0,0 +1,20 @@
+"use client"
+
+import * as React from "react"
+
+import { startOutboxSync, subscribeToOutbox, type OutboxCounts } from "@/lib/outbox"
+
+/**
+ * Starts background sync of the offline outbox and returns how many submissions are still
+ * queued, and how many failed and will not be retried.
+ */
+export function useOutboxCounts() {
+  const [counts, setCounts] = React.useState<OutboxCounts>({ pending: 0, failed: 0 })
+
+  React.useEffect(() => {
+    startOutboxSync()
+    return subscribeToOutbox(setCounts)
+  }, [])
+
+  return counts
+}
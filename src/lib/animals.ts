@@ -0,0 +1,26 @@
+import type { Animal, AnimalPhoto } from '@/lib/server/animal-store';
+import { findBreedBySlug } from '@/lib/breed-data';
+import type { StoredAudio } from '@/lib/server/audio-files';
+
+export function animalPhotoUrl(photo: Pick<AnimalPhoto, 'sha256'>): string {
+  return `/api/images/${photo.sha256}`;
+}
+
+export function voiceNoteUrl(audio: Pick<StoredAudio, 'sha256'>): string {
+  return `/api/audio/${audio.sha256}`;
+}
+
+/** The catalogue name of an animal's breed, `unknownBreed` for crossbred animals, or '—' if none was recorded. */
+export function animalBreedName(animal: Pick<Animal, 'breed'>, unknownBreed: string): string {
+  if (!animal.breed) return '—';
+  return findBreedBySlug(animal.breed)?.breedName ?? unknownBreed;
+}
+
+/** Whole years and remaining months between a `YYYY-MM-DD` date of birth and `on`. */
+export function ageInYearsAndMonths(dateOfBirth: string, on: Date = new Date()): { years: number; months: number } {
+  const [year, month, day] = dateOfBirth.split('-').map(Number);
+  let months = (on.getFullYear() - year) * 12 + (on.getMonth() + 1 - month);
+  if (on.getDate() < day) months -= 1;
+  months = Math.max(0, months);
+  return { years: Math.floor(months / 12), months: months % 12 };
+}
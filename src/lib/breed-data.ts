@@ -1,9 +1,12 @@
+import type { translations } from '@/lib/translations';
+
 export type BreedData = {
   breedName: string;
   category: 'Cattle' | 'Buffalo';
   purpose: 'Milk' | 'Draught' | 'Dual-Purpose';
   milkYield: number; // liters/day
   fatPercentage: number;
+  snfPercentage: number; // solids-not-fat
   strength: 'Low' | 'Medium' | 'High';
   feedRequirement: 'Low' | 'Medium' | 'High';
   maintenanceCost: 'Low' | 'Medium' | 'High';
@@ -14,8 +17,18 @@ export type BreedData = {
   marketPrice: number; // INR
   pros: string;
   cons: string;
+  description: string;
+  size: string; // typical height and weight of adult animals
+  colors: string[];
+  nativeTract: string[]; // states of the breeding tract
+  physicalTraits: string[]; // identifying features for visual confirmation
+  nutrition: string;
 };
 
+/**
+ * Registered indigenous cattle and buffalo breeds of India, plus the two common
+ * dairy crossbreeds. Figures are typical values under village management.
+ */
 export const indianBreedData: BreedData[] = [
   {
     breedName: 'Gir',
@@ -23,6 +36,7 @@ export const indianBreedData: BreedData[] = [
     purpose: 'Milk',
     milkYield: 12,
     fatPercentage: 4.5,
+    snfPercentage: 8.9,
     strength: 'Low',
     feedRequirement: 'Medium',
     maintenanceCost: 'Medium',
@@ -33,6 +47,19 @@ export const indianBreedData: BreedData[] = [
     marketPrice: 80000,
     pros: 'High milk yield, good heat tolerance, and disease resistance. Milk has A2 protein.',
     cons: 'Late maturity, higher initial cost.',
+    description:
+      'Originating from the Gir hills of Saurashtra in Gujarat, the Gir is one of the principal zebu dairy breeds of India. It is easily recognised by its prominent convex (domed) forehead, long pendulous ears folded like a leaf and horns that curve backwards.',
+    size: 'Cows about 130 cm tall and 385 kg; bulls about 140 cm and 545 kg.',
+    colors: ['Red', 'Speckled red and white', 'Chocolate brown'],
+    nativeTract: ['Gujarat', 'Rajasthan', 'Maharashtra'],
+    physicalTraits: [
+      'Prominent convex (domed) forehead',
+      'Long pendulous ears folded like a leaf',
+      'Horns curving downwards and backwards',
+      'Loose, pliable skin',
+    ],
+    nutrition:
+      'Does well on green fodder with 1-1.5 kg of concentrate per 2.5 litres of milk; needs about 30-35 litres of clean water a day and mineral mixture in the ration.',
   },
   {
     breedName: 'Sahiwal',
@@ -40,6 +67,7 @@ export const indianBreedData: BreedData[] = [
     purpose: 'Milk',
     milkYield: 10,
     fatPercentage: 4.0,
+    snfPercentage: 8.9,
     strength: 'Low',
     feedRequirement: 'Medium',
     maintenanceCost: 'Low',
@@ -50,6 +78,19 @@ export const indianBreedData: BreedData[] = [
     marketPrice: 65000,
     pros: 'Excellent disease resistance, heat tolerance, and ease of calving. Good for low-input systems.',
     cons: 'Lower milk yield compared to Gir, slow-moving.',
+    description:
+      'The Sahiwal comes from the Montgomery region of undivided Punjab and is regarded as the best indigenous dairy breed. It has a long, deep body, loose skin, a heavy dewlap and short stubby horns; cows are docile and easy to milk.',
+    size: 'Cows about 120 cm tall and 350 kg; bulls about 135 cm and 500 kg.',
+    colors: ['Reddish dun', 'Pale red', 'Red with white patches'],
+    nativeTract: ['Punjab', 'Haryana', 'Rajasthan'],
+    physicalTraits: [
+      'Long, deep body with loose skin',
+      'Heavy dewlap and large navel flap',
+      'Short, stubby horns',
+      'Massive hump in bulls',
+    ],
+    nutrition:
+      'Efficient on moderate-quality roughage; 20-25 kg green fodder and 4-5 kg dry fodder daily, plus concentrate in proportion to milk yield.',
   },
   {
     breedName: 'Red Sindhi',
@@ -57,6 +98,7 @@ export const indianBreedData: BreedData[] = [
     purpose: 'Milk',
     milkYield: 9,
     fatPercentage: 4.2,
+    snfPercentage: 8.9,
     strength: 'Low',
     feedRequirement: 'Low',
     maintenanceCost: 'Low',
@@ -67,6 +109,19 @@ export const indianBreedData: BreedData[] = [
     marketPrice: 55000,
     pros: 'High heat tolerance, good for crossbreeding, efficient milk producer on low feed.',
     cons: 'Smaller in size, lower peak milk yield.',
+    description:
+      'The Red Sindhi originates from the Sindh province and is a compact, heat-tolerant dairy breed widely used for crossbreeding. It has a deep body, short thick horns and a well-developed hump in bulls.',
+    size: 'Cows about 115 cm tall and 325 kg; bulls about 130 cm and 450 kg.',
+    colors: ['Red', 'Dark red', 'Red with white markings on the dewlap and forehead'],
+    nativeTract: ['Punjab', 'Haryana', 'Gujarat'],
+    physicalTraits: [
+      'Deep red colour, darker in bulls',
+      'Compact, rounded body',
+      'Short, thick horns curving outwards',
+      'Pendulous sheath and dewlap',
+    ],
+    nutrition:
+      'Thrives on limited feed; grazing with 3-4 kg dry fodder and modest concentrate supplementation is usually enough for a steady yield.',
   },
   {
     breedName: 'Hallikar',
@@ -74,6 +129,7 @@ export const indianBreedData: BreedData[] = [
     purpose: 'Draught',
     milkYield: 2,
     fatPercentage: 3.0,
+    snfPercentage: 8.4,
     strength: 'High',
     feedRequirement: 'Medium',
     maintenanceCost: 'Low',
@@ -84,6 +140,19 @@ export const indianBreedData: BreedData[] = [
     marketPrice: 45000,
     pros: 'Excellent draught animals, known for their speed and endurance. Very hardy.',
     cons: 'Very low milk yield, can be aggressive.',
+    description:
+      'The Hallikar is a draught breed from the Mysore, Tumkur and Hassan districts of Karnataka and is the progenitor of several Mysore-type breeds. It has a compact, muscular body, a narrow face and long vertical horns that bend backwards.',
+    size: 'Cows about 120 cm tall and 230 kg; bulls about 135 cm and 340 kg.',
+    colors: ['Grey', 'Dark grey', 'Grey with darker shading on the forequarters'],
+    nativeTract: ['Karnataka'],
+    physicalTraits: [
+      'Long vertical horns bending backwards',
+      'Narrow face with a bulging forehead',
+      'Compact, muscular body',
+      'Grey coat darker on the forequarters',
+    ],
+    nutrition:
+      'Maintained mainly on grazing and crop residues; working bullocks need extra dry fodder and 1-2 kg concentrate on working days.',
   },
   {
     breedName: 'Khillar',
@@ -91,6 +160,7 @@ export const indianBreedData: BreedData[] = [
     purpose: 'Draught',
     milkYield: 1.5,
     fatPercentage: 3.2,
+    snfPercentage: 8.4,
     strength: 'High',
     feedRequirement: 'Medium',
     maintenanceCost: 'Low',
@@ -101,6 +171,19 @@ export const indianBreedData: BreedData[] = [
     marketPrice: 50000,
     pros: 'Extremely powerful and fast, ideal for heavy farm work and transport in arid regions.',
     cons: 'Almost no milk production, requires experienced handling.',
+    description:
+      'The Khillar is a fast draught breed from the Satara, Sangli, Kolhapur and Solapur districts of Maharashtra. It has a compact, cylindrical body, a long narrow face and long pointed horns that sweep backwards and upwards.',
+    size: 'Cows about 125 cm tall and 350 kg; bulls about 140 cm and 450 kg.',
+    colors: ['Greyish white', 'White', 'Grey with darker forequarters in bulls'],
+    nativeTract: ['Maharashtra', 'Karnataka'],
+    physicalTraits: [
+      'Long, narrow face',
+      'Long pointed horns sweeping backwards and upwards',
+      'Compact, cylindrical body',
+      'Tight skin with little dewlap',
+    ],
+    nutrition:
+      'Hardy on sparse grazing and dry fodder; bullocks in regular work need 2-3 kg concentrate and green fodder when available.',
   },
   {
     breedName: 'Kankrej',
@@ -108,6 +191,7 @@ export const indianBreedData: BreedData[] = [
     purpose: 'Dual-Purpose',
     milkYield: 6,
     fatPercentage: 4.0,
+    snfPercentage: 8.7,
     strength: 'Medium',
     feedRequirement: 'Medium',
     maintenanceCost: 'Medium',
@@ -118,6 +202,19 @@ export const indianBreedData: BreedData[] = [
     marketPrice: 60000,
     pros: 'Good balance of milk production and draught power. Hardy and adaptable.',
     cons: 'Not specialized for either milk or draught, moderate in both aspects.',
+    description:
+      'The Kankrej is a large dual-purpose breed from the Banaskantha and Kutch regions of Gujarat and adjoining Rajasthan. It has a broad forehead, large lyre-shaped horns and a characteristic \'sawai chal\' gait.',
+    size: 'Cows about 125 cm tall and 350 kg; bulls about 150 cm and 575 kg.',
+    colors: ['Silver grey', 'Iron grey', 'Steel black'],
+    nativeTract: ['Gujarat', 'Rajasthan'],
+    physicalTraits: [
+      'Large lyre-shaped horns covered with skin higher up',
+      'Broad, slightly dished forehead',
+      'Long, pendulous ears',
+      'Characteristic \'sawai chal\' gait',
+    ],
+    nutrition:
+      'Needs 25-30 kg green fodder and 5-6 kg dry fodder daily, with concentrate for lactating cows and working bullocks.',
   },
   {
     breedName: 'Tharparkar',
@@ -125,6 +222,7 @@ export const indianBreedData: BreedData[] = [
     purpose: 'Dual-Purpose',
     milkYield: 7,
     fatPercentage: 4.8,
+    snfPercentage: 8.9,
     strength: 'Medium',
     feedRequirement: 'Low',
     maintenanceCost: 'Low',
@@ -135,39 +233,2170 @@ export const indianBreedData: BreedData[] = [
     marketPrice: 70000,
     pros: 'Excellent heat and drought tolerance. Good milk yield with high fat content for a dual breed.',
     cons: 'Slower growth rate compared to specialized breeds.',
+    description:
+      'The Tharparkar comes from the Thar desert (Barmer, Jaisalmer and Jodhpur) and is known for surviving on scarce feed and water. It is a medium-sized animal with a long face, lyre-shaped horns and a moderately developed hump.',
+    size: 'Cows about 125 cm tall and 340 kg; bulls about 135 cm and 475 kg.',
+    colors: ['White', 'Light grey', 'Grey'],
+    nativeTract: ['Rajasthan', 'Gujarat'],
+    physicalTraits: [
+      'White or light grey coat',
+      'Long face with a slightly convex forehead',
+      'Lyre-shaped horns of medium length',
+      'Moderate hump and dewlap',
+    ],
+    nutrition:
+      'Adapted to desert grazing and dry fodder; lactating cows benefit from 1 kg concentrate per 2.5 litres of milk and access to clean water.',
   },
   {
-    breedName: 'Murrah',
-    category: 'Buffalo',
-    purpose: 'Milk',
-    milkYield: 14,
-    fatPercentage: 7.0,
-    strength: 'Low',
-    feedRequirement: 'High',
-    maintenanceCost: 'High',
-    climateSuitability: ['Moderate', 'Hot and Humid'],
+    breedName: 'Amritmahal',
+    category: 'Cattle',
+    purpose: 'Draught',
+    milkYield: 1.5,
+    fatPercentage: 4.0,
+    snfPercentage: 8.5,
+    strength: 'High',
+    feedRequirement: 'Medium',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry', 'Moderate'],
+    diseaseResistance: 'High',
+    lifespan: 17,
+    careLevel: 'Low',
+    marketPrice: 55000,
+    pros: 'Renowned for speed and stamina in ploughing and road transport. Very hardy on poor grazing.',
+    cons: 'Negligible milk yield; restless temperament needs an experienced handler.',
+    description:
+      'The Amritmahal was developed as a bullock breed by the rulers of Mysore and is found in the Chikmagalur, Chitradurga and Hassan districts of Karnataka. It is a Mysore-type breed with a well-proportioned body, a prominent forehead with a furrow in the middle and long horns that rise close together.',
+    size: 'Cows about 125 cm tall and 310 kg; bulls about 135 cm and 450 kg.',
+    colors: ['Grey', 'Dark grey', 'Grey with white patches on the face'],
+    nativeTract: ['Karnataka'],
+    physicalTraits: [
+      'Long horns emerging close together and sweeping backwards',
+      'Furrow running down the middle of the forehead',
+      'Compact, muscular body with a tight sheath',
+      'Grey coat that darkens on the forequarters of bulls',
+    ],
+    nutrition:
+      'Raised on extensive grazing; working bullocks need 2 kg concentrate and extra dry fodder during the ploughing season.',
+  },
+  {
+    breedName: 'Bachaur',
+    category: 'Cattle',
+    purpose: 'Draught',
+    milkYield: 2,
+    fatPercentage: 4.3,
+    snfPercentage: 8.5,
+    strength: 'High',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid', 'Moderate'],
     diseaseResistance: 'Medium',
-    lifespan: 12,
-    careLevel: 'High',
-    marketPrice: 120000,
-    pros: 'One of the highest milk-yielding buffalo breeds globally. Milk has very high fat content.',
-    cons: 'Requires significant feed and care, high initial investment, sensitive to extreme heat without water access.',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 35000,
+    pros: 'Strong, steady draught animal that can work long hours on little feed.',
+    cons: 'Low milk yield; the pure population is small and declining.',
+    description:
+      'The Bachaur is a draught breed from the Sitamarhi, Madhubani and Darbhanga districts of north Bihar. It has a compact, barrel-shaped body, a broad flat forehead, large prominent eyes and short stumpy horns.',
+    size: 'Cows about 115 cm tall and 250 kg; bulls about 125 cm and 350 kg.',
+    colors: ['Grey', 'Greyish white'],
+    nativeTract: ['Bihar'],
+    physicalTraits: [
+      'Compact, barrel-shaped body',
+      'Broad, flat forehead',
+      'Large, prominent eyes',
+      'Short, stumpy horns curving outwards',
+    ],
+    nutrition:
+      'Maintained on paddy straw and roadside grazing; bullocks need green fodder and 1-2 kg concentrate while working.',
   },
   {
-    breedName: 'Nili-Ravi',
-    category: 'Buffalo',
+    breedName: 'Badri',
+    category: 'Cattle',
     purpose: 'Milk',
-    milkYield: 12,
-    fatPercentage: 6.5,
+    milkYield: 2.5,
+    fatPercentage: 4.8,
+    snfPercentage: 8.9,
     strength: 'Low',
-    feedRequirement: 'High',
-    maintenanceCost: 'Medium',
-    climateSuitability: ['Moderate', 'Cold'],
-    diseaseResistance: 'Medium',
-    lifespan: 13,
-    careLevel: 'Medium',
-    marketPrice: 100000,
-    pros: 'High milk yield, distinctive white markings. Adaptable to colder climates better than other buffalo.',
-    cons: 'Slightly lower milk yield and fat % than Murrah. Requires good quality fodder.',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Cold', 'Moderate'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 30000,
+    pros: 'Small, sure-footed hill cow that thrives on forest grazing. Milk and ghee fetch a premium locally.',
+    cons: 'Low daily yield; not suited to stall-fed commercial dairying.',
+    description:
+      'The Badri is the native hill cattle of Uttarakhand and the state\'s first registered breed. It is a small, compact animal with short legs and a small hump, adapted to steep terrain and grazing in the Himalayan foothills.',
+    size: 'Cows about 95 cm tall and 150 kg; bulls about 105 cm and 200 kg.',
+    colors: ['Black', 'Brown', 'Red', 'White', 'Grey'],
+    nativeTract: ['Uttarakhand'],
+    physicalTraits: [
+      'Small, compact body with short legs',
+      'Small hump and dewlap',
+      'Short horns curving upwards',
+      'Dense coat for cold winters',
+    ],
+    nutrition:
+      'Lives largely on forest grazing and tree fodder; 0.5-1 kg concentrate and dry fodder during snowbound months keep yield steady.',
   },
-];
+  {
+    breedName: 'Bargur',
+    category: 'Cattle',
+    purpose: 'Draught',
+    milkYield: 1.5,
+    fatPercentage: 4.1,
+    snfPercentage: 8.5,
+    strength: 'High',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry', 'Moderate'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 40000,
+    pros: 'Extremely agile and hardy; ideal for work on uneven, hilly terrain.',
+    cons: 'Fiery temperament and low milk yield.',
+    description:
+      'The Bargur comes from the Bargur hills of Erode district in Tamil Nadu, where herds are kept on forest grazing. It is a medium-sized, compact breed with a well-defined forehead and light brown horns, famous for its trotting ability.',
+    size: 'Cows about 110 cm tall and 250 kg; bulls about 120 cm and 350 kg.',
+    colors: ['Red with white patches', 'Brown with white patches'],
+    nativeTract: ['Tamil Nadu'],
+    physicalTraits: [
+      'Red or brown coat with white patches',
+      'Compact body with a tight skin',
+      'Light brown horns curving backwards and outwards',
+      'Alert, restless temperament',
+    ],
+    nutrition:
+      'Reared on forest grazing; working bullocks need extra dry fodder and 1-2 kg concentrate.',
+  },
+  {
+    breedName: 'Belahi',
+    category: 'Cattle',
+    purpose: 'Dual-Purpose',
+    milkYield: 5,
+    fatPercentage: 4.4,
+    snfPercentage: 8.7,
+    strength: 'Medium',
+    feedRequirement: 'Medium',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Moderate', 'Hot and Dry'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 45000,
+    pros: 'Reasonable milk yield with good draught ability; well suited to migratory herding.',
+    cons: 'Yield is variable under purely migratory management.',
+    description:
+      'The Belahi is kept by migratory Gujjar herders in the Shivalik foothills of Haryana and Chandigarh. It is a medium-sized breed with a characteristic white or mottled face on a reddish-brown or grey body.',
+    size: 'Cows about 115 cm tall and 260 kg; bulls about 125 cm and 350 kg.',
+    colors: ['Reddish brown with a white face', 'Grey with a mottled face'],
+    nativeTract: ['Haryana', 'Chandigarh', 'Punjab'],
+    physicalTraits: [
+      'White or mottled face on a darker body',
+      'Short horns curving upwards and inwards',
+      'Medium hump',
+      'White switch of the tail',
+    ],
+    nutrition:
+      'Grazes in the foothills for much of the year; stall-fed cows need 20-25 kg green fodder and concentrate according to yield.',
+  },
+  {
+    breedName: 'Binjharpuri',
+    category: 'Cattle',
+    purpose: 'Dual-Purpose',
+    milkYield: 2,
+    fatPercentage: 4.6,
+    snfPercentage: 8.7,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 30000,
+    pros: 'Among the better-yielding indigenous cattle of Odisha; used for both milk and paddy work.',
+    cons: 'Modest yield compared to specialised dairy breeds.',
+    description:
+      'The Binjharpuri is native to the Jajpur, Kendrapara and Cuttack districts of coastal Odisha. It has a long body, a straight face and medium-length horns, and is valued for its milk and for ploughing paddy fields.',
+    size: 'Cows about 115 cm tall and 250 kg; bulls about 125 cm and 330 kg.',
+    colors: ['White', 'Light grey'],
+    nativeTract: ['Odisha'],
+    physicalTraits: [
+      'Long body with a straight face',
+      'Medium horns curving upwards',
+      'Moderate hump',
+      'White or light grey coat',
+    ],
+    nutrition:
+      'Kept on paddy straw and grazing; lactating cows respond well to 1-2 kg concentrate and green fodder.',
+  },
+  {
+    breedName: 'Dagri',
+    category: 'Cattle',
+    purpose: 'Draught',
+    milkYield: 1,
+    fatPercentage: 4.3,
+    snfPercentage: 8.5,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry', 'Hot and Humid'],
+    diseaseResistance: 'High',
+    lifespan: 14,
+    careLevel: 'Low',
+    marketPrice: 25000,
+    pros: 'Small, hardy animal suited to the light soils and hilly fields of tribal farming.',
+    cons: 'Very low milk yield and small size limit draught power.',
+    description:
+      'The Dagri is reared by tribal farmers in the Dahod, Mahisagar and Panchmahal districts of eastern Gujarat. It is a small, compact breed used for farm work on light, undulating land.',
+    size: 'Cows about 105 cm tall and 180 kg; bulls about 115 cm and 240 kg.',
+    colors: ['White', 'Greyish white'],
+    nativeTract: ['Gujarat'],
+    physicalTraits: [
+      'Small, compact body',
+      'Short horns pointing upwards',
+      'Small hump',
+      'White coat',
+    ],
+    nutrition:
+      'Survives on grazing and crop residues; bullocks need extra dry fodder during the sowing season.',
+  },
+  {
+    breedName: 'Dangi',
+    category: 'Cattle',
+    purpose: 'Draught',
+    milkYield: 2,
+    fatPercentage: 4.3,
+    snfPercentage: 8.5,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 35000,
+    pros: 'Works well in heavy rainfall and waterlogged paddy fields; oily skin repels rain.',
+    cons: 'Low milk yield and slow growth.',
+    description:
+      'The Dangi is found in the Dang district of Gujarat and the Nashik and Ahmednagar districts of Maharashtra. Its skin secretes an oily substance that protects it in the heavy monsoon of the Western Ghats.',
+    size: 'Cows about 115 cm tall and 250 kg; bulls about 120 cm and 330 kg.',
+    colors: ['White with black or red spots', 'Black and white'],
+    nativeTract: ['Gujarat', 'Maharashtra'],
+    physicalTraits: [
+      'White coat with black or red spots',
+      'Oily, soft skin',
+      'Short, thick horns',
+      'Medium-sized, deep body',
+    ],
+    nutrition:
+      'Raised on grazing in the ghats; working bullocks need paddy straw and 1-2 kg concentrate.',
+  },
+  {
+    breedName: 'Deoni',
+    category: 'Cattle',
+    purpose: 'Dual-Purpose',
+    milkYield: 4,
+    fatPercentage: 4.3,
+    snfPercentage: 8.6,
+    strength: 'Medium',
+    feedRequirement: 'Medium',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry', 'Moderate'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 50000,
+    pros: 'Cows give good milk for a draught-type breed; bullocks are strong for heavy work.',
+    cons: 'Late maturity and long calving interval.',
+    description:
+      'The Deoni comes from the Latur and Udgir regions of Maharashtra and adjoining Karnataka and Telangana. It has a prominent, slightly bulging forehead, drooping ears and horns that emerge sideways, and occurs in three colour strains: Wannera, Balankya and Shevera.',
+    size: 'Cows about 125 cm tall and 350 kg; bulls about 135 cm and 450 kg.',
+    colors: ['Spotted black and white', 'White with a black face (Wannera)', 'Black and white on the underside (Balankya)'],
+    nativeTract: ['Maharashtra', 'Karnataka', 'Telangana'],
+    physicalTraits: [
+      'Spotted black-and-white coat',
+      'Prominent, slightly bulging forehead',
+      'Long, drooping ears',
+      'Horns emerging sideways and curving backwards',
+    ],
+    nutrition:
+      'Needs 20-25 kg green fodder and 5 kg dry fodder, with concentrate for lactating cows.',
+  },
+  {
+    breedName: 'Gangatiri',
+    category: 'Cattle',
+    purpose: 'Dual-Purpose',
+    milkYield: 5,
+    fatPercentage: 4.9,
+    snfPercentage: 8.8,
+    strength: 'Medium',
+    feedRequirement: 'Medium',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid', 'Moderate'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 45000,
+    pros: 'Good milk with high fat for an indigenous dual-purpose breed; docile and hardy.',
+    cons: 'Pure-bred animals are becoming scarce.',
+    description:
+      'The Gangatiri is found along the Ganga in the Ballia, Ghazipur and Varanasi districts of Uttar Pradesh and the Bhojpur and Buxar districts of Bihar. It is a medium-sized breed with a long face, small horns and a well-developed udder.',
+    size: 'Cows about 120 cm tall and 300 kg; bulls about 135 cm and 400 kg.',
+    colors: ['White', 'Light grey'],
+    nativeTract: ['Uttar Pradesh', 'Bihar'],
+    physicalTraits: [
+      'White or light grey coat',
+      'Long face with a slightly bulging forehead',
+      'Small horns curving outwards',
+      'Well-developed udder with black teats',
+    ],
+    nutrition:
+      'Does well on crop residues and river-bank grazing with 20 kg green fodder and concentrate in proportion to yield.',
+  },
+  {
+    breedName: 'Gaolao',
+    category: 'Cattle',
+    purpose: 'Dual-Purpose',
+    milkYield: 3,
+    fatPercentage: 4.3,
+    snfPercentage: 8.6,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 40000,
+    pros: 'Active, fast draught bullocks and cows with moderate milk yield.',
+    cons: 'Light body limits heavy ploughing.',
+    description:
+      'The Gaolao is native to the Wardha and Nagpur districts of Maharashtra and the Chhindwara district of Madhya Pradesh. It is a lean, tall breed with a long narrow face, a flat forehead and short stumpy horns.',
+    size: 'Cows about 125 cm tall and 275 kg; bulls about 135 cm and 375 kg.',
+    colors: ['White', 'Light grey'],
+    nativeTract: ['Maharashtra', 'Madhya Pradesh'],
+    physicalTraits: [
+      'Long, narrow face with a flat forehead',
+      'Short, stumpy horns',
+      'Lean, tall frame',
+      'Medium dewlap',
+    ],
+    nutrition:
+      'Reared on grazing and jowar stalks; lactating cows and working bullocks need 1-2 kg concentrate.',
+  },
+  {
+    breedName: 'Ghumusari',
+    category: 'Cattle',
+    purpose: 'Draught',
+    milkYield: 1,
+    fatPercentage: 4.5,
+    snfPercentage: 8.5,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid'],
+    diseaseResistance: 'High',
+    lifespan: 14,
+    careLevel: 'Low',
+    marketPrice: 25000,
+    pros: 'Small, economical draught animal suited to marginal farms.',
+    cons: 'Very low milk yield.',
+    description:
+      'The Ghumusari is found in the Ganjam and Gajapati districts of southern Odisha. It is a small, compact breed used mainly for paddy cultivation.',
+    size: 'Cows about 100 cm tall and 180 kg; bulls about 110 cm and 250 kg.',
+    colors: ['White', 'Grey'],
+    nativeTract: ['Odisha'],
+    physicalTraits: [
+      'Small, compact body',
+      'Short horns curving upwards',
+      'Small hump',
+      'White or grey coat',
+    ],
+    nutrition:
+      'Kept on paddy straw and grazing with little supplementation.',
+  },
+  {
+    breedName: 'Hariana',
+    category: 'Cattle',
+    purpose: 'Dual-Purpose',
+    milkYield: 5,
+    fatPercentage: 4.4,
+    snfPercentage: 8.8,
+    strength: 'High',
+    feedRequirement: 'Medium',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry', 'Moderate'],
+    diseaseResistance: 'High',
+    lifespan: 16,
+    careLevel: 'Low',
+    marketPrice: 55000,
+    pros: 'Excellent draught bullocks and cows with fair milk yield; the classic dual-purpose breed of north India.',
+    cons: 'Milk yield falls well short of specialised dairy breeds.',
+    description:
+      'The Hariana is the main dual-purpose breed of the Rohtak, Hisar, Jind and Gurgaon districts of Haryana and adjoining states. It has a long, narrow face with a flat forehead, small horns and a compact, graceful body.',
+    size: 'Cows about 130 cm tall and 310 kg; bulls about 145 cm and 500 kg.',
+    colors: ['White', 'Light grey', 'Grey with darker forequarters in bulls'],
+    nativeTract: ['Haryana', 'Uttar Pradesh', 'Rajasthan', 'Delhi'],
+    physicalTraits: [
+      'Long, narrow face with a flat forehead',
+      'Small horns curving upwards and inwards',
+      'White or light grey coat',
+      'Black switch of the tail',
+    ],
+    nutrition:
+      'Needs 25 kg green fodder and 5-6 kg dry fodder daily, with concentrate for milking cows and working bullocks.',
+  },
+  {
+    breedName: 'Himachali Pahari',
+    category: 'Cattle',
+    purpose: 'Dual-Purpose',
+    milkYield: 2,
+    fatPercentage: 4.7,
+    snfPercentage: 8.8,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Cold', 'Moderate'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 30000,
+    pros: 'Small, sure-footed hill cattle that survive on sparse grazing and cold winters.',
+    cons: 'Low milk yield; small size limits draught work.',
+    description:
+      'The Himachali Pahari is the native hill cattle of Himachal Pradesh, kept across the mid and high hills. It is a small animal with short legs and a thick coat, grazing on steep slopes.',
+    size: 'Cows about 95 cm tall and 150 kg; bulls about 105 cm and 200 kg.',
+    colors: ['Black', 'Brown', 'Red', 'Grey'],
+    nativeTract: ['Himachal Pradesh'],
+    physicalTraits: [
+      'Small body with short legs',
+      'Short horns curving upwards',
+      'Thick coat',
+      'Small hump',
+    ],
+    nutrition:
+      'Grazes on hill pastures and tree leaves; dry fodder and 0.5-1 kg concentrate are needed in winter.',
+  },
+  {
+    breedName: 'Kangayam',
+    category: 'Cattle',
+    purpose: 'Draught',
+    milkYield: 1.5,
+    fatPercentage: 3.9,
+    snfPercentage: 8.5,
+    strength: 'High',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry'],
+    diseaseResistance: 'High',
+    lifespan: 18,
+    careLevel: 'Low',
+    marketPrice: 60000,
+    pros: 'Very strong, hardy bullocks for ploughing and carting; thrives on dry pasture.',
+    cons: 'Very low milk yield; cows are slow to mature.',
+    description:
+      'The Kangayam comes from the Erode and Tiruppur districts of Tamil Nadu, where it is raised in fenced paddocks (pattis). It is a compact, sturdy breed with stout horns and strong legs, and bulls are prized for Jallikattu.',
+    size: 'Cows about 125 cm tall and 340 kg; bulls about 140 cm and 525 kg.',
+    colors: ['Grey', 'White', 'Dark grey on the hump and forequarters in bulls'],
+    nativeTract: ['Tamil Nadu'],
+    physicalTraits: [
+      'Stout horns curving outwards and backwards',
+      'Compact, sturdy body with strong legs',
+      'Bulls dark grey on the hump, neck and quarters',
+      'Calves born red, turning grey',
+    ],
+    nutrition:
+      'Raised on dry paddock grazing; working bullocks need extra dry fodder and 2 kg concentrate.',
+  },
+  {
+    breedName: 'Kathani',
+    category: 'Cattle',
+    purpose: 'Dual-Purpose',
+    milkYield: 2.5,
+    fatPercentage: 4.8,
+    snfPercentage: 8.7,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid', 'Moderate'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 35000,
+    pros: 'Hardy paddy-belt animal giving milk and draught power on low inputs.',
+    cons: 'Low milk yield.',
+    description:
+      'The Kathani is found along the Wainganga river in the Gadchiroli, Bhandara and Chandrapur districts of eastern Maharashtra. It is a medium-sized breed used for paddy work and milk.',
+    size: 'Cows about 110 cm tall and 220 kg; bulls about 120 cm and 300 kg.',
+    colors: ['Grey', 'Black'],
+    nativeTract: ['Maharashtra'],
+    physicalTraits: [
+      'Medium-sized body',
+      'Horns curving upwards and backwards',
+      'Grey or black coat',
+      'Small hump',
+    ],
+    nutrition:
+      'Kept on paddy straw and grazing; 1 kg concentrate helps lactating cows.',
+  },
+  {
+    breedName: 'Kenkatha',
+    category: 'Cattle',
+    purpose: 'Draught',
+    milkYield: 1.5,
+    fatPercentage: 4.0,
+    snfPercentage: 8.5,
+    strength: 'High',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 30000,
+    pros: 'Small but powerful; works well on rough, stony Bundelkhand land.',
+    cons: 'Very low milk yield.',
+    description:
+      'The Kenkatha takes its name from the Ken river in the Bundelkhand region of Uttar Pradesh and Madhya Pradesh. It is a small, sturdy animal with a short, broad face and horns that point upwards.',
+    size: 'Cows about 105 cm tall and 220 kg; bulls about 120 cm and 300 kg.',
+    colors: ['Grey', 'Dark grey'],
+    nativeTract: ['Uttar Pradesh', 'Madhya Pradesh'],
+    physicalTraits: [
+      'Short, broad face with a dished forehead',
+      'Horns pointing forwards and upwards',
+      'Small, sturdy body',
+      'Grey coat darkening on the forequarters',
+    ],
+    nutrition:
+      'Survives on poor grazing and crop residues; bullocks need extra dry fodder during field work.',
+  },
+  {
+    breedName: 'Khariar',
+    category: 'Cattle',
+    purpose: 'Draught',
+    milkYield: 1,
+    fatPercentage: 4.4,
+    snfPercentage: 8.5,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry', 'Hot and Humid'],
+    diseaseResistance: 'High',
+    lifespan: 14,
+    careLevel: 'Low',
+    marketPrice: 25000,
+    pros: 'Hardy draught animal for upland farms with little feed.',
+    cons: 'Very low milk yield.',
+    description:
+      'The Khariar comes from the Nuapada and Kalahandi districts of western Odisha. It is a small breed used for ploughing and carting on upland soils.',
+    size: 'Cows about 105 cm tall and 190 kg; bulls about 115 cm and 260 kg.',
+    colors: ['Brown', 'Grey'],
+    nativeTract: ['Odisha'],
+    physicalTraits: [
+      'Small body',
+      'Small, upward-pointing horns',
+      'Brown or grey coat',
+      'Small hump',
+    ],
+    nutrition:
+      'Lives on grazing and straw; extra dry fodder during the ploughing season.',
+  },
+  {
+    breedName: 'Kherigarh',
+    category: 'Cattle',
+    purpose: 'Draught',
+    milkYield: 1.5,
+    fatPercentage: 4.0,
+    snfPercentage: 8.5,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid', 'Moderate'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 30000,
+    pros: 'Active, quick bullocks suited to light draught and the terai climate.',
+    cons: 'Low milk yield.',
+    description:
+      'The Kherigarh is found in the Lakhimpur Kheri district of Uttar Pradesh along the Nepal border. It is an active, medium-sized breed with a narrow face and upstanding horns.',
+    size: 'Cows about 115 cm tall and 250 kg; bulls about 125 cm and 325 kg.',
+    colors: ['White', 'Grey'],
+    nativeTract: ['Uttar Pradesh'],
+    physicalTraits: [
+      'Narrow face',
+      'Upstanding horns curving outwards',
+      'Medium-sized, active body',
+      'White coat',
+    ],
+    nutrition:
+      'Raised on terai grazing; bullocks need extra dry fodder and 1 kg concentrate when working.',
+  },
+  {
+    breedName: 'Konkan Kapila',
+    category: 'Cattle',
+    purpose: 'Dual-Purpose',
+    milkYield: 2,
+    fatPercentage: 4.5,
+    snfPercentage: 8.7,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 30000,
+    pros: 'Thrives in the heavy rainfall and hilly terrain of the Konkan coast.',
+    cons: 'Low milk yield and small size.',
+    description:
+      'The Konkan Kapila is the native cattle of the Konkan coast of Maharashtra and Goa. It is a small, hardy breed adapted to very heavy rainfall and steep, laterite terrain.',
+    size: 'Cows about 100 cm tall and 160 kg; bulls about 110 cm and 220 kg.',
+    colors: ['Brown', 'Black', 'Brown with white patches'],
+    nativeTract: ['Maharashtra', 'Goa'],
+    physicalTraits: [
+      'Small, compact body',
+      'Short horns curving upwards',
+      'Brown or black coat, often patched',
+      'Small hump',
+    ],
+    nutrition:
+      'Grazes on hill slopes and paddy bunds; paddy straw and 0.5-1 kg concentrate suffice.',
+  },
+  {
+    breedName: 'Kosali',
+    category: 'Cattle',
+    purpose: 'Draught',
+    milkYield: 1.5,
+    fatPercentage: 4.5,
+    snfPercentage: 8.5,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid', 'Hot and Dry'],
+    diseaseResistance: 'High',
+    lifespan: 14,
+    careLevel: 'Low',
+    marketPrice: 25000,
+    pros: 'Low-cost, hardy paddy-field animal.',
+    cons: 'Low milk yield.',
+    description:
+      'The Kosali is the native cattle of the central plains of Chhattisgarh, formerly known as Kosal. It is a small breed used for paddy cultivation.',
+    size: 'Cows about 100 cm tall and 180 kg; bulls about 110 cm and 250 kg.',
+    colors: ['Light red', 'White', 'Grey'],
+    nativeTract: ['Chhattisgarh'],
+    physicalTraits: [
+      'Small body',
+      'Short horns',
+      'Light red, white or grey coat',
+      'Small hump',
+    ],
+    nutrition:
+      'Kept on paddy straw and grazing with little supplementation.',
+  },
+  {
+    breedName: 'Krishna Valley',
+    category: 'Cattle',
+    purpose: 'Draught',
+    milkYield: 3,
+    fatPercentage: 4.1,
+    snfPercentage: 8.5,
+    strength: 'High',
+    feedRequirement: 'High',
+    maintenanceCost: 'Medium',
+    climateSuitability: ['Hot and Dry'],
+    diseaseResistance: 'Medium',
+    lifespan: 15,
+    careLevel: 'Medium',
+    marketPrice: 60000,
+    pros: 'Very powerful, heavy bullocks for deep ploughing of black cotton soil.',
+    cons: 'Needs more feed than most indigenous draught breeds; slow.',
+    description:
+      'The Krishna Valley breed was developed along the Krishna, Ghataprabha and Malaprabha rivers in northern Karnataka and southern Maharashtra. It is a large, massive animal with a deep, loose dewlap and short curved horns.',
+    size: 'Cows about 130 cm tall and 375 kg; bulls about 145 cm and 550 kg.',
+    colors: ['Grey-white', 'White', 'Grey with darker forequarters in bulls'],
+    nativeTract: ['Karnataka', 'Maharashtra'],
+    physicalTraits: [
+      'Large, massive body',
+      'Deep, loose dewlap',
+      'Short horns curving outwards and upwards',
+      'Convex forehead',
+    ],
+    nutrition:
+      'Needs 25-30 kg green fodder, 6-8 kg dry fodder and 2-3 kg concentrate for working bullocks.',
+  },
+  {
+    breedName: 'Ladakhi',
+    category: 'Cattle',
+    purpose: 'Dual-Purpose',
+    milkYield: 2.5,
+    fatPercentage: 5.5,
+    snfPercentage: 9.0,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Cold'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 35000,
+    pros: 'Adapted to extreme cold and high altitude; milk has very high fat.',
+    cons: 'Unsuited to hot climates; low yield.',
+    description:
+      'The Ladakhi is the native cattle of the cold desert of Ladakh, reared at altitudes above 3,000 m. It is a small, compact animal with short legs, a small hump and a thick hair coat.',
+    size: 'Cows about 95 cm tall and 150 kg; bulls about 105 cm and 200 kg.',
+    colors: ['Black', 'Brown', 'Black and white'],
+    nativeTract: ['Ladakh'],
+    physicalTraits: [
+      'Small, compact body with short legs',
+      'Thick, long hair coat',
+      'Small hump',
+      'Short horns curving upwards',
+    ],
+    nutrition:
+      'Stall-fed on stored hay and crop residues through the long winter, with summer grazing on alpine pastures.',
+  },
+  {
+    breedName: 'Lakhimi',
+    category: 'Cattle',
+    purpose: 'Dual-Purpose',
+    milkYield: 2,
+    fatPercentage: 4.5,
+    snfPercentage: 8.6,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 25000,
+    pros: 'Hardy, disease-resistant cattle for the humid Brahmaputra valley.',
+    cons: 'Low milk yield.',
+    description:
+      'The Lakhimi is the native cattle of Assam, found across the Brahmaputra valley. It is a small breed reared for milk and for paddy work.',
+    size: 'Cows about 100 cm tall and 170 kg; bulls about 110 cm and 230 kg.',
+    colors: ['Red', 'Brown', 'Black'],
+    nativeTract: ['Assam'],
+    physicalTraits: [
+      'Small body',
+      'Short horns curving upwards',
+      'Small hump',
+      'Red, brown or black coat',
+    ],
+    nutrition:
+      'Raised on grazing and paddy straw; green fodder is plentiful in the monsoon.',
+  },
+  {
+    breedName: 'Malnad Gidda',
+    category: 'Cattle',
+    purpose: 'Milk',
+    milkYield: 2,
+    fatPercentage: 4.8,
+    snfPercentage: 8.8,
+    strength: 'Low',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid', 'Moderate'],
+    diseaseResistance: 'High',
+    lifespan: 16,
+    careLevel: 'Low',
+    marketPrice: 30000,
+    pros: 'Very low feed needs and excellent disease resistance; milk valued for its quality.',
+    cons: 'Very low yield and small body.',
+    description:
+      'The Malnad Gidda is a dwarf breed from the hilly Malnad region of Karnataka. It browses in forests and is remarkably resistant to disease and parasites.',
+    size: 'Cows about 90 cm tall and 100 kg; bulls about 100 cm and 150 kg.',
+    colors: ['Black', 'Brown', 'Red'],
+    nativeTract: ['Karnataka'],
+    physicalTraits: [
+      'Dwarf body, under a metre tall',
+      'Small, pointed horns',
+      'Black, brown or red coat',
+      'Small hump',
+    ],
+    nutrition:
+      'Browses freely in forests; little or no concentrate is needed.',
+  },
+  {
+    breedName: 'Malvi',
+    category: 'Cattle',
+    purpose: 'Draught',
+    milkYield: 2,
+    fatPercentage: 4.3,
+    snfPercentage: 8.5,
+    strength: 'High',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 40000,
+    pros: 'Strong, hardy bullocks for road and field work on rocky plateaus.',
+    cons: 'Low milk yield.',
+    description:
+      'The Malvi comes from the Malwa plateau of Madhya Pradesh and adjoining Rajasthan. It is a compact, strong breed with short, strong horns and a short, broad face.',
+    size: 'Cows about 115 cm tall and 300 kg; bulls about 130 cm and 450 kg.',
+    colors: ['Grey', 'White', 'Dark grey neck and hump in bulls'],
+    nativeTract: ['Madhya Pradesh', 'Rajasthan'],
+    physicalTraits: [
+      'Short, broad face with a dished forehead',
+      'Short, strong horns curving upwards',
+      'Compact, deep body',
+      'Bulls darker on the neck and hump',
+    ],
+    nutrition:
+      'Raised on grazing and crop residues; bullocks need extra dry fodder and 1-2 kg concentrate.',
+  },
+  {
+    breedName: 'Masilum',
+    category: 'Cattle',
+    purpose: 'Dual-Purpose',
+    milkYield: 1.5,
+    fatPercentage: 4.5,
+    snfPercentage: 8.6,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid', 'Moderate'],
+    diseaseResistance: 'High',
+    lifespan: 14,
+    careLevel: 'Low',
+    marketPrice: 30000,
+    pros: 'Hardy hill cattle that thrive on free grazing.',
+    cons: 'Low milk yield.',
+    description:
+      'The Masilum is the native cattle of Meghalaya, kept by Khasi and Jaintia farmers on free-range grazing. It is a small, compact breed with a prominent hump.',
+    size: 'Cows about 100 cm tall and 170 kg; bulls about 110 cm and 230 kg.',
+    colors: ['Black', 'Brown'],
+    nativeTract: ['Meghalaya'],
+    physicalTraits: [
+      'Small, compact body',
+      'Prominent hump',
+      'Short horns curving upwards',
+      'Black or brown coat',
+    ],
+    nutrition:
+      'Lives on free-range hill grazing with little supplementation.',
+  },
+  {
+    breedName: 'Mewati',
+    category: 'Cattle',
+    purpose: 'Dual-Purpose',
+    milkYield: 4,
+    fatPercentage: 4.3,
+    snfPercentage: 8.6,
+    strength: 'High',
+    feedRequirement: 'Medium',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 45000,
+    pros: 'Powerful, docile bullocks and cows with fair milk yield.',
+    cons: 'Milk yield is modest.',
+    description:
+      'The Mewati, also called Kosi, is found in the Mewat region spanning the Alwar and Bharatpur districts of Rajasthan, Nuh in Haryana and Mathura in Uttar Pradesh. It has a long face, horns that emerge outwards and a sturdy, powerful body.',
+    size: 'Cows about 125 cm tall and 320 kg; bulls about 135 cm and 425 kg.',
+    colors: ['White', 'White with darker neck and shoulders'],
+    nativeTract: ['Rajasthan', 'Haryana', 'Uttar Pradesh'],
+    physicalTraits: [
+      'Long face with a slightly bulging forehead',
+      'Horns emerging outwards and curving upwards',
+      'Neck and shoulders darker than the body',
+      'Loose dewlap',
+    ],
+    nutrition:
+      'Needs 20-25 kg green fodder and 5 kg dry fodder daily, with concentrate for milking cows and working bullocks.',
+  },
+  {
+    breedName: 'Motu',
+    category: 'Cattle',
+    purpose: 'Draught',
+    milkYield: 1,
+    fatPercentage: 4.5,
+    snfPercentage: 8.5,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid'],
+    diseaseResistance: 'High',
+    lifespan: 14,
+    careLevel: 'Low',
+    marketPrice: 20000,
+    pros: 'Very hardy and tolerant of disease; needs almost no inputs.',
+    cons: 'Very low milk yield and small size.',
+    description:
+      'The Motu is a small breed from the Malkangiri district of Odisha and adjoining Chhattisgarh and Andhra Pradesh. It is kept by tribal farmers for light draught work and manure.',
+    size: 'Cows about 95 cm tall and 150 kg; bulls about 105 cm and 200 kg.',
+    colors: ['Red-brown', 'White'],
+    nativeTract: ['Odisha', 'Chhattisgarh', 'Andhra Pradesh'],
+    physicalTraits: [
+      'Small body',
+      'Short horns',
+      'Red-brown or white coat',
+      'Small hump',
+    ],
+    nutrition:
+      'Survives on forest grazing with almost no supplementation.',
+  },
+  {
+    breedName: 'Nagori',
+    category: 'Cattle',
+    purpose: 'Draught',
+    milkYield: 2,
+    fatPercentage: 4.0,
+    snfPercentage: 8.5,
+    strength: 'High',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry'],
+    diseaseResistance: 'High',
+    lifespan: 16,
+    careLevel: 'Low',
+    marketPrice: 60000,
+    pros: 'Among the fastest trotting draught breeds; very hardy in desert conditions.',
+    cons: 'Low milk yield.',
+    description:
+      'The Nagori comes from the Nagaur district of Rajasthan and is famous for its speed on the road. It is a tall, light-bodied breed with a long, narrow face and a flat forehead.',
+    size: 'Cows about 125 cm tall and 300 kg; bulls about 140 cm and 400 kg.',
+    colors: ['White', 'Light grey'],
+    nativeTract: ['Rajasthan'],
+    physicalTraits: [
+      'Long, narrow face with a flat forehead',
+      'Small horns curving outwards and upwards',
+      'Tall, light-bodied frame',
+      'Small, upright ears',
+    ],
+    nutrition:
+      'Adapted to desert grazing; working bullocks need guar and moth straw and 1-2 kg concentrate.',
+  },
+  {
+    breedName: 'Nari',
+    category: 'Cattle',
+    purpose: 'Dual-Purpose',
+    milkYield: 5,
+    fatPercentage: 4.5,
+    snfPercentage: 8.7,
+    strength: 'High',
+    feedRequirement: 'Medium',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 50000,
+    pros: 'Good milk and strong bullocks; well adapted to the Aravalli hills.',
+    cons: 'Not specialised for either purpose.',
+    description:
+      'The Nari is found in the Sirohi and Pali districts of Rajasthan and the adjoining Banaskantha area of Gujarat. It is a medium-to-large breed with horns that curve upwards and are set wide apart.',
+    size: 'Cows about 125 cm tall and 330 kg; bulls about 140 cm and 450 kg.',
+    colors: ['White', 'Grey'],
+    nativeTract: ['Rajasthan', 'Gujarat'],
+    physicalTraits: [
+      'Horns set wide apart and curving upwards',
+      'White or grey coat',
+      'Medium-to-large frame',
+      'Long, drooping ears',
+    ],
+    nutrition:
+      'Grazes in the hills and is stall-fed in lean months; 20 kg green fodder and concentrate according to yield.',
+  },
+  {
+    breedName: 'Nimari',
+    category: 'Cattle',
+    purpose: 'Draught',
+    milkYield: 2,
+    fatPercentage: 4.6,
+    snfPercentage: 8.6,
+    strength: 'High',
+    feedRequirement: 'Medium',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry'],
+    diseaseResistance: 'Medium',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 40000,
+    pros: 'Active, strong draught animals that work well in hot river valleys.',
+    cons: 'Fiery temperament and low milk yield.',
+    description:
+      'The Nimari comes from the Narmada valley in the Khargone and Barwani districts of Madhya Pradesh and adjoining Maharashtra. It has a protruding forehead and a red coat splashed with white.',
+    size: 'Cows about 120 cm tall and 300 kg; bulls about 135 cm and 400 kg.',
+    colors: ['Red with white patches'],
+    nativeTract: ['Madhya Pradesh', 'Maharashtra'],
+    physicalTraits: [
+      'Red coat with large white patches',
+      'Protruding forehead',
+      'Horns curving upwards and backwards',
+      'Long, wide ears',
+    ],
+    nutrition:
+      'Needs extra dry fodder and 1-2 kg concentrate for working bullocks.',
+  },
+  {
+    breedName: 'Ongole',
+    category: 'Cattle',
+    purpose: 'Dual-Purpose',
+    milkYield: 4,
+    fatPercentage: 4.5,
+    snfPercentage: 8.7,
+    strength: 'High',
+    feedRequirement: 'High',
+    maintenanceCost: 'Medium',
+    climateSuitability: ['Hot and Humid', 'Hot and Dry'],
+    diseaseResistance: 'High',
+    lifespan: 16,
+    careLevel: 'Medium',
+    marketPrice: 90000,
+    pros: 'Very large, powerful animal with good heat and tick tolerance; exported worldwide as the Brahman base.',
+    cons: 'Needs plenty of feed; moderate milk yield.',
+    description:
+      'The Ongole is a large breed from the Prakasam, Guntur and Nellore districts of Andhra Pradesh and forms the genetic base of the American Brahman. It has a massive body, a well-developed hump and short, stumpy horns.',
+    size: 'Cows about 135 cm tall and 430 kg; bulls about 155 cm and 600 kg.',
+    colors: ['White', 'Light grey', 'White with dark grey on the head and hump in bulls'],
+    nativeTract: ['Andhra Pradesh'],
+    physicalTraits: [
+      'Massive body with a large hump',
+      'Short, stumpy horns',
+      'Black skin around the eyes',
+      'Large, loose dewlap',
+    ],
+    nutrition:
+      'Needs 30 kg green fodder, 6-7 kg dry fodder and 2-3 kg concentrate daily, more for lactating cows and working bulls.',
+  },
+  {
+    breedName: 'Poda Thurpu',
+    category: 'Cattle',
+    purpose: 'Draught',
+    milkYield: 1,
+    fatPercentage: 4.5,
+    snfPercentage: 8.5,
+    strength: 'High',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 40000,
+    pros: 'Strong, agile bullocks that can swim across rivers; survive on forest grazing.',
+    cons: 'Aggressive temperament and very low milk yield.',
+    description:
+      'The Poda Thurpu is found in the Nagarkurnool and Nalgonda districts of Telangana, along the Krishna river. The name refers to its spotted coat, and herds are known for swimming across the river between pastures.',
+    size: 'Cows about 115 cm tall and 250 kg; bulls about 125 cm and 350 kg.',
+    colors: ['Reddish brown with white spots', 'Brown with white patches'],
+    nativeTract: ['Telangana'],
+    physicalTraits: [
+      'Spotted reddish-brown coat',
+      'Sharp horns curving upwards',
+      'Compact, agile body',
+      'Alert, aggressive temperament',
+    ],
+    nutrition:
+      'Raised on forest grazing; bullocks need extra dry fodder during the working season.',
+  },
+  {
+    breedName: 'Ponwar',
+    category: 'Cattle',
+    purpose: 'Draught',
+    milkYield: 1.5,
+    fatPercentage: 4.0,
+    snfPercentage: 8.5,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid', 'Moderate'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 30000,
+    pros: 'Active, hardy bullocks suited to the terai.',
+    cons: 'Fiery temperament and low milk yield.',
+    description:
+      'The Ponwar comes from the Pilibhit district of Uttar Pradesh in the terai. It is a small, active breed with a narrow face and long horns.',
+    size: 'Cows about 110 cm tall and 220 kg; bulls about 120 cm and 300 kg.',
+    colors: ['Black and white', 'Black with white patches'],
+    nativeTract: ['Uttar Pradesh'],
+    physicalTraits: [
+      'Black-and-white patched coat',
+      'Long horns curving upwards and inwards',
+      'Narrow face',
+      'Small, active body',
+    ],
+    nutrition:
+      'Raised on terai grazing; bullocks need extra dry fodder when working.',
+  },
+  {
+    breedName: 'Pulikulam',
+    category: 'Cattle',
+    purpose: 'Draught',
+    milkYield: 0.5,
+    fatPercentage: 4.0,
+    snfPercentage: 8.4,
+    strength: 'High',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 35000,
+    pros: 'Very hardy migratory cattle; bulls are prized for Jallikattu and penning manure on fields.',
+    cons: 'Almost no milk yield.',
+    description:
+      'The Pulikulam is kept in migratory herds in the Madurai, Sivaganga and Virudhunagar districts of Tamil Nadu. Herds are penned on fields for their manure, and the bulls are used in Jallikattu.',
+    size: 'Cows about 110 cm tall and 200 kg; bulls about 120 cm and 300 kg.',
+    colors: ['Grey', 'White', 'Dark grey in bulls'],
+    nativeTract: ['Tamil Nadu'],
+    physicalTraits: [
+      'Compact body',
+      'Horns curving backwards and outwards',
+      'Bulls dark grey on the hump',
+      'Small dewlap',
+    ],
+    nutrition:
+      'Lives on migratory grazing and crop stubble with little supplementation.',
+  },
+  {
+    breedName: 'Punganur',
+    category: 'Cattle',
+    purpose: 'Milk',
+    milkYield: 3,
+    fatPercentage: 5.0,
+    snfPercentage: 9.0,
+    strength: 'Low',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry', 'Hot and Humid'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 150000,
+    pros: 'Dwarf cow with very rich milk on minimal feed; sought after as a heritage breed.',
+    cons: 'Very high purchase price and low yield; a rare breed.',
+    description:
+      'The Punganur is one of the smallest cattle breeds in the world, from the Chittoor district of Andhra Pradesh. It has a small body under a metre tall, crescent-shaped horns and gives milk with unusually high fat.',
+    size: 'Cows about 80 cm tall and 120 kg; bulls about 90 cm and 150 kg.',
+    colors: ['White', 'Grey', 'Light brown'],
+    nativeTract: ['Andhra Pradesh'],
+    physicalTraits: [
+      'Dwarf body, under a metre tall',
+      'Crescent-shaped horns',
+      'Broad forehead',
+      'White or grey coat',
+    ],
+    nutrition:
+      'Needs only 5 kg of dry fodder and a little green fodder daily, with mineral mixture.',
+  },
+  {
+    breedName: 'Purnea',
+    category: 'Cattle',
+    purpose: 'Dual-Purpose',
+    milkYield: 2,
+    fatPercentage: 4.6,
+    snfPercentage: 8.6,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid'],
+    diseaseResistance: 'High',
+    lifespan: 14,
+    careLevel: 'Low',
+    marketPrice: 25000,
+    pros: 'Hardy, low-input cattle for small farms.',
+    cons: 'Low milk yield.',
+    description:
+      'The Purnea is found in the Purnea, Kishanganj and Katihar districts of north-eastern Bihar. It is a small breed kept for milk and light draught work.',
+    size: 'Cows about 100 cm tall and 170 kg; bulls about 110 cm and 230 kg.',
+    colors: ['Red', 'Brown', 'Black', 'Grey'],
+    nativeTract: ['Bihar'],
+    physicalTraits: [
+      'Small body',
+      'Short horns',
+      'Small hump',
+      'Varied red, brown, black or grey coat',
+    ],
+    nutrition:
+      'Kept on paddy straw and grazing with little supplementation.',
+  },
+  {
+    breedName: 'Rathi',
+    category: 'Cattle',
+    purpose: 'Milk',
+    milkYield: 7,
+    fatPercentage: 4.4,
+    snfPercentage: 8.8,
+    strength: 'Low',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry'],
+    diseaseResistance: 'High',
+    lifespan: 14,
+    careLevel: 'Low',
+    marketPrice: 55000,
+    pros: 'Good milk yield on desert feed; docile and easy to manage.',
+    cons: 'Yield drops without adequate water.',
+    description:
+      'The Rathi is a dairy breed from the Bikaner, Sri Ganganagar and Hanumangarh districts of Rajasthan. It is a medium-sized animal with a brown coat patched with white and short horns.',
+    size: 'Cows about 115 cm tall and 300 kg; bulls about 125 cm and 375 kg.',
+    colors: ['Brown with white patches', 'Red with white patches', 'Black with white patches'],
+    nativeTract: ['Rajasthan'],
+    physicalTraits: [
+      'Brown coat with white patches',
+      'Short horns curving outwards and upwards',
+      'Medium, symmetrical body',
+      'Well-developed udder',
+    ],
+    nutrition:
+      'Adapted to desert grazing and dry fodder; lactating cows need 1 kg concentrate per 2.5 litres of milk.',
+  },
+  {
+    breedName: 'Red Kandhari',
+    category: 'Cattle',
+    purpose: 'Draught',
+    milkYield: 2,
+    fatPercentage: 4.6,
+    snfPercentage: 8.6,
+    strength: 'High',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 40000,
+    pros: 'Sturdy, hardworking bullocks on dry-land farms.',
+    cons: 'Low milk yield.',
+    description:
+      'The Red Kandhari comes from the Kandhar area of Nanded district and the Latur and Parbhani districts of Maharashtra. It has a uniform deep red coat and horns that curve outwards and upwards.',
+    size: 'Cows about 120 cm tall and 300 kg; bulls about 130 cm and 400 kg.',
+    colors: ['Deep red', 'Dark red'],
+    nativeTract: ['Maharashtra'],
+    physicalTraits: [
+      'Uniform deep red coat',
+      'Horns curving outwards and upwards',
+      'Long, drooping ears',
+      'Compact body',
+    ],
+    nutrition:
+      'Raised on jowar stalks and grazing; bullocks need 1-2 kg concentrate while working.',
+  },
+  {
+    breedName: 'Sanchori',
+    category: 'Cattle',
+    purpose: 'Dual-Purpose',
+    milkYield: 6,
+    fatPercentage: 4.5,
+    snfPercentage: 8.7,
+    strength: 'Medium',
+    feedRequirement: 'Medium',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 55000,
+    pros: 'Good milk yield and strong bullocks; well suited to arid farming.',
+    cons: 'Yield needs adequate water and green fodder.',
+    description:
+      'The Sanchori comes from the Sanchore area of Jalore district in western Rajasthan. It is a medium-to-large breed with lyre-shaped horns and long, drooping ears, related to the Kankrej.',
+    size: 'Cows about 125 cm tall and 350 kg; bulls about 140 cm and 475 kg.',
+    colors: ['White', 'Grey'],
+    nativeTract: ['Rajasthan'],
+    physicalTraits: [
+      'Lyre-shaped horns',
+      'Long, drooping ears',
+      'White or grey coat',
+      'Medium-to-large frame',
+    ],
+    nutrition:
+      'Needs 20-25 kg green fodder and 5 kg dry fodder daily, with concentrate for lactating cows.',
+  },
+  {
+    breedName: 'Shweta Kapila',
+    category: 'Cattle',
+    purpose: 'Milk',
+    milkYield: 3,
+    fatPercentage: 4.6,
+    snfPercentage: 8.8,
+    strength: 'Low',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 40000,
+    pros: 'Docile cow adapted to the humid coast; milk has good fat.',
+    cons: 'Low yield and small size.',
+    description:
+      'The Shweta Kapila is the native cattle of Goa. It is a small breed with a white coat and is notable for its white muzzle, eyelids, hooves and tail switch.',
+    size: 'Cows about 100 cm tall and 180 kg; bulls about 110 cm and 250 kg.',
+    colors: ['White'],
+    nativeTract: ['Goa'],
+    physicalTraits: [
+      'All-white coat',
+      'White muzzle, eyelids and hooves',
+      'Small body',
+      'Short horns curving upwards',
+    ],
+    nutrition:
+      'Grazes on coastal pastures; paddy straw and 1 kg concentrate support lactation.',
+  },
+  {
+    breedName: 'Siri',
+    category: 'Cattle',
+    purpose: 'Draught',
+    milkYield: 3,
+    fatPercentage: 4.5,
+    snfPercentage: 8.7,
+    strength: 'High',
+    feedRequirement: 'Medium',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Cold', 'Moderate'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 40000,
+    pros: 'Powerful hill bullocks that work on steep terraces in cold weather.',
+    cons: 'Unsuited to hot plains.',
+    description:
+      'The Siri is found in Sikkim and the Darjeeling hills of West Bengal. It is a compact, strong breed with a thick hair coat and a well-developed hump, adapted to the eastern Himalaya.',
+    size: 'Cows about 115 cm tall and 280 kg; bulls about 125 cm and 400 kg.',
+    colors: ['Black', 'Black and white', 'Brown and white'],
+    nativeTract: ['Sikkim', 'West Bengal'],
+    physicalTraits: [
+      'Thick hair coat',
+      'Well-developed hump',
+      'Horns curving outwards and upwards',
+      'Compact, strong body',
+    ],
+    nutrition:
+      'Stall-fed on maize stover and tree fodder in winter; grazes on hill pastures in summer.',
+  },
+  {
+    breedName: 'Thutho',
+    category: 'Cattle',
+    purpose: 'Dual-Purpose',
+    milkYield: 1.5,
+    fatPercentage: 4.5,
+    snfPercentage: 8.6,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid', 'Moderate'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 40000,
+    pros: 'Hardy hill cattle reared free-range for milk, meat and draught.',
+    cons: 'Low milk yield.',
+    description:
+      'The Thutho is the native cattle of Nagaland, reared free-range in the hills. It is a medium-sized breed with a small hump.',
+    size: 'Cows about 105 cm tall and 200 kg; bulls about 115 cm and 280 kg.',
+    colors: ['Black', 'Brown'],
+    nativeTract: ['Nagaland'],
+    physicalTraits: [
+      'Medium-sized body',
+      'Small hump',
+      'Short horns',
+      'Black or brown coat',
+    ],
+    nutrition:
+      'Lives on free-range hill grazing with little supplementation.',
+  },
+  {
+    breedName: 'Umblachery',
+    category: 'Cattle',
+    purpose: 'Draught',
+    milkYield: 1.5,
+    fatPercentage: 4.8,
+    snfPercentage: 8.6,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 30000,
+    pros: 'Excellent for work in marshy, waterlogged paddy fields of the Cauvery delta.',
+    cons: 'Low milk yield.',
+    description:
+      'The Umblachery comes from the Thanjavur, Thiruvarur and Nagapattinam districts of Tamil Nadu. It is a small, compact breed whose calves are born red with white markings and turn grey as they grow.',
+    size: 'Cows about 105 cm tall and 220 kg; bulls about 115 cm and 300 kg.',
+    colors: ['Grey', 'Calves red with white markings'],
+    nativeTract: ['Tamil Nadu'],
+    physicalTraits: [
+      'Small, compact body',
+      'Short horns',
+      'White markings on the face and legs',
+      'Calves born red, turning grey',
+    ],
+    nutrition:
+      'Raised on paddy straw and delta grazing; bullocks need 1 kg concentrate while working.',
+  },
+  {
+    breedName: 'Vechur',
+    category: 'Cattle',
+    purpose: 'Milk',
+    milkYield: 3,
+    fatPercentage: 4.9,
+    snfPercentage: 9.0,
+    strength: 'Low',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid'],
+    diseaseResistance: 'High',
+    lifespan: 15,
+    careLevel: 'Low',
+    marketPrice: 45000,
+    pros: 'Very low feed needs, high disease resistance and milk valued for its quality.',
+    cons: 'Low daily yield and a small body.',
+    description:
+      'The Vechur is a dwarf breed from the Kottayam district of Kerala and one of the smallest cattle breeds in the world. It gives a small quantity of milk with high fat and is well suited to backyard keeping.',
+    size: 'Cows about 90 cm tall and 130 kg; bulls about 100 cm and 170 kg.',
+    colors: ['Light red', 'Black', 'White'],
+    nativeTract: ['Kerala'],
+    physicalTraits: [
+      'Dwarf body, under a metre tall',
+      'Small horns curving forwards',
+      'Light red, black or white coat',
+      'Small hump',
+    ],
+    nutrition:
+      'Needs only 2-3 kg dry fodder and a little green fodder daily.',
+  },
+  {
+    breedName: 'HF Cross',
+    category: 'Cattle',
+    purpose: 'Milk',
+    milkYield: 14,
+    fatPercentage: 3.6,
+    snfPercentage: 8.4,
+    strength: 'Low',
+    feedRequirement: 'High',
+    maintenanceCost: 'High',
+    climateSuitability: ['Moderate', 'Cold'],
+    diseaseResistance: 'Low',
+    lifespan: 12,
+    careLevel: 'High',
+    marketPrice: 75000,
+    pros: 'Highest milk yield of any cattle in India; well supported by AI services.',
+    cons: 'Heat-sensitive, prone to mastitis and tick-borne disease, and needs high-quality feed.',
+    description:
+      'Holstein Friesian crossbreds are produced by crossing indigenous cows with Holstein Friesian semen and make up a large share of India\'s dairy cattle. They are not a registered breed; performance depends on exotic inheritance and management.',
+    size: 'Cows about 130 cm tall and 400 kg; bulls about 145 cm and 600 kg.',
+    colors: ['Black and white', 'Red and white'],
+    nativeTract: ['Punjab', 'Haryana', 'Kerala', 'Tamil Nadu', 'Maharashtra'],
+    physicalTraits: [
+      'Black-and-white patched coat',
+      'Little or no hump',
+      'Large, wedge-shaped body',
+      'Large udder',
+    ],
+    nutrition:
+      'Needs 30-40 kg green fodder, 5-6 kg dry fodder and 1 kg concentrate per 2.5 litres of milk, with cooling and shade in summer.',
+  },
+  {
+    breedName: 'Jersey Cross',
+    category: 'Cattle',
+    purpose: 'Milk',
+    milkYield: 10,
+    fatPercentage: 4.5,
+    snfPercentage: 8.8,
+    strength: 'Low',
+    feedRequirement: 'Medium',
+    maintenanceCost: 'Medium',
+    climateSuitability: ['Moderate', 'Hot and Humid', 'Cold'],
+    diseaseResistance: 'Medium',
+    lifespan: 13,
+    careLevel: 'Medium',
+    marketPrice: 60000,
+    pros: 'High yield with good fat; smaller and more heat-tolerant than HF crosses.',
+    cons: 'Less hardy than indigenous breeds; needs regular veterinary care.',
+    description:
+      'Jersey crossbreds are produced by crossing indigenous cows with Jersey semen and are widely kept in the humid south and east. They are not a registered breed; they are smaller than HF crosses and cope better with heat.',
+    size: 'Cows about 120 cm tall and 300 kg; bulls about 130 cm and 450 kg.',
+    colors: ['Fawn', 'Light brown', 'Brown with white patches'],
+    nativeTract: ['Kerala', 'Tamil Nadu', 'Karnataka', 'West Bengal', 'Odisha'],
+    physicalTraits: [
+      'Fawn or light brown coat',
+      'Dished face with dark muzzle',
+      'Small or no hump',
+      'Well-attached udder',
+    ],
+    nutrition:
+      'Needs 25-30 kg green fodder, 4-5 kg dry fodder and 1 kg concentrate per 2.5 litres of milk.',
+  },
+  {
+    breedName: 'Murrah',
+    category: 'Buffalo',
+    purpose: 'Milk',
+    milkYield: 14,
+    fatPercentage: 7.0,
+    snfPercentage: 9.3,
+    strength: 'Low',
+    feedRequirement: 'High',
+    maintenanceCost: 'High',
+    climateSuitability: ['Moderate', 'Hot and Humid'],
+    diseaseResistance: 'Medium',
+    lifespan: 12,
+    careLevel: 'High',
+    marketPrice: 120000,
+    pros: 'One of the highest milk-yielding buffalo breeds globally. Milk has very high fat content.',
+    cons: 'Requires significant feed and care, high initial investment, sensitive to extreme heat without water access.',
+    description:
+      'The Murrah is the premier dairy buffalo breed from the Rohtak, Hisar and Jind districts of Haryana. It has a massive body, a short neck and short, tightly curled horns, with a well-developed udder.',
+    size: 'Cows about 135 cm tall and 500 kg; bulls about 145 cm and 600 kg.',
+    colors: ['Jet black', 'Black with white markings on the tail switch'],
+    nativeTract: ['Haryana', 'Punjab', 'Uttar Pradesh', 'Delhi'],
+    physicalTraits: [
+      'Short, tightly curled horns',
+      'Massive, wedge-shaped body',
+      'Short neck and fine head',
+      'White markings on the tail switch',
+    ],
+    nutrition:
+      'Needs 30-40 kg green fodder, 6-8 kg dry fodder and 1 kg concentrate per 2 litres of milk daily, with plenty of water and wallowing or shade in summer.',
+  },
+  {
+    breedName: 'Nili-Ravi',
+    category: 'Buffalo',
+    purpose: 'Milk',
+    milkYield: 12,
+    fatPercentage: 6.5,
+    snfPercentage: 9.2,
+    strength: 'Low',
+    feedRequirement: 'High',
+    maintenanceCost: 'Medium',
+    climateSuitability: ['Moderate', 'Cold'],
+    diseaseResistance: 'Medium',
+    lifespan: 13,
+    careLevel: 'Medium',
+    marketPrice: 100000,
+    pros: 'High milk yield, distinctive white markings. Adaptable to colder climates better than other buffalo.',
+    cons: 'Slightly lower milk yield and fat % than Murrah. Requires good quality fodder.',
+    description:
+      'The Nili-Ravi comes from the Sutlej and Ravi river valleys of Punjab. It is recognised by its white \'panch kalyani\' markings on the forehead, face, muzzle, legs and tail switch, and often has wall eyes.',
+    size: 'Cows about 130 cm tall and 475 kg; bulls about 140 cm and 600 kg.',
+    colors: ['Black with white markings', 'Brown with white markings'],
+    nativeTract: ['Punjab'],
+    physicalTraits: [
+      'White \'panch kalyani\' markings on face, legs and tail',
+      'Wall (blue) eyes are common',
+      'Small, tightly coiled horns',
+      'Bulging forehead',
+    ],
+    nutrition:
+      'Similar to Murrah: 30-35 kg green fodder, 6-7 kg dry fodder and concentrate in proportion to yield, with adequate water and shade.',
+  },
+  {
+    breedName: 'Banni',
+    category: 'Buffalo',
+    purpose: 'Milk',
+    milkYield: 10,
+    fatPercentage: 6.8,
+    snfPercentage: 9.2,
+    strength: 'Medium',
+    feedRequirement: 'Medium',
+    maintenanceCost: 'Medium',
+    climateSuitability: ['Hot and Dry'],
+    diseaseResistance: 'High',
+    lifespan: 14,
+    careLevel: 'Medium',
+    marketPrice: 100000,
+    pros: 'High yield on desert grazing; grazes at night to avoid heat. Very drought tolerant.',
+    cons: 'High purchase price; herds are used to extensive grazing rather than stall feeding.',
+    description:
+      'The Banni comes from the Banni grasslands of Kutch in Gujarat, where Maldhari herders graze it at night. It is known for its inverted, double-coiled horns and its ability to sustain high yields under harsh, saline, arid conditions.',
+    size: 'Cows about 135 cm tall and 475 kg; bulls about 145 cm and 575 kg.',
+    colors: ['Black', 'Copper'],
+    nativeTract: ['Gujarat'],
+    physicalTraits: [
+      'Inverted double-coiled horns',
+      'Massive, wedge-shaped body',
+      'Black coat',
+      'Well-developed udder',
+    ],
+    nutrition:
+      'Grazes on grassland at night; stall-fed animals need 30 kg green fodder and 1 kg concentrate per 2 litres of milk.',
+  },
+  {
+    breedName: 'Bargur Buffalo',
+    category: 'Buffalo',
+    purpose: 'Dual-Purpose',
+    milkYield: 1.5,
+    fatPercentage: 8.0,
+    snfPercentage: 9.3,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry', 'Moderate'],
+    diseaseResistance: 'High',
+    lifespan: 14,
+    careLevel: 'Low',
+    marketPrice: 30000,
+    pros: 'Hardy hill buffalo that survives on forest grazing; rich milk.',
+    cons: 'Very low yield.',
+    description:
+      'The Bargur buffalo is reared alongside Bargur cattle in the Bargur hills of Erode district, Tamil Nadu. It is a small, compact buffalo kept on forest grazing for milk and manure.',
+    size: 'Cows about 115 cm tall and 250 kg; bulls about 125 cm and 330 kg.',
+    colors: ['Brown', 'Grey'],
+    nativeTract: ['Tamil Nadu'],
+    physicalTraits: [
+      'Small, compact body',
+      'Horns curving backwards and upwards',
+      'Brown or grey coat',
+      'Small udder',
+    ],
+    nutrition:
+      'Lives on forest grazing with little supplementation.',
+  },
+  {
+    breedName: 'Bhadawari',
+    category: 'Buffalo',
+    purpose: 'Milk',
+    milkYield: 5,
+    fatPercentage: 8.0,
+    snfPercentage: 9.5,
+    strength: 'Low',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry', 'Moderate'],
+    diseaseResistance: 'High',
+    lifespan: 14,
+    careLevel: 'Low',
+    marketPrice: 60000,
+    pros: 'Highest milk fat of any Indian buffalo; hardy and efficient on crop residues.',
+    cons: 'Moderate yield.',
+    description:
+      'The Bhadawari comes from the ravines of the Chambal and Yamuna in the Agra and Etawah districts of Uttar Pradesh and the Bhind and Morena districts of Madhya Pradesh. It has a copper-coloured body, wheat-straw coloured legs and two white chevrons on the neck.',
+    size: 'Cows about 125 cm tall and 375 kg; bulls about 130 cm and 450 kg.',
+    colors: ['Copper', 'Light copper'],
+    nativeTract: ['Uttar Pradesh', 'Madhya Pradesh'],
+    physicalTraits: [
+      'Copper-coloured body with straw-coloured lower legs',
+      'Two white chevrons on the lower neck',
+      'Flat horns curving backwards, then upwards',
+      'Wedge-shaped body',
+    ],
+    nutrition:
+      'Efficient on crop residues; 20-25 kg green fodder, 5 kg dry fodder and 1 kg concentrate per 2 litres of milk.',
+  },
+  {
+    breedName: 'Chhattisgarhi',
+    category: 'Buffalo',
+    purpose: 'Dual-Purpose',
+    milkYield: 2,
+    fatPercentage: 7.5,
+    snfPercentage: 9.3,
+    strength: 'High',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid', 'Hot and Dry'],
+    diseaseResistance: 'High',
+    lifespan: 14,
+    careLevel: 'Low',
+    marketPrice: 35000,
+    pros: 'Strong enough for puddling paddy fields; survives on little feed.',
+    cons: 'Low milk yield.',
+    description:
+      'The Chhattisgarhi buffalo is found across Chhattisgarh, where it is used for puddling paddy fields and carting. It is a medium-sized buffalo with long, flat horns that sweep backwards.',
+    size: 'Cows about 120 cm tall and 320 kg; bulls about 130 cm and 400 kg.',
+    colors: ['Black', 'Brownish grey'],
+    nativeTract: ['Chhattisgarh'],
+    physicalTraits: [
+      'Long, flat horns sweeping backwards',
+      'Medium-sized body',
+      'Black or brownish-grey coat',
+      'White markings on the lower legs',
+    ],
+    nutrition:
+      'Kept on paddy straw and grazing; working animals need 1-2 kg concentrate.',
+  },
+  {
+    breedName: 'Chilika',
+    category: 'Buffalo',
+    purpose: 'Dual-Purpose',
+    milkYield: 1.5,
+    fatPercentage: 8.0,
+    snfPercentage: 9.4,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid'],
+    diseaseResistance: 'High',
+    lifespan: 13,
+    careLevel: 'Low',
+    marketPrice: 30000,
+    pros: 'Grazes and swims in brackish water; well adapted to saline wetlands.',
+    cons: 'Very low yield.',
+    description:
+      'The Chilika buffalo, locally called Desi Mahisha, lives around Chilika lake in the Khurda, Puri and Ganjam districts of Odisha. Herds graze on aquatic vegetation and rest in the brackish water.',
+    size: 'Cows about 115 cm tall and 300 kg; bulls about 125 cm and 375 kg.',
+    colors: ['Brown', 'Black'],
+    nativeTract: ['Odisha'],
+    physicalTraits: [
+      'Medium-sized body',
+      'Horns curving backwards and upwards',
+      'Brown or black coat',
+      'Adapted to swimming in brackish water',
+    ],
+    nutrition:
+      'Grazes on aquatic vegetation and lake-side pastures; little supplementation is given.',
+  },
+  {
+    breedName: 'Dharwadi',
+    category: 'Buffalo',
+    purpose: 'Milk',
+    milkYield: 3.5,
+    fatPercentage: 7.0,
+    snfPercentage: 9.2,
+    strength: 'Low',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry', 'Moderate'],
+    diseaseResistance: 'High',
+    lifespan: 14,
+    careLevel: 'Low',
+    marketPrice: 45000,
+    pros: 'Hardy buffalo with rich milk suited to dry-land farms.',
+    cons: 'Moderate yield.',
+    description:
+      'The Dharwadi is found in the Dharwad, Belagavi and Haveri districts of northern Karnataka. Its milk is traditionally used to make Dharwad pedha.',
+    size: 'Cows about 120 cm tall and 325 kg; bulls about 130 cm and 400 kg.',
+    colors: ['Black'],
+    nativeTract: ['Karnataka'],
+    physicalTraits: [
+      'Sickle-shaped horns',
+      'Black coat',
+      'Medium-sized body',
+      'Small, compact udder',
+    ],
+    nutrition:
+      'Maintained on jowar stalks and grazing with 1 kg concentrate per 2 litres of milk.',
+  },
+  {
+    breedName: 'Gojri',
+    category: 'Buffalo',
+    purpose: 'Milk',
+    milkYield: 4.5,
+    fatPercentage: 7.4,
+    snfPercentage: 9.3,
+    strength: 'Low',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Moderate', 'Cold'],
+    diseaseResistance: 'High',
+    lifespan: 14,
+    careLevel: 'Low',
+    marketPrice: 50000,
+    pros: 'Hardy migratory buffalo suited to hill pastures.',
+    cons: 'Moderate yield under migratory management.',
+    description:
+      'The Gojri is kept by migratory Gujjar herders in Punjab and Himachal Pradesh, moving between the plains and hill pastures. It is a medium-sized buffalo with short horns.',
+    size: 'Cows about 120 cm tall and 350 kg; bulls about 130 cm and 425 kg.',
+    colors: ['Brown', 'Black-brown'],
+    nativeTract: ['Punjab', 'Himachal Pradesh'],
+    physicalTraits: [
+      'Short horns curving backwards',
+      'Brown coat',
+      'Medium-sized body',
+      'Compact udder',
+    ],
+    nutrition:
+      'Grazes on hill pastures in summer; stall-fed with green fodder and concentrate in winter.',
+  },
+  {
+    breedName: 'Jaffarabadi',
+    category: 'Buffalo',
+    purpose: 'Milk',
+    milkYield: 10,
+    fatPercentage: 7.5,
+    snfPercentage: 9.4,
+    strength: 'Medium',
+    feedRequirement: 'High',
+    maintenanceCost: 'High',
+    climateSuitability: ['Hot and Dry', 'Hot and Humid'],
+    diseaseResistance: 'Medium',
+    lifespan: 13,
+    careLevel: 'High',
+    marketPrice: 110000,
+    pros: 'Very heavy buffalo with high yield and rich milk.',
+    cons: 'Needs a lot of feed; heavy drooping horns make handling difficult.',
+    description:
+      'The Jaffarabadi comes from the Gir forest and the Junagadh, Amreli and Bhavnagar districts of Saurashtra in Gujarat. It is one of the heaviest buffalo breeds, with massive horns that droop and curl around the eyes.',
+    size: 'Cows about 140 cm tall and 450 kg; bulls about 150 cm and 600 kg.',
+    colors: ['Black'],
+    nativeTract: ['Gujarat'],
+    physicalTraits: [
+      'Heavy horns drooping and curling around the eyes',
+      'Very prominent forehead',
+      'Massive body',
+      'Black coat',
+    ],
+    nutrition:
+      'Needs 35-40 kg green fodder, 8 kg dry fodder and 1 kg concentrate per 2 litres of milk.',
+  },
+  {
+    breedName: 'Kalahandi',
+    category: 'Buffalo',
+    purpose: 'Dual-Purpose',
+    milkYield: 2.5,
+    fatPercentage: 7.5,
+    snfPercentage: 9.3,
+    strength: 'High',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry', 'Hot and Humid'],
+    diseaseResistance: 'High',
+    lifespan: 14,
+    careLevel: 'Low',
+    marketPrice: 35000,
+    pros: 'Strong buffalo for puddling paddy; hardy on poor feed.',
+    cons: 'Low milk yield.',
+    description:
+      'The Kalahandi, also called Peddakimedi, is found in the Kalahandi and Rayagada districts of Odisha and adjoining Andhra Pradesh. It has long horns that curve backwards and upwards.',
+    size: 'Cows about 120 cm tall and 325 kg; bulls about 130 cm and 400 kg.',
+    colors: ['Grey', 'Ash-grey'],
+    nativeTract: ['Odisha', 'Andhra Pradesh'],
+    physicalTraits: [
+      'Long horns curving backwards and upwards',
+      'Grey or ash-grey coat',
+      'Medium-sized body',
+      'Lighter lower legs',
+    ],
+    nutrition:
+      'Kept on paddy straw and grazing; working animals need 1-2 kg concentrate.',
+  },
+  {
+    breedName: 'Luit (Swamp)',
+    category: 'Buffalo',
+    purpose: 'Dual-Purpose',
+    milkYield: 1.5,
+    fatPercentage: 9.0,
+    snfPercentage: 9.6,
+    strength: 'High',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid'],
+    diseaseResistance: 'High',
+    lifespan: 14,
+    careLevel: 'Low',
+    marketPrice: 35000,
+    pros: 'India\'s only registered swamp buffalo; strong in wet fields and very rich milk.',
+    cons: 'Very low milk yield.',
+    description:
+      'The Luit is a swamp-type buffalo from the Brahmaputra valley of Assam and from Manipur. It has long horns spread sideways, a grey coat with white stockings and a white chevron on the neck.',
+    size: 'Cows about 120 cm tall and 350 kg; bulls about 130 cm and 450 kg.',
+    colors: ['Grey', 'Greyish black'],
+    nativeTract: ['Assam', 'Manipur'],
+    physicalTraits: [
+      'Long horns spreading sideways',
+      'White chevron on the neck',
+      'White stockings on the lower legs',
+      'Grey coat',
+    ],
+    nutrition:
+      'Grazes on wetland pastures; little supplementation is given.',
+  },
+  {
+    breedName: 'Manda',
+    category: 'Buffalo',
+    purpose: 'Dual-Purpose',
+    milkYield: 2,
+    fatPercentage: 7.5,
+    snfPercentage: 9.3,
+    strength: 'High',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Humid', 'Moderate'],
+    diseaseResistance: 'High',
+    lifespan: 14,
+    careLevel: 'Low',
+    marketPrice: 30000,
+    pros: 'Strong, hardy hill buffalo resistant to disease and parasites.',
+    cons: 'Low milk yield.',
+    description:
+      'The Manda is found in the Koraput and Malkangiri districts of Odisha on the Eastern Ghats. It is ash-grey with copper-coloured hair and whitish lower legs.',
+    size: 'Cows about 115 cm tall and 300 kg; bulls about 125 cm and 375 kg.',
+    colors: ['Ash-grey', 'Grey with copper-coloured hair'],
+    nativeTract: ['Odisha'],
+    physicalTraits: [
+      'Ash-grey coat with copper-coloured hair',
+      'Whitish lower legs',
+      'Horns curving backwards',
+      'Medium-sized body',
+    ],
+    nutrition:
+      'Kept on hill grazing and paddy straw with little supplementation.',
+  },
+  {
+    breedName: 'Marathwadi',
+    category: 'Buffalo',
+    purpose: 'Dual-Purpose',
+    milkYield: 5,
+    fatPercentage: 7.5,
+    snfPercentage: 9.3,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry'],
+    diseaseResistance: 'High',
+    lifespan: 14,
+    careLevel: 'Low',
+    marketPrice: 50000,
+    pros: 'Rich milk on dry-land feed; hardy.',
+    cons: 'Moderate yield.',
+    description:
+      'The Marathwadi is found in the Marathwada region of Maharashtra. It has long, flat horns that run backwards almost to the shoulders.',
+    size: 'Cows about 125 cm tall and 325 kg; bulls about 130 cm and 425 kg.',
+    colors: ['Black', 'Grey'],
+    nativeTract: ['Maharashtra'],
+    physicalTraits: [
+      'Long, flat horns running back to the shoulders',
+      'Medium-sized body',
+      'Black or grey coat',
+      'White markings on the face',
+    ],
+    nutrition:
+      'Maintained on jowar stalks and grazing with 1 kg concentrate per 2 litres of milk.',
+  },
+  {
+    breedName: 'Mehsana',
+    category: 'Buffalo',
+    purpose: 'Milk',
+    milkYield: 9,
+    fatPercentage: 7.0,
+    snfPercentage: 9.3,
+    strength: 'Low',
+    feedRequirement: 'Medium',
+    maintenanceCost: 'Medium',
+    climateSuitability: ['Hot and Dry'],
+    diseaseResistance: 'Medium',
+    lifespan: 14,
+    careLevel: 'Medium',
+    marketPrice: 90000,
+    pros: 'Good yield with a long lactation and regular breeding; docile.',
+    cons: 'Yield a little below Murrah.',
+    description:
+      'The Mehsana comes from the Mehsana, Banaskantha and Gandhinagar districts of Gujarat and is thought to derive from Murrah and Surti crosses. It has sickle-shaped horns that are less curled than Murrah\'s.',
+    size: 'Cows about 130 cm tall and 425 kg; bulls about 140 cm and 550 kg.',
+    colors: ['Black', 'Black-brown'],
+    nativeTract: ['Gujarat'],
+    physicalTraits: [
+      'Sickle-shaped horns, less curled than Murrah',
+      'Black or black-brown coat',
+      'Long body',
+      'Well-developed udder',
+    ],
+    nutrition:
+      'Needs 30 kg green fodder, 6 kg dry fodder and 1 kg concentrate per 2 litres of milk.',
+  },
+  {
+    breedName: 'Nagpuri',
+    category: 'Buffalo',
+    purpose: 'Dual-Purpose',
+    milkYield: 4,
+    fatPercentage: 7.7,
+    snfPercentage: 9.3,
+    strength: 'Medium',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry'],
+    diseaseResistance: 'High',
+    lifespan: 14,
+    careLevel: 'Low',
+    marketPrice: 45000,
+    pros: 'Hardy buffalo that gives rich milk and works in the field.',
+    cons: 'Moderate yield.',
+    description:
+      'The Nagpuri, also called Elichpuri or Berari, is found in the Nagpur, Wardha, Akola and Amravati districts of Vidarbha. It is known for its long, flat, sword-shaped horns that reach back to the shoulders.',
+    size: 'Cows about 125 cm tall and 350 kg; bulls about 130 cm and 450 kg.',
+    colors: ['Black', 'Black with white patches on the face and legs'],
+    nativeTract: ['Maharashtra'],
+    physicalTraits: [
+      'Long, flat, sword-shaped horns reaching the shoulders',
+      'White patches on the face, legs and tail',
+      'Black coat',
+      'Lean body',
+    ],
+    nutrition:
+      'Maintained on grazing and crop residues with concentrate for lactating animals.',
+  },
+  {
+    breedName: 'Pandharpuri',
+    category: 'Buffalo',
+    purpose: 'Milk',
+    milkYield: 6,
+    fatPercentage: 8.0,
+    snfPercentage: 9.3,
+    strength: 'Low',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry'],
+    diseaseResistance: 'High',
+    lifespan: 14,
+    careLevel: 'Low',
+    marketPrice: 60000,
+    pros: 'Rich milk with good yield on dry-land feed; regular breeder.',
+    cons: 'Very long horns can make housing awkward.',
+    description:
+      'The Pandharpuri comes from the Solapur, Kolhapur and Sangli districts of Maharashtra. It has the longest horns of any Indian buffalo, often reaching beyond the shoulders and sometimes twisted.',
+    size: 'Cows about 125 cm tall and 400 kg; bulls about 135 cm and 475 kg.',
+    colors: ['Black', 'Brown'],
+    nativeTract: ['Maharashtra'],
+    physicalTraits: [
+      'Very long horns reaching beyond the shoulders',
+      'Narrow, long face',
+      'Black coat',
+      'Medium-sized body',
+    ],
+    nutrition:
+      'Needs 25 kg green fodder, 5 kg dry fodder and 1 kg concentrate per 2 litres of milk.',
+  },
+  {
+    breedName: 'Purnathadi',
+    category: 'Buffalo',
+    purpose: 'Milk',
+    milkYield: 3.5,
+    fatPercentage: 8.5,
+    snfPercentage: 9.4,
+    strength: 'Low',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry'],
+    diseaseResistance: 'High',
+    lifespan: 14,
+    careLevel: 'Low',
+    marketPrice: 45000,
+    pros: 'Very rich milk; the light coat copes well with heat.',
+    cons: 'Low yield.',
+    description:
+      'The Purnathadi is found along the Purna river in the Akola and Amravati districts of Maharashtra. It is unusual among Indian buffalo for its light, ash-grey coat.',
+    size: 'Cows about 120 cm tall and 325 kg; bulls about 130 cm and 400 kg.',
+    colors: ['Light grey', 'Ash-grey'],
+    nativeTract: ['Maharashtra'],
+    physicalTraits: [
+      'Light, ash-grey coat',
+      'Horns curving downwards, then backwards and up',
+      'Medium-sized body',
+      'Lighter skin than most buffalo',
+    ],
+    nutrition:
+      'Maintained on grazing and crop residues with 1 kg concentrate per 2 litres of milk.',
+  },
+  {
+    breedName: 'Surti',
+    category: 'Buffalo',
+    purpose: 'Milk',
+    milkYield: 6,
+    fatPercentage: 7.5,
+    snfPercentage: 9.4,
+    strength: 'Low',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Hot and Dry', 'Moderate'],
+    diseaseResistance: 'Medium',
+    lifespan: 14,
+    careLevel: 'Low',
+    marketPrice: 60000,
+    pros: 'Efficient converter of feed with rich milk; medium size is easy to manage.',
+    cons: 'Lower yield than Murrah or Mehsana.',
+    description:
+      'The Surti comes from the Kheda, Anand and Vadodara districts of Gujarat. It is a medium-sized, wedge-shaped buffalo with sickle-shaped horns and two white chevrons on the neck.',
+    size: 'Cows about 125 cm tall and 375 kg; bulls about 130 cm and 450 kg.',
+    colors: ['Black', 'Rusty brown'],
+    nativeTract: ['Gujarat'],
+    physicalTraits: [
+      'Two white chevrons, one around the jaw and one at the brisket',
+      'Sickle-shaped horns',
+      'Wedge-shaped body',
+      'Fairly long head',
+    ],
+    nutrition:
+      'Needs 25 kg green fodder, 5 kg dry fodder and 1 kg concentrate per 2 litres of milk.',
+  },
+  {
+    breedName: 'Toda',
+    category: 'Buffalo',
+    purpose: 'Milk',
+    milkYield: 2.5,
+    fatPercentage: 8.2,
+    snfPercentage: 9.5,
+    strength: 'Low',
+    feedRequirement: 'Low',
+    maintenanceCost: 'Low',
+    climateSuitability: ['Cold', 'Moderate'],
+    diseaseResistance: 'High',
+    lifespan: 14,
+    careLevel: 'Low',
+    marketPrice: 40000,
+    pros: 'Adapted to cold, high-altitude pastures; very rich milk.',
+    cons: 'Low yield; unsuited to hot plains.',
+    description:
+      'The Toda buffalo is reared by the Toda tribe on the Nilgiri hills of Tamil Nadu and has great cultural importance to them. It has a thick hair coat and long horns that curve inwards, then outwards, in a crescent.',
+    size: 'Cows about 120 cm tall and 350 kg; bulls about 130 cm and 400 kg.',
+    colors: ['Fawn', 'Ash-grey'],
+    nativeTract: ['Tamil Nadu'],
+    physicalTraits: [
+      'Crescent-shaped horns curving inwards then outwards',
+      'Thick hair coat',
+      'Fawn or ash-grey colour',
+      'Long, deep body',
+    ],
+    nutrition:
+      'Grazes on Nilgiri grasslands year-round with little supplementation.',
+  },
+];
+
+export function findBreedByName(name: string): BreedData | undefined {
+  const needle = name.trim().toLowerCase();
+  return indianBreedData.find(breed => breed.breedName.toLowerCase() === needle);
+}
+
+/** URL-safe identifier for a breed, e.g. 'Luit (Swamp)' -> 'luit-swamp'. */
+export function breedSlug(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export function findBreedBySlug(slug: string): BreedData | undefined {
+  return indianBreedData.find(breed => breedSlug(breed.breedName) === slug);
+}
+
+/** Breed ID for crossbred animals and breeds that are not in the catalogue. */
+export const UNKNOWN_BREED_ID = 'unknown';
+
+/**
+ * The canonical breed vocabulary: the slug of every catalogue breed, plus `UNKNOWN_BREED_ID`.
+ * Classifier outputs and field labels are constrained to these IDs.
+ */
+export const BREED_IDS: [string, ...string[]] = [
+  UNKNOWN_BREED_ID,
+  ...indianBreedData.map(breed => breedSlug(breed.breedName)),
+];
+
+/** The translation key for each purpose and climate label. */
+export const purposeLabels: Record<BreedData['purpose'], keyof (typeof translations)['en']> = {
+  Milk: 'purposeMilk',
+  Draught: 'purposeDraught',
+  'Dual-Purpose': 'purposeDual',
+};
+
+export const climateLabels: Record<BreedData['climateSuitability'][number], keyof (typeof translations)['en']> = {
+  'Hot and Dry': 'climateHotDry',
+  'Hot and Humid': 'climateHotHumid',
+  Moderate: 'climateModerate',
+  Cold: 'climateCold',
+};
@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BREED_IDS, UNKNOWN_BREED_ID } from './breed-data';
+import { BREED_NAMES } from './breed-names';
+import { toBreedId } from './breed-matching';
+import { glossaryTerm, glossaryTerms } from './glossary';
+
+const catalogueIds = BREED_IDS.filter(id => id !== UNKNOWN_BREED_ID);
+
+describe('BREED_NAMES', () => {
+  it('names every catalogue breed and nothing else', () => {
+    assert.deepEqual(Object.keys(BREED_NAMES).sort(), [...catalogueIds].sort());
+  });
+});
+
+describe('toBreedId', () => {
+  it('resolves every name and spelling in every language to its own breed', () => {
+    for (const [id, { terms, variants = {}, aliases = [] }] of Object.entries(BREED_NAMES)) {
+      for (const name of [...Object.values(terms), ...Object.values(variants).flat(), ...aliases]) {
+        assert.equal(toBreedId(name), id, name);
+      }
+    }
+  });
+
+  it('ignores the words for cow, buffalo and breed around a name', () => {
+    assert.equal(toBreedId('Gir cow'), 'gir');
+    assert.equal(toBreedId('मुर्रा भैंस'), 'murrah');
+    assert.equal(toBreedId('கிர் பசு'), 'gir');
+    assert.equal(toBreedId('ಹಳ್ಳಿಕಾರ್ ತಳಿ'), 'hallikar');
+    assert.equal(toBreedId('ਮੁਰ੍ਹਾ ਮੱਝ'), 'murrah');
+  });
+
+  it('keeps a cattle breed and the buffalo of the same name apart', () => {
+    assert.equal(toBreedId('பர்கூர்'), 'bargur');
+    assert.equal(toBreedId('பர்கூர் எருமை'), 'bargur-buffalo');
+    assert.equal(toBreedId('বারগুর মহিষ'), 'bargur-buffalo');
+  });
+});
+
+describe('breed glossary', () => {
+  it('has a term for every catalogue breed in every language', () => {
+    const breedTerms = glossaryTerms('ta', ['breed']);
+
+    assert.deepEqual(breedTerms.map(term => term.id).sort(), [...catalogueIds].sort());
+    assert.ok(breedTerms.every(term => term.term));
+  });
+
+  it('gives the term in one language for a name in another', () => {
+    assert.equal(glossaryTerm('ਗਿਰ', 'ta', 'breed'), 'கிர்');
+    assert.equal(glossaryTerm('Vechur', 'kn', 'breed'), 'ವೆಚೂರ್');
+  });
+});
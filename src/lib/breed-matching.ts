@@ -0,0 +1,115 @@
+import { BreedData, breedSlug, findBreedBySlug, indianBreedData, UNKNOWN_BREED_ID } from '@/lib/breed-data';
+import { BREED_NAMES } from '@/lib/breed-names';
+
+// Words the model often adds around a breed name ("Gir cow", "मुर्रा भैंस", "கிர் பசு").
+const GENERIC_WORDS = new Set([
+  'cow', 'cows', 'cattle', 'bull', 'bullock', 'buffalo', 'buffaloes', 'breed', 'indian',
+  'गाय', 'बैल', 'भैंस', 'नस्ल', // Hindi
+  'म्हैस', 'जात', // Marathi (गाय, बैल as in Hindi)
+  'ગાય', 'બળદ', 'ભેંસ', 'ઓલાદ', 'નસલ', // Gujarati
+  'பசு', 'மாடு', 'காளை', 'எருமை', 'இனம்', // Tamil
+  'ఆవు', 'ఎద్దు', 'గేదె', 'జాతి', // Telugu
+  'ಹಸು', 'ದನ', 'ಎತ್ತು', 'ಎಮ್ಮೆ', 'ತಳಿ', // Kannada
+  'গরু', 'গাভী', 'ষাঁড়', 'মহিষ', 'জাত', // Bengali
+  'ਗਾਂ', 'ਬਲਦ', 'ਮੱਝ', 'ਨਸਲ', // Punjabi
+]);
+
+const normalize = (name: string) =>
+  name
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')
+    .trim();
+
+const withoutGenericWords = (normalized: string) =>
+  normalized
+    .split(' ')
+    .filter(word => !GENERIC_WORDS.has(word))
+    .join(' ');
+
+// Every name a breed goes by in `BREED_NAMES`: its name and spellings in each language, and its aliases.
+function namesOf(breed: BreedData): string[] {
+  const { terms, variants = {}, aliases = [] } = BREED_NAMES[breedSlug(breed.breedName)];
+  return [breed.breedName, ...Object.values(terms), ...Object.values(variants).flat(), ...aliases];
+}
+
+const NAME_INDEX: { key: string; breed: BreedData }[] = indianBreedData.flatMap(breed =>
+  namesOf(breed).map(name => ({ key: normalize(name), breed }))
+);
+
+function editDistance(a: string, b: string): number {
+  const a1 = [...a];
+  const b1 = [...b];
+  let previous = Array.from({ length: b1.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a1.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b1.length; j++) {
+      const substitution = previous[j - 1] + (a1[i - 1] === b1[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b1.length];
+}
+
+// Allow roughly one typo per four or five letters, so short names like "Gir" must match exactly.
+const maxTypos = (length: number) => (length <= 3 ? 0 : length <= 6 ? 1 : length <= 10 ? 2 : 3);
+
+/**
+ * Resolves a breed name as written by a model or a user ("Gir cow", "गिर", "Sahival")
+ * to its catalogue entry. Returns undefined when no breed is a close enough match.
+ */
+export function matchBreed(name: string): BreedData | undefined {
+  const needle = normalize(name);
+  if (!needle) return undefined;
+
+  const exact = NAME_INDEX.find(entry => entry.key === needle);
+  if (exact) return exact.breed;
+
+  const stripped = withoutGenericWords(needle);
+  if (!stripped) return undefined;
+  const strippedExact = NAME_INDEX.find(entry => entry.key === stripped);
+  if (strippedExact) return strippedExact.breed;
+
+  let best: { breed: BreedData; distance: number } | undefined;
+  for (const entry of NAME_INDEX) {
+    const distance = editDistance(stripped, entry.key);
+    if (distance > maxTypos(Math.min([...stripped].length, [...entry.key].length))) continue;
+    if (!best || distance < best.distance) best = { breed: entry.breed, distance };
+  }
+  return best?.breed;
+}
+
+/**
+ * Converts a breed ID or a free-text breed name to a canonical breed ID, falling back
+ * to `UNKNOWN_BREED_ID` when the name matches no catalogue breed.
+ */
+export function toBreedId(idOrName: string): string {
+  if (idOrName === UNKNOWN_BREED_ID || findBreedBySlug(idOrName)) return idOrName;
+  const breed = matchBreed(idOrName);
+  return breed ? breedSlug(breed.breedName) : UNKNOWN_BREED_ID;
+}
+
+/** Catalogue breeds whose name or alias contains the query, best (fuzzy) match first. */
+export function searchBreeds(query: string): BreedData[] {
+  const needle = normalize(query);
+  if (!needle) return indianBreedData;
+
+  const matches = new Set<BreedData>();
+  const closest = matchBreed(query);
+  if (closest) matches.add(closest);
+  for (const entry of NAME_INDEX) {
+    if (entry.key.includes(needle)) matches.add(entry.breed);
+  }
+  return [...matches];
+}
+
+/** The curated fields the scanner shows for a breed. */
+export function breedDetails(breed: BreedData) {
+  return {
+    description: breed.description,
+    size: breed.size,
+    colors: breed.colors,
+    nutrition: breed.nutrition,
+  };
+}
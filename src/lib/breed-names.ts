@@ -0,0 +1,297 @@
+import type { Language } from '@/lib/translations';
+
+export type BreedNames = {
+  // The breed's name in each Indian language; in English it is the catalogue `breedName`.
+  terms: Record<Exclude<Language, 'en'>, string>;
+  // Other spellings of the name in a language, which the glossary rewrites to the term.
+  variants?: Partial<Record<Language, string[]>>;
+  // Older or regional names and common English spellings, used only to recognise the breed.
+  aliases?: string[];
+};
+
+/**
+ * What each catalogue breed is called in every app language, keyed by breed ID. The glossary
+ * takes its breed terms from here and breed matching its aliases, so a name the AI is told to
+ * use is always one the app can resolve back to the breed.
+ */
+export const BREED_NAMES: Record<string, BreedNames> = {
+  gir: {
+    terms: { hi: 'गिर', mr: 'गीर', gu: 'ગીર', ta: 'கிர்', te: 'గిర్', kn: 'ಗಿರ್', bn: 'গির', pa: 'ਗਿਰ' },
+    variants: { hi: ['गीर'], mr: ['गिर'] },
+    aliases: ['Gyr', 'Desan', 'Kathiawari'],
+  },
+  sahiwal: {
+    terms: { hi: 'साहीवाल', mr: 'साहिवाल', gu: 'સાહિવાલ', ta: 'சாஹிவால்', te: 'సాహివాల్', kn: 'ಸಾಹಿವಾಲ್', bn: 'সাহিওয়াল', pa: 'ਸਾਹੀਵਾਲ' },
+    variants: { hi: ['साहिवाल'] },
+    aliases: ['Montgomery', 'Lola'],
+  },
+  'red-sindhi': {
+    terms: { hi: 'लाल सिंधी', mr: 'लाल सिंधी', gu: 'લાલ સિંધી', ta: 'சிவப்பு சிந்தி', te: 'ఎర్ర సింధీ', kn: 'ಕೆಂಪು ಸಿಂಧಿ', bn: 'লাল সিন্ধি', pa: 'ਲਾਲ ਸਿੰਧੀ' },
+    variants: { hi: ['रेड सिंधी'], mr: ['रेड सिंधी'] },
+    aliases: ['Sindhi', 'Malir'],
+  },
+  hallikar: {
+    terms: { hi: 'हल्लीकर', mr: 'हल्लीकर', gu: 'હલ્લીકર', ta: 'ஹள்ளிகர்', te: 'హళ్లికర్', kn: 'ಹಳ್ಳಿಕಾರ್', bn: 'হাল্লিকর', pa: 'ਹੱਲੀਕਰ' },
+  },
+  khillar: {
+    terms: { hi: 'खिल्लार', mr: 'खिल्लार', gu: 'ખિલ્લાર', ta: 'கில்லார்', te: 'ఖిల్లార్', kn: 'ಖಿಲಾರಿ', bn: 'খিল্লার', pa: 'ਖਿੱਲਾਰ' },
+    variants: { mr: ['खिलारी'] },
+    aliases: ['Khillari'],
+  },
+  kankrej: {
+    terms: { hi: 'कांकरेज', mr: 'कांकरेज', gu: 'કાંકરેજ', ta: 'காங்க்ரேஜ்', te: 'కాంక్రేజ్', kn: 'ಕಾಂಕ್ರೇಜ್', bn: 'কাংক্রেজ', pa: 'ਕਾਂਕਰੇਜ' },
+    variants: { hi: ['कंकरेज'] },
+    aliases: ['Wadad', 'Waged', 'Guzerat'],
+  },
+  tharparkar: {
+    terms: { hi: 'थारपारकर', mr: 'थारपारकर', gu: 'થરપારકર', ta: 'தார்பார்க்கர்', te: 'థార్పార్కర్', kn: 'ಥಾರ್ಪಾರ್ಕರ್', bn: 'থারপারকার', pa: 'ਥਾਰਪਾਰਕਰ' },
+    aliases: ['White Sindhi', 'Thari'],
+  },
+  amritmahal: {
+    terms: { hi: 'अमृतमहल', mr: 'अमृतमहाल', gu: 'અમૃતમહાલ', ta: 'அம்ரித்மஹால்', te: 'అమృత్‌మహల్', kn: 'ಅಮೃತ್‌ಮಹಲ್', bn: 'অমৃতমহল', pa: 'ਅੰਮ੍ਰਿਤਮਹਿਲ' },
+    aliases: ['Amrit Mahal'],
+  },
+  bachaur: {
+    terms: { hi: 'बचौर', mr: 'बचौर', gu: 'બચૌર', ta: 'பச்சௌர்', te: 'బచౌర్', kn: 'ಬಚೌರ್', bn: 'বাচৌর', pa: 'ਬਚੌਰ' },
+  },
+  badri: {
+    terms: { hi: 'बद्री', mr: 'बद्री', gu: 'બદ્રી', ta: 'பத்ரி', te: 'బద్రీ', kn: 'ಬದ್ರಿ', bn: 'বদ্রী', pa: 'ਬਦਰੀ' },
+  },
+  bargur: {
+    terms: { hi: 'बरगुर', mr: 'बरगूर', gu: 'બરગુર', ta: 'பர்கூர்', te: 'బర్గూర్', kn: 'ಬರಗೂರು', bn: 'বারগুর', pa: 'ਬਰਗੁਰ' },
+  },
+  belahi: {
+    terms: { hi: 'बेलाही', mr: 'बेलाही', gu: 'બેલાહી', ta: 'பெலாஹி', te: 'బెలాహి', kn: 'ಬೆಲಾಹಿ', bn: 'বেলাহি', pa: 'ਬੇਲਾਹੀ' },
+  },
+  binjharpuri: {
+    terms: { hi: 'बिंझारपुरी', mr: 'बिंझारपुरी', gu: 'બિંઝારપુરી', ta: 'பிஞ்சார்புரி', te: 'బింఝార్‌పురి', kn: 'ಬಿಂಝಾರ್‌ಪುರಿ', bn: 'বিঞ্ঝারপুরী', pa: 'ਬਿੰਝਾਰਪੁਰੀ' },
+  },
+  dagri: {
+    terms: { hi: 'डगरी', mr: 'डगरी', gu: 'ડગરી', ta: 'டக்ரி', te: 'డగ్రి', kn: 'ಡಗ್ರಿ', bn: 'ডাগরি', pa: 'ਡਗਰੀ' },
+  },
+  dangi: {
+    terms: { hi: 'डांगी', mr: 'डांगी', gu: 'ડાંગી', ta: 'டாங்கி', te: 'డాంగీ', kn: 'ಡಾಂಗಿ', bn: 'ডাঙ্গি', pa: 'ਡਾਂਗੀ' },
+  },
+  deoni: {
+    terms: { hi: 'देवनी', mr: 'देवणी', gu: 'દેવની', ta: 'தேவனி', te: 'దేవని', kn: 'ದೇವಣಿ', bn: 'দেওনি', pa: 'ਦੇਵਨੀ' },
+    variants: { hi: ['देओनी'], mr: ['देवनी'], kn: ['ದೇವನಿ'] },
+    aliases: ['Dongarpatti'],
+  },
+  gangatiri: {
+    terms: { hi: 'गंगातीरी', mr: 'गंगातीरी', gu: 'ગંગાતીરી', ta: 'கங்காதீரி', te: 'గంగాతీరి', kn: 'ಗಂಗಾತೀರಿ', bn: 'গঙ্গাতিরি', pa: 'ਗੰਗਾਤੀਰੀ' },
+  },
+  gaolao: {
+    terms: { hi: 'गावलाव', mr: 'गवळाऊ', gu: 'ગાવલાવ', ta: 'காவ்லாவ்', te: 'గావ్‌లావ్', kn: 'ಗಾವ್ಲಾವ್', bn: 'গাওলাও', pa: 'ਗਾਵਲਾਵ' },
+    variants: { hi: ['गौलाव'], mr: ['गावलाव'] },
+    aliases: ['Gaulao'],
+  },
+  ghumusari: {
+    terms: { hi: 'घुमुसरी', mr: 'घुमुसरी', gu: 'ઘુમુસરી', ta: 'குமுசரி', te: 'ఘుముసరి', kn: 'ಘುಮುಸರಿ', bn: 'ঘুমুসরি', pa: 'ਘੁਮੁਸਰੀ' },
+  },
+  hariana: {
+    terms: { hi: 'हरियाणा', mr: 'हरियाणा', gu: 'હરિયાણા', ta: 'ஹரியானா', te: 'హర్యానా', kn: 'ಹರಿಯಾಣ', bn: 'হরিয়ানা', pa: 'ਹਰਿਆਣਾ' },
+    variants: { hi: ['हरियाना'] },
+    aliases: ['Haryana', 'Haryanvi'],
+  },
+  'himachali-pahari': {
+    terms: { hi: 'हिमाचली पहाड़ी', mr: 'हिमाचली पहाडी', gu: 'હિમાચલી પહાડી', ta: 'ஹிமாச்சலி பஹாடி', te: 'హిమాచలీ పహాడీ', kn: 'ಹಿಮಾಚಲಿ ಪಹಾಡಿ', bn: 'হিমাচলী পাহাড়ি', pa: 'ਹਿਮਾਚਲੀ ਪਹਾੜੀ' },
+  },
+  kangayam: {
+    terms: { hi: 'कांगेयम', mr: 'कांगेयम', gu: 'કાંગેયમ', ta: 'காங்கேயம்', te: 'కాంగేయం', kn: 'ಕಾಂಗೇಯಂ', bn: 'কাঙ্গেয়াম', pa: 'ਕਾਂਗੇਯਮ' },
+    aliases: ['Kangeyam', 'Kongu'],
+  },
+  kathani: {
+    terms: { hi: 'कठानी', mr: 'कठाणी', gu: 'કઠાણી', ta: 'கத்தானி', te: 'కఠాణి', kn: 'ಕಠಾಣಿ', bn: 'কাঠানি', pa: 'ਕਠਾਨੀ' },
+  },
+  kenkatha: {
+    terms: { hi: 'केनकथा', mr: 'केनकथा', gu: 'કેનકથા', ta: 'கென்கதா', te: 'కెన్‌కథా', kn: 'ಕೆನ್‌ಕಥಾ', bn: 'কেনকথা', pa: 'ਕੇਨਕਥਾ' },
+    aliases: ['Kenwariya'],
+  },
+  khariar: {
+    terms: { hi: 'खरियार', mr: 'खरियार', gu: 'ખરિયાર', ta: 'கரியார்', te: 'ఖరియార్', kn: 'ಖರಿಯಾರ್', bn: 'খারিয়ার', pa: 'ਖਰਿਆਰ' },
+  },
+  kherigarh: {
+    terms: { hi: 'खेरीगढ़', mr: 'खेरीगड', gu: 'ખેરીગઢ', ta: 'கேரிகர்', te: 'ఖేరీగఢ్', kn: 'ಖೇರಿಗಢ್', bn: 'খেরিগড়', pa: 'ਖੇੜੀਗੜ੍ਹ' },
+  },
+  'konkan-kapila': {
+    terms: { hi: 'कोंकण कपिला', mr: 'कोकण कपिला', gu: 'કોંકણ કપિલા', ta: 'கொங்கண் கபிலா', te: 'కొంకణ్ కపిల', kn: 'ಕೊಂಕಣ ಕಪಿಲಾ', bn: 'কোঙ্কণ কপিলা', pa: 'ਕੋਂਕਣ ਕਪਿਲਾ' },
+    variants: { mr: ['कोंकण कपिला'] },
+  },
+  kosali: {
+    terms: { hi: 'कोसली', mr: 'कोसली', gu: 'કોસલી', ta: 'கோசலி', te: 'కోసలి', kn: 'ಕೋಸಲಿ', bn: 'কোসলি', pa: 'ਕੋਸਲੀ' },
+  },
+  'krishna-valley': {
+    terms: { hi: 'कृष्णा वैली', mr: 'कृष्णा व्हॅली', gu: 'કૃષ્ણા વેલી', ta: 'கிருஷ்ணா வேலி', te: 'కృష్ణా వ్యాలీ', kn: 'ಕೃಷ್ಣಾ ವ್ಯಾಲಿ', bn: 'কৃষ্ণা ভ্যালি', pa: 'ਕ੍ਰਿਸ਼ਨਾ ਵੈਲੀ' },
+    variants: { hi: ['कृष्णा घाटी'] },
+  },
+  ladakhi: {
+    terms: { hi: 'लद्दाखी', mr: 'लडाखी', gu: 'લદ્દાખી', ta: 'லடாக்கி', te: 'లడఖీ', kn: 'ಲಡಾಖಿ', bn: 'লাদাখি', pa: 'ਲੱਦਾਖੀ' },
+  },
+  lakhimi: {
+    terms: { hi: 'लखिमी', mr: 'लखिमी', gu: 'લખિમી', ta: 'லகிமி', te: 'లఖిమి', kn: 'ಲಖಿಮಿ', bn: 'লখিমী', pa: 'ਲਖਿਮੀ' },
+  },
+  'malnad-gidda': {
+    terms: { hi: 'मलनाड गिड्डा', mr: 'मलनाड गिड्डा', gu: 'મલનાડ ગિડ્ડા', ta: 'மல்நாடு கிட்டா', te: 'మల్నాడ్ గిడ్డ', kn: 'ಮಲೆನಾಡು ಗಿಡ್ಡ', bn: 'মালনাড গিড্ডা', pa: 'ਮਲਨਾਡ ਗਿੱਡਾ' },
+  },
+  malvi: {
+    terms: { hi: 'मालवी', mr: 'माळवी', gu: 'માળવી', ta: 'மால்வி', te: 'మాల్వీ', kn: 'ಮಾಲ್ವಿ', bn: 'মালভি', pa: 'ਮਾਲਵੀ' },
+    aliases: ['Manthani', 'Mahadeopuri'],
+  },
+  masilum: {
+    terms: { hi: 'मासिलुम', mr: 'मासिलुम', gu: 'માસિલુમ', ta: 'மாசிலும்', te: 'మాసిలుమ్', kn: 'ಮಾಸಿಲುಮ್', bn: 'মাসিলুম', pa: 'ਮਾਸਿਲੁਮ' },
+  },
+  mewati: {
+    terms: { hi: 'मेवाती', mr: 'मेवाती', gu: 'મેવાતી', ta: 'மேவாத்தி', te: 'మేవాతీ', kn: 'ಮೇವಾತಿ', bn: 'মেওয়াতি', pa: 'ਮੇਵਾਤੀ' },
+    aliases: ['Kosi', 'कोसी'],
+  },
+  motu: {
+    terms: { hi: 'मोटू', mr: 'मोटू', gu: 'મોટુ', ta: 'மோட்டு', te: 'మోటు', kn: 'ಮೋಟು', bn: 'মোটু', pa: 'ਮੋਟੂ' },
+  },
+  nagori: {
+    terms: { hi: 'नागौरी', mr: 'नागोरी', gu: 'નાગોરી', ta: 'நாகோரி', te: 'నాగోరీ', kn: 'ನಾಗೋರಿ', bn: 'নাগৌরি', pa: 'ਨਾਗੌਰੀ' },
+    variants: { hi: ['नागोरी'] },
+  },
+  nari: {
+    terms: { hi: 'नारी', mr: 'नारी', gu: 'નારી', ta: 'நாரி', te: 'నారీ', kn: 'ನಾರಿ', bn: 'নারী', pa: 'ਨਾਰੀ' },
+  },
+  nimari: {
+    terms: { hi: 'निमाड़ी', mr: 'निमाडी', gu: 'નિમાડી', ta: 'நிமாரி', te: 'నిమారీ', kn: 'ನಿಮಾರಿ', bn: 'নিমাড়ি', pa: 'ਨਿਮਾੜੀ' },
+    variants: { hi: ['निमारी'] },
+  },
+  ongole: {
+    terms: { hi: 'ओंगोल', mr: 'ओंगोल', gu: 'ઓંગોલ', ta: 'ஓங்கோல்', te: 'ఒంగోలు', kn: 'ಓಂಗೋಲ್', bn: 'ওঙ্গোল', pa: 'ਓਂਗੋਲ' },
+    aliases: ['Nellore'],
+  },
+  'poda-thurpu': {
+    terms: { hi: 'पोडा तुरपु', mr: 'पोडा तुर्पू', gu: 'પોડા તુર્પુ', ta: 'போடா துர்ப்பு', te: 'పొడ తూర్పు', kn: 'ಪೊಡ ತುರ್ಪು', bn: 'পোডা থুরপু', pa: 'ਪੋਡਾ ਥੁਰਪੂ' },
+  },
+  ponwar: {
+    terms: { hi: 'पोनवार', mr: 'पोनवार', gu: 'પોનવાર', ta: 'பொன்வார்', te: 'పొన్వార్', kn: 'ಪೊನ್ವಾರ್', bn: 'পোনওয়ার', pa: 'ਪੋਨਵਾਰ' },
+    variants: { hi: ['पंवार'] },
+  },
+  pulikulam: {
+    terms: { hi: 'पुलिकुलम', mr: 'पुलिकुलम', gu: 'પુલિકુલમ', ta: 'புளிக்குளம்', te: 'పులికులం', kn: 'ಪುಳಿಕುಳಂ', bn: 'পুলিকুলাম', pa: 'ਪੁਲੀਕੁਲਮ' },
+    aliases: ['Jallikattu madu'],
+  },
+  punganur: {
+    terms: { hi: 'पुंगनूर', mr: 'पुंगनूर', gu: 'પુંગનૂર', ta: 'புங்கனூர்', te: 'పుంగనూరు', kn: 'ಪುಂಗನೂರು', bn: 'পুঙ্গানুর', pa: 'ਪੁੰਗਨੂਰ' },
+  },
+  purnea: {
+    terms: { hi: 'पूर्णिया', mr: 'पूर्णिया', gu: 'પૂર્ણિયા', ta: 'பூர்ணியா', te: 'పూర్ణియా', kn: 'ಪೂರ್ಣಿಯಾ', bn: 'পূর্ণিয়া', pa: 'ਪੂਰਨੀਆ' },
+  },
+  rathi: {
+    terms: { hi: 'राठी', mr: 'राठी', gu: 'રાઠી', ta: 'ராத்தி', te: 'రాఠీ', kn: 'ರಾಠಿ', bn: 'রাঠি', pa: 'ਰਾਠੀ' },
+  },
+  'red-kandhari': {
+    terms: { hi: 'लाल कंधारी', mr: 'लाल कंधारी', gu: 'લાલ કંધારી', ta: 'சிவப்பு கந்தாரி', te: 'ఎర్ర కంధారి', kn: 'ಕೆಂಪು ಕಂಧಾರಿ', bn: 'লাল কান্ধারী', pa: 'ਲਾਲ ਕੰਧਾਰੀ' },
+    variants: { hi: ['रेड कंधारी'], mr: ['रेड कंधारी'] },
+    aliases: ['Kandhari'],
+  },
+  sanchori: {
+    terms: { hi: 'सांचोरी', mr: 'सांचोरी', gu: 'સાંચોરી', ta: 'சாஞ்சோரி', te: 'సాంచోరీ', kn: 'ಸಾಂಚೋರಿ', bn: 'সাঞ্চোরি', pa: 'ਸਾਂਚੋਰੀ' },
+  },
+  'shweta-kapila': {
+    terms: { hi: 'श्वेत कपिला', mr: 'श्वेत कपिला', gu: 'શ્વેત કપિલા', ta: 'ஷ்வேத கபிலா', te: 'శ్వేత కపిల', kn: 'ಶ್ವೇತ ಕಪಿಲಾ', bn: 'শ্বেত কপিলা', pa: 'ਸ਼ਵੇਤ ਕਪਿਲਾ' },
+  },
+  siri: {
+    terms: { hi: 'सिरी', mr: 'सिरी', gu: 'સિરી', ta: 'சிரி', te: 'సిరి', kn: 'ಸಿರಿ', bn: 'সিরি', pa: 'ਸਿਰੀ' },
+  },
+  thutho: {
+    terms: { hi: 'थुथो', mr: 'थुथो', gu: 'થુથો', ta: 'துதோ', te: 'థుథో', kn: 'ಥುಥೋ', bn: 'থুথো', pa: 'ਥੁਥੋ' },
+  },
+  umblachery: {
+    terms: { hi: 'उम्बलाचेरी', mr: 'उंबलाचेरी', gu: 'ઉમ્બલાચેરી', ta: 'உம்பளச்சேரி', te: 'ఉంబలచేరి', kn: 'ಉಂಬಳಚೇರಿ', bn: 'উম্বলাচেরি', pa: 'ਉਮਬਲਾਚੇਰੀ' },
+    aliases: ['Jathi madu', 'Mottai madu'],
+  },
+  vechur: {
+    terms: { hi: 'वेचूर', mr: 'वेचूर', gu: 'વેચુર', ta: 'வெச்சூர்', te: 'వెచూర్', kn: 'ವೆಚೂರ್', bn: 'ভেচুর', pa: 'ਵੇਚੂਰ' },
+  },
+  'hf-cross': {
+    terms: { hi: 'एचएफ संकर', mr: 'एचएफ संकरित', gu: 'એચએફ સંકર', ta: 'எச்.எஃப் கலப்பினம்', te: 'హెచ్ఎఫ్ సంకర', kn: 'ಎಚ್‌ಎಫ್ ಮಿಶ್ರತಳಿ', bn: 'এইচএফ সংকর', pa: 'ਐਚਐਫ ਕਰਾਸ' },
+    variants: {
+      en: ['Holstein Friesian cross', 'Holstein-Friesian cross'],
+      hi: ['एचएफ क्रॉस', 'होल्स्टीन फ्रीजियन संकर'],
+      mr: ['एचएफ क्रॉस'],
+    },
+    aliases: ['Holstein Friesian crossbred', 'HF crossbred', 'Holstein Friesian', 'Holstein'],
+  },
+  'jersey-cross': {
+    terms: { hi: 'जर्सी संकर', mr: 'जर्सी संकरित', gu: 'જર્સી સંકર', ta: 'ஜெர்சி கலப்பினம்', te: 'జెర్సీ సంకర', kn: 'ಜರ್ಸಿ ಮಿಶ್ರತಳಿ', bn: 'জার্সি সংকর', pa: 'ਜਰਸੀ ਕਰਾਸ' },
+    variants: { hi: ['जर्सी क्रॉस'], mr: ['जर्सी क्रॉस'] },
+    aliases: ['Jersey crossbred', 'Jersey'],
+  },
+  murrah: {
+    terms: { hi: 'मुर्रा', mr: 'मुऱ्हा', gu: 'મુર્રાહ', ta: 'முர்ரா', te: 'ముర్రా', kn: 'ಮುರ್ರಾ', bn: 'মুররা', pa: 'ਮੁਰ੍ਹਾ' },
+    variants: { hi: ['मुर्राह'], mr: ['मुर्रा'], gu: ['મુર્રા'] },
+    aliases: ['Kundi'],
+  },
+  'nili-ravi': {
+    terms: { hi: 'नीली-रावी', mr: 'नीली-रावी', gu: 'નીલી-રાવી', ta: 'நீலி-ராவி', te: 'నీలి-రావి', kn: 'ನೀಲಿ-ರಾವಿ', bn: 'নীলি-রাভি', pa: 'ਨੀਲੀ-ਰਾਵੀ' },
+    variants: { hi: ['नीली रावी'] },
+  },
+  banni: {
+    terms: { hi: 'बन्नी', mr: 'बन्नी', gu: 'બન્ની', ta: 'பன்னி', te: 'బన్నీ', kn: 'ಬನ್ನಿ', bn: 'বান্নি', pa: 'ਬੰਨੀ' },
+  },
+  'bargur-buffalo': {
+    terms: { hi: 'बरगुर भैंस', mr: 'बरगूर म्हैस', gu: 'બરગુર ભેંસ', ta: 'பர்கூர் எருமை', te: 'బర్గూర్ గేదె', kn: 'ಬರಗೂರು ಎಮ್ಮೆ', bn: 'বারগুর মহিষ', pa: 'ਬਰਗੁਰ ਮੱਝ' },
+  },
+  bhadawari: {
+    terms: { hi: 'भदावरी', mr: 'भदावरी', gu: 'ભદાવરી', ta: 'பதாவரி', te: 'భదావరి', kn: 'ಭದಾವರಿ', bn: 'ভাদাওয়ারি', pa: 'ਭਦਾਵਰੀ' },
+  },
+  chhattisgarhi: {
+    terms: { hi: 'छत्तीसगढ़ी', mr: 'छत्तीसगढी', gu: 'છત્તીસગઢી', ta: 'சத்தீஸ்கரி', te: 'ఛత్తీస్‌గఢీ', kn: 'ಛತ್ತೀಸ್‌ಗಢಿ', bn: 'ছত্তিশগড়ি', pa: 'ਛੱਤੀਸਗੜ੍ਹੀ' },
+  },
+  chilika: {
+    terms: { hi: 'चिल्का', mr: 'चिलिका', gu: 'ચિલિકા', ta: 'சிலிகா', te: 'చిలికా', kn: 'ಚಿಲಿಕಾ', bn: 'চিলিকা', pa: 'ਚਿਲਿਕਾ' },
+    variants: { hi: ['चिलिका'] },
+    aliases: ['Desi Mahisha'],
+  },
+  dharwadi: {
+    terms: { hi: 'धारवाड़ी', mr: 'धारवाडी', gu: 'ધારવાડી', ta: 'தார்வாடி', te: 'ధార్వాడీ', kn: 'ಧಾರವಾಡಿ', bn: 'ধারওয়াড়ি', pa: 'ਧਾਰਵਾੜੀ' },
+  },
+  gojri: {
+    terms: { hi: 'गोजरी', mr: 'गोजरी', gu: 'ગોજરી', ta: 'கோஜ்ரி', te: 'గోజ్రీ', kn: 'ಗೋಜ್ರಿ', bn: 'গোজরি', pa: 'ਗੋਜਰੀ' },
+  },
+  jaffarabadi: {
+    terms: { hi: 'जाफराबादी', mr: 'जाफराबादी', gu: 'જાફરાબાદી', ta: 'ஜாஃபராபாதி', te: 'జాఫరాబాదీ', kn: 'ಜಾಫರಾಬಾದಿ', bn: 'জাফরাবাদী', pa: 'ਜਾਫਰਾਬਾਦੀ' },
+    aliases: ['Jafarabadi', 'Gir buffalo'],
+  },
+  kalahandi: {
+    terms: { hi: 'कालाहांडी', mr: 'कालाहांडी', gu: 'કાલાહાંડી', ta: 'காலாஹண்டி', te: 'కలహండి', kn: 'ಕಾಲಾಹಂಡಿ', bn: 'কালাহান্ডি', pa: 'ਕਾਲਾਹਾਂਡੀ' },
+    aliases: ['Peddakimedi'],
+  },
+  'luit-swamp': {
+    terms: { hi: 'लुइत', mr: 'लुइत', gu: 'લુઇત', ta: 'லுயித்', te: 'లూయిత్', kn: 'ಲುಯಿತ್', bn: 'লুইত', pa: 'ਲੁਇਤ' },
+    aliases: ['Luit', 'Swamp buffalo'],
+  },
+  manda: {
+    terms: { hi: 'मांडा', mr: 'मांडा', gu: 'માંડા', ta: 'மாண்டா', te: 'మాండా', kn: 'ಮಾಂಡಾ', bn: 'মান্ডা', pa: 'ਮਾਂਡਾ' },
+  },
+  marathwadi: {
+    terms: { hi: 'मराठवाड़ी', mr: 'मराठवाडी', gu: 'મરાઠવાડી', ta: 'மராத்வாடி', te: 'మరాఠ్వాడీ', kn: 'ಮರಾಠವಾಡಿ', bn: 'মারাঠওয়াড়ি', pa: 'ਮਰਾਠਵਾੜੀ' },
+    aliases: ['Dudhana Thadi'],
+  },
+  mehsana: {
+    terms: { hi: 'मेहसाणा', mr: 'मेहसाणा', gu: 'મહેસાણા', ta: 'மெஹ்சானா', te: 'మెహసానా', kn: 'ಮೆಹಸಾಣಾ', bn: 'মেহসানা', pa: 'ਮੇਹਸਾਣਾ' },
+    variants: { hi: ['मेहसाना'], gu: ['મેહસાણા'] },
+    aliases: ['Mehsani'],
+  },
+  nagpuri: {
+    terms: { hi: 'नागपुरी', mr: 'नागपुरी', gu: 'નાગપુરી', ta: 'நாக்பூரி', te: 'నాగ్‌పురి', kn: 'ನಾಗಪುರಿ', bn: 'নাগপুরী', pa: 'ਨਾਗਪੁਰੀ' },
+    aliases: ['Elichpuri', 'Berari'],
+  },
+  pandharpuri: {
+    terms: { hi: 'पंढरपुरी', mr: 'पंढरपुरी', gu: 'પંઢરપુરી', ta: 'பண்டர்பூரி', te: 'పంఢర్‌పురి', kn: 'ಪಂಢರಪುರಿ', bn: 'পান্ধারপুরী', pa: 'ਪੰਢਰਪੁਰੀ' },
+  },
+  purnathadi: {
+    terms: { hi: 'पूर्णाथडी', mr: 'पूर्णाथडी', gu: 'પૂર્ણાથડી', ta: 'பூர்ணாதடி', te: 'పూర్ణాథడి', kn: 'ಪೂರ್ಣಾಥಡಿ', bn: 'পূর্ণাথাডি', pa: 'ਪੂਰਨਾਥਡੀ' },
+  },
+  surti: {
+    terms: { hi: 'सुरती', mr: 'सुरती', gu: 'સુરતી', ta: 'சூர்த்தி', te: 'సూర్తి', kn: 'ಸುರ್ತಿ', bn: 'সুরতি', pa: 'ਸੂਰਤੀ' },
+    variants: { hi: ['सूरती'] },
+    aliases: ['Charotar'],
+  },
+  toda: {
+    terms: { hi: 'टोडा', mr: 'तोडा', gu: 'ટોડા', ta: 'தோடா', te: 'తోడా', kn: 'ತೋಡಾ', bn: 'টোডা', pa: 'ਟੋਡਾ' },
+  },
+};
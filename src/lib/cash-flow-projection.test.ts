@@ -0,0 +1,145 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { indianBreedData, type BreedData } from './breed-data';
+import { DAYS_PER_MONTH, DEFAULT_ECONOMICS, type EconomicsProfile } from './economics';
+import { irr, lactationCurve, npv, projectCashFlows, type LifecycleAssumptions } from './cash-flow-projection';
+
+const breed: BreedData = {
+  ...indianBreedData[0],
+  category: 'Cattle',
+  milkYield: 10,
+  feedRequirement: 'Medium',
+  lifespan: 6,
+  marketPrice: 50000,
+};
+
+// Only what each test turns on contributes, so the expected values can be worked out by hand.
+const profile: EconomicsProfile = {
+  ...DEFAULT_ECONOMICS,
+  milkPricing: 'flat',
+  milkRates: { ...DEFAULT_ECONOMICS.milkRates, Cattle: { pricePerLitre: 0, fatRatePerKg: 0, snfRatePerKg: 0 } },
+  feedCostPerDay: { Low: 0, Medium: 0, High: 0 },
+  labourCostPerMonth: 0,
+  vetCostPerMonth: 0,
+  insurancePercentPerYear: 0,
+  discountRatePercent: 10,
+};
+
+const lifecycle: LifecycleAssumptions = {
+  ageAtPurchaseYears: 4,
+  calvingIntervalMonths: 12,
+  lactationMonths: 9,
+  calfSaleAgeMonths: 3,
+  calfSalePrice: 0,
+  cullValueShare: 0.3,
+  dryFeedShare: 0.5,
+};
+
+describe('npv', () => {
+  it('discounts each year at the given rate', () => {
+    assert.ok(Math.abs(npv([-100, 110], 10)) < 1e-9);
+    assert.ok(Math.abs(npv([-100, 0, 121], 10)) < 1e-9);
+    assert.equal(npv([-1000, 500, 500, 500], 0), 500);
+  });
+});
+
+describe('irr', () => {
+  it('finds the rate at which the npv is zero', () => {
+    assert.ok(Math.abs(irr([-100, 110])! - 10) < 1e-6);
+    assert.ok(Math.abs(irr([-100, 0, 121])! - 10) < 1e-6);
+    // 60x + 60x² = 100 with x = 1 / (1 + r) gives r = 13.07%.
+    assert.ok(Math.abs(irr([-100, 60, 60])! - 13.0662) < 1e-3);
+  });
+
+  it('is negative when less comes back than was spent', () => {
+    assert.ok(Math.abs(irr([-100, 81])! - -19) < 1e-6);
+  });
+
+  it('is null when the cash flows never change sign', () => {
+    assert.equal(irr([-100, -50, -10]), null);
+    assert.equal(irr([100, 50]), null);
+  });
+});
+
+describe('lactationCurve', () => {
+  it('peaks in the third month and averages to the breed yield', () => {
+    const curve = lactationCurve(10, 10);
+    const mean = curve.reduce((sum, value) => sum + value, 0) / curve.length;
+
+    assert.ok(Math.abs(mean - 10) < 1e-9);
+    assert.equal(curve.indexOf(Math.max(...curve)), 2);
+    assert.ok(curve[9] < curve[0]);
+  });
+});
+
+describe('projectCashFlows', () => {
+  it('pays for the animal in year 0', () => {
+    const { years } = projectCashFlows(breed, profile, 5, lifecycle);
+
+    assert.deepEqual(years[0], { year: 0, income: 0, cost: 50000, net: -50000, cumulative: -50000 });
+  });
+
+  it('sells the cull in the last productive year, not at the end of the projection', () => {
+    // Bought at 4 with a lifespan of 6: two productive years out of a five-year projection.
+    const { years } = projectCashFlows(breed, profile, 5, lifecycle);
+
+    assert.deepEqual(
+      years.map(year => year.income),
+      [0, 0, 15000, 0, 0, 0]
+    );
+  });
+
+  it('sells the cull at the end of the projection when the animal outlives it', () => {
+    const { years } = projectCashFlows({ ...breed, lifespan: 20 }, profile, 3, lifecycle);
+
+    assert.deepEqual(
+      years.map(year => year.income),
+      [0, 0, 0, 15000]
+    );
+  });
+
+  it('sells the cull in the year a part-year of productive life ends', () => {
+    const { years } = projectCashFlows({ ...breed, lifespan: 5.5 }, profile, 3, lifecycle);
+
+    assert.deepEqual(
+      years.map(year => year.income),
+      [0, 0, 15000, 0]
+    );
+  });
+
+  it('feeds a dry animal the dry share of the ration', () => {
+    const withFeed = { ...profile, feedCostPerDay: { Low: 0, Medium: 100, High: 0 } };
+    const { years } = projectCashFlows(breed, withFeed, 1, lifecycle);
+
+    // Nine months in milk at the full ration and three dry months at half of it.
+    assert.equal(years[1].cost, Math.round(100 * DAYS_PER_MONTH * (9 + 3 * 0.5)));
+  });
+
+  it('earns milk for the lactation and a calf sale once per calving', () => {
+    const withMilk = {
+      ...profile,
+      milkRates: { ...profile.milkRates, Cattle: { pricePerLitre: 40, fatRatePerKg: 0, snfRatePerKg: 0 } },
+    };
+    const { years } = projectCashFlows({ ...breed, lifespan: 20 }, withMilk, 2, { ...lifecycle, calfSalePrice: 8000 });
+
+    const milkPerYear = 10 * 9 * DAYS_PER_MONTH * 40;
+    assert.equal(years[1].income, Math.round(milkPerYear + 8000));
+    assert.equal(years[2].income, Math.round(milkPerYear + 8000 + 15000));
+  });
+
+  it('reports the npv at the profile rate and the irr of the yearly net flows', () => {
+    // -50,000 now and the 15,000 cull two years later.
+    const projection = projectCashFlows(breed, profile, 2, lifecycle);
+
+    assert.equal(projection.npv, Math.round(-50000 + 15000 / 1.1 ** 2));
+    assert.equal(projection.irr, Math.round((Math.sqrt(0.3) - 1) * 1000) / 10);
+  });
+
+  it('has no irr when the animal never earns anything back', () => {
+    const withCosts = { ...profile, vetCostPerMonth: 500 };
+    const projection = projectCashFlows(breed, withCosts, 2, { ...lifecycle, cullValueShare: 0 });
+
+    assert.equal(projection.irr, null);
+    assert.equal(projection.npv, Math.round(-50000 - 6000 / 1.1 - 6000 / 1.1 ** 2));
+  });
+});
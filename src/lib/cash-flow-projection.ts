@@ -0,0 +1,132 @@
+import type { BreedData } from '@/lib/breed-data';
+import { DAYS_PER_MONTH, EconomicsProfile, milkPricePerLitre } from '@/lib/economics';
+
+export type LifecycleAssumptions = {
+  ageAtPurchaseYears: number; // bought as a freshly calved adult
+  calvingIntervalMonths: number;
+  lactationMonths: number;
+  calfSaleAgeMonths: number;
+  calfSalePrice: number; // INR
+  cullValueShare: number; // sale value at the end of productive life, as a share of the purchase price
+  dryFeedShare: number; // feed eaten while dry, as a share of feed eaten in milk
+};
+
+// Category defaults; individual herds vary widely, so these are deliberately conservative.
+export const LIFECYCLE_DEFAULTS: Record<BreedData['category'], LifecycleAssumptions> = {
+  Cattle: {
+    ageAtPurchaseYears: 4,
+    calvingIntervalMonths: 15,
+    lactationMonths: 10,
+    calfSaleAgeMonths: 3,
+    calfSalePrice: 8000,
+    cullValueShare: 0.3,
+    dryFeedShare: 0.6,
+  },
+  Buffalo: {
+    ageAtPurchaseYears: 4.5,
+    calvingIntervalMonths: 16,
+    lactationMonths: 10,
+    calfSaleAgeMonths: 3,
+    calfSalePrice: 10000,
+    cullValueShare: 0.35,
+    dryFeedShare: 0.6,
+  },
+};
+
+// Shape of Wood's lactation curve, y = t^b * e^(-c t) with t in months; peaks around the second month.
+const LACTATION_CURVE_B = 0.25;
+const LACTATION_CURVE_C = 0.11;
+
+export type ProjectionYear = {
+  year: number;
+  income: number;
+  cost: number;
+  net: number;
+  cumulative: number;
+};
+
+export type CashFlowProjection = {
+  years: ProjectionYear[]; // year 0 is the purchase
+  npv: number;
+  irr: number | null; // percent; null when the cash flows never turn positive
+};
+
+/**
+ * Daily yield in each month of a lactation, scaled so the lactation average matches the
+ * breed's average daily yield.
+ */
+export function lactationCurve(averageDailyYield: number, lactationMonths: number): number[] {
+  const shape = Array.from({ length: lactationMonths }, (_, index) => {
+    const t = index + 0.5;
+    return t ** LACTATION_CURVE_B * Math.exp(-LACTATION_CURVE_C * t);
+  });
+  const mean = shape.reduce((sum, value) => sum + value, 0) / shape.length;
+  return shape.map(value => (value / mean) * averageDailyYield);
+}
+
+export function npv(cashFlows: number[], ratePercent: number): number {
+  const rate = ratePercent / 100;
+  return cashFlows.reduce((total, flow, year) => total + flow / (1 + rate) ** year, 0);
+}
+
+/** Internal rate of return in percent, found by bisection; null if it is not bracketed. */
+export function irr(cashFlows: number[]): number | null {
+  let low = -99;
+  let high = 1000;
+  if (npv(cashFlows, low) * npv(cashFlows, high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (npv(cashFlows, low) * npv(cashFlows, mid) <= 0) high = mid;
+    else low = mid;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Simulates one animal month by month over `years`: lactations and dry periods on the
+ * calving interval, calf sales, feed and running costs, and a cull sale at the end of
+ * its productive life (or at the end of the projection, whichever comes first).
+ */
+export function projectCashFlows(
+  breed: BreedData,
+  profile: EconomicsProfile,
+  years: number,
+  lifecycle: LifecycleAssumptions = LIFECYCLE_DEFAULTS[breed.category]
+): CashFlowProjection {
+  const pricePerLitre = milkPricePerLitre(breed, profile);
+  const curve = lactationCurve(breed.milkYield, lifecycle.lactationMonths);
+  const feedPerMonth = profile.feedCostPerDay[breed.feedRequirement] * DAYS_PER_MONTH;
+  const fixedPerMonth =
+    profile.labourCostPerMonth + profile.vetCostPerMonth + (breed.marketPrice * profile.insurancePercentPerYear) / 100 / 12;
+  const productiveMonths = Math.max(1, Math.round((breed.lifespan - lifecycle.ageAtPurchaseYears) * 12));
+  const months = Math.min(years * 12, productiveMonths);
+
+  const flows = Array.from({ length: years + 1 }, () => ({ income: 0, cost: 0 }));
+  flows[0].cost = breed.marketPrice;
+
+  for (let month = 0; month < months; month++) {
+    const year = Math.floor(month / 12) + 1;
+    const cycleMonth = month % lifecycle.calvingIntervalMonths;
+    const inMilk = cycleMonth < lifecycle.lactationMonths;
+
+    if (inMilk) flows[year].income += curve[cycleMonth] * DAYS_PER_MONTH * pricePerLitre;
+    if (cycleMonth === lifecycle.calfSaleAgeMonths) flows[year].income += lifecycle.calfSalePrice;
+    flows[year].cost += feedPerMonth * (inMilk ? 1 : lifecycle.dryFeedShare) + fixedPerMonth;
+  }
+  flows[Math.ceil(months / 12)].income += breed.marketPrice * lifecycle.cullValueShare;
+
+  let cumulative = 0;
+  const projectionYears = flows.map(({ income, cost }, year) => {
+    const net = income - cost;
+    cumulative += net;
+    return { year, income: Math.round(income), cost: Math.round(cost), net: Math.round(net), cumulative: Math.round(cumulative) };
+  });
+  const netFlows = flows.map(({ income, cost }) => income - cost);
+  const rate = irr(netFlows);
+
+  return {
+    years: projectionYears,
+    npv: Math.round(npv(netFlows, profile.discountRatePercent)),
+    irr: rate === null ? null : Math.round(rate * 10) / 10,
+  };
+}
@@ -0,0 +1,14 @@
+const DEVICE_ID_KEY = 'pashu-ai:device-id';
+
+/**
+ * Returns a stable, anonymous identifier for this browser, used to attribute submitted
+ * labels until field workers sign in.
+ */
+export function getDeviceId(): string {
+  let id = window.localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    window.localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+}
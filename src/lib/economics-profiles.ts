@@ -0,0 +1,50 @@
+import { DEFAULT_ECONOMICS, EconomicsProfile, EconomicsProfileSchema } from '@/lib/economics';
+
+const PROFILES_KEY = 'pashu-ai:economics-profiles';
+const REGION_KEY = 'pashu-ai:economics-region';
+
+export const DEFAULT_REGION = 'India (default)';
+
+function readProfiles(): Record<string, EconomicsProfile> {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(PROFILES_KEY) ?? '{}') as Record<string, unknown>;
+    const profiles: Record<string, EconomicsProfile> = {};
+    for (const [region, profile] of Object.entries(stored)) {
+      const parsed = EconomicsProfileSchema.safeParse(profile);
+      if (parsed.success) profiles[region] = parsed.data;
+    }
+    return profiles;
+  } catch {
+    return {};
+  }
+}
+
+/** Regions with a saved economics profile, in the order they were first saved. */
+export function listEconomicsRegions(): string[] {
+  return Object.keys(readProfiles());
+}
+
+export function loadEconomicsProfile(region: string): EconomicsProfile {
+  return readProfiles()[region] ?? DEFAULT_ECONOMICS;
+}
+
+export function saveEconomicsProfile(region: string, profile: EconomicsProfile): void {
+  const profiles = readProfiles();
+  profiles[region] = EconomicsProfileSchema.parse(profile);
+  window.localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  window.localStorage.setItem(REGION_KEY, region);
+}
+
+export function deleteEconomicsProfile(region: string): void {
+  const profiles = readProfiles();
+  delete profiles[region];
+  window.localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+export function getSelectedEconomicsRegion(): string {
+  return window.localStorage.getItem(REGION_KEY) ?? DEFAULT_REGION;
+}
+
+export function setSelectedEconomicsRegion(region: string): void {
+  window.localStorage.setItem(REGION_KEY, region);
+}
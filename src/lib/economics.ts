@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import type { BreedData } from '@/lib/breed-data';
+
+export const DAYS_PER_MONTH = 365 / 12;
+
+// Cooperatives weigh milk at collection; one litre of milk weighs about 1.03 kg.
+const MILK_DENSITY_KG_PER_LITRE = 1.03;
+
+const MilkRateSchema = z.object({
+  pricePerLitre: z.number().min(0), // used with flat pricing
+  fatRatePerKg: z.number().min(0), // ₹ per kg of milk fat, used with the rate chart
+  snfRatePerKg: z.number().min(0), // ₹ per kg of solids-not-fat, used with the rate chart
+});
+export type MilkRates = z.infer<typeof MilkRateSchema>;
+
+export const EconomicsProfileSchema = z.object({
+  milkPricing: z.enum(['flat', 'fat-snf']),
+  milkRates: z.object({
+    Cattle: MilkRateSchema,
+    Buffalo: MilkRateSchema,
+  }),
+  feedCostPerDay: z.object({
+    Low: z.number().min(0),
+    Medium: z.number().min(0),
+    High: z.number().min(0),
+  }),
+  labourCostPerMonth: z.number().min(0), // per animal
+  vetCostPerMonth: z.number().min(0), // per animal, including medicines and AI
+  insurancePercentPerYear: z.number().min(0).max(100), // premium as a share of the animal's price
+  discountRatePercent: z.number().min(0).max(100).default(10), // for discounting projected cash flows
+});
+export type EconomicsProfile = z.output<typeof EconomicsProfileSchema>;
+
+export const DEFAULT_ECONOMICS: EconomicsProfile = {
+  milkPricing: 'fat-snf',
+  milkRates: {
+    Cattle: { pricePerLitre: 45, fatRatePerKg: 700, snfRatePerKg: 250 },
+    Buffalo: { pricePerLitre: 60, fatRatePerKg: 700, snfRatePerKg: 250 },
+  },
+  feedCostPerDay: { Low: 90, Medium: 140, High: 200 },
+  labourCostPerMonth: 1000,
+  vetCostPerMonth: 300,
+  insurancePercentPerYear: 4,
+  discountRatePercent: 10,
+};
+
+/**
+ * The two-axis price of a litre of milk, as on a dairy cooperative's fat/SNF rate chart:
+ * the kilograms of fat and of solids-not-fat it contains, each paid at its own rate.
+ */
+export function twoAxisPricePerLitre(rates: MilkRates, fatPercentage: number, snfPercentage: number): number {
+  const pricePerKg = (fatPercentage * rates.fatRatePerKg + snfPercentage * rates.snfRatePerKg) / 100;
+  return pricePerKg * MILK_DENSITY_KG_PER_LITRE;
+}
+
+/** Rows of the rate chart: the price per litre for each fat percentage (rows) and SNF percentage (columns). */
+export function buildRateChart(rates: MilkRates, fatPercentages: number[], snfPercentages: number[]): number[][] {
+  return fatPercentages.map(fat => snfPercentages.map(snf => twoAxisPricePerLitre(rates, fat, snf)));
+}
+
+/** What a litre of this breed's milk fetches under the profile's pricing method. */
+export function milkPricePerLitre(breed: BreedData, profile: EconomicsProfile): number {
+  const rates = profile.milkRates[breed.category];
+  if (profile.milkPricing === 'flat') return rates.pricePerLitre;
+  return twoAxisPricePerLitre(rates, breed.fatPercentage, breed.snfPercentage);
+}
+
+export function monthlyEconomics(
+  breed: BreedData,
+  profile: EconomicsProfile
+): { monthlyIncome: number; monthlyCost: number; milkPricePerLitre: number } {
+  const pricePerLitre = milkPricePerLitre(breed, profile);
+  const monthlyIncome = breed.milkYield * DAYS_PER_MONTH * pricePerLitre;
+  const monthlyCost =
+    profile.feedCostPerDay[breed.feedRequirement] * DAYS_PER_MONTH +
+    profile.labourCostPerMonth +
+    profile.vetCostPerMonth +
+    (breed.marketPrice * profile.insurancePercentPerYear) / 100 / 12;
+  return { monthlyIncome, monthlyCost, milkPricePerLitre: pricePerLitre };
+}
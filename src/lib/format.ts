@@ -0,0 +1,48 @@
+import type { Language } from '@/lib/translations';
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * The language's own conventions for India (grouping, the words for lakh and crore, month
+ * names), always with Latin digits, the way numbers appear on milk slips and price tags.
+ */
+function locale(language: Language): string {
+  return `${language}-IN-u-nu-latn`;
+}
+
+export function formatNumber(value: number, language: Language, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(locale(language), options).format(value);
+}
+
+/** Whole rupees by default; `compact` abbreviates large amounts (₹1.5L, ₹1.5 लाख) for chart axes. */
+export function formatRupees(
+  value: number,
+  language: Language,
+  { fractionDigits = 0, compact = false } = {}
+): string {
+  return formatNumber(value, language, {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: compact ? undefined : fractionDigits,
+    maximumFractionDigits: compact ? 1 : fractionDigits,
+    notation: compact ? 'compact' : 'standard',
+  });
+}
+
+/**
+ * A calendar date in the language's own month names. Date-only strings ("2025-03-04") are
+ * read as that calendar day, not as midnight UTC shifted into the local time zone.
+ */
+export function formatDate(value: string | Date, language: Language): string {
+  const dateOnly = typeof value === 'string' && DATE_ONLY.test(value);
+  return new Intl.DateTimeFormat(locale(language), {
+    dateStyle: 'medium',
+    timeZone: dateOnly ? 'UTC' : undefined,
+  }).format(new Date(value));
+}
+
+export function formatDateTime(value: string | Date, language: Language): string {
+  return new Intl.DateTimeFormat(locale(language), { dateStyle: 'medium', timeStyle: 'short' }).format(
+    new Date(value)
+  );
+}
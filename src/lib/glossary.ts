@@ -0,0 +1,493 @@
+import { breedSlug, indianBreedData } from '@/lib/breed-data';
+import { BREED_NAMES } from '@/lib/breed-names';
+import { SYMPTOMS, symptomLabels } from '@/lib/symptoms';
+import { isLanguage, LANGUAGES, translations, type Language } from '@/lib/translations';
+
+/**
+ * The domain terms the AI flows must use in each language. The model is told to use them, and
+ * its answers are then rewritten so other names for the same thing (abbreviations, loanwords,
+ * spelling variants) become the glossary term. A Hindi diagnosis therefore always says
+ * "खुरपका-मुंहपका", never "एफएमडी" in one answer and "मुंहपका-खुरपका" in the next.
+ */
+
+export type GlossaryCategory = 'breed' | 'disease' | 'symptom' | 'drugClass';
+
+type Terms = Record<Language, string>;
+type Variants = Partial<Record<Language, string[]>>;
+
+type GlossaryEntry = {
+  id: string;
+  category: GlossaryCategory;
+  terms: Terms;
+  // Other names for the same thing in each language, rewritten to the term.
+  variants?: Variants;
+  // An English abbreviation, rewritten to the term in every language but English.
+  abbreviation?: string;
+};
+
+export type GlossaryTerm = {
+  id: string;
+  category: GlossaryCategory;
+  english: string;
+  term: string;
+};
+
+const diseases: Omit<GlossaryEntry, 'category'>[] = [
+  {
+    id: 'fmd',
+    abbreviation: 'FMD',
+    terms: {
+      en: 'Foot-and-mouth disease',
+      hi: 'खुरपका-मुंहपका',
+      mr: 'लाळ्या खुरकूत',
+      gu: 'ખરવા-મોવાસા',
+      ta: 'கோமாரி நோய்',
+      te: 'గాలికుంటు వ్యాధి',
+      kn: 'ಕಾಲುಬಾಯಿ ರೋಗ',
+      bn: 'খুরারোগ',
+      pa: 'ਮੂੰਹ-ਖੁਰ ਦੀ ਬਿਮਾਰੀ',
+    },
+    variants: {
+      en: ['Foot and mouth disease', 'Foot and Mouth Disease (FMD)'],
+      hi: ['एफएमडी', 'मुंहपका-खुरपका', 'मुँहपका-खुरपका', 'खुरपका मुंहपका', 'खुरपका-मुंहपका रोग'],
+      mr: ['एफएमडी', 'लाळ खुरकूत', 'लाळ्या-खुरकूत'],
+      gu: ['એફએમડી', 'ખરવા મોવાસા', 'ખરવા-મોવાસો'],
+      ta: ['கால் மற்றும் வாய் நோய்', 'கால்வாய் நோய்'],
+      te: ['ఎఫ్ఎండి', 'గాలికుంటు'],
+      kn: ['ಎಫ್‌ಎಂಡಿ', 'ಕಾಲು ಬಾಯಿ ರೋಗ'],
+      bn: ['খুরা রোগ', 'ক্ষুরারোগ', 'পা ও মুখের রোগ'],
+      pa: ['ਮੂੰਹ ਖੁਰ', 'ਮੂੰਹ-ਖੁਰ'],
+    },
+  },
+  {
+    id: 'hs',
+    abbreviation: 'HS',
+    terms: {
+      en: 'Haemorrhagic septicaemia',
+      hi: 'गलघोंटू',
+      mr: 'घटसर्प',
+      gu: 'ગળસૂંઢો',
+      ta: 'தொண்டை அடைப்பான் நோய்',
+      te: 'గొంతువాపు వ్యాధి',
+      kn: 'ಗಳಲೆ ರೋಗ',
+      bn: 'গলাফোলা রোগ',
+      pa: 'ਗਲਘੋਟੂ',
+    },
+    variants: {
+      en: ['Hemorrhagic septicemia', 'Haemorrhagic Septicaemia (HS)'],
+      hi: ['एचएस', 'गलाघोंटू', 'गल घोंटू', 'रक्तस्रावी सेप्टीसीमिया'],
+      mr: ['एचएस', 'घटसर्प रोग'],
+      gu: ['એચએસ', 'ગળસુંઢો'],
+      ta: ['ரத்தக்கசிவு செப்டிசீமியா'],
+      te: ['గురక వ్యాధి'],
+      kn: ['ಗಂಟಲು ಬೇನೆ'],
+      bn: ['গলা ফোলা রোগ'],
+      pa: ['ਗਲ ਘੋਟੂ'],
+    },
+  },
+  {
+    id: 'bq',
+    abbreviation: 'BQ',
+    terms: {
+      en: 'Black quarter',
+      hi: 'लंगड़ी बुखार',
+      mr: 'फऱ्या',
+      gu: 'ગાંઠિયો તાવ',
+      ta: 'சப்பை நோய்',
+      te: 'జబ్బవాపు వ్యాధి',
+      kn: 'ಚಪ್ಪೆ ರೋಗ',
+      bn: 'বাদলা রোগ',
+      pa: 'ਲੰਗੜਾ ਬੁਖਾਰ',
+    },
+    variants: {
+      en: ['Blackleg', 'Black leg', 'Black Quarter (BQ)'],
+      hi: ['बीक्यू', 'लंगड़िया', 'ब्लैक क्वार्टर'],
+      mr: ['बीक्यू', 'एकटांग्या'],
+      gu: ['બીક્યુ'],
+      ta: ['கருங்கால் நோய்'],
+      te: ['నల్లజబ్బ'],
+      bn: ['বাদলা'],
+      pa: ['ਬਲੈਕ ਕੁਆਰਟਰ'],
+    },
+  },
+  {
+    id: 'brucellosis',
+    terms: {
+      en: 'Brucellosis',
+      hi: 'ब्रुसेलोसिस',
+      mr: 'ब्रुसेलोसिस',
+      gu: 'બ્રુસેલોસિસ',
+      ta: 'புருசெல்லோசிஸ்',
+      te: 'బ్రూసెల్లోసిస్',
+      kn: 'ಬ್ರುಸೆಲ್ಲೋಸಿಸ್',
+      bn: 'ব্রুসেলোসিস',
+      pa: 'ਬਰੂਸੈਲੋਸਿਸ',
+    },
+    variants: {
+      en: ['Contagious abortion'],
+      hi: ['ब्रूसेलोसिस', 'संक्रामक गर्भपात'],
+      mr: ['सांसर्गिक गर्भपात'],
+      gu: ['ચેપી ગર્ભપાત'],
+      ta: ['கன்று வீச்சு நோய்'],
+      te: ['ఈసుకుపోయే వ్యాధి'],
+      kn: ['ಕಂದು ಹಾಕುವ ರೋಗ'],
+      bn: ['সংক্রামক গর্ভপাত'],
+      pa: ['ਛੂਤ ਵਾਲਾ ਗਰਭਪਾਤ'],
+    },
+  },
+  {
+    id: 'lsd',
+    abbreviation: 'LSD',
+    terms: {
+      en: 'Lumpy skin disease',
+      hi: 'लम्पी त्वचा रोग',
+      mr: 'लम्पी चर्मरोग',
+      gu: 'લમ્પી ચામડીનો રોગ',
+      ta: 'தோல் கழலை நோய்',
+      te: 'ముద్ద చర్మ వ్యాధి',
+      kn: 'ಚರ್ಮಗಂಟು ರೋಗ',
+      bn: 'লাম্পি স্কিন রোগ',
+      pa: 'ਲੰਪੀ ਚਮੜੀ ਰੋਗ',
+    },
+    variants: {
+      en: ['Lumpy Skin Disease (LSD)'],
+      hi: ['एलएसडी', 'लंपी स्किन डिजीज', 'लम्पी स्किन डिजीज', 'लम्पी रोग', 'लंपी रोग', 'लंपी वायरस'],
+      mr: ['लंपी स्किन डिसीज', 'लम्पी स्किन डिसीज'],
+      gu: ['લમ્પી સ્કિન ડિસીઝ', 'લમ્પી વાયરસ'],
+      ta: ['லம்பி தோல் நோய்'],
+      te: ['లంపీ స్కిన్ వ్యాధి'],
+      kn: ['ಲಂಪಿ ಸ್ಕಿನ್ ರೋಗ'],
+      bn: ['লাম্পি চর্মরোগ'],
+      pa: ['ਲੰਪੀ ਸਕਿਨ ਬਿਮਾਰੀ'],
+    },
+  },
+  {
+    id: 'mastitis',
+    terms: {
+      en: 'Mastitis',
+      hi: 'थनैला रोग',
+      mr: 'स्तनदाह',
+      gu: 'આઉનો સોજો',
+      ta: 'மடிவீக்க நோய்',
+      te: 'పొదుగువాపు వ్యాధి',
+      kn: 'ಕೆಚ್ಚಲು ಬಾವು',
+      bn: 'ওলানফোলা রোগ',
+      pa: 'ਥਨੈਲਾ ਰੋਗ',
+    },
+    variants: {
+      hi: ['थनैला', 'मैस्टाइटिस', 'स्तनशोथ'],
+      mr: ['कासदाह', 'मॅस्टायटिस'],
+      gu: ['મેસ્ટાઇટિસ', 'બાવલાનો સોજો'],
+      ta: ['மடி நோய்', 'மாஸ்டிடிஸ்'],
+      te: ['మాస్టైటిస్'],
+      kn: ['ಮಾಸ್ಟೈಟಿಸ್'],
+      bn: ['ম্যাস্টাইটিস', 'ওলান প্রদাহ'],
+      pa: ['ਥਨੈਲਾ', 'ਮਸਟਾਈਟਸ'],
+    },
+  },
+  {
+    id: 'theileriosis',
+    terms: {
+      en: 'Theileriosis',
+      hi: 'थिलेरियोसिस',
+      mr: 'थायलेरियोसिस',
+      gu: 'થાઇલેરિયોસિસ',
+      ta: 'தைலீரியாசிஸ்',
+      te: 'థైలేరియోసిస్',
+      kn: 'ಥೈಲೇರಿಯೋಸಿಸ್',
+      bn: 'থাইলেরিয়োসিস',
+      pa: 'ਥਾਈਲੇਰੀਓਸਿਸ',
+    },
+    variants: {
+      hi: ['थाइलेरियोसिस', 'थैलेरियोसिस'],
+    },
+  },
+  {
+    id: 'bloat',
+    terms: {
+      en: 'Bloat',
+      hi: 'अफारा',
+      mr: 'पोटफुगी',
+      gu: 'આફરો',
+      ta: 'வயிறு உப்புசம்',
+      te: 'కడుపుబ్బరం',
+      kn: 'ಹೊಟ್ಟೆ ಉಬ್ಬರ',
+      bn: 'পেট ফাঁপা',
+      pa: 'ਅਫਾਰਾ',
+    },
+    variants: {
+      en: ['Ruminal tympany', 'Tympany'],
+      hi: ['आफरा', 'पेट फूलना'],
+      mr: ['पोट फुगी'],
+      gu: ['આફારો'],
+      ta: ['வயிற்று உப்புசம்'],
+      te: ['కడుపు ఉబ్బరం'],
+      bn: ['পেটফাঁপা'],
+      pa: ['ਆਫਰਾ'],
+    },
+  },
+  {
+    id: 'milkFever',
+    terms: {
+      en: 'Milk fever',
+      hi: 'दुग्ध ज्वर',
+      mr: 'दुग्धज्वर',
+      gu: 'દૂધ તાવ',
+      ta: 'பால் காய்ச்சல்',
+      te: 'పాల జ్వరం',
+      kn: 'ಹಾಲು ಜ್ವರ',
+      bn: 'দুগ্ধজ্বর',
+      pa: 'ਦੁੱਧ ਬੁਖਾਰ',
+    },
+    variants: {
+      en: ['Hypocalcaemia', 'Hypocalcemia'],
+      hi: ['मिल्क फीवर', 'दुग्धज्वर'],
+      mr: ['मिल्क फिवर', 'दुग्ध ज्वर'],
+      gu: ['મિલ્ક ફીવર'],
+      bn: ['মিল্ক ফিভার'],
+      pa: ['ਮਿਲਕ ਫੀਵਰ'],
+    },
+  },
+];
+
+const drugClasses: Omit<GlossaryEntry, 'category'>[] = [
+  {
+    id: 'antibiotic',
+    terms: {
+      en: 'Antibiotic',
+      hi: 'एंटीबायोटिक',
+      mr: 'प्रतिजैविक',
+      gu: 'એન્ટિબાયોટિક',
+      ta: 'நுண்ணுயிர் எதிர்ப்பி',
+      te: 'యాంటీబయాటిక్',
+      kn: 'ಪ್ರತಿಜೀವಕ',
+      bn: 'অ্যান্টিবায়োটিক',
+      pa: 'ਐਂਟੀਬਾਇਓਟਿਕ',
+    },
+    variants: {
+      hi: ['एन्टीबायोटिक', 'प्रतिजैविक'],
+      mr: ['अँटिबायोटिक', 'एंटीबायोटिक'],
+      gu: ['પ્રતિજૈવિક'],
+      ta: ['ஆன்டிபயாடிக்'],
+      kn: ['ಆಂಟಿಬಯೋಟಿಕ್'],
+    },
+  },
+  {
+    id: 'antiInflammatory',
+    terms: {
+      en: 'Anti-inflammatory',
+      hi: 'सूजनरोधी दवा',
+      mr: 'दाहशामक औषध',
+      gu: 'સોજો ઘટાડતી દવા',
+      ta: 'வீக்கம் குறைக்கும் மருந்து',
+      te: 'వాపు తగ్గించే మందు',
+      kn: 'ಉರಿಯೂತ ನಿವಾರಕ',
+      bn: 'প্রদাহনাশক ওষুধ',
+      pa: 'ਸੋਜ ਘਟਾਉਣ ਵਾਲੀ ਦਵਾਈ',
+    },
+    variants: {
+      hi: ['एंटी-इंफ्लेमेटरी', 'एंटी इंफ्लेमेटरी'],
+    },
+  },
+  {
+    id: 'dewormer',
+    terms: {
+      en: 'Dewormer',
+      hi: 'कृमिनाशक',
+      mr: 'जंतनाशक',
+      gu: 'કૃમિનાશક',
+      ta: 'குடற்புழு நீக்க மருந்து',
+      te: 'నట్టల నివారణ మందు',
+      kn: 'ಜಂತುನಾಶಕ',
+      bn: 'কৃমিনাশক',
+      pa: 'ਕੀੜੇਮਾਰ ਦਵਾਈ',
+    },
+    variants: {
+      en: ['Anthelmintic'],
+      hi: ['डीवॉर्मर', 'पेट के कीड़े की दवा'],
+      mr: ['कृमिनाशक'],
+      gu: ['પેટના કૃમિની દવા'],
+      ta: ['குடல் புழு மருந்து'],
+      te: ['డీవార్మర్'],
+      kn: ['ಹುಳು ನಿವಾರಕ'],
+      bn: ['কৃমির ওষুধ'],
+      pa: ['ਪੇਟ ਦੇ ਕੀੜਿਆਂ ਦੀ ਦਵਾਈ'],
+    },
+  },
+  {
+    id: 'antiseptic',
+    terms: {
+      en: 'Antiseptic',
+      hi: 'रोगाणुरोधक',
+      mr: 'पूतिरोधक',
+      gu: 'એન્ટિસેપ્ટિક',
+      ta: 'கிருமிநாசினி',
+      te: 'క్రిమిసంహారిణి',
+      kn: 'ನಂಜುನಿರೋಧಕ',
+      bn: 'জীবাণুনাশক',
+      pa: 'ਕੀਟਾਣੂਨਾਸ਼ਕ',
+    },
+    variants: {
+      hi: ['एंटीसेप्टिक'],
+      mr: ['अँटिसेप्टिक'],
+    },
+  },
+  {
+    id: 'acaricide',
+    terms: {
+      en: 'Tick control medicine',
+      hi: 'चिचड़ी नाशक दवा',
+      mr: 'गोचीड नाशक',
+      gu: 'ઈતરડી નાશક દવા',
+      ta: 'உண்ணி நீக்க மருந்து',
+      te: 'గోమార్ల నివారణ మందు',
+      kn: 'ಉಣ್ಣೆ ನಿವಾರಕ',
+      bn: 'এঁটুলিনাশক ওষুধ',
+      pa: 'ਚਿੱਚੜਨਾਸ਼ਕ ਦਵਾਈ',
+    },
+    variants: {
+      en: ['Acaricide'],
+      hi: ['एकेरीसाइड', 'किलनी नाशक दवा'],
+    },
+  },
+  {
+    id: 'vaccine',
+    terms: {
+      en: 'Vaccine',
+      hi: 'टीका',
+      mr: 'लस',
+      gu: 'રસી',
+      ta: 'தடுப்பூசி',
+      te: 'టీకా',
+      kn: 'ಲಸಿಕೆ',
+      bn: 'টিকা',
+      pa: 'ਟੀਕਾ',
+    },
+    variants: {
+      hi: ['वैक्सीन'],
+      mr: ['व्हॅक्सिन'],
+      gu: ['વેક્સિન'],
+      te: ['వ్యాక్సిన్'],
+      kn: ['ವ್ಯಾಕ್ಸಿನ್'],
+      bn: ['ভ্যাকসিন'],
+      pa: ['ਵੈਕਸੀਨ'],
+    },
+  },
+];
+
+const languageCodes = LANGUAGES.map(({ code }) => code);
+
+const glossary: GlossaryEntry[] = [
+  // Every catalogue breed, named as in `BREED_NAMES`.
+  ...indianBreedData.map(({ breedName }) => {
+    const id = breedSlug(breedName);
+    const { terms, variants } = BREED_NAMES[id];
+    return { id, category: 'breed' as const, terms: { en: breedName, ...terms }, variants };
+  }),
+  ...diseases.map(entry => ({ ...entry, category: 'disease' as const })),
+  // Symptoms use the labels of the diagnosis form's checkboxes, so the answer matches the form.
+  ...SYMPTOMS.map(id => ({
+    id,
+    category: 'symptom' as const,
+    terms: Object.fromEntries(languageCodes.map(code => [code, translations[code][symptomLabels[id]]])) as Terms,
+  })),
+  ...drugClasses.map(entry => ({ ...entry, category: 'drugClass' as const })),
+];
+
+function toLanguage(language: string): Language {
+  return isLanguage(language) ? language : 'en';
+}
+
+/** Every glossary term in a language, optionally only those of some categories. */
+export function glossaryTerms(language: string, categories?: GlossaryCategory[]): GlossaryTerm[] {
+  const code = toLanguage(language);
+  return glossary
+    .filter(entry => !categories || categories.includes(entry.category))
+    .map(({ id, category, terms }) => ({ id, category, english: terms.en, term: terms[code] }));
+}
+
+/** The glossary as prompt lines: "- English: term", or just "- term" for English. */
+export function glossaryPrompt(language: string, categories?: GlossaryCategory[]): string {
+  return glossaryTerms(language, categories)
+    .map(({ english, term }) => (english === term ? `- ${term}` : `- ${english}: ${term}`))
+    .join('\n');
+}
+
+/** The names a language's text may use for an entry, each mapped to the entry's term. */
+function namesOf(entry: GlossaryEntry, language: Language): string[] {
+  const names = [entry.terms[language], ...(entry.variants?.[language] ?? [])];
+  if (language !== 'en') {
+    names.push(entry.terms.en, ...(entry.variants?.en ?? []));
+    if (entry.abbreviation) names.push(entry.abbreviation);
+  }
+  return names;
+}
+
+const fold = (name: string) => name.toLocaleLowerCase('en');
+
+type Matcher = { pattern: RegExp; terms: Map<string, string> };
+const matchers = new Map<Language, Matcher>();
+
+function matcherFor(language: Language): Matcher {
+  let matcher = matchers.get(language);
+  if (!matcher) {
+    const terms = new Map<string, string>();
+    for (const entry of glossary) {
+      for (const name of namesOf(entry, language)) {
+        // Earlier entries win, so a term is never rewritten to another entry's term.
+        if (!terms.has(fold(name))) terms.set(fold(name), entry.terms[language]);
+      }
+    }
+    // Longest names first, so "खुरपका-मुंहपका रोग" is matched before "खुरपका-मुंहपका".
+    const alternatives = [...terms.keys()]
+      .sort((a, b) => b.length - a.length)
+      .map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    // Indic scripts have no \b; a name must not be part of a longer word in any script.
+    const pattern = new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{M}\\p{N}])`, 'giu');
+    matcher = { pattern, terms };
+    matchers.set(language, matcher);
+  }
+  return matcher;
+}
+
+/** Keeps a lower-case first letter, so "foot and mouth disease" mid-sentence stays lower case. */
+function matchCase(match: string, term: string): string {
+  const lowerFirst = match[0] !== match[0].toLocaleUpperCase('en');
+  const titleCase = term[1] !== undefined && term[1] === term[1].toLocaleLowerCase('en');
+  return lowerFirst && titleCase ? term[0].toLocaleLowerCase('en') + term.slice(1) : term;
+}
+
+/**
+ * Rewrites every other name for a glossary entry in `text` to the entry's term in `language`,
+ * and drops the repeat in "term (term)" that rewriting "खुरपका-मुंहपका (FMD)" would leave.
+ */
+export function normalizeTerms(text: string, language: string): string {
+  const code = toLanguage(language);
+  const { pattern, terms } = matcherFor(code);
+  const used = new Set<string>();
+  const normalized = text.replace(pattern, match => {
+    const term = terms.get(fold(match))!;
+    if (fold(match) === fold(term)) return match;
+    used.add(term);
+    return matchCase(match, term);
+  });
+  return [...used].reduce((result, term) => {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return result.replace(new RegExp(`(${escaped})\\s*\\(\\s*${escaped}\\s*\\)`, 'giu'), '$1');
+  }, normalized);
+}
+
+/**
+ * The term in `language` for a name given in any language, e.g. "एफएमडी" or "Foot and mouth
+ * disease" is "खुरपका-मुंहपका" in Hindi. Undefined if the name is not in the glossary.
+ */
+export function glossaryTerm(name: string, language: string, category?: GlossaryCategory): string | undefined {
+  const code = toLanguage(language);
+  const folded = fold(name.trim());
+  const entry = glossary.find(
+    entry =>
+      (!category || entry.category === category) &&
+      languageCodes.some(other => namesOf(entry, other).some(known => fold(known) === folded))
+  );
+  return entry?.terms[code];
+}
@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { planHerd, type HerdCandidate, type HerdConstraints } from './herd-planner';
+
+const crossbred: HerdCandidate = { breedName: 'Crossbred', price: 50000, monthlyIncome: 10000, monthlyCost: 4000, feedRequirement: 'Medium' };
+const desi: HerdCandidate = { breedName: 'Desi', price: 30000, monthlyIncome: 6000, monthlyCost: 2500, feedRequirement: 'Low' };
+const heavy: HerdCandidate = { breedName: 'Heavy', price: 40000, monthlyIncome: 9000, monthlyCost: 4000, feedRequirement: 'High' };
+
+const plenty: HerdConstraints = { budget: 10_000_000, landSize: 100, fodderAvailability: 'Abundant', labour: 2 };
+
+describe('planHerd', () => {
+  it('finds the most profitable mix, not the best profit per rupee first', () => {
+    // Crossbred earns more per rupee, but one Crossbred and one Desi leave 10,000 unspent;
+    // three Desi use the whole budget and earn more.
+    const plan = planHerd([crossbred, desi], { ...plenty, budget: 90000 });
+
+    assert.deepEqual(plan.animals, [{ breedName: 'Desi', count: 3, unitPrice: 30000 }]);
+    assert.equal(plan.totalAnimals, 3);
+    assert.equal(plan.totalInvestment, 90000);
+    assert.equal(plan.monthlyIncome, 18000);
+    assert.equal(plan.monthlyCost, 7500);
+    assert.equal(plan.monthlyProfit, 10500);
+    assert.equal(plan.paybackMonths, 9);
+    assert.equal(plan.limitingFactor, 'budget');
+  });
+
+  it('never buys animals that lose money', () => {
+    const lossMaking: HerdCandidate = { ...crossbred, breedName: 'Loss', monthlyCost: 12000 };
+    const plan = planHerd([lossMaking, desi], { ...plenty, budget: 60000 });
+
+    assert.deepEqual(plan.animals, [{ breedName: 'Desi', count: 2, unitPrice: 30000 }]);
+  });
+
+  it('stops at the animal units the land can feed', () => {
+    // Two acres of adequate fodder feed 4 units: four medium feeders.
+    const plan = planHerd([crossbred], { ...plenty, landSize: 2, fodderAvailability: 'Adequate' });
+
+    assert.equal(plan.totalAnimals, 4);
+    assert.equal(plan.carryingCapacity, 4);
+    assert.equal(plan.limitingFactor, 'land');
+  });
+
+  it('counts heavy feeders as more than one animal unit', () => {
+    // Four units feed three heavy feeders (3.9 units) but not four.
+    const plan = planHerd([heavy], { ...plenty, landSize: 4, fodderAvailability: 'Scarce' });
+
+    assert.equal(plan.totalAnimals, 3);
+    assert.equal(plan.carryingCapacity, 3);
+    assert.equal(plan.limitingFactor, 'land');
+  });
+
+  it('gives the carrying capacity for the suggested mix of light feeders', () => {
+    // Two acres of scarce fodder feed 2 units: two Desi use 1.6, a third would need 2.4.
+    const plan = planHerd([desi], { ...plenty, landSize: 2, fodderAvailability: 'Scarce' });
+
+    assert.equal(plan.totalAnimals, 2);
+    assert.equal(plan.carryingCapacity, 2);
+    assert.equal(plan.limitingFactor, 'land');
+  });
+
+  it('stops at what the labour can manage', () => {
+    const plan = planHerd([crossbred], { ...plenty, labour: 1 });
+
+    assert.equal(plan.totalAnimals, 6);
+    assert.equal(plan.limitingFactor, 'labour');
+  });
+
+  it('reports the largest herd it plans for as the limit, not labour', () => {
+    const plan = planHerd([crossbred], { ...plenty, labour: 10 });
+
+    assert.equal(plan.totalAnimals, 30);
+    assert.equal(plan.limitingFactor, 'herdSize');
+  });
+
+  it('reports labour when labour and the largest herd coincide', () => {
+    const plan = planHerd([crossbred], { ...plenty, labour: 5 });
+
+    assert.equal(plan.totalAnimals, 30);
+    assert.equal(plan.limitingFactor, 'labour');
+  });
+
+  it('plans no herd when the budget cannot buy one animal', () => {
+    const plan = planHerd([crossbred, desi], { ...plenty, budget: 20000 });
+
+    assert.deepEqual(plan.animals, []);
+    assert.equal(plan.totalAnimals, 0);
+    assert.equal(plan.monthlyProfit, 0);
+    assert.equal(plan.paybackMonths, null);
+    assert.equal(plan.limitingFactor, 'budget');
+  });
+});
@@ -0,0 +1,119 @@
+import type { BreedData } from '@/lib/breed-data';
+
+export type FodderAvailability = 'Scarce' | 'Adequate' | 'Abundant';
+
+export type HerdCandidate = {
+  breedName: string;
+  price: number;
+  monthlyIncome: number;
+  monthlyCost: number;
+  feedRequirement: BreedData['feedRequirement'];
+};
+
+export type HerdConstraints = {
+  budget: number; // INR, for the whole herd
+  landSize: number; // acres
+  fodderAvailability: FodderAvailability;
+  labour: number; // full-time workers
+};
+
+export type HerdPlan = {
+  animals: { breedName: string; count: number; unitPrice: number }[];
+  totalAnimals: number;
+  carryingCapacity: number; // animals of the suggested mix the land and fodder can sustain
+  totalInvestment: number;
+  monthlyIncome: number;
+  monthlyCost: number;
+  monthlyProfit: number;
+  paybackMonths: number | null; // null when the herd does not make a profit
+  limitingFactor: 'budget' | 'land' | 'labour' | 'herdSize'; // herdSize: the planner's largest herd
+};
+
+// Adult animal units one acre can feed, depending on how much fodder is grown or bought in.
+const ANIMAL_UNITS_PER_ACRE: Record<FodderAvailability, number> = {
+  Scarce: 1,
+  Adequate: 2,
+  Abundant: 3,
+};
+
+// Heavier feeders count as more than one animal unit.
+const ANIMAL_UNITS: Record<BreedData['feedRequirement'], number> = {
+  Low: 0.8,
+  Medium: 1,
+  High: 1.3,
+};
+
+// Stall-fed animals one full-time worker can feed, clean and milk.
+const ANIMALS_PER_WORKER = 6;
+
+// Keeps the exhaustive search small; larger herds are beyond a smallholder planner.
+const MAX_HERD_SIZE = 30;
+
+/**
+ * Finds the mix of candidate breeds that maximises combined monthly profit without
+ * exceeding the budget, the animal units the land can feed, or what the labour can manage.
+ */
+export function planHerd(candidates: HerdCandidate[], constraints: HerdConstraints): HerdPlan {
+  const unitCapacity = constraints.landSize * ANIMAL_UNITS_PER_ACRE[constraints.fodderAvailability];
+  const labourCapacity = Math.floor(constraints.labour * ANIMALS_PER_WORKER);
+  const maxAnimals = Math.min(MAX_HERD_SIZE, labourCapacity);
+
+  const counts = candidates.map(() => 0);
+  let best = { profit: 0, counts: [...counts] };
+
+  const search = (index: number, budgetLeft: number, unitsLeft: number, animalsLeft: number, profit: number) => {
+    if (profit > best.profit) best = { profit, counts: [...counts] };
+    if (index === candidates.length) return;
+    const candidate = candidates[index];
+    const units = ANIMAL_UNITS[candidate.feedRequirement];
+    const unitProfit = candidate.monthlyIncome - candidate.monthlyCost;
+    const maxCount =
+      unitProfit > 0
+        ? Math.min(animalsLeft, Math.floor(budgetLeft / candidate.price), Math.floor(unitsLeft / units + 1e-9))
+        : 0;
+    for (let count = maxCount; count >= 0; count--) {
+      counts[index] = count;
+      search(index + 1, budgetLeft - count * candidate.price, unitsLeft - count * units, animalsLeft - count, profit + count * unitProfit);
+    }
+    counts[index] = 0;
+  };
+  search(0, constraints.budget, unitCapacity, maxAnimals, 0);
+
+  const animals = candidates
+    .map((candidate, index) => ({ breedName: candidate.breedName, count: best.counts[index], unitPrice: candidate.price }))
+    .filter(animal => animal.count > 0);
+  const chosen = candidates.map((candidate, index) => ({ candidate, count: best.counts[index] }));
+  const sum = (value: (candidate: HerdCandidate) => number) =>
+    chosen.reduce((total, { candidate, count }) => total + value(candidate) * count, 0);
+
+  const totalAnimals = animals.reduce((total, animal) => total + animal.count, 0);
+  const totalInvestment = sum(candidate => candidate.price);
+  const monthlyIncome = sum(candidate => candidate.monthlyIncome);
+  const monthlyCost = sum(candidate => candidate.monthlyCost);
+  const monthlyProfit = monthlyIncome - monthlyCost;
+  const unitsUsed = sum(candidate => ANIMAL_UNITS[candidate.feedRequirement]);
+
+  // Whichever resource would run out first if the cheapest, lightest animal were added.
+  const smallestUnits = Math.min(...candidates.map(candidate => ANIMAL_UNITS[candidate.feedRequirement]));
+  const cheapest = Math.min(...candidates.map(candidate => candidate.price));
+  const limitingFactor: HerdPlan['limitingFactor'] =
+    totalAnimals >= labourCapacity
+      ? 'labour'
+      : totalAnimals >= MAX_HERD_SIZE
+        ? 'herdSize'
+        : unitsUsed + smallestUnits > unitCapacity + 1e-9
+          ? 'land'
+          : 'budget';
+
+  return {
+    animals,
+    totalAnimals,
+    carryingCapacity: Math.floor(unitCapacity / (totalAnimals > 0 ? unitsUsed / totalAnimals : 1) + 1e-9),
+    totalInvestment,
+    monthlyIncome: Math.round(monthlyIncome),
+    monthlyCost: Math.round(monthlyCost),
+    monthlyProfit: Math.round(monthlyProfit),
+    paybackMonths: monthlyProfit > 0 ? Math.ceil(totalInvestment / monthlyProfit) : null,
+    limitingFactor: candidates.length === 0 || constraints.budget < cheapest ? 'budget' : limitingFactor,
+  };
+}
@@ -0,0 +1,320 @@
+import type { LocalePack } from '@/lib/translations';
+
+export const bn: LocalePack = {
+  appName: "পশু এআই",
+  tagline: "ভারতীয় গবাদিপশুর জন্য এআই-চালিত জাত শনাক্তকরণ",
+  navHome: "হোম",
+  navScanner: "স্ক্যানার",
+  navDecisionSupport: "সিদ্ধান্ত সহায়তা",
+  navDiseaseDetection: "রোগ নির্ণয়",
+  navAnimals: "পশু",
+  navBreeds: "জাত",
+  featureScanDescription: "আপনার ক্যামেরা দিয়ে বা ছবি আপলোড করে সঙ্গে সঙ্গে গরু ও মহিষের জাত শনাক্ত করুন।",
+  featureRecommendDescription: "আপনার চাষের লক্ষ্য ও পরিস্থিতি অনুযায়ী সেরা জাতের সুপারিশ পান।",
+  featureDiseaseDescription: "সাধারণ রোগের প্রাথমিক লক্ষণ শনাক্ত করতে ও যত্নের পরামর্শ পেতে পশুর ছবি আপলোড করুন।",
+  language: "ভাষা",
+  toggleMode: "অনলাইন/অফলাইন মোড বদলান",
+  toggleTheme: "থিম বদলান",
+  themeLight: "লাইট",
+  themeDark: "ডার্ক",
+  themeSystem: "সিস্টেম",
+  online: "অনলাইন",
+  offline: "অফলাইন",
+  offlineModelUnavailable: "অফলাইন জাত মডেল এখনও এই ডিভাইসে নেই। এটি ডাউনলোড করতে একবার ইন্টারনেটে যুক্ত হন, অথবা অনলাইন মোডে যান।",
+  offlineLowConfidence: "অফলাইন মডেল যথেষ্ট নিশ্চিতভাবে জাত শনাক্ত করতে পারেনি। পশুর পাশ থেকে আরও পরিষ্কার ছবি তুলে চেষ্টা করুন।",
+  offlineFallbackTitle: "ইন্টারনেট সংযোগ নেই",
+  offlineFallbackDescription: "এর বদলে ডিভাইসের মডেল ব্যবহার করা হচ্ছে। আপনি আবার অনলাইনে এলে স্ক্যানটি আপলোড হবে।",
+  noConnectionTitle: "ইন্টারনেট সংযোগ নেই",
+  noConnectionDescription: "এর জন্য ইন্টারনেট সংযোগ প্রয়োজন। আপনার ছবি ও নোট এখানেই রাখা আছে, তাই অনলাইনে এলে আবার চেষ্টা করুন।",
+  scanAnimal: "পশু স্ক্যান করুন",
+  selectImage: "ছবি আপলোড করুন",
+  useCamera: "ক্যামেরা ব্যবহার করুন",
+  positionAnimal: "পশুটিকে ফ্রেমের মধ্যে রেখে ছবি তুলুন।",
+  capture: "ছবি তুলুন",
+  cancel: "বাতিল করুন",
+  or: "অথবা",
+  tryDemo: "ডেমো ছবি দিয়ে চেষ্টা করুন:",
+  analyzing: "ছবি বিশ্লেষণ করা হচ্ছে...",
+  analyzingDescription: "আমাদের এআই জাত শনাক্ত করছে। অনুগ্রহ করে একটু অপেক্ষা করুন।",
+  aiSuggestions: "এআই পরামর্শ",
+  confidence: "নিশ্চয়তা",
+  confirm: "নিশ্চিত করুন",
+  correctionPrompt: "জাত ভুল?",
+  correctBreed: "সঠিক জাত",
+  selectCorrectBreed: "সঠিক জাত বেছে নিন",
+  unknownBreed: "অজানা / সংকর",
+  submitCorrection: "সংশোধন জমা দিন",
+  correctionSubmittedTitle: "মতামত পাওয়া গেছে",
+  correctionSubmittedDescription: "ধন্যবাদ! আপনার তথ্য থেকে আমাদের এআই শেখে ও আরও ভালো হয়।",
+  correctionQueuedDescription: "ধন্যবাদ! আপনি অফলাইনে আছেন, তাই আপনার সংশোধন এই ডিভাইসে সংরক্ষিত হয়েছে এবং অনলাইনে এলে আপলোড হবে।",
+  pendingSync: "আপলোডের অপেক্ষায়",
+  failedSync: "সার্ভার প্রত্যাখ্যান করেছে",
+  discardFailedSync: "মুছে ফেলুন",
+  discardFailedSyncDescription: "সার্ভার এই এন্ট্রিগুলি গ্রহণ করেনি, তাই এগুলি আপলোড হবে না। এগুলি কি এই ডিভাইস থেকে মুছে ফেলবেন?",
+  errorTitle: "একটি ত্রুটি ঘটেছে",
+  errorDescription: "অনুরোধটি সম্পূর্ণ করা যায়নি। অনুগ্রহ করে আবার চেষ্টা করুন।",
+  serviceUnavailableError: "এআই পরিষেবা এখন উপলব্ধ নয়। অনুগ্রহ করে কিছুক্ষণ পরে আবার চেষ্টা করুন।",
+  finalBreed: "শনাক্ত জাত",
+  startOver: "আবার শুরু করুন",
+  uploading: "আপলোড হচ্ছে...",
+  invalidImage: "দেওয়া ছবিটি গরু বা মহিষের বৈধ ছবি নয়। অনুগ্রহ করে আবার চেষ্টা করুন।",
+  invalidImageTitle: "অবৈধ ছবি",
+  tryAgain: "অনুগ্রহ করে অন্য ছবি দিয়ে আবার চেষ্টা করুন।",
+  size: "আকার",
+  colors: "রং",
+  nutrition: "পুষ্টি",
+  noInfo: "এই জাতের তথ্য পাওয়া যায়নি।",
+  cameraAccessDeniedTitle: "ক্যামেরার অনুমতি প্রত্যাখ্যাত",
+  cameraAccessDeniedDescription: "এই সুবিধা ব্যবহার করতে অনুগ্রহ করে ব্রাউজার সেটিংসে ক্যামেরার অনুমতি চালু করুন।",
+  cameraAccessRequiredTitle: "ক্যামেরার অনুমতি প্রয়োজন",
+  cameraAccessRequiredDescription: "এই সুবিধা ব্যবহার করতে অনুগ্রহ করে ক্যামেরা ব্যবহারের অনুমতি দিন। এর জন্য ব্রাউজার সেটিংস বদলাতে হতে পারে।",
+  rotateCamera: "ক্যামেরা ঘোরান",
+  uploadedAnimalAlt: "আপলোড করা পশু",
+  breedRecommendationEngine: "জাত সুপারিশ ব্যবস্থা",
+  findThePerfectBreed: "আপনার খামারের জন্য উপযুক্ত জাত খুঁজতে কয়েকটি প্রশ্নের উত্তর দিন।",
+  primaryGoal: "প্রধান লক্ষ্য",
+  selectGoalPlaceholder: "আপনার প্রধান লক্ষ্য বেছে নিন...",
+  highMilkYield: "বেশি দুধ উৎপাদন",
+  draughtStrength: "চাষের কাজের শক্তি",
+  dualPurpose: "দ্বৈত উদ্দেশ্য (দুধ ও চাষ)",
+  lowMaintenance: "কম যত্ন / খরচ",
+  budgetPerAnimalInRupees: "প্রতি পশুর বাজেট (₹ এ)",
+  landSizeInAcres: "জমির পরিমাণ (একরে)",
+  acres: "একর",
+  singleAnimal: "একটি পশু",
+  herdPlanner: "পাল পরিকল্পনা",
+  totalBudgetInRupees: "মোট পালের বাজেট (₹ এ)",
+  fodderAvailability: "পশুখাদ্যের প্রাপ্যতা",
+  fodderScarce: "কম",
+  fodderAdequate: "যথেষ্ট",
+  fodderAbundant: "প্রচুর",
+  labourAvailable: "পূর্ণসময়ের কর্মী",
+  herdPlanTitle: "প্রস্তাবিত পাল",
+  noHerdPlan: "আপনার বাজেটে এই পরিস্থিতির উপযুক্ত কোনো পশু কেনা যাবে না। বড় বাজেট বা অন্য লক্ষ্য চেষ্টা করুন।",
+  animalsLandCanSustain: "টি পশু আপনার জমি পালন করতে পারে",
+  limitedBy: "সীমাবদ্ধতা",
+  limitBudget: "বাজেট",
+  limitLand: "জমি ও পশুখাদ্য",
+  limitLabour: "শ্রম",
+  limitHerdSize: "পরিকল্পনার সবচেয়ে বড় পাল",
+  totalInvestment: "মোট বিনিয়োগ",
+  monthlyIncome: "মাসিক আয়",
+  monthlyCost: "মাসিক খরচ",
+  monthlyProfit: "মাসিক লাভ",
+  paybackPeriod: "বিনিয়োগ ফেরতের সময়",
+  months: "মাস",
+  notProfitable: "লাভজনক নয়",
+  economicAssumptions: "অর্থনৈতিক অনুমান",
+  savedRegions: "সংরক্ষিত অঞ্চল",
+  regionName: "অঞ্চল হিসেবে সংরক্ষণ করুন",
+  regionNamePlaceholder: "যেমন, পশ্চিমবঙ্গ",
+  deleteRegion: "এই অঞ্চল মুছুন",
+  milkPricing: "দুধের দাম",
+  milkPricingFlat: "প্রতি লিটারে একই দাম",
+  milkPricingFatSnf: "ফ্যাট/এসএনএফ দরের তালিকা (দুই অক্ষ)",
+  pricePerLitre: "প্রতি লিটারের দাম (₹)",
+  fatRatePerKg: "প্রতি কেজি ফ্যাটের দর (₹)",
+  snfRatePerKg: "প্রতি কেজি এসএনএফের দর (₹)",
+  feedCostPerDay: "প্রতি পশুর দৈনিক খাদ্য খরচ (₹), খাদ্যের প্রয়োজন অনুযায়ী",
+  labourCostPerMonth: "প্রতি পশুর মাসিক শ্রম খরচ (₹)",
+  vetCostPerMonth: "প্রতি পশুর মাসিক পশুচিকিৎসা ও ওষুধ (₹)",
+  insurancePercentPerYear: "বিমার প্রিমিয়াম (মূল্যের % বার্ষিক)",
+  fatSnfAxis: "ফ্যাট % ↓ এসএনএফ % →",
+  milkPrice: "দুধের দাম",
+  litreShort: "লি",
+  fat: "ফ্যাট",
+  discountRatePercent: "ছাড়ের হার (% বার্ষিক)",
+  projectionYears: "অনুমানের সময়কাল",
+  years: "বছর",
+  cashFlowProjection: "নগদ প্রবাহের অনুমান (একটি পশু)",
+  netCashFlow: "নিট নগদ প্রবাহ",
+  cumulativeCashFlow: "ক্রমসঞ্চিত",
+  npv: "নিট বর্তমান মূল্য (NPV)",
+  irr: "অভ্যন্তরীণ আয়ের হার (IRR)",
+  year: "বছর",
+  yearShort: "ব",
+  regionalClimate: "আঞ্চলিক জলবায়ু",
+  selectClimatePlaceholder: "আপনার জলবায়ু বেছে নিন...",
+  climateHotDry: "গরম ও শুষ্ক",
+  climateHotHumid: "গরম ও আর্দ্র",
+  climateModerate: "মাঝারি",
+  climateCold: "ঠান্ডা",
+  getRecommendations: "সুপারিশ পান",
+  findingBestBreeds: "আপনার জন্য সেরা জাত খোঁজা হচ্ছে...",
+  topRecommendations: "শীর্ষ সুপারিশ",
+  overallScore: "সামগ্রিক স্কোর",
+  estimatedROI: "আনুমানিক ROI",
+  pros: "সুবিধা",
+  cons: "অসুবিধা",
+  careLevel: "যত্নের মাত্রা",
+  Low: "কম",
+  Medium: "মাঝারি",
+  High: "বেশি",
+  suitabilityScorecard: "উপযুক্ততার স্কোরকার্ড",
+  milkYieldScore: "দুধ উৎপাদন",
+  strengthScore: "শক্তি",
+  careRequirementScore: "কম যত্নের প্রয়োজন",
+  roiScore: "লাভজনকতা (ROI)",
+  climateMatchScore: "জলবায়ুর সাথে মিল",
+  noBreedsFoundTitle: "মিলে যাওয়া জাত পাওয়া যায়নি",
+  noBreedsFoundDescription: "আপনার মাপকাঠির সাথে মেলে এমন কোনো জাত পাওয়া যায়নি। অনুগ্রহ করে ফিল্টার বদলে দেখুন।",
+  compare: "তুলনা করুন",
+  compareBreeds: "জাতের তুলনা করুন",
+  feature: "বৈশিষ্ট্য",
+  diseaseDetection: "রোগ নির্ণয়",
+  detectDisease: "রোগ শনাক্ত করুন",
+  detectDiseaseDescription: "এআই-চালিত স্বাস্থ্য পরীক্ষার জন্য ছবি আপলোড করুন এবং লক্ষণ বর্ণনা করুন।",
+  addDescription: "লক্ষণের বিবরণ যোগ করুন (ঐচ্ছিক)",
+  symptomDescriptionPlaceholder: "যেমন, পশুটি ঝিমিয়ে আছে, ঠিকমতো খাচ্ছে না, কাশছে...",
+  speakSymptoms: "লক্ষণ বলুন",
+  stopRecording: "রেকর্ডিং বন্ধ করুন",
+  listening: "শুনছে...",
+  transcribing: "লিখছে...",
+  microphoneAccessDeniedTitle: "মাইক্রোফোনের অনুমতি পাওয়া যায়নি",
+  microphoneAccessDeniedDescription: "কথা বলে লক্ষণ জানাতে অনুগ্রহ করে ব্রাউজারের সেটিংসে মাইক্রোফোনের অনুমতি দিন।",
+  transcriptionFailed: "রেকর্ডিংটি লেখা যায়নি। অনুগ্রহ করে আবার চেষ্টা করুন বা লক্ষণ টাইপ করুন।",
+  voiceNote: "ভয়েস নোট",
+  removeVoiceNote: "ভয়েস নোট সরান",
+  getDiagnosis: "রোগ নির্ণয় পান",
+  analyzingHealth: "পশুর স্বাস্থ্য বিশ্লেষণ করা হচ্ছে...",
+  analyzingHealthDescription: "আমাদের এআই ছবি ও লক্ষণ বিশ্লেষণ করছে। অনুগ্রহ করে একটু অপেক্ষা করুন।",
+  diagnosisResult: "রোগ নির্ণয়ের ফলাফল",
+  noDiseaseDetected: "কোনো রোগ পাওয়া যায়নি",
+  preventiveCare: "প্রতিরোধমূলক যত্ন",
+  disease: "রোগ",
+  urgency: "জরুরিতা",
+  description: "বিবরণ",
+  firstAid: "প্রাথমিক চিকিৎসা / যত্ন",
+  veterinaryAttention: "পশুচিকিৎসকের মনোযোগ",
+  listen: "শুনুন",
+  stopReading: "থামান",
+  listenTo: "শুনুন:",
+  readingSpeed: "পড়ার গতি",
+  speedSlow: "ধীর",
+  speedNormal: "স্বাভাবিক",
+  speedFast: "দ্রুত",
+  immediateAttentionRequired: "অবিলম্বে পশুচিকিৎসকের চিকিৎসা প্রয়োজন।",
+  attentionRecommended: "পশুচিকিৎসককে দেখানোর পরামর্শ দেওয়া হচ্ছে।",
+  monitorAnimal: "পশুটির উপর কাছ থেকে নজর রাখুন।",
+  addSymptoms: "সাধারণ লক্ষণ যোগ করুন",
+  commonSymptoms: "সাধারণ লক্ষণ",
+  selectedSymptoms: "বাছাই করা লক্ষণ",
+  symptomLethargy: "ঝিমুনি/দুর্বলতা",
+  symptomAppetiteLoss: "খিদে না থাকা",
+  symptomCoughing: "কাশি",
+  symptomSores: "ঘা বা ক্ষত",
+  symptomLimping: "খোঁড়ানো",
+  symptomSwelling: "ফোলা",
+  symptomDischarge: "অস্বাভাবিক স্রাব",
+  symptomDiarrhea: "ডায়রিয়া",
+  emergencyHelpline: "জরুরি হেল্পলাইন",
+  findVet: "পশুচিকিৎসা সহায়তা খুঁজুন",
+  enterLocation: "কাছাকাছি সহায়তা খুঁজতে আপনার শহর, জেলা বা পিনকোড লিখুন।",
+  locationPlaceholder: "যেমন, 'নদিয়া' বা '741101'",
+  findingHelp: "সহায়তা খোঁজা হচ্ছে...",
+  noVetsFound: "এই জায়গার জন্য কোনো হাসপাতাল বা ডিসপেনসারি পাওয়া যায়নি। আপনার জেলার নাম দিয়ে চেষ্টা করুন, অথবা উপরের হেল্পলাইনে ফোন করুন।",
+  vetDirectoryNotLoaded: "এই অ্যাপে এখনও পশু চিকিৎসা তালিকা লোড করা হয়নি, তাই শুধু জাতীয় হেল্পলাইন দেখানো হয়েছে। কাছের পশু চিকিৎসা ইউনিটে পৌঁছাতে সেখানে ফোন করুন।",
+  Hospital: "হাসপাতাল",
+  Clinic: "ক্লিনিক",
+  Helpline: "হেল্পলাইন",
+  Dispensary: "ডিসপেনসারি",
+  unverified: "যাচাই করা হয়নি",
+  useMyLocation: "আমার অবস্থান ব্যবহার করুন",
+  locationUnavailableTitle: "অবস্থান পাওয়া যায়নি",
+  locationUnavailableDescription: "এর বদলে আপনার পিনকোড লিখুন, আমরা তার আশেপাশে খুঁজব।",
+  kmAway: "কিমি দূরে",
+  animals: "পশু",
+  animalRegistry: "পশু নিবন্ধন",
+  animalRegistryDescription: "প্রতিটি পশুর তথ্য রাখুন: কানের ট্যাগ, জাত, মালিক এবং ছবি।",
+  searchAnimals: "কানের ট্যাগ, মালিক, গ্রাম বা জাত দিয়ে খুঁজুন...",
+  registerAnimal: "পশু নিবন্ধন করুন",
+  noAnimalsFound: "কোনো পশু পাওয়া যায়নি। শুরু করতে একটি পশু নিবন্ধন করুন।",
+  earTag: "কানের ট্যাগ নম্বর",
+  species: "প্রজাতি",
+  Cattle: "গরু",
+  Buffalo: "মহিষ",
+  breed: "জাত",
+  sex: "লিঙ্গ",
+  Female: "স্ত্রী",
+  Male: "পুরুষ",
+  dateOfBirth: "জন্ম তারিখ",
+  age: "বয়স",
+  yearsShort: "ব",
+  monthsShort: "মা",
+  owner: "মালিক",
+  village: "গ্রাম",
+  photos: "ছবি",
+  noPhotos: "এখনও কোনো ছবি নেই।",
+  addPhoto: "ছবি যোগ করুন",
+  save: "সংরক্ষণ করুন",
+  edit: "সম্পাদনা করুন",
+  saveToAnimalProfile: "পশুর প্রোফাইলে সংরক্ষণ করুন",
+  existingAnimal: "বিদ্যমান পশু",
+  newAnimal: "নতুন পশু",
+  attach: "যুক্ত করুন",
+  animalSavedTitle: "পশুর প্রোফাইল সংরক্ষিত",
+  animalSavedDescription: "জাত ও ছবি পশুর প্রোফাইলে সংরক্ষণ করা হয়েছে।",
+  breedSpeciesMismatch: "স্ক্যান করা জাতটি এই পশুর প্রজাতির সঙ্গে মেলে না। অন্য একটি পশু বেছে নিন বা নতুন পশু নথিভুক্ত করুন।",
+  viewProfile: "প্রোফাইল দেখুন",
+  backToRegistry: "নিবন্ধনে ফিরে যান",
+  animalNotFound: "এই পশুটি পাওয়া যায়নি।",
+  loading: "লোড হচ্ছে...",
+  healthHistory: "স্বাস্থ্যের ইতিহাস",
+  noHealthRecords: "এই পশুর জন্য এখনও কোনো রোগ নির্ণয় সংরক্ষিত হয়নি।",
+  saveToHealthHistory: "স্বাস্থ্যের ইতিহাসে সংরক্ষণ করুন",
+  diagnosisSavedTitle: "রোগ নির্ণয় সংরক্ষিত",
+  diagnosisSavedDescription: "রোগ নির্ণয়টি পশুর স্বাস্থ্যের ইতিহাসে যোগ করা হয়েছে।",
+  statusPending: "পশুচিকিৎসকের অপেক্ষায়",
+  statusVetConfirmed: "পশুচিকিৎসক নিশ্চিত করেছেন",
+  statusRuledOut: "বাতিল করা হয়েছে",
+  statusResolved: "সেরে গেছে",
+  vaccinationSchedule: "টিকা ও কৃমিনাশক",
+  vaccinationReminders: "টিকার অনুস্মারক",
+  noRemindersDue: "আগামী দুই সপ্তাহে কোনো টিকা বা কৃমিনাশক বাকি নেই।",
+  noScheduleItems: "এই মুহূর্তে এই পশুর জন্য কোনো টিকা বা কৃমিনাশক প্রযোজ্য নয়।",
+  overdue: "সময় পেরিয়ে গেছে",
+  dueSoon: "শীঘ্রই বাকি",
+  upcoming: "আসন্ন",
+  dueOn: "নির্ধারিত তারিখ",
+  lastGiven: "শেষবার দেওয়া হয়েছে",
+  markGiven: "দেওয়া হয়েছে চিহ্নিত করুন",
+  givenOn: "দেওয়ার তারিখ",
+  doseRecordedTitle: "ডোজ নথিভুক্ত হয়েছে",
+  vaccineFmd: "খুরারোগ (FMD)",
+  vaccineHs: "গলাফোলা রোগ (HS)",
+  vaccineBq: "বাদলা রোগ (BQ)",
+  vaccineBrucellosis: "ব্রুসেলোসিস",
+  vaccineLsd: "লাম্পি স্কিন রোগ (LSD)",
+  deworming: "কৃমিনাশ",
+  vaccineNotesFmd: "প্রথম ডোজের এক মাস পরে বুস্টার, তারপর প্রতি ছয় মাসে।",
+  vaccineNotesMonsoon: "প্রতি বছর, আক্রান্ত এলাকায় সম্ভব হলে বর্ষার আগে।",
+  vaccineNotesBrucellosis: "জীবনে একবার, চার থেকে আট মাস বয়সী বকনা বাছুরকে।",
+  vaccineNotesYearly: "প্রতি বছর।",
+  vaccineNotesDeworming: "প্রতি তিন মাসে; প্রতিরোধ এড়াতে ওষুধের শ্রেণি বদলাতে থাকুন।",
+  allVillages: "সব গ্রাম",
+  breedEncyclopedia: "জাত বিশ্বকোষ",
+  breedEncyclopediaDescription: "ভারতের সব নিবন্ধিত গরু ও মহিষের জাত দেখুন।",
+  searchBreeds: "জাত বা রাজ্য দিয়ে খুঁজুন...",
+  allSpecies: "সব প্রজাতি",
+  allPurposes: "সব উদ্দেশ্য",
+  purpose: "উদ্দেশ্য",
+  purposeMilk: "দুধ",
+  purposeDraught: "চাষ",
+  purposeDual: "দ্বৈত উদ্দেশ্য",
+  noBreedsMatch: "এই ফিল্টারে কোনো জাত মেলেনি।",
+  backToBreeds: "জাতের তালিকায় ফিরে যান",
+  breedNotFound: "এই জাতটি তালিকায় নেই।",
+  milkYield: "দুধ উৎপাদন",
+  litresPerDay: "লি/দিন",
+  snf: "এসএনএফ",
+  climateSuitability: "জলবায়ু উপযুক্ততা",
+  diseaseResistance: "রোগ প্রতিরোধ ক্ষমতা",
+  lifespan: "আয়ুষ্কাল",
+  marketPrice: "বাজার দর",
+  nativeTract: "আদি অঞ্চল",
+  physicalTraits: "শনাক্তকারী বৈশিষ্ট্য",
+  referencePhotos: "নমুনা ছবি",
+  noReferencePhotos: "এখনও কোনো নমুনা ছবি নেই।",
+  viewBreedPage: "এই জাত সম্পর্কে আরও পড়ুন",
+  unverifiedBreedInfo: "এই জাতটি আমাদের তালিকায় নেই, তাই এই বিবরণ এআই লিখেছে এবং ভুল হতে পারে।",
+};
@@ -0,0 +1,320 @@
+import type { LocalePack } from '@/lib/translations';
+
+export const gu: LocalePack = {
+  appName: "પશુ એઆઈ",
+  tagline: "ભારતીય પશુધન માટે એઆઈ આધારિત ઓલાદ ઓળખ",
+  navHome: "મુખ્ય પૃષ્ઠ",
+  navScanner: "સ્કેનર",
+  navDecisionSupport: "નિર્ણય સહાય",
+  navDiseaseDetection: "રોગ નિદાન",
+  navAnimals: "પશુઓ",
+  navBreeds: "ઓલાદો",
+  featureScanDescription: "તમારા કેમેરાથી અથવા ફોટો અપલોડ કરીને ગાય અને ભેંસની ઓલાદ તરત ઓળખો.",
+  featureRecommendDescription: "તમારા ખેતીના હેતુ અને પરિસ્થિતિ પ્રમાણે શ્રેષ્ઠ ઓલાદોની ભલામણો મેળવો.",
+  featureDiseaseDescription: "સામાન્ય રોગોનાં શરૂઆતનાં લક્ષણો ઓળખવા અને સંભાળનાં સૂચનો મેળવવા પશુનો ફોટો અપલોડ કરો.",
+  language: "ભાષા",
+  toggleMode: "ઓનલાઇન/ઓફલાઇન મોડ બદલો",
+  toggleTheme: "થીમ બદલો",
+  themeLight: "લાઇટ",
+  themeDark: "ડાર્ક",
+  themeSystem: "સિસ્ટમ",
+  online: "ઓનલાઇન",
+  offline: "ઓફલાઇન",
+  offlineModelUnavailable: "ઓફલાઇન ઓલાદ મોડેલ હજી આ ઉપકરણ પર ઉપલબ્ધ નથી. તેને ડાઉનલોડ કરવા એક વાર ઇન્ટરનેટ સાથે જોડાઓ, અથવા ઓનલાઇન મોડ પસંદ કરો.",
+  offlineLowConfidence: "ઓફલાઇન મોડેલ પૂરતી ખાતરી સાથે ઓલાદ ઓળખી શક્યું નહીં. પશુનો બાજુથી લીધેલો વધુ સ્પષ્ટ ફોટો અજમાવો.",
+  offlineFallbackTitle: "ઇન્ટરનેટ કનેક્શન નથી",
+  offlineFallbackDescription: "તેના બદલે ઉપકરણ પરનું મોડેલ વાપરવામાં આવે છે. તમે ફરી ઓનલાઇન થશો ત્યારે સ્કેન અપલોડ થશે.",
+  noConnectionTitle: "ઇન્ટરનેટ કનેક્શન નથી",
+  noConnectionDescription: "આ માટે ઇન્ટરનેટ કનેક્શન જરૂરી છે. તમારો ફોટો અને નોંધ અહીં સચવાયેલાં છે, તેથી ઓનલાઇન થાઓ ત્યારે ફરી પ્રયાસ કરો.",
+  scanAnimal: "પશુ સ્કેન કરો",
+  selectImage: "ફોટો અપલોડ કરો",
+  useCamera: "કેમેરા વાપરો",
+  positionAnimal: "પશુને ફ્રેમની અંદર રાખો અને ફોટો લો.",
+  capture: "ફોટો લો",
+  cancel: "રદ કરો",
+  or: "અથવા",
+  tryDemo: "ડેમો ફોટો સાથે અજમાવો:",
+  analyzing: "ફોટોનું વિશ્લેષણ થઈ રહ્યું છે...",
+  analyzingDescription: "અમારું એઆઈ ઓલાદ ઓળખી રહ્યું છે. કૃપા કરીને થોડી રાહ જુઓ.",
+  aiSuggestions: "એઆઈ સૂચનો",
+  confidence: "ખાતરી",
+  confirm: "પુષ્ટિ કરો",
+  correctionPrompt: "ઓલાદ સાચી નથી?",
+  correctBreed: "સાચી ઓલાદ",
+  selectCorrectBreed: "સાચી ઓલાદ પસંદ કરો",
+  unknownBreed: "અજાણી / સંકર",
+  submitCorrection: "સુધારો મોકલો",
+  correctionSubmittedTitle: "પ્રતિસાદ મળ્યો",
+  correctionSubmittedDescription: "આભાર! તમારી માહિતીથી અમારું એઆઈ શીખે છે અને સુધરે છે.",
+  correctionQueuedDescription: "આભાર! તમે ઓફલાઇન છો, તેથી તમારો સુધારો આ ઉપકરણ પર સચવાયો છે અને ઓનલાઇન થશો ત્યારે અપલોડ થશે.",
+  pendingSync: "અપલોડની રાહમાં",
+  failedSync: "સર્વરે નકારી",
+  discardFailedSync: "કાઢી નાખો",
+  discardFailedSyncDescription: "સર્વરે આ એન્ટ્રીઓ સ્વીકારી નથી, તેથી તે અપલોડ થશે નહીં. શું તેમને આ ઉપકરણમાંથી કાઢી નાખવી છે?",
+  errorTitle: "ભૂલ આવી",
+  errorDescription: "વિનંતી પૂર્ણ થઈ શકી નહીં. કૃપા કરીને ફરી પ્રયાસ કરો.",
+  serviceUnavailableError: "એઆઈ સેવા હાલમાં ઉપલબ્ધ નથી. કૃપા કરીને થોડી વાર પછી ફરી પ્રયાસ કરો.",
+  finalBreed: "ઓળખાયેલી ઓલાદ",
+  startOver: "ફરી શરૂ કરો",
+  uploading: "અપલોડ થઈ રહ્યું છે...",
+  invalidImage: "આપેલો ફોટો ગાય કે ભેંસનો માન્ય ફોટો નથી. કૃપા કરીને ફરી પ્રયાસ કરો.",
+  invalidImageTitle: "અમાન્ય ફોટો",
+  tryAgain: "કૃપા કરીને બીજા ફોટો સાથે ફરી પ્રયાસ કરો.",
+  size: "કદ",
+  colors: "રંગ",
+  nutrition: "પોષણ",
+  noInfo: "આ ઓલાદની માહિતી ઉપલબ્ધ નથી.",
+  cameraAccessDeniedTitle: "કેમેરાની પરવાનગી નકારી",
+  cameraAccessDeniedDescription: "આ સુવિધા વાપરવા માટે કૃપા કરીને બ્રાઉઝર સેટિંગ્સમાં કેમેરાની પરવાનગી ચાલુ કરો.",
+  cameraAccessRequiredTitle: "કેમેરાની પરવાનગી જરૂરી",
+  cameraAccessRequiredDescription: "આ સુવિધા વાપરવા માટે કૃપા કરીને કેમેરા વાપરવાની પરવાનગી આપો. તે માટે બ્રાઉઝર સેટિંગ્સ બદલવી પડી શકે.",
+  rotateCamera: "કેમેરા ફેરવો",
+  uploadedAnimalAlt: "અપલોડ કરેલું પશુ",
+  breedRecommendationEngine: "ઓલાદ ભલામણ પ્રણાલી",
+  findThePerfectBreed: "તમારા ખેતર માટે શ્રેષ્ઠ ઓલાદ શોધવા થોડા પ્રશ્નોના જવાબ આપો.",
+  primaryGoal: "મુખ્ય હેતુ",
+  selectGoalPlaceholder: "તમારો મુખ્ય હેતુ પસંદ કરો...",
+  highMilkYield: "વધુ દૂધ ઉત્પાદન",
+  draughtStrength: "ખેતીકામ માટે તાકાત",
+  dualPurpose: "બેવડો હેતુ (દૂધ અને ખેતીકામ)",
+  lowMaintenance: "ઓછી સંભાળ / ખર્ચ",
+  budgetPerAnimalInRupees: "પશુ દીઠ બજેટ (₹ માં)",
+  landSizeInAcres: "જમીન (એકરમાં)",
+  acres: "એકર",
+  singleAnimal: "એક પશુ",
+  herdPlanner: "ટોળું આયોજક",
+  totalBudgetInRupees: "આખા ટોળાનું બજેટ (₹ માં)",
+  fodderAvailability: "ઘાસચારાની ઉપલબ્ધતા",
+  fodderScarce: "ઓછો",
+  fodderAdequate: "પૂરતો",
+  fodderAbundant: "ભરપૂર",
+  labourAvailable: "પૂર્ણ સમયના કામદારો",
+  herdPlanTitle: "સૂચવેલું ટોળું",
+  noHerdPlan: "તમારા બજેટમાં આ પરિસ્થિતિને અનુકૂળ કોઈ પશુ ખરીદી શકાતું નથી. મોટું બજેટ અથવા બીજો હેતુ અજમાવો.",
+  animalsLandCanSustain: "પશુઓ તમારી જમીન નિભાવી શકે છે",
+  limitedBy: "મર્યાદા",
+  limitBudget: "બજેટ",
+  limitLand: "જમીન અને ઘાસચારો",
+  limitLabour: "મજૂરી",
+  limitHerdSize: "યોજનાનું સૌથી મોટું ટોળું",
+  totalInvestment: "કુલ રોકાણ",
+  monthlyIncome: "માસિક આવક",
+  monthlyCost: "માસિક ખર્ચ",
+  monthlyProfit: "માસિક નફો",
+  paybackPeriod: "વળતર સમયગાળો",
+  months: "મહિના",
+  notProfitable: "નફાકારક નથી",
+  economicAssumptions: "આર્થિક ધારણાઓ",
+  savedRegions: "સાચવેલા પ્રદેશો",
+  regionName: "પ્રદેશ તરીકે સાચવો",
+  regionNamePlaceholder: "દા.ત., ગુજરાત",
+  deleteRegion: "આ પ્રદેશ કાઢી નાખો",
+  milkPricing: "દૂધનો ભાવ",
+  milkPricingFlat: "લિટર દીઠ એક જ ભાવ",
+  milkPricingFatSnf: "ફેટ/એસએનએફ ભાવ પત્રક (બે અક્ષ)",
+  pricePerLitre: "લિટર દીઠ ભાવ (₹)",
+  fatRatePerKg: "કિલો ફેટ દીઠ ભાવ (₹)",
+  snfRatePerKg: "કિલો એસએનએફ દીઠ ભાવ (₹)",
+  feedCostPerDay: "પશુ દીઠ દૈનિક ખોરાક ખર્ચ (₹), ખોરાકની જરૂરિયાત પ્રમાણે",
+  labourCostPerMonth: "પશુ દીઠ માસિક મજૂરી (₹)",
+  vetCostPerMonth: "પશુ દીઠ માસિક પશુચિકિત્સા અને દવા (₹)",
+  insurancePercentPerYear: "વીમા પ્રીમિયમ (કિંમતના % વાર્ષિક)",
+  fatSnfAxis: "ફેટ % ↓ એસએનએફ % →",
+  milkPrice: "દૂધનો ભાવ",
+  litreShort: "લિ",
+  fat: "ફેટ",
+  discountRatePercent: "વટાવ દર (% વાર્ષિક)",
+  projectionYears: "અંદાજ સમયગાળો",
+  years: "વર્ષ",
+  cashFlowProjection: "રોકડ પ્રવાહ અંદાજ (એક પશુ)",
+  netCashFlow: "ચોખ્ખો રોકડ પ્રવાહ",
+  cumulativeCashFlow: "સંચિત",
+  npv: "ચોખ્ખું વર્તમાન મૂલ્ય (NPV)",
+  irr: "આંતરિક વળતર દર (IRR)",
+  year: "વર્ષ",
+  yearShort: "વ",
+  regionalClimate: "પ્રાદેશિક આબોહવા",
+  selectClimatePlaceholder: "તમારી આબોહવા પસંદ કરો...",
+  climateHotDry: "ગરમ અને સૂકી",
+  climateHotHumid: "ગરમ અને ભેજવાળી",
+  climateModerate: "મધ્યમ",
+  climateCold: "ઠંડી",
+  getRecommendations: "ભલામણો મેળવો",
+  findingBestBreeds: "તમારા માટે શ્રેષ્ઠ ઓલાદો શોધી રહ્યા છીએ...",
+  topRecommendations: "ટોચની ભલામણો",
+  overallScore: "કુલ ગુણ",
+  estimatedROI: "અંદાજિત ROI",
+  pros: "ફાયદા",
+  cons: "ગેરફાયદા",
+  careLevel: "સંભાળનું સ્તર",
+  Low: "ઓછું",
+  Medium: "મધ્યમ",
+  High: "વધુ",
+  suitabilityScorecard: "અનુકૂળતા ગુણપત્રક",
+  milkYieldScore: "દૂધ ઉત્પાદન",
+  strengthScore: "તાકાત",
+  careRequirementScore: "ઓછી સંભાળની જરૂર",
+  roiScore: "નફાકારકતા (ROI)",
+  climateMatchScore: "આબોહવા અનુકૂળતા",
+  noBreedsFoundTitle: "મેળ ખાતી ઓલાદ મળી નહીં",
+  noBreedsFoundDescription: "તમારા માપદંડ સાથે મેળ ખાતી કોઈ ઓલાદ મળી નહીં. કૃપા કરીને ફિલ્ટર બદલી જુઓ.",
+  compare: "સરખામણી કરો",
+  compareBreeds: "ઓલાદોની સરખામણી કરો",
+  feature: "લક્ષણ",
+  diseaseDetection: "રોગ નિદાન",
+  detectDisease: "રોગ ઓળખો",
+  detectDiseaseDescription: "એઆઈ આધારિત આરોગ્ય નિદાન માટે ફોટો અપલોડ કરો અને લક્ષણોનું વર્ણન ઉમેરો.",
+  addDescription: "લક્ષણોનું વર્ણન ઉમેરો (વૈકલ્પિક)",
+  symptomDescriptionPlaceholder: "દા.ત., પશુ સુસ્ત છે, બરાબર ખાતું નથી, ઉધરસ છે...",
+  speakSymptoms: "લક્ષણો બોલો",
+  stopRecording: "રેકોર્ડિંગ બંધ કરો",
+  listening: "સાંભળી રહ્યા છીએ...",
+  transcribing: "લખી રહ્યા છીએ...",
+  microphoneAccessDeniedTitle: "માઇક્રોફોનની પરવાનગી નકારાઈ",
+  microphoneAccessDeniedDescription: "લક્ષણો બોલીને જણાવવા માટે કૃપા કરીને બ્રાઉઝર સેટિંગ્સમાં માઇક્રોફોનની પરવાનગી આપો.",
+  transcriptionFailed: "રેકોર્ડિંગ લખી શકાયું નથી. કૃપા કરીને ફરી પ્રયાસ કરો અથવા લક્ષણો ટાઇપ કરો.",
+  voiceNote: "અવાજ નોંધ",
+  removeVoiceNote: "અવાજ નોંધ દૂર કરો",
+  getDiagnosis: "નિદાન મેળવો",
+  analyzingHealth: "પશુના આરોગ્યનું વિશ્લેષણ થઈ રહ્યું છે...",
+  analyzingHealthDescription: "અમારું એઆઈ ફોટો અને લક્ષણોનું વિશ્લેષણ કરી રહ્યું છે. કૃપા કરીને થોડી રાહ જુઓ.",
+  diagnosisResult: "નિદાનનું પરિણામ",
+  noDiseaseDetected: "કોઈ રોગ જણાયો નથી",
+  preventiveCare: "નિવારક સંભાળ",
+  disease: "રોગ",
+  urgency: "તાકીદ",
+  description: "વર્ણન",
+  firstAid: "પ્રાથમિક સારવાર / સંભાળ",
+  veterinaryAttention: "પશુચિકિત્સકની સારવાર",
+  listen: "સાંભળો",
+  stopReading: "બંધ કરો",
+  listenTo: "સાંભળો:",
+  readingSpeed: "વાંચવાની ઝડપ",
+  speedSlow: "ધીમી",
+  speedNormal: "સામાન્ય",
+  speedFast: "ઝડપી",
+  immediateAttentionRequired: "તાત્કાલિક પશુચિકિત્સકની સારવાર જરૂરી છે.",
+  attentionRecommended: "પશુચિકિત્સકને બતાવવાની ભલામણ છે.",
+  monitorAnimal: "પશુ પર નજીકથી ધ્યાન રાખો.",
+  addSymptoms: "સામાન્ય લક્ષણો ઉમેરો",
+  commonSymptoms: "સામાન્ય લક્ષણો",
+  selectedSymptoms: "પસંદ કરેલાં લક્ષણો",
+  symptomLethargy: "સુસ્તી/નબળાઈ",
+  symptomAppetiteLoss: "ભૂખ ન લાગવી",
+  symptomCoughing: "ઉધરસ",
+  symptomSores: "ચાંદાં કે ઘા",
+  symptomLimping: "લંગડાવું",
+  symptomSwelling: "સોજો",
+  symptomDischarge: "અસામાન્ય સ્રાવ",
+  symptomDiarrhea: "ઝાડા",
+  emergencyHelpline: "ઇમરજન્સી હેલ્પલાઇન",
+  findVet: "પશુચિકિત્સા મદદ શોધો",
+  enterLocation: "નજીકની મદદ શોધવા તમારું શહેર, જિલ્લો અથવા પિનકોડ દાખલ કરો.",
+  locationPlaceholder: "દા.ત., 'આણંદ' અથવા '388001'",
+  findingHelp: "મદદ શોધી રહ્યા છીએ...",
+  noVetsFound: "આ સ્થળ માટે કોઈ હોસ્પિટલ કે દવાખાનું મળ્યું નથી. તમારા જિલ્લાનું નામ અજમાવો, અથવા ઉપરની હેલ્પલાઇન પર ફોન કરો.",
+  vetDirectoryNotLoaded: "આ ઍપમાં હજી પશુચિકિત્સા નિર્દેશિકા લોડ કરવામાં આવી નથી, તેથી ફક્ત રાષ્ટ્રીય હેલ્પલાઇન બતાવી છે. નજીકના પશુચિકિત્સા એકમ સુધી પહોંચવા તેના પર કૉલ કરો.",
+  Hospital: "હોસ્પિટલ",
+  Clinic: "ક્લિનિક",
+  Helpline: "હેલ્પલાઇન",
+  Dispensary: "દવાખાનું",
+  unverified: "ચકાસાયેલું નથી",
+  useMyLocation: "મારું સ્થાન વાપરો",
+  locationUnavailableTitle: "સ્થાન ઉપલબ્ધ નથી",
+  locationUnavailableDescription: "તેના બદલે તમારો પિનકોડ દાખલ કરો, અમે તેની આસપાસ શોધીશું.",
+  kmAway: "કિમી દૂર",
+  animals: "પશુઓ",
+  animalRegistry: "પશુ રજિસ્ટર",
+  animalRegistryDescription: "દરેક પશુની માહિતી રાખો: કાનનો ટેગ, ઓલાદ, માલિક અને ફોટા.",
+  searchAnimals: "કાનનો ટેગ, માલિક, ગામ અથવા ઓલાદથી શોધો...",
+  registerAnimal: "પશુ નોંધો",
+  noAnimalsFound: "કોઈ પશુ મળ્યું નથી. શરૂ કરવા એક પશુ નોંધો.",
+  earTag: "કાન ટેગ નંબર",
+  species: "પ્રજાતિ",
+  Cattle: "ગાય",
+  Buffalo: "ભેંસ",
+  breed: "ઓલાદ",
+  sex: "જાતિ",
+  Female: "માદા",
+  Male: "નર",
+  dateOfBirth: "જન્મ તારીખ",
+  age: "ઉંમર",
+  yearsShort: "વર્ષ",
+  monthsShort: "મહિના",
+  owner: "માલિક",
+  village: "ગામ",
+  photos: "ફોટા",
+  noPhotos: "હજી કોઈ ફોટા નથી.",
+  addPhoto: "ફોટો ઉમેરો",
+  save: "સાચવો",
+  edit: "ફેરફાર કરો",
+  saveToAnimalProfile: "પશુની માહિતીમાં સાચવો",
+  existingAnimal: "હાલનું પશુ",
+  newAnimal: "નવું પશુ",
+  attach: "જોડો",
+  animalSavedTitle: "પશુની માહિતી સચવાઈ",
+  animalSavedDescription: "ઓલાદ અને ફોટો પશુની માહિતીમાં સાચવવામાં આવ્યાં છે.",
+  breedSpeciesMismatch: "સ્કેન કરેલી જાત આ પશુની પ્રજાતિ સાથે મેળ ખાતી નથી. બીજું પશુ પસંદ કરો અથવા નવું પશુ નોંધો.",
+  viewProfile: "માહિતી જુઓ",
+  backToRegistry: "રજિસ્ટર પર પાછા",
+  animalNotFound: "આ પશુ મળ્યું નથી.",
+  loading: "લોડ થઈ રહ્યું છે...",
+  healthHistory: "આરોગ્ય ઇતિહાસ",
+  noHealthRecords: "આ પશુ માટે હજી કોઈ નિદાન સાચવ્યું નથી.",
+  saveToHealthHistory: "આરોગ્ય ઇતિહાસમાં સાચવો",
+  diagnosisSavedTitle: "નિદાન સચવાયું",
+  diagnosisSavedDescription: "નિદાન પશુના આરોગ્ય ઇતિહાસમાં ઉમેરાયું છે.",
+  statusPending: "પશુચિકિત્સકની રાહમાં",
+  statusVetConfirmed: "પશુચિકિત્સકે પુષ્ટિ કરી",
+  statusRuledOut: "નકારાયું",
+  statusResolved: "સાજું થયું",
+  vaccinationSchedule: "રસીકરણ અને કૃમિનાશક",
+  vaccinationReminders: "રસીકરણ યાદ અપાવનાર",
+  noRemindersDue: "આગામી બે અઠવાડિયામાં કોઈ રસીકરણ કે કૃમિનાશક બાકી નથી.",
+  noScheduleItems: "હાલમાં આ પશુને કોઈ રસીકરણ કે કૃમિનાશક લાગુ પડતું નથી.",
+  overdue: "મુદત વીતી ગઈ",
+  dueSoon: "ટૂંક સમયમાં બાકી",
+  upcoming: "આગામી",
+  dueOn: "બાકી તારીખ",
+  lastGiven: "છેલ્લે આપ્યું",
+  markGiven: "આપ્યું તરીકે નોંધો",
+  givenOn: "આપ્યાની તારીખ",
+  doseRecordedTitle: "ડોઝ નોંધાયો",
+  vaccineFmd: "ખરવા-મોવાસા (FMD)",
+  vaccineHs: "ગળસૂંઢો (HS)",
+  vaccineBq: "ગાંઠિયો તાવ (BQ)",
+  vaccineBrucellosis: "બ્રુસેલોસિસ",
+  vaccineLsd: "લમ્પી ચામડીનો રોગ (LSD)",
+  deworming: "કૃમિનાશન",
+  vaccineNotesFmd: "પહેલા ડોઝના એક મહિના પછી બૂસ્ટર, પછી દર છ મહિને.",
+  vaccineNotesMonsoon: "દર વર્ષે, અસરગ્રસ્ત વિસ્તારોમાં શક્ય હોય તો ચોમાસા પહેલાં.",
+  vaccineNotesBrucellosis: "જીવનમાં એક જ વાર, ચારથી આઠ મહિનાની વાછરડીઓને.",
+  vaccineNotesYearly: "દર વર્ષે.",
+  vaccineNotesDeworming: "દર ત્રણ મહિને; પ્રતિકાર ટાળવા દવાનો વર્ગ બદલતા રહો.",
+  allVillages: "બધાં ગામ",
+  breedEncyclopedia: "ઓલાદ જ્ઞાનકોશ",
+  breedEncyclopediaDescription: "ભારતની બધી નોંધાયેલી ગાય અને ભેંસની ઓલાદો જુઓ.",
+  searchBreeds: "ઓલાદ અથવા રાજ્યથી શોધો...",
+  allSpecies: "બધી પ્રજાતિઓ",
+  allPurposes: "બધા હેતુ",
+  purpose: "હેતુ",
+  purposeMilk: "દૂધ",
+  purposeDraught: "ખેતીકામ",
+  purposeDual: "બેવડો હેતુ",
+  noBreedsMatch: "આ ફિલ્ટર સાથે કોઈ ઓલાદ મેળ ખાતી નથી.",
+  backToBreeds: "ઓલાદો પર પાછા",
+  breedNotFound: "આ ઓલાદ સૂચિમાં નથી.",
+  milkYield: "દૂધ ઉત્પાદન",
+  litresPerDay: "લિ/દિવસ",
+  snf: "એસએનએફ",
+  climateSuitability: "આબોહવા અનુકૂળતા",
+  diseaseResistance: "રોગપ્રતિકારક શક્તિ",
+  lifespan: "આયુષ્ય",
+  marketPrice: "બજાર ભાવ",
+  nativeTract: "મૂળ વિસ્તાર",
+  physicalTraits: "ઓળખનાં લક્ષણો",
+  referencePhotos: "સંદર્ભ ફોટા",
+  noReferencePhotos: "હજી કોઈ સંદર્ભ ફોટા નથી.",
+  viewBreedPage: "આ ઓલાદ વિશે વધુ વાંચો",
+  unverifiedBreedInfo: "આ ઓલાદ અમારી સૂચિમાં નથી, તેથી આ વિગતો એઆઈએ લખી છે અને ખોટી હોઈ શકે છે.",
+};
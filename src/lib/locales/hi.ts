@@ -0,0 +1,320 @@
+import type { LocalePack } from '@/lib/translations';
+
+export const hi: LocalePack = {
+  appName: "पशु एआई",
+  tagline: "भारतीय पशुधन के लिए एआई-संचालित नस्ल पहचान",
+  navHome: "होम",
+  navScanner: "स्कैनर",
+  navDecisionSupport: "निर्णय सहायता",
+  navDiseaseDetection: "रोग पहचान",
+  navAnimals: "पशु",
+  navBreeds: "नस्लें",
+  featureScanDescription: "अपने कैमरे से या फ़ोटो अपलोड करके तुरंत गाय और भैंस की नस्ल पहचानें।",
+  featureRecommendDescription: "अपने खेती के लक्ष्यों और परिस्थितियों के अनुसार सबसे अच्छी नस्लों की सिफारिशें पाएं।",
+  featureDiseaseDescription: "आम बीमारियों के शुरुआती लक्षण पहचानने और देखभाल के सुझाव पाने के लिए पशु की फ़ोटो अपलोड करें।",
+  language: "भाषा",
+  toggleMode: "ऑनलाइन/ऑफ़लाइन मोड बदलें",
+  toggleTheme: "थीम बदलें",
+  themeLight: "लाइट",
+  themeDark: "डार्क",
+  themeSystem: "सिस्टम",
+  online: "ऑनलाइन",
+  offline: "ऑफलाइन",
+  offlineModelUnavailable: "ऑफलाइन नस्ल मॉडल अभी इस डिवाइस पर उपलब्ध नहीं है। इसे डाउनलोड करने के लिए एक बार इंटरनेट से जुड़ें, या ऑनलाइन मोड पर जाएं।",
+  offlineLowConfidence: "ऑफलाइन मॉडल पर्याप्त विश्वास के साथ नस्ल नहीं पहचान सका। पशु की बगल से ली गई एक साफ तस्वीर के साथ प्रयास करें।",
+  offlineFallbackTitle: "इंटरनेट कनेक्शन नहीं है",
+  offlineFallbackDescription: "इसके बजाय डिवाइस पर मौजूद मॉडल का उपयोग किया जा रहा है। ऑनलाइन होने पर स्कैन अपलोड हो जाएगा।",
+  noConnectionTitle: "इंटरनेट कनेक्शन नहीं है",
+  noConnectionDescription: "इसके लिए इंटरनेट कनेक्शन चाहिए। आपकी तस्वीर और विवरण यहीं सुरक्षित हैं, ऑनलाइन होने पर पुनः प्रयास करें।",
+  scanAnimal: "पशु को स्कैन करें",
+  selectImage: "छवि अपलोड करें",
+  useCamera: "कैमरे का उपयोग करें",
+  positionAnimal: "जानवर को फ्रेम में रखें और तस्वीर खींचे।",
+  capture: "कैप्चर",
+  cancel: "रद्द करें",
+  or: "या",
+  tryDemo: "डेमो छवि के साथ प्रयास करें:",
+  analyzing: "छवि का विश्लेषण हो रहा है...",
+  analyzingDescription: "हमारा एआई नस्ल की पहचान कर रहा है। कृपया प्रतीक्षा करें।",
+  aiSuggestions: "एआई सुझाव",
+  confidence: "आत्मविश्वास",
+  confirm: "पुष्टि करें",
+  correctionPrompt: "सही नस्ल नहीं है?",
+  correctBreed: "नस्ल सुधारें",
+  selectCorrectBreed: "सही नस्ल चुनें",
+  unknownBreed: "अज्ञात / संकर नस्ल",
+  submitCorrection: "सुधार जमा करें",
+  correctionSubmittedTitle: "प्रतिक्रिया प्राप्त हुई",
+  correctionSubmittedDescription: "धन्यवाद! आपकी प्रतिक्रिया हमारे एआई को सीखने और सुधारने में मदद करती है।",
+  correctionQueuedDescription: "धन्यवाद! आप ऑफलाइन हैं, इसलिए आपका सुधार इस डिवाइस पर सहेजा गया है और ऑनलाइन होने पर अपलोड हो जाएगा।",
+  pendingSync: "अपलोड की प्रतीक्षा में",
+  failedSync: "सर्वर ने अस्वीकार किए",
+  discardFailedSync: "हटाएं",
+  discardFailedSyncDescription: "सर्वर ने इन प्रविष्टियों को स्वीकार नहीं किया, इसलिए ये अपलोड नहीं होंगी। क्या इन्हें इस डिवाइस से हटा दें?",
+  errorTitle: "एक त्रुटि हुई",
+  errorDescription: "अनुरोध पूरा नहीं हो सका। कृपया पुनः प्रयास करें।",
+  serviceUnavailableError: "एआई सेवा वर्तमान में अनुपलब्ध है। कृपया कुछ क्षण बाद पुनः प्रयास करें।",
+  finalBreed: "पहचानी गई नस्ल",
+  startOver: "फिर से शुरू करें",
+  uploading: "अपलोड हो रहा है...",
+  invalidImage: "प्रदान की गई छवि मवेशी या भैंस की वैध छवि नहीं है। कृपया पुन: प्रयास करें।",
+  invalidImageTitle: "अमान्य छवि",
+  tryAgain: "कृपया एक अलग छवि के साथ पुनः प्रयास करें।",
+  size: "आकार",
+  colors: "रंग",
+  nutrition: "पोषण",
+  noInfo: "इस नस्ल के लिए जानकारी उपलब्ध नहीं है।",
+  cameraAccessDeniedTitle: "कैमरा एक्सेस अस्वीकृत",
+  cameraAccessDeniedDescription: "इस सुविधा का उपयोग करने के लिए कृपया अपनी ब्राउज़र सेटिंग्स में कैमरा अनुमतियों को सक्षम करें।",
+  cameraAccessRequiredTitle: "कैमरा एक्सेस आवश्यक है",
+  cameraAccessRequiredDescription: "इस सुविधा का उपयोग करने के लिए कृपया कैमरा एक्सेस की अनुमति दें। आपको अपनी ब्राउज़र सेटिंग्स में अनुमतियां बदलने की आवश्यकता हो सकती है।",
+  rotateCamera: "कैमरा घुमाएँ",
+  uploadedAnimalAlt: "अपलोड किया गया जानवर",
+  breedRecommendationEngine: "नस्ल सिफारिश इंजन",
+  findThePerfectBreed: "अपने खेत के लिए उपयुक्त नस्ल खोजने के लिए कुछ सवालों के जवाब दें।",
+  primaryGoal: "प्राथमिक लक्ष्य",
+  selectGoalPlaceholder: "अपना प्राथमिक लक्ष्य चुनें...",
+  highMilkYield: "उच्च दूध उपज",
+  draughtStrength: "खेती-किसानी की ताकत",
+  dualPurpose: "दोहरे उद्देश्य (दूध और खेती)",
+  lowMaintenance: "कम रखरखाव / लागत",
+  budgetPerAnimalInRupees: "प्रति पशु बजट (₹ में)",
+  landSizeInAcres: "एकड़ में भूमि का आकार",
+  acres: "एकड़",
+  singleAnimal: "एक पशु",
+  herdPlanner: "झुंड योजनाकार",
+  totalBudgetInRupees: "पूरे झुंड का कुल बजट (₹ में)",
+  fodderAvailability: "चारे की उपलब्धता",
+  fodderScarce: "कम",
+  fodderAdequate: "पर्याप्त",
+  fodderAbundant: "भरपूर",
+  labourAvailable: "पूर्णकालिक श्रमिक",
+  herdPlanTitle: "सुझाया गया झुंड",
+  noHerdPlan: "आपके बजट में इन परिस्थितियों के अनुकूल कोई पशु नहीं खरीदा जा सकता। बड़ा बजट या कोई दूसरा लक्ष्य आज़माएँ।",
+  animalsLandCanSustain: "पशु जिन्हें आपकी भूमि पाल सकती है",
+  limitedBy: "सीमित कारक",
+  limitBudget: "बजट",
+  limitLand: "भूमि और चारा",
+  limitLabour: "श्रम",
+  limitHerdSize: "योजना का सबसे बड़ा झुंड",
+  totalInvestment: "कुल निवेश",
+  monthlyIncome: "मासिक आय",
+  monthlyCost: "मासिक लागत",
+  monthlyProfit: "मासिक लाभ",
+  paybackPeriod: "लागत वसूली अवधि",
+  months: "महीने",
+  notProfitable: "लाभदायक नहीं",
+  economicAssumptions: "आर्थिक मान्यताएँ",
+  savedRegions: "सहेजे गए क्षेत्र",
+  regionName: "क्षेत्र के रूप में सहेजें",
+  regionNamePlaceholder: "जैसे, पंजाब",
+  deleteRegion: "यह क्षेत्र हटाएँ",
+  milkPricing: "दूध का मूल्य निर्धारण",
+  milkPricingFlat: "प्रति लीटर एक समान मूल्य",
+  milkPricingFatSnf: "फैट/SNF दर चार्ट (दो-अक्ष)",
+  pricePerLitre: "प्रति लीटर मूल्य (₹)",
+  fatRatePerKg: "प्रति किलो फैट दर (₹)",
+  snfRatePerKg: "प्रति किलो SNF दर (₹)",
+  feedCostPerDay: "प्रति पशु प्रति दिन चारे की लागत (₹), चारे की आवश्यकता के अनुसार",
+  labourCostPerMonth: "प्रति पशु प्रति माह श्रम (₹)",
+  vetCostPerMonth: "प्रति पशु प्रति माह पशु चिकित्सा और दवाइयाँ (₹)",
+  insurancePercentPerYear: "बीमा प्रीमियम (मूल्य का % प्रति वर्ष)",
+  fatSnfAxis: "फैट % ↓ SNF % →",
+  milkPrice: "दूध का मूल्य",
+  litreShort: "ली",
+  fat: "फैट",
+  discountRatePercent: "छूट दर (% प्रति वर्ष)",
+  projectionYears: "अनुमान अवधि",
+  years: "वर्ष",
+  cashFlowProjection: "नकदी प्रवाह अनुमान (एक पशु)",
+  netCashFlow: "शुद्ध नकदी प्रवाह",
+  cumulativeCashFlow: "संचयी",
+  npv: "शुद्ध वर्तमान मूल्य (NPV)",
+  irr: "आंतरिक प्रतिफल दर (IRR)",
+  year: "वर्ष",
+  yearShort: "व",
+  regionalClimate: "क्षेत्रीय जलवायु",
+  selectClimatePlaceholder: "अपनी जलवायु चुनें...",
+  climateHotDry: "गर्म और शुष्क",
+  climateHotHumid: "गर्म और आर्द्र",
+  climateModerate: "मध्यम",
+  climateCold: "ठंडा",
+  getRecommendations: "सिफारिशें प्राप्त करें",
+  findingBestBreeds: "आपके लिए सर्वोत्तम नस्लें ढूंढ रहे हैं...",
+  topRecommendations: "शीर्ष सिफारिशें",
+  overallScore: "कुल स्कोर",
+  estimatedROI: "अनुमानित ROI",
+  pros: "फायदे",
+  cons: "नुकसान",
+  careLevel: "देखभाल का स्तर",
+  Low: "कम",
+  Medium: "मध्यम",
+  High: "उच्च",
+  suitabilityScorecard: "उपयुक्तता स्कोरकार्ड",
+  milkYieldScore: "दूध की पैदावार",
+  strengthScore: "शक्ति",
+  careRequirementScore: "कम देखभाल की जरूरत",
+  roiScore: "लाभप्रदता (ROI)",
+  climateMatchScore: "जलवायु अनुकूलता",
+  noBreedsFoundTitle: "कोई मेल खाने वाली नस्लें नहीं मिलीं",
+  noBreedsFoundDescription: "हमें कोई ऐसी नस्ल नहीं मिली जो आपके मानदंडों से मेल खाती हो। कृपया अपने फ़िल्टर समायोजित करने का प्रयास करें।",
+  compare: "तुलना",
+  compareBreeds: "नस्लों की तुलना करें",
+  feature: "विशेषता",
+  diseaseDetection: "रोग का निदान",
+  detectDisease: "रोग का निदान करें",
+  detectDiseaseDescription: "एआई-संचालित स्वास्थ्य निदान प्राप्त करने के लिए एक छवि अपलोड करें और विवरण जोड़ें।",
+  addDescription: "लक्षणों का विवरण जोड़ें (वैकल्पिक)",
+  symptomDescriptionPlaceholder: "जैसे, जानवर सुस्त है, ठीक से नहीं खा रहा है, खांसी है...",
+  speakSymptoms: "लक्षण बोलें",
+  stopRecording: "रिकॉर्डिंग रोकें",
+  listening: "सुन रहे हैं...",
+  transcribing: "लिख रहे हैं...",
+  microphoneAccessDeniedTitle: "माइक्रोफ़ोन की अनुमति नहीं मिली",
+  microphoneAccessDeniedDescription: "लक्षण बोलकर बताने के लिए कृपया अपने ब्राउज़र की सेटिंग में माइक्रोफ़ोन की अनुमति दें।",
+  transcriptionFailed: "रिकॉर्डिंग को लिखा नहीं जा सका। कृपया फिर से कोशिश करें या लक्षण टाइप करें।",
+  voiceNote: "आवाज़ नोट",
+  removeVoiceNote: "आवाज़ नोट हटाएं",
+  getDiagnosis: "निदान प्राप्त करें",
+  analyzingHealth: "पशु के स्वास्थ्य का विश्लेषण हो रहा है...",
+  analyzingHealthDescription: "हमारा AI छवि और लक्षणों का विश्लेषण कर रहा है। कृपया प्रतीक्षा करें।",
+  diagnosisResult: "निदान परिणाम",
+  noDiseaseDetected: "कोई रोग नहीं पाया गया",
+  preventiveCare: "निवारक देखभाल",
+  disease: "रोग",
+  urgency: "तत्काल आवश्यकता",
+  description: "विवरण",
+  firstAid: "प्राथमिक उपचार / देखभाल",
+  veterinaryAttention: "पशु चिकित्सा ध्यान",
+  listen: "सुनें",
+  stopReading: "रोकें",
+  listenTo: "सुनें:",
+  readingSpeed: "पढ़ने की गति",
+  speedSlow: "धीमी",
+  speedNormal: "सामान्य",
+  speedFast: "तेज़",
+  immediateAttentionRequired: "तत्काल पशु चिकित्सा ध्यान देने की आवश्यकता है।",
+  attentionRecommended: "पशु चिकित्सा ध्यान देने की सिफारिश की जाती है।",
+  monitorAnimal: "जानवर पर कड़ी नजर रखें।",
+  addSymptoms: "सामान्य लक्षण जोड़ें",
+  commonSymptoms: "सामान्य लक्षण",
+  selectedSymptoms: "चयनित लक्षण",
+  symptomLethargy: "सुस्ती/कमजोरी",
+  symptomAppetiteLoss: "भूख न लगना",
+  symptomCoughing: "खांसी",
+  symptomSores: "घाव या छाले",
+  symptomLimping: "लंगड़ापन",
+  symptomSwelling: "सूजन",
+  symptomDischarge: "असामान्य स्राव",
+  symptomDiarrhea: "दस्त",
+  emergencyHelpline: "आपातकालीन हेल्पलाइन",
+  findVet: "पशु चिकित्सा सहायता खोजें",
+  enterLocation: "आस-पास सहायता खोजने के लिए अपना शहर, जिला या पिनकोड दर्ज करें।",
+  locationPlaceholder: "जैसे, 'पुणे' या '411001'",
+  findingHelp: "सहायता ढूंढी जा रही है...",
+  noVetsFound: "इस स्थान के लिए कोई अस्पताल या औषधालय नहीं मिला। अपने जिले का नाम आज़माएँ, या ऊपर दी गई हेल्पलाइन पर कॉल करें।",
+  vetDirectoryNotLoaded: "इस ऐप में अभी पशु चिकित्सा निर्देशिका लोड नहीं की गई है, इसलिए केवल राष्ट्रीय हेल्पलाइन दिखाई गई है। नज़दीकी पशु चिकित्सा इकाई से जुड़ने के लिए उस पर कॉल करें।",
+  Hospital: "अस्पताल",
+  Clinic: "क्लिनिक",
+  Helpline: "हेल्पलाइन",
+  Dispensary: "औषधालय",
+  unverified: "असत्यापित",
+  useMyLocation: "मेरा स्थान उपयोग करें",
+  locationUnavailableTitle: "स्थान उपलब्ध नहीं",
+  locationUnavailableDescription: "इसके बजाय अपना पिनकोड दर्ज करें, हम उसके आस-पास खोजेंगे।",
+  kmAway: "किमी दूर",
+  animals: "पशु",
+  animalRegistry: "पशु रजिस्टर",
+  animalRegistryDescription: "हर पशु की प्रोफ़ाइल रखें: कान का टैग, नस्ल, मालिक और तस्वीरें।",
+  searchAnimals: "कान टैग, मालिक, गाँव या नस्ल से खोजें...",
+  registerAnimal: "पशु पंजीकृत करें",
+  noAnimalsFound: "कोई पशु नहीं मिला। शुरू करने के लिए एक पशु पंजीकृत करें।",
+  earTag: "कान टैग आईडी",
+  species: "प्रजाति",
+  Cattle: "गोवंश",
+  Buffalo: "भैंस",
+  breed: "नस्ल",
+  sex: "लिंग",
+  Female: "मादा",
+  Male: "नर",
+  dateOfBirth: "जन्म तिथि",
+  age: "आयु",
+  yearsShort: "वर्ष",
+  monthsShort: "माह",
+  owner: "मालिक",
+  village: "गाँव",
+  photos: "तस्वीरें",
+  noPhotos: "अभी कोई तस्वीर नहीं है।",
+  addPhoto: "तस्वीर जोड़ें",
+  save: "सहेजें",
+  edit: "संपादित करें",
+  saveToAnimalProfile: "पशु प्रोफ़ाइल में सहेजें",
+  existingAnimal: "मौजूदा पशु",
+  newAnimal: "नया पशु",
+  attach: "जोड़ें",
+  animalSavedTitle: "पशु प्रोफ़ाइल सहेजी गई",
+  animalSavedDescription: "नस्ल और तस्वीर पशु की प्रोफ़ाइल में सहेज दी गई हैं।",
+  breedSpeciesMismatch: "स्कैन की गई नस्ल इस पशु की प्रजाति से मेल नहीं खाती। कोई दूसरा पशु चुनें या नया पशु दर्ज करें।",
+  viewProfile: "प्रोफ़ाइल देखें",
+  backToRegistry: "रजिस्टर पर वापस जाएं",
+  animalNotFound: "यह पशु नहीं मिला।",
+  loading: "लोड हो रहा है...",
+  healthHistory: "स्वास्थ्य इतिहास",
+  noHealthRecords: "इस पशु के लिए अभी तक कोई निदान सहेजा नहीं गया है।",
+  saveToHealthHistory: "स्वास्थ्य इतिहास में सहेजें",
+  diagnosisSavedTitle: "निदान सहेजा गया",
+  diagnosisSavedDescription: "निदान को पशु के स्वास्थ्य इतिहास में जोड़ दिया गया है।",
+  statusPending: "पशु चिकित्सक की प्रतीक्षा",
+  statusVetConfirmed: "पशु चिकित्सक द्वारा पुष्टि",
+  statusRuledOut: "खारिज",
+  statusResolved: "ठीक हो गया",
+  vaccinationSchedule: "टीकाकरण और कृमिनाशन",
+  vaccinationReminders: "टीकाकरण अनुस्मारक",
+  noRemindersDue: "अगले दो सप्ताह में कोई टीकाकरण या कृमिनाशन देय नहीं है।",
+  noScheduleItems: "इस पशु के लिए अभी कोई टीकाकरण या कृमिनाशन लागू नहीं है।",
+  overdue: "समय सीमा पार",
+  dueSoon: "जल्द देय",
+  upcoming: "आगामी",
+  dueOn: "देय तिथि",
+  lastGiven: "पिछली खुराक",
+  markGiven: "दिया गया चिह्नित करें",
+  givenOn: "दी गई तिथि",
+  doseRecordedTitle: "खुराक दर्ज की गई",
+  vaccineFmd: "खुरपका-मुंहपका (FMD)",
+  vaccineHs: "गलघोंटू (HS)",
+  vaccineBq: "लंगड़ी बुखार (BQ)",
+  vaccineBrucellosis: "ब्रुसेलोसिस",
+  vaccineLsd: "लम्पी त्वचा रोग (LSD)",
+  deworming: "कृमिनाशन",
+  vaccineNotesFmd: "पहली खुराक के एक महीने बाद बूस्टर, फिर हर छह महीने।",
+  vaccineNotesMonsoon: "हर साल, प्रभावित क्षेत्रों में हो सके तो मानसून से पहले।",
+  vaccineNotesBrucellosis: "जीवन में एक बार, चार से आठ महीने की बछियों को।",
+  vaccineNotesYearly: "हर साल।",
+  vaccineNotesDeworming: "हर तीन महीने; प्रतिरोध से बचने के लिए दवा का वर्ग बदलते रहें।",
+  allVillages: "सभी गाँव",
+  breedEncyclopedia: "नस्ल विश्वकोश",
+  breedEncyclopediaDescription: "भारत की सभी पंजीकृत गाय और भैंस नस्लें देखें।",
+  searchBreeds: "नस्ल या राज्य से खोजें...",
+  allSpecies: "सभी प्रजातियाँ",
+  allPurposes: "सभी उद्देश्य",
+  purpose: "उद्देश्य",
+  purposeMilk: "दूध",
+  purposeDraught: "भारवाहक",
+  purposeDual: "दोहरा उद्देश्य",
+  noBreedsMatch: "इन फ़िल्टर से कोई नस्ल मेल नहीं खाती।",
+  backToBreeds: "नस्लों पर वापस जाएँ",
+  breedNotFound: "यह नस्ल सूची में नहीं है।",
+  milkYield: "दूध उत्पादन",
+  litresPerDay: "ली/दिन",
+  snf: "एसएनएफ",
+  climateSuitability: "जलवायु उपयुक्तता",
+  diseaseResistance: "रोग प्रतिरोधक क्षमता",
+  lifespan: "जीवनकाल",
+  marketPrice: "बाज़ार मूल्य",
+  nativeTract: "मूल क्षेत्र",
+  physicalTraits: "पहचान के लक्षण",
+  referencePhotos: "संदर्भ फ़ोटो",
+  noReferencePhotos: "अभी कोई संदर्भ फ़ोटो नहीं है।",
+  viewBreedPage: "इस नस्ल के बारे में और पढ़ें",
+  unverifiedBreedInfo: "यह नस्ल हमारी सूची में नहीं है, इसलिए ये विवरण एआई द्वारा लिखे गए हैं और गलत हो सकते हैं।",
+};
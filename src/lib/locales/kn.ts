@@ -0,0 +1,320 @@
+import type { LocalePack } from '@/lib/translations';
+
+export const kn: LocalePack = {
+  appName: "ಪಶು ಎಐ",
+  tagline: "ಭಾರತೀಯ ಜಾನುವಾರುಗಳಿಗೆ ಎಐ ಆಧಾರಿತ ತಳಿ ಗುರುತಿಸುವಿಕೆ",
+  navHome: "ಮುಖಪುಟ",
+  navScanner: "ಸ್ಕ್ಯಾನರ್",
+  navDecisionSupport: "ನಿರ್ಧಾರ ಸಹಾಯ",
+  navDiseaseDetection: "ರೋಗ ಪತ್ತೆ",
+  navAnimals: "ಪ್ರಾಣಿಗಳು",
+  navBreeds: "ತಳಿಗಳು",
+  featureScanDescription: "ನಿಮ್ಮ ಕ್ಯಾಮೆರಾದಿಂದ ಅಥವಾ ಫೋಟೋ ಅಪ್‌ಲೋಡ್ ಮಾಡಿ ಹಸು ಮತ್ತು ಎಮ್ಮೆ ತಳಿಗಳನ್ನು ತಕ್ಷಣ ಗುರುತಿಸಿ.",
+  featureRecommendDescription: "ನಿಮ್ಮ ಕೃಷಿ ಉದ್ದೇಶಗಳು ಮತ್ತು ಪರಿಸ್ಥಿತಿಗೆ ತಕ್ಕ ಉತ್ತಮ ತಳಿಗಳ ಶಿಫಾರಸುಗಳನ್ನು ಪಡೆಯಿರಿ.",
+  featureDiseaseDescription: "ಸಾಮಾನ್ಯ ರೋಗಗಳ ಆರಂಭಿಕ ಲಕ್ಷಣಗಳನ್ನು ಪತ್ತೆಮಾಡಿ ಆರೈಕೆಯ ಸಲಹೆಗಳನ್ನು ಪಡೆಯಲು ಪ್ರಾಣಿಯ ಫೋಟೋ ಅಪ್‌ಲೋಡ್ ಮಾಡಿ.",
+  language: "ಭಾಷೆ",
+  toggleMode: "ಆನ್‌ಲೈನ್/ಆಫ್‌ಲೈನ್ ಮೋಡ್ ಬದಲಿಸಿ",
+  toggleTheme: "ಥೀಮ್ ಬದಲಿಸಿ",
+  themeLight: "ಲೈಟ್",
+  themeDark: "ಡಾರ್ಕ್",
+  themeSystem: "ಸಿಸ್ಟಮ್",
+  online: "ಆನ್‌ಲೈನ್",
+  offline: "ಆಫ್‌ಲೈನ್",
+  offlineModelUnavailable: "ಆಫ್‌ಲೈನ್ ತಳಿ ಮಾದರಿ ಇನ್ನೂ ಈ ಸಾಧನದಲ್ಲಿ ಲಭ್ಯವಿಲ್ಲ. ಅದನ್ನು ಡೌನ್‌ಲೋಡ್ ಮಾಡಲು ಒಮ್ಮೆ ಇಂಟರ್ನೆಟ್‌ಗೆ ಸಂಪರ್ಕಿಸಿ, ಅಥವಾ ಆನ್‌ಲೈನ್ ಮೋಡ್‌ಗೆ ಬದಲಿಸಿ.",
+  offlineLowConfidence: "ಆಫ್‌ಲೈನ್ ಮಾದರಿಗೆ ಸಾಕಷ್ಟು ಖಚಿತತೆಯೊಂದಿಗೆ ತಳಿಯನ್ನು ಗುರುತಿಸಲು ಆಗಲಿಲ್ಲ. ಪ್ರಾಣಿಯ ಪಕ್ಕದಿಂದ ಹೆಚ್ಚು ಸ್ಪಷ್ಟವಾದ ಫೋಟೋ ತೆಗೆದು ಪ್ರಯತ್ನಿಸಿ.",
+  offlineFallbackTitle: "ಇಂಟರ್ನೆಟ್ ಸಂಪರ್ಕವಿಲ್ಲ",
+  offlineFallbackDescription: "ಬದಲಾಗಿ ಸಾಧನದಲ್ಲಿರುವ ಮಾದರಿಯನ್ನು ಬಳಸಲಾಗುತ್ತಿದೆ. ನೀವು ಮತ್ತೆ ಆನ್‌ಲೈನ್ ಬಂದಾಗ ಸ್ಕ್ಯಾನ್ ಅಪ್‌ಲೋಡ್ ಆಗುತ್ತದೆ.",
+  noConnectionTitle: "ಇಂಟರ್ನೆಟ್ ಸಂಪರ್ಕವಿಲ್ಲ",
+  noConnectionDescription: "ಇದಕ್ಕೆ ಇಂಟರ್ನೆಟ್ ಸಂಪರ್ಕ ಬೇಕು. ನಿಮ್ಮ ಫೋಟೋ ಮತ್ತು ಟಿಪ್ಪಣಿಯನ್ನು ಇಲ್ಲೇ ಇರಿಸಲಾಗಿದೆ, ಆದ್ದರಿಂದ ಆನ್‌ಲೈನ್ ಬಂದ ನಂತರ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.",
+  scanAnimal: "ಪ್ರಾಣಿಯನ್ನು ಸ್ಕ್ಯಾನ್ ಮಾಡಿ",
+  selectImage: "ಫೋಟೋ ಅಪ್‌ಲೋಡ್ ಮಾಡಿ",
+  useCamera: "ಕ್ಯಾಮೆರಾ ಬಳಸಿ",
+  positionAnimal: "ಪ್ರಾಣಿಯನ್ನು ಚೌಕಟ್ಟಿನೊಳಗೆ ಇರಿಸಿ ಫೋಟೋ ತೆಗೆಯಿರಿ.",
+  capture: "ಫೋಟೋ ತೆಗೆಯಿರಿ",
+  cancel: "ರದ್ದುಮಾಡಿ",
+  or: "ಅಥವಾ",
+  tryDemo: "ಡೆಮೊ ಫೋಟೋದೊಂದಿಗೆ ಪ್ರಯತ್ನಿಸಿ:",
+  analyzing: "ಫೋಟೋ ವಿಶ್ಲೇಷಿಸಲಾಗುತ್ತಿದೆ...",
+  analyzingDescription: "ನಮ್ಮ ಎಐ ತಳಿಯನ್ನು ಗುರುತಿಸುತ್ತಿದೆ. ದಯವಿಟ್ಟು ಸ್ವಲ್ಪ ಕಾಯಿರಿ.",
+  aiSuggestions: "ಎಐ ಸಲಹೆಗಳು",
+  confidence: "ಖಚಿತತೆ",
+  confirm: "ದೃಢೀಕರಿಸಿ",
+  correctionPrompt: "ತಳಿ ತಪ್ಪೇ?",
+  correctBreed: "ಸರಿಯಾದ ತಳಿ",
+  selectCorrectBreed: "ಸರಿಯಾದ ತಳಿಯನ್ನು ಆಯ್ಕೆಮಾಡಿ",
+  unknownBreed: "ಗೊತ್ತಿಲ್ಲ / ಮಿಶ್ರ ತಳಿ",
+  submitCorrection: "ತಿದ್ದುಪಡಿ ಸಲ್ಲಿಸಿ",
+  correctionSubmittedTitle: "ಪ್ರತಿಕ್ರಿಯೆ ಸ್ವೀಕರಿಸಲಾಗಿದೆ",
+  correctionSubmittedDescription: "ಧನ್ಯವಾದಗಳು! ನಿಮ್ಮ ಮಾಹಿತಿಯಿಂದ ನಮ್ಮ ಎಐ ಕಲಿತು ಸುಧಾರಿಸುತ್ತದೆ.",
+  correctionQueuedDescription: "ಧನ್ಯವಾದಗಳು! ನೀವು ಆಫ್‌ಲೈನ್‌ನಲ್ಲಿರುವುದರಿಂದ ನಿಮ್ಮ ತಿದ್ದುಪಡಿಯನ್ನು ಈ ಸಾಧನದಲ್ಲಿ ಉಳಿಸಲಾಗಿದೆ ಮತ್ತು ಆನ್‌ಲೈನ್ ಬಂದಾಗ ಅಪ್‌ಲೋಡ್ ಆಗುತ್ತದೆ.",
+  pendingSync: "ಅಪ್‌ಲೋಡ್‌ಗಾಗಿ ಕಾಯುತ್ತಿದೆ",
+  failedSync: "ಸರ್ವರ್ ತಿರಸ್ಕರಿಸಿದೆ",
+  discardFailedSync: "ತೆಗೆದುಹಾಕಿ",
+  discardFailedSyncDescription: "ಸರ್ವರ್ ಈ ನಮೂದುಗಳನ್ನು ಸ್ವೀಕರಿಸಲಿಲ್ಲ, ಆದ್ದರಿಂದ ಅವು ಅಪ್‌ಲೋಡ್ ಆಗುವುದಿಲ್ಲ. ಅವುಗಳನ್ನು ಈ ಸಾಧನದಿಂದ ತೆಗೆದುಹಾಕಬೇಕೆ?",
+  errorTitle: "ದೋಷ ಉಂಟಾಗಿದೆ",
+  errorDescription: "ವಿನಂತಿಯನ್ನು ಪೂರ್ಣಗೊಳಿಸಲು ಆಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.",
+  serviceUnavailableError: "ಎಐ ಸೇವೆ ಸದ್ಯಕ್ಕೆ ಲಭ್ಯವಿಲ್ಲ. ದಯವಿಟ್ಟು ಸ್ವಲ್ಪ ಸಮಯದ ನಂತರ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.",
+  finalBreed: "ಗುರುತಿಸಿದ ತಳಿ",
+  startOver: "ಮತ್ತೆ ಪ್ರಾರಂಭಿಸಿ",
+  uploading: "ಅಪ್‌ಲೋಡ್ ಆಗುತ್ತಿದೆ...",
+  invalidImage: "ನೀಡಿದ ಫೋಟೋ ಹಸು ಅಥವಾ ಎಮ್ಮೆಯ ಮಾನ್ಯ ಫೋಟೋ ಅಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.",
+  invalidImageTitle: "ಅಮಾನ್ಯ ಫೋಟೋ",
+  tryAgain: "ದಯವಿಟ್ಟು ಬೇರೆ ಫೋಟೋದೊಂದಿಗೆ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.",
+  size: "ಗಾತ್ರ",
+  colors: "ಬಣ್ಣಗಳು",
+  nutrition: "ಪೋಷಣೆ",
+  noInfo: "ಈ ತಳಿಯ ಮಾಹಿತಿ ಲಭ್ಯವಿಲ್ಲ.",
+  cameraAccessDeniedTitle: "ಕ್ಯಾಮೆರಾ ಅನುಮತಿ ನಿರಾಕರಿಸಲಾಗಿದೆ",
+  cameraAccessDeniedDescription: "ಈ ಸೌಲಭ್ಯ ಬಳಸಲು ದಯವಿಟ್ಟು ಬ್ರೌಸರ್ ಸೆಟ್ಟಿಂಗ್‌ಗಳಲ್ಲಿ ಕ್ಯಾಮೆರಾ ಅನುಮತಿಯನ್ನು ಆನ್ ಮಾಡಿ.",
+  cameraAccessRequiredTitle: "ಕ್ಯಾಮೆರಾ ಅನುಮತಿ ಅಗತ್ಯ",
+  cameraAccessRequiredDescription: "ಈ ಸೌಲಭ್ಯ ಬಳಸಲು ದಯವಿಟ್ಟು ಕ್ಯಾಮೆರಾ ಪ್ರವೇಶಕ್ಕೆ ಅನುಮತಿ ನೀಡಿ. ಇದಕ್ಕಾಗಿ ಬ್ರೌಸರ್ ಸೆಟ್ಟಿಂಗ್‌ಗಳನ್ನು ಬದಲಿಸಬೇಕಾಗಬಹುದು.",
+  rotateCamera: "ಕ್ಯಾಮೆರಾ ತಿರುಗಿಸಿ",
+  uploadedAnimalAlt: "ಅಪ್‌ಲೋಡ್ ಮಾಡಿದ ಪ್ರಾಣಿ",
+  breedRecommendationEngine: "ತಳಿ ಶಿಫಾರಸು ವ್ಯವಸ್ಥೆ",
+  findThePerfectBreed: "ನಿಮ್ಮ ಜಮೀನಿಗೆ ಸೂಕ್ತವಾದ ತಳಿಯನ್ನು ಹುಡುಕಲು ಕೆಲವು ಪ್ರಶ್ನೆಗಳಿಗೆ ಉತ್ತರಿಸಿ.",
+  primaryGoal: "ಮುಖ್ಯ ಉದ್ದೇಶ",
+  selectGoalPlaceholder: "ನಿಮ್ಮ ಮುಖ್ಯ ಉದ್ದೇಶವನ್ನು ಆಯ್ಕೆಮಾಡಿ...",
+  highMilkYield: "ಹೆಚ್ಚು ಹಾಲಿನ ಇಳುವರಿ",
+  draughtStrength: "ಉಳುಮೆ ಕೆಲಸಕ್ಕೆ ಶಕ್ತಿ",
+  dualPurpose: "ದ್ವಿ ಉದ್ದೇಶ (ಹಾಲು ಮತ್ತು ಉಳುಮೆ)",
+  lowMaintenance: "ಕಡಿಮೆ ಆರೈಕೆ / ವೆಚ್ಚ",
+  budgetPerAnimalInRupees: "ಪ್ರತಿ ಪ್ರಾಣಿಗೆ ಬಜೆಟ್ (₹ ನಲ್ಲಿ)",
+  landSizeInAcres: "ಭೂಮಿಯ ವಿಸ್ತೀರ್ಣ (ಎಕರೆಗಳಲ್ಲಿ)",
+  acres: "ಎಕರೆ",
+  singleAnimal: "ಒಂದು ಪ್ರಾಣಿ",
+  herdPlanner: "ಹಿಂಡು ಯೋಜಕ",
+  totalBudgetInRupees: "ಒಟ್ಟು ಹಿಂಡಿನ ಬಜೆಟ್ (₹ ನಲ್ಲಿ)",
+  fodderAvailability: "ಮೇವಿನ ಲಭ್ಯತೆ",
+  fodderScarce: "ಕಡಿಮೆ",
+  fodderAdequate: "ಸಾಕಷ್ಟು",
+  fodderAbundant: "ಹೇರಳ",
+  labourAvailable: "ಪೂರ್ಣಾವಧಿ ಕೆಲಸಗಾರರು",
+  herdPlanTitle: "ಸೂಚಿಸಿದ ಹಿಂಡು",
+  noHerdPlan: "ನಿಮ್ಮ ಬಜೆಟ್‌ನಲ್ಲಿ ಈ ಪರಿಸ್ಥಿತಿಗೆ ಸೂಕ್ತವಾದ ಯಾವುದೇ ಪ್ರಾಣಿಯನ್ನು ಖರೀದಿಸಲು ಸಾಧ್ಯವಿಲ್ಲ. ದೊಡ್ಡ ಬಜೆಟ್ ಅಥವಾ ಬೇರೆ ಉದ್ದೇಶವನ್ನು ಪ್ರಯತ್ನಿಸಿ.",
+  animalsLandCanSustain: "ಪ್ರಾಣಿಗಳನ್ನು ನಿಮ್ಮ ಭೂಮಿ ಪೋಷಿಸಬಲ್ಲದು",
+  limitedBy: "ಮಿತಿ",
+  limitBudget: "ಬಜೆಟ್",
+  limitLand: "ಭೂಮಿ ಮತ್ತು ಮೇವು",
+  limitLabour: "ಕೂಲಿ",
+  limitHerdSize: "ಯೋಜನೆಯ ಅತಿದೊಡ್ಡ ಹಿಂಡು",
+  totalInvestment: "ಒಟ್ಟು ಹೂಡಿಕೆ",
+  monthlyIncome: "ಮಾಸಿಕ ಆದಾಯ",
+  monthlyCost: "ಮಾಸಿಕ ವೆಚ್ಚ",
+  monthlyProfit: "ಮಾಸಿಕ ಲಾಭ",
+  paybackPeriod: "ಹೂಡಿಕೆ ಮರಳುವ ಅವಧಿ",
+  months: "ತಿಂಗಳುಗಳು",
+  notProfitable: "ಲಾಭದಾಯಕವಲ್ಲ",
+  economicAssumptions: "ಆರ್ಥಿಕ ಊಹೆಗಳು",
+  savedRegions: "ಉಳಿಸಿದ ಪ್ರದೇಶಗಳು",
+  regionName: "ಪ್ರದೇಶವಾಗಿ ಉಳಿಸಿ",
+  regionNamePlaceholder: "ಉದಾ., ಕರ್ನಾಟಕ",
+  deleteRegion: "ಈ ಪ್ರದೇಶವನ್ನು ಅಳಿಸಿ",
+  milkPricing: "ಹಾಲಿನ ಬೆಲೆ",
+  milkPricingFlat: "ಲೀಟರ್‌ಗೆ ಒಂದೇ ಬೆಲೆ",
+  milkPricingFatSnf: "ಕೊಬ್ಬು/ಎಸ್‌ಎನ್‌ಎಫ್ ದರ ಪಟ್ಟಿ (ಎರಡು ಅಕ್ಷ)",
+  pricePerLitre: "ಲೀಟರ್‌ಗೆ ಬೆಲೆ (₹)",
+  fatRatePerKg: "ಕೆಜಿ ಕೊಬ್ಬಿಗೆ ದರ (₹)",
+  snfRatePerKg: "ಕೆಜಿ ಎಸ್‌ಎನ್‌ಎಫ್‌ಗೆ ದರ (₹)",
+  feedCostPerDay: "ಪ್ರತಿ ಪ್ರಾಣಿಗೆ ದಿನದ ಆಹಾರ ವೆಚ್ಚ (₹), ಆಹಾರದ ಅಗತ್ಯಕ್ಕೆ ತಕ್ಕಂತೆ",
+  labourCostPerMonth: "ಪ್ರತಿ ಪ್ರಾಣಿಗೆ ಮಾಸಿಕ ಕೂಲಿ (₹)",
+  vetCostPerMonth: "ಪ್ರತಿ ಪ್ರಾಣಿಗೆ ಮಾಸಿಕ ಪಶುವೈದ್ಯಕೀಯ ಮತ್ತು ಔಷಧ (₹)",
+  insurancePercentPerYear: "ವಿಮಾ ಕಂತು (ಮೌಲ್ಯದ % ವಾರ್ಷಿಕ)",
+  fatSnfAxis: "ಕೊಬ್ಬು % ↓ ಎಸ್‌ಎನ್‌ಎಫ್ % →",
+  milkPrice: "ಹಾಲಿನ ಬೆಲೆ",
+  litreShort: "ಲೀ",
+  fat: "ಕೊಬ್ಬು",
+  discountRatePercent: "ರಿಯಾಯಿತಿ ದರ (% ವಾರ್ಷಿಕ)",
+  projectionYears: "ಅಂದಾಜು ಅವಧಿ",
+  years: "ವರ್ಷಗಳು",
+  cashFlowProjection: "ನಗದು ಹರಿವಿನ ಅಂದಾಜು (ಒಂದು ಪ್ರಾಣಿ)",
+  netCashFlow: "ನಿವ್ವಳ ನಗದು ಹರಿವು",
+  cumulativeCashFlow: "ಸಂಚಿತ",
+  npv: "ನಿವ್ವಳ ಪ್ರಸ್ತುತ ಮೌಲ್ಯ (NPV)",
+  irr: "ಆಂತರಿಕ ಆದಾಯ ದರ (IRR)",
+  year: "ವರ್ಷ",
+  yearShort: "ವ",
+  regionalClimate: "ಪ್ರಾದೇಶಿಕ ಹವಾಮಾನ",
+  selectClimatePlaceholder: "ನಿಮ್ಮ ಹವಾಮಾನವನ್ನು ಆಯ್ಕೆಮಾಡಿ...",
+  climateHotDry: "ಬಿಸಿ ಮತ್ತು ಒಣ",
+  climateHotHumid: "ಬಿಸಿ ಮತ್ತು ತೇವ",
+  climateModerate: "ಮಧ್ಯಮ",
+  climateCold: "ಶೀತ",
+  getRecommendations: "ಶಿಫಾರಸುಗಳನ್ನು ಪಡೆಯಿರಿ",
+  findingBestBreeds: "ನಿಮಗಾಗಿ ಉತ್ತಮ ತಳಿಗಳನ್ನು ಹುಡುಕುತ್ತಿದ್ದೇವೆ...",
+  topRecommendations: "ಪ್ರಮುಖ ಶಿಫಾರಸುಗಳು",
+  overallScore: "ಒಟ್ಟು ಅಂಕ",
+  estimatedROI: "ಅಂದಾಜು ROI",
+  pros: "ಅನುಕೂಲಗಳು",
+  cons: "ಅನಾನುಕೂಲಗಳು",
+  careLevel: "ಆರೈಕೆಯ ಮಟ್ಟ",
+  Low: "ಕಡಿಮೆ",
+  Medium: "ಮಧ್ಯಮ",
+  High: "ಹೆಚ್ಚು",
+  suitabilityScorecard: "ಸೂಕ್ತತೆಯ ಅಂಕಪಟ್ಟಿ",
+  milkYieldScore: "ಹಾಲಿನ ಇಳುವರಿ",
+  strengthScore: "ಶಕ್ತಿ",
+  careRequirementScore: "ಕಡಿಮೆ ಆರೈಕೆ ಅಗತ್ಯ",
+  roiScore: "ಲಾಭದಾಯಕತೆ (ROI)",
+  climateMatchScore: "ಹವಾಮಾನ ಹೊಂದಾಣಿಕೆ",
+  noBreedsFoundTitle: "ಹೊಂದುವ ತಳಿ ಸಿಗಲಿಲ್ಲ",
+  noBreedsFoundDescription: "ನಿಮ್ಮ ಮಾನದಂಡಗಳಿಗೆ ಹೊಂದುವ ಯಾವುದೇ ತಳಿ ಸಿಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಫಿಲ್ಟರ್‌ಗಳನ್ನು ಬದಲಿಸಿ ನೋಡಿ.",
+  compare: "ಹೋಲಿಸಿ",
+  compareBreeds: "ತಳಿಗಳನ್ನು ಹೋಲಿಸಿ",
+  feature: "ಲಕ್ಷಣ",
+  diseaseDetection: "ರೋಗ ಪತ್ತೆ",
+  detectDisease: "ರೋಗ ಪತ್ತೆಮಾಡಿ",
+  detectDiseaseDescription: "ಎಐ ಆಧಾರಿತ ಆರೋಗ್ಯ ತಪಾಸಣೆಗಾಗಿ ಫೋಟೋ ಅಪ್‌ಲೋಡ್ ಮಾಡಿ ಮತ್ತು ಲಕ್ಷಣಗಳನ್ನು ವಿವರಿಸಿ.",
+  addDescription: "ಲಕ್ಷಣಗಳ ವಿವರಣೆ ಸೇರಿಸಿ (ಐಚ್ಛಿಕ)",
+  symptomDescriptionPlaceholder: "ಉದಾ., ಪ್ರಾಣಿ ಸುಸ್ತಾಗಿದೆ, ಸರಿಯಾಗಿ ತಿನ್ನುತ್ತಿಲ್ಲ, ಕೆಮ್ಮುತ್ತಿದೆ...",
+  speakSymptoms: "ಲಕ್ಷಣಗಳನ್ನು ಹೇಳಿ",
+  stopRecording: "ರೆಕಾರ್ಡಿಂಗ್ ನಿಲ್ಲಿಸಿ",
+  listening: "ಕೇಳುತ್ತಿದೆ...",
+  transcribing: "ಬರೆಯುತ್ತಿದೆ...",
+  microphoneAccessDeniedTitle: "ಮೈಕ್ರೊಫೋನ್ ಅನುಮತಿ ನಿರಾಕರಿಸಲಾಗಿದೆ",
+  microphoneAccessDeniedDescription: "ಲಕ್ಷಣಗಳನ್ನು ಧ್ವನಿಯ ಮೂಲಕ ಹೇಳಲು ದಯವಿಟ್ಟು ನಿಮ್ಮ ಬ್ರೌಸರ್ ಸೆಟ್ಟಿಂಗ್‌ಗಳಲ್ಲಿ ಮೈಕ್ರೊಫೋನ್ ಅನುಮತಿ ನೀಡಿ.",
+  transcriptionFailed: "ರೆಕಾರ್ಡಿಂಗ್ ಅನ್ನು ಬರೆಯಲಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ ಅಥವಾ ಲಕ್ಷಣಗಳನ್ನು ಟೈಪ್ ಮಾಡಿ.",
+  voiceNote: "ಧ್ವನಿ ಟಿಪ್ಪಣಿ",
+  removeVoiceNote: "ಧ್ವನಿ ಟಿಪ್ಪಣಿ ತೆಗೆದುಹಾಕಿ",
+  getDiagnosis: "ರೋಗನಿರ್ಣಯ ಪಡೆಯಿರಿ",
+  analyzingHealth: "ಪ್ರಾಣಿಯ ಆರೋಗ್ಯ ವಿಶ್ಲೇಷಿಸಲಾಗುತ್ತಿದೆ...",
+  analyzingHealthDescription: "ನಮ್ಮ ಎಐ ಫೋಟೋ ಮತ್ತು ಲಕ್ಷಣಗಳನ್ನು ವಿಶ್ಲೇಷಿಸುತ್ತಿದೆ. ದಯವಿಟ್ಟು ಸ್ವಲ್ಪ ಕಾಯಿರಿ.",
+  diagnosisResult: "ರೋಗನಿರ್ಣಯದ ಫಲಿತಾಂಶ",
+  noDiseaseDetected: "ಯಾವುದೇ ರೋಗ ಪತ್ತೆಯಾಗಿಲ್ಲ",
+  preventiveCare: "ತಡೆಗಟ್ಟುವ ಆರೈಕೆ",
+  disease: "ರೋಗ",
+  urgency: "ತುರ್ತು",
+  description: "ವಿವರಣೆ",
+  firstAid: "ಪ್ರಥಮ ಚಿಕಿತ್ಸೆ / ಆರೈಕೆ",
+  veterinaryAttention: "ಪಶುವೈದ್ಯರ ಗಮನ",
+  listen: "ಆಲಿಸಿ",
+  stopReading: "ನಿಲ್ಲಿಸಿ",
+  listenTo: "ಆಲಿಸಿ:",
+  readingSpeed: "ಓದುವ ವೇಗ",
+  speedSlow: "ನಿಧಾನ",
+  speedNormal: "ಸಾಮಾನ್ಯ",
+  speedFast: "ವೇಗ",
+  immediateAttentionRequired: "ತಕ್ಷಣ ಪಶುವೈದ್ಯರ ಚಿಕಿತ್ಸೆ ಅಗತ್ಯ.",
+  attentionRecommended: "ಪಶುವೈದ್ಯರಿಗೆ ತೋರಿಸಲು ಶಿಫಾರಸು ಮಾಡಲಾಗಿದೆ.",
+  monitorAnimal: "ಪ್ರಾಣಿಯನ್ನು ಹತ್ತಿರದಿಂದ ಗಮನಿಸುತ್ತಿರಿ.",
+  addSymptoms: "ಸಾಮಾನ್ಯ ಲಕ್ಷಣಗಳನ್ನು ಸೇರಿಸಿ",
+  commonSymptoms: "ಸಾಮಾನ್ಯ ಲಕ್ಷಣಗಳು",
+  selectedSymptoms: "ಆಯ್ಕೆಮಾಡಿದ ಲಕ್ಷಣಗಳು",
+  symptomLethargy: "ಆಲಸ್ಯ/ದೌರ್ಬಲ್ಯ",
+  symptomAppetiteLoss: "ಹಸಿವಿಲ್ಲದಿರುವುದು",
+  symptomCoughing: "ಕೆಮ್ಮು",
+  symptomSores: "ಹುಣ್ಣುಗಳು ಅಥವಾ ಗಾಯಗಳು",
+  symptomLimping: "ಕುಂಟುವುದು",
+  symptomSwelling: "ಊತ",
+  symptomDischarge: "ಅಸಹಜ ಸ್ರಾವ",
+  symptomDiarrhea: "ಅತಿಸಾರ",
+  emergencyHelpline: "ತುರ್ತು ಸಹಾಯವಾಣಿ",
+  findVet: "ಪಶುವೈದ್ಯಕೀಯ ಸಹಾಯ ಹುಡುಕಿ",
+  enterLocation: "ಹತ್ತಿರದ ಸಹಾಯ ಹುಡುಕಲು ನಿಮ್ಮ ನಗರ, ಜಿಲ್ಲೆ ಅಥವಾ ಪಿನ್‌ಕೋಡ್ ನಮೂದಿಸಿ.",
+  locationPlaceholder: "ಉದಾ., 'ಮಂಡ್ಯ' ಅಥವಾ '571401'",
+  findingHelp: "ಸಹಾಯಕ್ಕಾಗಿ ಹುಡುಕುತ್ತಿದ್ದೇವೆ...",
+  noVetsFound: "ಈ ಸ್ಥಳಕ್ಕೆ ಯಾವುದೇ ಆಸ್ಪತ್ರೆ ಅಥವಾ ಔಷಧಾಲಯ ಸಿಗಲಿಲ್ಲ. ನಿಮ್ಮ ಜಿಲ್ಲೆಯ ಹೆಸರಿನಿಂದ ಪ್ರಯತ್ನಿಸಿ, ಅಥವಾ ಮೇಲಿನ ಸಹಾಯವಾಣಿಗೆ ಕರೆ ಮಾಡಿ.",
+  vetDirectoryNotLoaded: "ಈ ಆ್ಯಪ್‌ನಲ್ಲಿ ಇನ್ನೂ ಪಶುವೈದ್ಯ ಡೈರೆಕ್ಟರಿ ಲೋಡ್ ಆಗಿಲ್ಲ, ಆದ್ದರಿಂದ ರಾಷ್ಟ್ರೀಯ ಸಹಾಯವಾಣಿ ಮಾತ್ರ ತೋರಿಸಲಾಗಿದೆ. ಹತ್ತಿರದ ಪಶುವೈದ್ಯ ಘಟಕವನ್ನು ಸಂಪರ್ಕಿಸಲು ಅದಕ್ಕೆ ಕರೆ ಮಾಡಿ.",
+  Hospital: "ಆಸ್ಪತ್ರೆ",
+  Clinic: "ಕ್ಲಿನಿಕ್",
+  Helpline: "ಸಹಾಯವಾಣಿ",
+  Dispensary: "ಔಷಧಾಲಯ",
+  unverified: "ಪರಿಶೀಲಿಸಲಾಗಿಲ್ಲ",
+  useMyLocation: "ನನ್ನ ಸ್ಥಳ ಬಳಸಿ",
+  locationUnavailableTitle: "ಸ್ಥಳ ಲಭ್ಯವಿಲ್ಲ",
+  locationUnavailableDescription: "ಬದಲಾಗಿ ನಿಮ್ಮ ಪಿನ್‌ಕೋಡ್ ನಮೂದಿಸಿ, ಅದರ ಸುತ್ತಮುತ್ತ ಹುಡುಕುತ್ತೇವೆ.",
+  kmAway: "ಕಿಮೀ ದೂರ",
+  animals: "ಪ್ರಾಣಿಗಳು",
+  animalRegistry: "ಪ್ರಾಣಿ ನೋಂದಣಿ",
+  animalRegistryDescription: "ಪ್ರತಿ ಪ್ರಾಣಿಯ ವಿವರ ಇಡಿ: ಕಿವಿ ಟ್ಯಾಗ್, ತಳಿ, ಮಾಲೀಕರು ಮತ್ತು ಫೋಟೋಗಳು.",
+  searchAnimals: "ಕಿವಿ ಟ್ಯಾಗ್, ಮಾಲೀಕರು, ಗ್ರಾಮ ಅಥವಾ ತಳಿಯಿಂದ ಹುಡುಕಿ...",
+  registerAnimal: "ಪ್ರಾಣಿಯನ್ನು ನೋಂದಾಯಿಸಿ",
+  noAnimalsFound: "ಯಾವುದೇ ಪ್ರಾಣಿ ಸಿಗಲಿಲ್ಲ. ಪ್ರಾರಂಭಿಸಲು ಒಂದು ಪ್ರಾಣಿಯನ್ನು ನೋಂದಾಯಿಸಿ.",
+  earTag: "ಕಿವಿ ಟ್ಯಾಗ್ ಸಂಖ್ಯೆ",
+  species: "ಪ್ರಭೇದ",
+  Cattle: "ಹಸು",
+  Buffalo: "ಎಮ್ಮೆ",
+  breed: "ತಳಿ",
+  sex: "ಲಿಂಗ",
+  Female: "ಹೆಣ್ಣು",
+  Male: "ಗಂಡು",
+  dateOfBirth: "ಹುಟ್ಟಿದ ದಿನಾಂಕ",
+  age: "ವಯಸ್ಸು",
+  yearsShort: "ವ",
+  monthsShort: "ತಿಂ",
+  owner: "ಮಾಲೀಕರು",
+  village: "ಗ್ರಾಮ",
+  photos: "ಫೋಟೋಗಳು",
+  noPhotos: "ಇನ್ನೂ ಯಾವುದೇ ಫೋಟೋಗಳಿಲ್ಲ.",
+  addPhoto: "ಫೋಟೋ ಸೇರಿಸಿ",
+  save: "ಉಳಿಸಿ",
+  edit: "ಸಂಪಾದಿಸಿ",
+  saveToAnimalProfile: "ಪ್ರಾಣಿಯ ಪ್ರೊಫೈಲ್‌ಗೆ ಉಳಿಸಿ",
+  existingAnimal: "ಈಗಿರುವ ಪ್ರಾಣಿ",
+  newAnimal: "ಹೊಸ ಪ್ರಾಣಿ",
+  attach: "ಲಗತ್ತಿಸಿ",
+  animalSavedTitle: "ಪ್ರಾಣಿಯ ಪ್ರೊಫೈಲ್ ಉಳಿಸಲಾಗಿದೆ",
+  animalSavedDescription: "ತಳಿ ಮತ್ತು ಫೋಟೋವನ್ನು ಪ್ರಾಣಿಯ ಪ್ರೊಫೈಲ್‌ಗೆ ಉಳಿಸಲಾಗಿದೆ.",
+  breedSpeciesMismatch: "ಸ್ಕ್ಯಾನ್ ಮಾಡಿದ ತಳಿ ಈ ಪ್ರಾಣಿಯ ಜಾತಿಗೆ ಹೊಂದುವುದಿಲ್ಲ. ಬೇರೆ ಪ್ರಾಣಿಯನ್ನು ಆಯ್ಕೆಮಾಡಿ ಅಥವಾ ಹೊಸ ಪ್ರಾಣಿಯನ್ನು ನೋಂದಾಯಿಸಿ.",
+  viewProfile: "ಪ್ರೊಫೈಲ್ ನೋಡಿ",
+  backToRegistry: "ನೋಂದಣಿಗೆ ಹಿಂತಿರುಗಿ",
+  animalNotFound: "ಈ ಪ್ರಾಣಿ ಸಿಗಲಿಲ್ಲ.",
+  loading: "ಲೋಡ್ ಆಗುತ್ತಿದೆ...",
+  healthHistory: "ಆರೋಗ್ಯ ಇತಿಹಾಸ",
+  noHealthRecords: "ಈ ಪ್ರಾಣಿಗೆ ಇನ್ನೂ ಯಾವುದೇ ರೋಗನಿರ್ಣಯ ಉಳಿಸಿಲ್ಲ.",
+  saveToHealthHistory: "ಆರೋಗ್ಯ ಇತಿಹಾಸಕ್ಕೆ ಉಳಿಸಿ",
+  diagnosisSavedTitle: "ರೋಗನಿರ್ಣಯ ಉಳಿಸಲಾಗಿದೆ",
+  diagnosisSavedDescription: "ರೋಗನಿರ್ಣಯವನ್ನು ಪ್ರಾಣಿಯ ಆರೋಗ್ಯ ಇತಿಹಾಸಕ್ಕೆ ಸೇರಿಸಲಾಗಿದೆ.",
+  statusPending: "ಪಶುವೈದ್ಯರಿಗಾಗಿ ಕಾಯುತ್ತಿದೆ",
+  statusVetConfirmed: "ಪಶುವೈದ್ಯರು ದೃಢೀಕರಿಸಿದ್ದಾರೆ",
+  statusRuledOut: "ತಳ್ಳಿಹಾಕಲಾಗಿದೆ",
+  statusResolved: "ಗುಣವಾಗಿದೆ",
+  vaccinationSchedule: "ಲಸಿಕೆ ಮತ್ತು ಜಂತುಹುಳು ನಿವಾರಣೆ",
+  vaccinationReminders: "ಲಸಿಕೆ ಜ್ಞಾಪನೆಗಳು",
+  noRemindersDue: "ಮುಂದಿನ ಎರಡು ವಾರಗಳಲ್ಲಿ ಯಾವುದೇ ಲಸಿಕೆ ಅಥವಾ ಜಂತುಹುಳು ಔಷಧ ಬಾಕಿ ಇಲ್ಲ.",
+  noScheduleItems: "ಸದ್ಯ ಈ ಪ್ರಾಣಿಗೆ ಯಾವುದೇ ಲಸಿಕೆ ಅಥವಾ ಜಂತುಹುಳು ಔಷಧ ಅನ್ವಯಿಸುವುದಿಲ್ಲ.",
+  overdue: "ಅವಧಿ ಮೀರಿದೆ",
+  dueSoon: "ಶೀಘ್ರದಲ್ಲೇ ಬಾಕಿ",
+  upcoming: "ಮುಂಬರುವ",
+  dueOn: "ಬಾಕಿ ದಿನಾಂಕ",
+  lastGiven: "ಕೊನೆಯದಾಗಿ ನೀಡಿದ್ದು",
+  markGiven: "ನೀಡಲಾಗಿದೆ ಎಂದು ಗುರುತಿಸಿ",
+  givenOn: "ನೀಡಿದ ದಿನಾಂಕ",
+  doseRecordedTitle: "ಡೋಸ್ ದಾಖಲಾಗಿದೆ",
+  vaccineFmd: "ಕಾಲುಬಾಯಿ ರೋಗ (FMD)",
+  vaccineHs: "ಗಳಲೆ ರೋಗ (HS)",
+  vaccineBq: "ಚಪ್ಪೆ ರೋಗ (BQ)",
+  vaccineBrucellosis: "ಬ್ರುಸೆಲ್ಲೋಸಿಸ್",
+  vaccineLsd: "ಚರ್ಮಗಂಟು ರೋಗ (LSD)",
+  deworming: "ಜಂತುಹುಳು ನಿವಾರಣೆ",
+  vaccineNotesFmd: "ಮೊದಲ ಡೋಸ್‌ನ ಒಂದು ತಿಂಗಳ ನಂತರ ಬೂಸ್ಟರ್, ನಂತರ ಪ್ರತಿ ಆರು ತಿಂಗಳಿಗೊಮ್ಮೆ.",
+  vaccineNotesMonsoon: "ಪ್ರತಿ ವರ್ಷ, ರೋಗ ಇರುವ ಪ್ರದೇಶಗಳಲ್ಲಿ ಸಾಧ್ಯವಾದರೆ ಮಳೆಗಾಲಕ್ಕೆ ಮೊದಲು.",
+  vaccineNotesBrucellosis: "ಜೀವನದಲ್ಲಿ ಒಮ್ಮೆ, ನಾಲ್ಕರಿಂದ ಎಂಟು ತಿಂಗಳ ಹೆಣ್ಣು ಕರುಗಳಿಗೆ.",
+  vaccineNotesYearly: "ಪ್ರತಿ ವರ್ಷ.",
+  vaccineNotesDeworming: "ಪ್ರತಿ ಮೂರು ತಿಂಗಳಿಗೊಮ್ಮೆ; ನಿರೋಧಕತೆ ತಪ್ಪಿಸಲು ಔಷಧದ ವರ್ಗವನ್ನು ಬದಲಿಸಿ.",
+  allVillages: "ಎಲ್ಲಾ ಗ್ರಾಮಗಳು",
+  breedEncyclopedia: "ತಳಿ ವಿಶ್ವಕೋಶ",
+  breedEncyclopediaDescription: "ಭಾರತದ ಎಲ್ಲಾ ನೋಂದಾಯಿತ ಹಸು ಮತ್ತು ಎಮ್ಮೆ ತಳಿಗಳನ್ನು ನೋಡಿ.",
+  searchBreeds: "ತಳಿ ಅಥವಾ ರಾಜ್ಯದಿಂದ ಹುಡುಕಿ...",
+  allSpecies: "ಎಲ್ಲಾ ಪ್ರಭೇದಗಳು",
+  allPurposes: "ಎಲ್ಲಾ ಉದ್ದೇಶಗಳು",
+  purpose: "ಉದ್ದೇಶ",
+  purposeMilk: "ಹಾಲು",
+  purposeDraught: "ಉಳುಮೆ",
+  purposeDual: "ದ್ವಿ ಉದ್ದೇಶ",
+  noBreedsMatch: "ಈ ಫಿಲ್ಟರ್‌ಗಳಿಗೆ ಯಾವುದೇ ತಳಿ ಹೊಂದುವುದಿಲ್ಲ.",
+  backToBreeds: "ತಳಿಗಳಿಗೆ ಹಿಂತಿರುಗಿ",
+  breedNotFound: "ಈ ತಳಿ ಪಟ್ಟಿಯಲ್ಲಿಲ್ಲ.",
+  milkYield: "ಹಾಲಿನ ಇಳುವರಿ",
+  litresPerDay: "ಲೀ/ದಿನ",
+  snf: "ಎಸ್‌ಎನ್‌ಎಫ್",
+  climateSuitability: "ಹವಾಮಾನ ಸೂಕ್ತತೆ",
+  diseaseResistance: "ರೋಗ ನಿರೋಧಕ ಶಕ್ತಿ",
+  lifespan: "ಜೀವಿತಾವಧಿ",
+  marketPrice: "ಮಾರುಕಟ್ಟೆ ಬೆಲೆ",
+  nativeTract: "ಮೂಲ ಪ್ರದೇಶ",
+  physicalTraits: "ಗುರುತಿನ ಲಕ್ಷಣಗಳು",
+  referencePhotos: "ಉಲ್ಲೇಖ ಫೋಟೋಗಳು",
+  noReferencePhotos: "ಇನ್ನೂ ಉಲ್ಲೇಖ ಫೋಟೋಗಳಿಲ್ಲ.",
+  viewBreedPage: "ಈ ತಳಿಯ ಬಗ್ಗೆ ಇನ್ನಷ್ಟು ಓದಿ",
+  unverifiedBreedInfo: "ಈ ತಳಿ ನಮ್ಮ ಪಟ್ಟಿಯಲ್ಲಿಲ್ಲ, ಆದ್ದರಿಂದ ಈ ವಿವರಗಳನ್ನು ಎಐ ಬರೆದಿದೆ ಮತ್ತು ಅವು ತಪ್ಪಾಗಿರಬಹುದು.",
+};
@@ -0,0 +1,320 @@
+import type { LocalePack } from '@/lib/translations';
+
+export const mr: LocalePack = {
+  appName: "पशु एआय",
+  tagline: "भारतीय पशुधनासाठी एआय-आधारित जात ओळख",
+  navHome: "मुख्यपृष्ठ",
+  navScanner: "स्कॅनर",
+  navDecisionSupport: "निर्णय सहाय्य",
+  navDiseaseDetection: "रोग निदान",
+  navAnimals: "जनावरे",
+  navBreeds: "जाती",
+  featureScanDescription: "तुमच्या कॅमेऱ्याने किंवा फोटो अपलोड करून गाय आणि म्हशीची जात लगेच ओळखा.",
+  featureRecommendDescription: "तुमच्या शेतीच्या उद्दिष्टांनुसार आणि परिस्थितीनुसार सर्वोत्तम जातींच्या शिफारसी मिळवा.",
+  featureDiseaseDescription: "सामान्य आजारांची सुरुवातीची लक्षणे ओळखण्यासाठी आणि काळजीच्या सूचना मिळवण्यासाठी जनावराचा फोटो अपलोड करा.",
+  language: "भाषा",
+  toggleMode: "ऑनलाइन/ऑफलाइन मोड बदला",
+  toggleTheme: "थीम बदला",
+  themeLight: "लाइट",
+  themeDark: "डार्क",
+  themeSystem: "सिस्टम",
+  online: "ऑनलाइन",
+  offline: "ऑफलाइन",
+  offlineModelUnavailable: "ऑफलाइन जात मॉडेल अद्याप या डिव्हाइसवर उपलब्ध नाही. ते डाउनलोड करण्यासाठी एकदा इंटरनेटशी जोडा, किंवा ऑनलाइन मोडवर जा.",
+  offlineLowConfidence: "ऑफलाइन मॉडेल पुरेशा खात्रीने जात ओळखू शकले नाही. जनावराचा बाजूने घेतलेला अधिक स्पष्ट फोटो वापरून पहा.",
+  offlineFallbackTitle: "इंटरनेट कनेक्शन नाही",
+  offlineFallbackDescription: "त्याऐवजी डिव्हाइसवरील मॉडेल वापरले जात आहे. तुम्ही पुन्हा ऑनलाइन आल्यावर स्कॅन अपलोड होईल.",
+  noConnectionTitle: "इंटरनेट कनेक्शन नाही",
+  noConnectionDescription: "यासाठी इंटरनेट कनेक्शन आवश्यक आहे. तुमचा फोटो आणि नोंदी येथे जतन आहेत, म्हणून ऑनलाइन आल्यावर पुन्हा प्रयत्न करा.",
+  scanAnimal: "जनावर स्कॅन करा",
+  selectImage: "फोटो अपलोड करा",
+  useCamera: "कॅमेरा वापरा",
+  positionAnimal: "जनावर चौकटीत आणा आणि फोटो काढा.",
+  capture: "फोटो काढा",
+  cancel: "रद्द करा",
+  or: "किंवा",
+  tryDemo: "डेमो फोटोसह वापरून पहा:",
+  analyzing: "फोटोचे विश्लेषण होत आहे...",
+  analyzingDescription: "आमचे एआय जात ओळखत आहे. कृपया थोडा वेळ थांबा.",
+  aiSuggestions: "एआय सूचना",
+  confidence: "खात्री",
+  confirm: "पुष्टी करा",
+  correctionPrompt: "जात चुकीची आहे?",
+  correctBreed: "योग्य जात",
+  selectCorrectBreed: "योग्य जात निवडा",
+  unknownBreed: "अज्ञात / संकरित",
+  submitCorrection: "दुरुस्ती पाठवा",
+  correctionSubmittedTitle: "अभिप्राय मिळाला",
+  correctionSubmittedDescription: "धन्यवाद! तुमच्या माहितीमुळे आमचे एआय शिकते आणि सुधारते.",
+  correctionQueuedDescription: "धन्यवाद! तुम्ही ऑफलाइन आहात, म्हणून तुमची दुरुस्ती या डिव्हाइसवर जतन केली आहे आणि ऑनलाइन आल्यावर अपलोड होईल.",
+  pendingSync: "अपलोडच्या प्रतीक्षेत",
+  failedSync: "सर्व्हरने नाकारल्या",
+  discardFailedSync: "काढून टाका",
+  discardFailedSyncDescription: "सर्व्हरने या नोंदी स्वीकारल्या नाहीत, त्यामुळे त्या अपलोड होणार नाहीत. त्या या डिव्हाइसवरून काढून टाकायच्या?",
+  errorTitle: "त्रुटी आली",
+  errorDescription: "विनंती पूर्ण होऊ शकली नाही. कृपया पुन्हा प्रयत्न करा.",
+  serviceUnavailableError: "एआय सेवा सध्या उपलब्ध नाही. कृपया थोड्या वेळाने पुन्हा प्रयत्न करा.",
+  finalBreed: "ओळखलेली जात",
+  startOver: "पुन्हा सुरू करा",
+  uploading: "अपलोड होत आहे...",
+  invalidImage: "दिलेला फोटो गाय किंवा म्हशीचा वैध फोटो नाही. कृपया पुन्हा प्रयत्न करा.",
+  invalidImageTitle: "अवैध फोटो",
+  tryAgain: "कृपया दुसऱ्या फोटोसह पुन्हा प्रयत्न करा.",
+  size: "आकार",
+  colors: "रंग",
+  nutrition: "पोषण",
+  noInfo: "या जातीची माहिती उपलब्ध नाही.",
+  cameraAccessDeniedTitle: "कॅमेरा वापराची परवानगी नाकारली",
+  cameraAccessDeniedDescription: "हे वैशिष्ट्य वापरण्यासाठी कृपया ब्राउझर सेटिंग्जमध्ये कॅमेरा परवानगी सुरू करा.",
+  cameraAccessRequiredTitle: "कॅमेरा परवानगी आवश्यक",
+  cameraAccessRequiredDescription: "हे वैशिष्ट्य वापरण्यासाठी कृपया कॅमेरा वापरण्याची परवानगी द्या. यासाठी ब्राउझर सेटिंग्जमध्ये बदल करावा लागू शकतो.",
+  rotateCamera: "कॅमेरा फिरवा",
+  uploadedAnimalAlt: "अपलोड केलेले जनावर",
+  breedRecommendationEngine: "जात शिफारस प्रणाली",
+  findThePerfectBreed: "तुमच्या शेतासाठी सर्वोत्तम जात शोधण्यासाठी काही प्रश्नांची उत्तरे द्या.",
+  primaryGoal: "मुख्य उद्देश",
+  selectGoalPlaceholder: "तुमचा मुख्य उद्देश निवडा...",
+  highMilkYield: "जास्त दूध उत्पादन",
+  draughtStrength: "शेतीकामासाठी ताकद",
+  dualPurpose: "दुहेरी उद्देश (दूध आणि शेतीकाम)",
+  lowMaintenance: "कमी देखभाल / खर्च",
+  budgetPerAnimalInRupees: "प्रति जनावर बजेट (₹ मध्ये)",
+  landSizeInAcres: "जमीन (एकरमध्ये)",
+  acres: "एकर",
+  singleAnimal: "एक जनावर",
+  herdPlanner: "कळप नियोजक",
+  totalBudgetInRupees: "संपूर्ण कळपाचे बजेट (₹ मध्ये)",
+  fodderAvailability: "चाऱ्याची उपलब्धता",
+  fodderScarce: "कमी",
+  fodderAdequate: "पुरेसा",
+  fodderAbundant: "भरपूर",
+  labourAvailable: "पूर्णवेळ कामगार",
+  herdPlanTitle: "सुचवलेला कळप",
+  noHerdPlan: "तुमच्या बजेटमध्ये या परिस्थितीला योग्य असे कोणतेही जनावर घेता येत नाही. मोठे बजेट किंवा दुसरा उद्देश वापरून पहा.",
+  animalsLandCanSustain: "जनावरे तुमची जमीन सांभाळू शकते",
+  limitedBy: "मर्यादा",
+  limitBudget: "बजेट",
+  limitLand: "जमीन आणि चारा",
+  limitLabour: "मजूर",
+  limitHerdSize: "नियोजनातील सर्वात मोठा कळप",
+  totalInvestment: "एकूण गुंतवणूक",
+  monthlyIncome: "मासिक उत्पन्न",
+  monthlyCost: "मासिक खर्च",
+  monthlyProfit: "मासिक नफा",
+  paybackPeriod: "परतफेड कालावधी",
+  months: "महिने",
+  notProfitable: "फायदेशीर नाही",
+  economicAssumptions: "आर्थिक गृहीतके",
+  savedRegions: "जतन केलेले प्रदेश",
+  regionName: "प्रदेश म्हणून जतन करा",
+  regionNamePlaceholder: "उदा., महाराष्ट्र",
+  deleteRegion: "हा प्रदेश हटवा",
+  milkPricing: "दुधाचा दर",
+  milkPricingFlat: "प्रति लिटर एकच दर",
+  milkPricingFatSnf: "फॅट/एसएनएफ दर तक्ता (दोन अक्ष)",
+  pricePerLitre: "प्रति लिटर दर (₹)",
+  fatRatePerKg: "प्रति किलो फॅट दर (₹)",
+  snfRatePerKg: "प्रति किलो एसएनएफ दर (₹)",
+  feedCostPerDay: "प्रति जनावर दररोज खाद्य खर्च (₹), खाद्य गरजेनुसार",
+  labourCostPerMonth: "प्रति जनावर दरमहा मजुरी (₹)",
+  vetCostPerMonth: "प्रति जनावर दरमहा पशुवैद्य आणि औषधे (₹)",
+  insurancePercentPerYear: "विमा हप्ता (किमतीच्या % दरवर्षी)",
+  fatSnfAxis: "फॅट % ↓ एसएनएफ % →",
+  milkPrice: "दुधाचा दर",
+  litreShort: "लि",
+  fat: "फॅट",
+  discountRatePercent: "सवलत दर (% दरवर्षी)",
+  projectionYears: "अंदाज कालावधी",
+  years: "वर्षे",
+  cashFlowProjection: "रोख प्रवाह अंदाज (एक जनावर)",
+  netCashFlow: "निव्वळ रोख प्रवाह",
+  cumulativeCashFlow: "एकत्रित",
+  npv: "निव्वळ वर्तमान मूल्य (NPV)",
+  irr: "अंतर्गत परतावा दर (IRR)",
+  year: "वर्ष",
+  yearShort: "व",
+  regionalClimate: "प्रादेशिक हवामान",
+  selectClimatePlaceholder: "तुमचे हवामान निवडा...",
+  climateHotDry: "उष्ण आणि कोरडे",
+  climateHotHumid: "उष्ण आणि दमट",
+  climateModerate: "मध्यम",
+  climateCold: "थंड",
+  getRecommendations: "शिफारसी मिळवा",
+  findingBestBreeds: "तुमच्यासाठी सर्वोत्तम जाती शोधत आहे...",
+  topRecommendations: "सर्वोत्तम शिफारसी",
+  overallScore: "एकूण गुण",
+  estimatedROI: "अंदाजे ROI",
+  pros: "फायदे",
+  cons: "तोटे",
+  careLevel: "देखभालीची पातळी",
+  Low: "कमी",
+  Medium: "मध्यम",
+  High: "जास्त",
+  suitabilityScorecard: "योग्यता गुणपत्रक",
+  milkYieldScore: "दूध उत्पादन",
+  strengthScore: "ताकद",
+  careRequirementScore: "कमी देखभालीची गरज",
+  roiScore: "नफाक्षमता (ROI)",
+  climateMatchScore: "हवामान जुळणी",
+  noBreedsFoundTitle: "जुळणारी जात सापडली नाही",
+  noBreedsFoundDescription: "तुमच्या निकषांशी जुळणारी कोणतीही जात सापडली नाही. कृपया फिल्टर बदलून पहा.",
+  compare: "तुलना करा",
+  compareBreeds: "जातींची तुलना करा",
+  feature: "वैशिष्ट्य",
+  diseaseDetection: "रोग निदान",
+  detectDisease: "रोग ओळखा",
+  detectDiseaseDescription: "एआय-आधारित आरोग्य निदानासाठी फोटो अपलोड करा आणि लक्षणांचे वर्णन द्या.",
+  addDescription: "लक्षणांचे वर्णन जोडा (ऐच्छिक)",
+  symptomDescriptionPlaceholder: "उदा., जनावर सुस्त आहे, नीट खात नाही, खोकला आहे...",
+  speakSymptoms: "लक्षणे बोला",
+  stopRecording: "रेकॉर्डिंग थांबवा",
+  listening: "ऐकत आहे...",
+  transcribing: "लिहित आहे...",
+  microphoneAccessDeniedTitle: "मायक्रोफोनची परवानगी नाकारली",
+  microphoneAccessDeniedDescription: "लक्षणे बोलून सांगण्यासाठी कृपया ब्राउझर सेटिंग्जमध्ये मायक्रोफोनची परवानगी द्या.",
+  transcriptionFailed: "रेकॉर्डिंग लिहिता आले नाही. कृपया पुन्हा प्रयत्न करा किंवा लक्षणे टाइप करा.",
+  voiceNote: "आवाज नोंद",
+  removeVoiceNote: "आवाज नोंद काढा",
+  getDiagnosis: "निदान मिळवा",
+  analyzingHealth: "जनावराच्या आरोग्याचे विश्लेषण होत आहे...",
+  analyzingHealthDescription: "आमचे एआय फोटो आणि लक्षणांचे विश्लेषण करत आहे. कृपया थोडा वेळ थांबा.",
+  diagnosisResult: "निदान परिणाम",
+  noDiseaseDetected: "कोणताही रोग आढळला नाही",
+  preventiveCare: "प्रतिबंधात्मक काळजी",
+  disease: "रोग",
+  urgency: "तातडी",
+  description: "वर्णन",
+  firstAid: "प्रथमोपचार / काळजी",
+  veterinaryAttention: "पशुवैद्यकीय उपचार",
+  listen: "ऐका",
+  stopReading: "थांबवा",
+  listenTo: "ऐका:",
+  readingSpeed: "वाचनाचा वेग",
+  speedSlow: "हळू",
+  speedNormal: "सामान्य",
+  speedFast: "जलद",
+  immediateAttentionRequired: "तात्काळ पशुवैद्यकीय उपचार आवश्यक आहेत.",
+  attentionRecommended: "पशुवैद्याला दाखवण्याची शिफारस आहे.",
+  monitorAnimal: "जनावरावर बारकाईने लक्ष ठेवा.",
+  addSymptoms: "सामान्य लक्षणे जोडा",
+  commonSymptoms: "सामान्य लक्षणे",
+  selectedSymptoms: "निवडलेली लक्षणे",
+  symptomLethargy: "सुस्ती/अशक्तपणा",
+  symptomAppetiteLoss: "भूक मंदावणे",
+  symptomCoughing: "खोकला",
+  symptomSores: "जखमा किंवा फोड",
+  symptomLimping: "लंगडणे",
+  symptomSwelling: "सूज",
+  symptomDischarge: "असामान्य स्राव",
+  symptomDiarrhea: "जुलाब",
+  emergencyHelpline: "आपत्कालीन हेल्पलाइन",
+  findVet: "पशुवैद्यकीय मदत शोधा",
+  enterLocation: "जवळची मदत शोधण्यासाठी तुमचे शहर, जिल्हा किंवा पिनकोड टाका.",
+  locationPlaceholder: "उदा., 'पुणे' किंवा '411001'",
+  findingHelp: "मदत शोधत आहे...",
+  noVetsFound: "या ठिकाणी कोणतेही रुग्णालय किंवा दवाखाना सापडला नाही. तुमच्या जिल्ह्याचे नाव वापरून पहा, किंवा वरील हेल्पलाइनवर कॉल करा.",
+  vetDirectoryNotLoaded: "या अ‍ॅपमध्ये अद्याप पशुवैद्यकीय निर्देशिका लोड केलेली नाही, म्हणून फक्त राष्ट्रीय हेल्पलाइन दाखवली आहे. जवळच्या पशुवैद्यकीय केंद्राशी संपर्कासाठी तिला कॉल करा.",
+  Hospital: "रुग्णालय",
+  Clinic: "क्लिनिक",
+  Helpline: "हेल्पलाइन",
+  Dispensary: "दवाखाना",
+  unverified: "अपडताळलेले",
+  useMyLocation: "माझे स्थान वापरा",
+  locationUnavailableTitle: "स्थान उपलब्ध नाही",
+  locationUnavailableDescription: "त्याऐवजी तुमचा पिनकोड टाका, आम्ही त्याच्या आसपास शोधू.",
+  kmAway: "किमी दूर",
+  animals: "जनावरे",
+  animalRegistry: "जनावर नोंदवही",
+  animalRegistryDescription: "प्रत्येक जनावराची माहिती ठेवा: कानातील टॅग, जात, मालक आणि फोटो.",
+  searchAnimals: "कानातील टॅग, मालक, गाव किंवा जातीनुसार शोधा...",
+  registerAnimal: "जनावराची नोंद करा",
+  noAnimalsFound: "कोणतेही जनावर सापडले नाही. सुरुवात करण्यासाठी एका जनावराची नोंद करा.",
+  earTag: "कानातील टॅग क्रमांक",
+  species: "प्रजाती",
+  Cattle: "गाय",
+  Buffalo: "म्हैस",
+  breed: "जात",
+  sex: "लिंग",
+  Female: "मादी",
+  Male: "नर",
+  dateOfBirth: "जन्मतारीख",
+  age: "वय",
+  yearsShort: "वर्षे",
+  monthsShort: "महिने",
+  owner: "मालक",
+  village: "गाव",
+  photos: "फोटो",
+  noPhotos: "अजून फोटो नाहीत.",
+  addPhoto: "फोटो जोडा",
+  save: "जतन करा",
+  edit: "संपादित करा",
+  saveToAnimalProfile: "जनावराच्या माहितीत जतन करा",
+  existingAnimal: "आधीचे जनावर",
+  newAnimal: "नवीन जनावर",
+  attach: "जोडा",
+  animalSavedTitle: "जनावराची माहिती जतन झाली",
+  animalSavedDescription: "जात आणि फोटो जनावराच्या माहितीत जतन केले आहेत.",
+  breedSpeciesMismatch: "स्कॅन केलेली जात या जनावराच्या प्रजातीशी जुळत नाही. दुसरे जनावर निवडा किंवा नवीन जनावराची नोंद करा.",
+  viewProfile: "माहिती पहा",
+  backToRegistry: "नोंदवहीकडे परत",
+  animalNotFound: "हे जनावर सापडले नाही.",
+  loading: "लोड होत आहे...",
+  healthHistory: "आरोग्य इतिहास",
+  noHealthRecords: "या जनावरासाठी अजून कोणतेही निदान जतन केलेले नाही.",
+  saveToHealthHistory: "आरोग्य इतिहासात जतन करा",
+  diagnosisSavedTitle: "निदान जतन झाले",
+  diagnosisSavedDescription: "निदान जनावराच्या आरोग्य इतिहासात जोडले आहे.",
+  statusPending: "पशुवैद्याच्या प्रतीक्षेत",
+  statusVetConfirmed: "पशुवैद्याने पुष्टी केली",
+  statusRuledOut: "नाकारले",
+  statusResolved: "बरे झाले",
+  vaccinationSchedule: "लसीकरण आणि जंतनाशक",
+  vaccinationReminders: "लसीकरण स्मरणपत्रे",
+  noRemindersDue: "पुढील दोन आठवड्यांत कोणतेही लसीकरण किंवा जंतनाशक देय नाही.",
+  noScheduleItems: "सध्या या जनावराला कोणतेही लसीकरण किंवा जंतनाशक लागू नाही.",
+  overdue: "मुदत उलटली",
+  dueSoon: "लवकरच देय",
+  upcoming: "आगामी",
+  dueOn: "देय",
+  lastGiven: "शेवटचे दिले",
+  markGiven: "दिले म्हणून नोंदवा",
+  givenOn: "दिल्याची तारीख",
+  doseRecordedTitle: "मात्रा नोंदवली",
+  vaccineFmd: "लाळ्या खुरकूत (FMD)",
+  vaccineHs: "घटसर्प (HS)",
+  vaccineBq: "फऱ्या (BQ)",
+  vaccineBrucellosis: "ब्रुसेलोसिस",
+  vaccineLsd: "लम्पी चर्मरोग (LSD)",
+  deworming: "जंतनिर्मूलन",
+  vaccineNotesFmd: "पहिल्या मात्रेनंतर एका महिन्याने बूस्टर, नंतर दर सहा महिन्यांनी.",
+  vaccineNotesMonsoon: "दरवर्षी, बाधित भागात शक्यतो पावसाळ्यापूर्वी.",
+  vaccineNotesBrucellosis: "आयुष्यात एकदाच, चार ते आठ महिन्यांच्या कालवडींना.",
+  vaccineNotesYearly: "दरवर्षी.",
+  vaccineNotesDeworming: "दर तीन महिन्यांनी; प्रतिकार टाळण्यासाठी औषधाचा वर्ग बदलत राहा.",
+  allVillages: "सर्व गावे",
+  breedEncyclopedia: "जात ज्ञानकोश",
+  breedEncyclopediaDescription: "भारतातील सर्व नोंदणीकृत गाय आणि म्हैस जाती पहा.",
+  searchBreeds: "जात किंवा राज्यानुसार शोधा...",
+  allSpecies: "सर्व प्रजाती",
+  allPurposes: "सर्व उद्देश",
+  purpose: "उद्देश",
+  purposeMilk: "दूध",
+  purposeDraught: "शेतीकाम",
+  purposeDual: "दुहेरी उद्देश",
+  noBreedsMatch: "या फिल्टरशी कोणतीही जात जुळत नाही.",
+  backToBreeds: "जातींकडे परत",
+  breedNotFound: "ही जात सूचीत नाही.",
+  milkYield: "दूध उत्पादन",
+  litresPerDay: "लि/दिवस",
+  snf: "एसएनएफ",
+  climateSuitability: "हवामान अनुकूलता",
+  diseaseResistance: "रोगप्रतिकारशक्ती",
+  lifespan: "आयुर्मान",
+  marketPrice: "बाजारभाव",
+  nativeTract: "मूळ प्रदेश",
+  physicalTraits: "ओळखीची लक्षणे",
+  referencePhotos: "संदर्भ फोटो",
+  noReferencePhotos: "अजून संदर्भ फोटो नाहीत.",
+  viewBreedPage: "या जातीबद्दल अधिक वाचा",
+  unverifiedBreedInfo: "ही जात आमच्या सूचीत नाही, म्हणून ही माहिती एआयने लिहिली आहे आणि ती चुकीची असू शकते.",
+};
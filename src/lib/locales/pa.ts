@@ -0,0 +1,320 @@
+import type { LocalePack } from '@/lib/translations';
+
+export const pa: LocalePack = {
+  appName: "ਪਸ਼ੂ ਏਆਈ",
+  tagline: "ਭਾਰਤੀ ਪਸ਼ੂਆਂ ਲਈ ਏਆਈ ਅਧਾਰਿਤ ਨਸਲ ਪਛਾਣ",
+  navHome: "ਮੁੱਖ ਪੰਨਾ",
+  navScanner: "ਸਕੈਨਰ",
+  navDecisionSupport: "ਫ਼ੈਸਲਾ ਸਹਾਇਤਾ",
+  navDiseaseDetection: "ਬਿਮਾਰੀ ਦੀ ਜਾਂਚ",
+  navAnimals: "ਪਸ਼ੂ",
+  navBreeds: "ਨਸਲਾਂ",
+  featureScanDescription: "ਆਪਣੇ ਕੈਮਰੇ ਨਾਲ ਜਾਂ ਫੋਟੋ ਅਪਲੋਡ ਕਰਕੇ ਗਾਂ ਅਤੇ ਮੱਝ ਦੀ ਨਸਲ ਤੁਰੰਤ ਪਛਾਣੋ।",
+  featureRecommendDescription: "ਆਪਣੇ ਖੇਤੀ ਦੇ ਉਦੇਸ਼ਾਂ ਅਤੇ ਹਾਲਾਤਾਂ ਅਨੁਸਾਰ ਵਧੀਆ ਨਸਲਾਂ ਦੀਆਂ ਸਿਫ਼ਾਰਸ਼ਾਂ ਲਓ।",
+  featureDiseaseDescription: "ਆਮ ਬਿਮਾਰੀਆਂ ਦੇ ਸ਼ੁਰੂਆਤੀ ਲੱਛਣ ਪਛਾਣਨ ਅਤੇ ਦੇਖਭਾਲ ਦੇ ਸੁਝਾਅ ਲੈਣ ਲਈ ਪਸ਼ੂ ਦੀ ਫੋਟੋ ਅਪਲੋਡ ਕਰੋ।",
+  language: "ਭਾਸ਼ਾ",
+  toggleMode: "ਔਨਲਾਈਨ/ਔਫਲਾਈਨ ਮੋਡ ਬਦਲੋ",
+  toggleTheme: "ਥੀਮ ਬਦਲੋ",
+  themeLight: "ਲਾਈਟ",
+  themeDark: "ਡਾਰਕ",
+  themeSystem: "ਸਿਸਟਮ",
+  online: "ਔਨਲਾਈਨ",
+  offline: "ਔਫਲਾਈਨ",
+  offlineModelUnavailable: "ਔਫਲਾਈਨ ਨਸਲ ਮਾਡਲ ਅਜੇ ਇਸ ਡਿਵਾਈਸ 'ਤੇ ਉਪਲਬਧ ਨਹੀਂ ਹੈ। ਇਸਨੂੰ ਡਾਊਨਲੋਡ ਕਰਨ ਲਈ ਇੱਕ ਵਾਰ ਇੰਟਰਨੈੱਟ ਨਾਲ ਜੁੜੋ, ਜਾਂ ਔਨਲਾਈਨ ਮੋਡ ਚੁਣੋ।",
+  offlineLowConfidence: "ਔਫਲਾਈਨ ਮਾਡਲ ਕਾਫ਼ੀ ਯਕੀਨ ਨਾਲ ਨਸਲ ਦੀ ਪਛਾਣ ਨਹੀਂ ਕਰ ਸਕਿਆ। ਪਸ਼ੂ ਦੇ ਪਾਸੇ ਤੋਂ ਹੋਰ ਸਾਫ਼ ਫੋਟੋ ਲੈ ਕੇ ਕੋਸ਼ਿਸ਼ ਕਰੋ।",
+  offlineFallbackTitle: "ਇੰਟਰਨੈੱਟ ਕਨੈਕਸ਼ਨ ਨਹੀਂ",
+  offlineFallbackDescription: "ਇਸਦੀ ਬਜਾਏ ਡਿਵਾਈਸ ਵਾਲਾ ਮਾਡਲ ਵਰਤਿਆ ਜਾ ਰਿਹਾ ਹੈ। ਤੁਹਾਡੇ ਦੁਬਾਰਾ ਔਨਲਾਈਨ ਹੋਣ 'ਤੇ ਸਕੈਨ ਅਪਲੋਡ ਹੋ ਜਾਵੇਗਾ।",
+  noConnectionTitle: "ਇੰਟਰਨੈੱਟ ਕਨੈਕਸ਼ਨ ਨਹੀਂ",
+  noConnectionDescription: "ਇਸ ਲਈ ਇੰਟਰਨੈੱਟ ਕਨੈਕਸ਼ਨ ਚਾਹੀਦਾ ਹੈ। ਤੁਹਾਡੀ ਫੋਟੋ ਅਤੇ ਨੋਟ ਇੱਥੇ ਰੱਖੇ ਗਏ ਹਨ, ਇਸ ਲਈ ਔਨਲਾਈਨ ਹੋਣ 'ਤੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।",
+  scanAnimal: "ਪਸ਼ੂ ਸਕੈਨ ਕਰੋ",
+  selectImage: "ਫੋਟੋ ਅਪਲੋਡ ਕਰੋ",
+  useCamera: "ਕੈਮਰਾ ਵਰਤੋ",
+  positionAnimal: "ਪਸ਼ੂ ਨੂੰ ਫਰੇਮ ਦੇ ਅੰਦਰ ਰੱਖੋ ਅਤੇ ਫੋਟੋ ਖਿੱਚੋ।",
+  capture: "ਫੋਟੋ ਖਿੱਚੋ",
+  cancel: "ਰੱਦ ਕਰੋ",
+  or: "ਜਾਂ",
+  tryDemo: "ਡੈਮੋ ਫੋਟੋ ਨਾਲ ਅਜ਼ਮਾਓ:",
+  analyzing: "ਫੋਟੋ ਦਾ ਵਿਸ਼ਲੇਸ਼ਣ ਹੋ ਰਿਹਾ ਹੈ...",
+  analyzingDescription: "ਸਾਡਾ ਏਆਈ ਨਸਲ ਦੀ ਪਛਾਣ ਕਰ ਰਿਹਾ ਹੈ। ਕਿਰਪਾ ਕਰਕੇ ਥੋੜ੍ਹੀ ਉਡੀਕ ਕਰੋ।",
+  aiSuggestions: "ਏਆਈ ਸੁਝਾਅ",
+  confidence: "ਯਕੀਨ",
+  confirm: "ਪੁਸ਼ਟੀ ਕਰੋ",
+  correctionPrompt: "ਨਸਲ ਗਲਤ ਹੈ?",
+  correctBreed: "ਸਹੀ ਨਸਲ",
+  selectCorrectBreed: "ਸਹੀ ਨਸਲ ਚੁਣੋ",
+  unknownBreed: "ਅਣਜਾਣ / ਦੋਗਲੀ",
+  submitCorrection: "ਸੋਧ ਭੇਜੋ",
+  correctionSubmittedTitle: "ਫੀਡਬੈਕ ਮਿਲ ਗਿਆ",
+  correctionSubmittedDescription: "ਧੰਨਵਾਦ! ਤੁਹਾਡੀ ਜਾਣਕਾਰੀ ਨਾਲ ਸਾਡਾ ਏਆਈ ਸਿੱਖਦਾ ਅਤੇ ਬਿਹਤਰ ਹੁੰਦਾ ਹੈ।",
+  correctionQueuedDescription: "ਧੰਨਵਾਦ! ਤੁਸੀਂ ਔਫਲਾਈਨ ਹੋ, ਇਸ ਲਈ ਤੁਹਾਡੀ ਸੋਧ ਇਸ ਡਿਵਾਈਸ 'ਤੇ ਸੰਭਾਲੀ ਗਈ ਹੈ ਅਤੇ ਔਨਲਾਈਨ ਹੋਣ 'ਤੇ ਅਪਲੋਡ ਹੋ ਜਾਵੇਗੀ।",
+  pendingSync: "ਅਪਲੋਡ ਦੀ ਉਡੀਕ ਵਿੱਚ",
+  failedSync: "ਸਰਵਰ ਨੇ ਰੱਦ ਕੀਤੇ",
+  discardFailedSync: "ਹਟਾਓ",
+  discardFailedSyncDescription: "ਸਰਵਰ ਨੇ ਇਹ ਐਂਟਰੀਆਂ ਸਵੀਕਾਰ ਨਹੀਂ ਕੀਤੀਆਂ, ਇਸ ਲਈ ਇਹ ਅਪਲੋਡ ਨਹੀਂ ਹੋਣਗੀਆਂ। ਕੀ ਇਹਨਾਂ ਨੂੰ ਇਸ ਡਿਵਾਈਸ ਤੋਂ ਹਟਾਉਣਾ ਹੈ?",
+  errorTitle: "ਗਲਤੀ ਹੋਈ",
+  errorDescription: "ਬੇਨਤੀ ਪੂਰੀ ਨਹੀਂ ਹੋ ਸਕੀ। ਕਿਰਪਾ ਕਰਕੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।",
+  serviceUnavailableError: "ਏਆਈ ਸੇਵਾ ਇਸ ਵੇਲੇ ਉਪਲਬਧ ਨਹੀਂ ਹੈ। ਕਿਰਪਾ ਕਰਕੇ ਕੁਝ ਦੇਰ ਬਾਅਦ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।",
+  finalBreed: "ਪਛਾਣੀ ਗਈ ਨਸਲ",
+  startOver: "ਦੁਬਾਰਾ ਸ਼ੁਰੂ ਕਰੋ",
+  uploading: "ਅਪਲੋਡ ਹੋ ਰਿਹਾ ਹੈ...",
+  invalidImage: "ਦਿੱਤੀ ਗਈ ਫੋਟੋ ਗਾਂ ਜਾਂ ਮੱਝ ਦੀ ਸਹੀ ਫੋਟੋ ਨਹੀਂ ਹੈ। ਕਿਰਪਾ ਕਰਕੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।",
+  invalidImageTitle: "ਗਲਤ ਫੋਟੋ",
+  tryAgain: "ਕਿਰਪਾ ਕਰਕੇ ਕਿਸੇ ਹੋਰ ਫੋਟੋ ਨਾਲ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।",
+  size: "ਆਕਾਰ",
+  colors: "ਰੰਗ",
+  nutrition: "ਖੁਰਾਕ",
+  noInfo: "ਇਸ ਨਸਲ ਦੀ ਜਾਣਕਾਰੀ ਉਪਲਬਧ ਨਹੀਂ ਹੈ।",
+  cameraAccessDeniedTitle: "ਕੈਮਰੇ ਦੀ ਇਜਾਜ਼ਤ ਨਹੀਂ ਮਿਲੀ",
+  cameraAccessDeniedDescription: "ਇਹ ਸਹੂਲਤ ਵਰਤਣ ਲਈ ਕਿਰਪਾ ਕਰਕੇ ਬ੍ਰਾਊਜ਼ਰ ਸੈਟਿੰਗਾਂ ਵਿੱਚ ਕੈਮਰੇ ਦੀ ਇਜਾਜ਼ਤ ਚਾਲੂ ਕਰੋ।",
+  cameraAccessRequiredTitle: "ਕੈਮਰੇ ਦੀ ਇਜਾਜ਼ਤ ਲੋੜੀਂਦੀ",
+  cameraAccessRequiredDescription: "ਇਹ ਸਹੂਲਤ ਵਰਤਣ ਲਈ ਕਿਰਪਾ ਕਰਕੇ ਕੈਮਰਾ ਵਰਤਣ ਦੀ ਇਜਾਜ਼ਤ ਦਿਓ। ਇਸ ਲਈ ਬ੍ਰਾਊਜ਼ਰ ਸੈਟਿੰਗਾਂ ਬਦਲਣੀਆਂ ਪੈ ਸਕਦੀਆਂ ਹਨ।",
+  rotateCamera: "ਕੈਮਰਾ ਘੁਮਾਓ",
+  uploadedAnimalAlt: "ਅਪਲੋਡ ਕੀਤਾ ਪਸ਼ੂ",
+  breedRecommendationEngine: "ਨਸਲ ਸਿਫ਼ਾਰਸ਼ ਪ੍ਰਣਾਲੀ",
+  findThePerfectBreed: "ਆਪਣੇ ਖੇਤ ਲਈ ਸਹੀ ਨਸਲ ਲੱਭਣ ਲਈ ਕੁਝ ਸਵਾਲਾਂ ਦੇ ਜਵਾਬ ਦਿਓ।",
+  primaryGoal: "ਮੁੱਖ ਉਦੇਸ਼",
+  selectGoalPlaceholder: "ਆਪਣਾ ਮੁੱਖ ਉਦੇਸ਼ ਚੁਣੋ...",
+  highMilkYield: "ਵੱਧ ਦੁੱਧ ਉਤਪਾਦਨ",
+  draughtStrength: "ਖੇਤੀ ਦੇ ਕੰਮ ਲਈ ਤਾਕਤ",
+  dualPurpose: "ਦੋਹਰਾ ਉਦੇਸ਼ (ਦੁੱਧ ਅਤੇ ਖੇਤੀ ਕੰਮ)",
+  lowMaintenance: "ਘੱਟ ਦੇਖਭਾਲ / ਖਰਚਾ",
+  budgetPerAnimalInRupees: "ਪ੍ਰਤੀ ਪਸ਼ੂ ਬਜਟ (₹ ਵਿੱਚ)",
+  landSizeInAcres: "ਜ਼ਮੀਨ (ਏਕੜ ਵਿੱਚ)",
+  acres: "ਏਕੜ",
+  singleAnimal: "ਇੱਕ ਪਸ਼ੂ",
+  herdPlanner: "ਵੱਗ ਯੋਜਨਾਕਾਰ",
+  totalBudgetInRupees: "ਪੂਰੇ ਵੱਗ ਦਾ ਬਜਟ (₹ ਵਿੱਚ)",
+  fodderAvailability: "ਚਾਰੇ ਦੀ ਉਪਲਬਧਤਾ",
+  fodderScarce: "ਘੱਟ",
+  fodderAdequate: "ਕਾਫ਼ੀ",
+  fodderAbundant: "ਭਰਪੂਰ",
+  labourAvailable: "ਪੂਰੇ ਸਮੇਂ ਦੇ ਕਾਮੇ",
+  herdPlanTitle: "ਸੁਝਾਇਆ ਵੱਗ",
+  noHerdPlan: "ਤੁਹਾਡੇ ਬਜਟ ਵਿੱਚ ਇਨ੍ਹਾਂ ਹਾਲਾਤਾਂ ਦੇ ਅਨੁਕੂਲ ਕੋਈ ਪਸ਼ੂ ਨਹੀਂ ਖਰੀਦਿਆ ਜਾ ਸਕਦਾ। ਵੱਡਾ ਬਜਟ ਜਾਂ ਕੋਈ ਹੋਰ ਉਦੇਸ਼ ਅਜ਼ਮਾਓ।",
+  animalsLandCanSustain: "ਪਸ਼ੂ ਤੁਹਾਡੀ ਜ਼ਮੀਨ ਪਾਲ ਸਕਦੀ ਹੈ",
+  limitedBy: "ਸੀਮਾ",
+  limitBudget: "ਬਜਟ",
+  limitLand: "ਜ਼ਮੀਨ ਅਤੇ ਚਾਰਾ",
+  limitLabour: "ਮਜ਼ਦੂਰੀ",
+  limitHerdSize: "ਯੋਜਨਾ ਦਾ ਸਭ ਤੋਂ ਵੱਡਾ ਝੁੰਡ",
+  totalInvestment: "ਕੁੱਲ ਨਿਵੇਸ਼",
+  monthlyIncome: "ਮਹੀਨਾਵਾਰ ਆਮਦਨ",
+  monthlyCost: "ਮਹੀਨਾਵਾਰ ਖਰਚਾ",
+  monthlyProfit: "ਮਹੀਨਾਵਾਰ ਮੁਨਾਫ਼ਾ",
+  paybackPeriod: "ਨਿਵੇਸ਼ ਵਾਪਸੀ ਦਾ ਸਮਾਂ",
+  months: "ਮਹੀਨੇ",
+  notProfitable: "ਮੁਨਾਫ਼ੇਯੋਗ ਨਹੀਂ",
+  economicAssumptions: "ਆਰਥਿਕ ਅਨੁਮਾਨ",
+  savedRegions: "ਸੰਭਾਲੇ ਖੇਤਰ",
+  regionName: "ਖੇਤਰ ਵਜੋਂ ਸੰਭਾਲੋ",
+  regionNamePlaceholder: "ਜਿਵੇਂ, ਪੰਜਾਬ",
+  deleteRegion: "ਇਹ ਖੇਤਰ ਮਿਟਾਓ",
+  milkPricing: "ਦੁੱਧ ਦਾ ਭਾਅ",
+  milkPricingFlat: "ਪ੍ਰਤੀ ਲੀਟਰ ਇੱਕੋ ਭਾਅ",
+  milkPricingFatSnf: "ਫੈਟ/ਐੱਸਐੱਨਐੱਫ ਰੇਟ ਚਾਰਟ (ਦੋ ਧੁਰੇ)",
+  pricePerLitre: "ਪ੍ਰਤੀ ਲੀਟਰ ਭਾਅ (₹)",
+  fatRatePerKg: "ਪ੍ਰਤੀ ਕਿਲੋ ਫੈਟ ਰੇਟ (₹)",
+  snfRatePerKg: "ਪ੍ਰਤੀ ਕਿਲੋ ਐੱਸਐੱਨਐੱਫ ਰੇਟ (₹)",
+  feedCostPerDay: "ਪ੍ਰਤੀ ਪਸ਼ੂ ਰੋਜ਼ਾਨਾ ਖੁਰਾਕ ਖਰਚਾ (₹), ਖੁਰਾਕ ਦੀ ਲੋੜ ਅਨੁਸਾਰ",
+  labourCostPerMonth: "ਪ੍ਰਤੀ ਪਸ਼ੂ ਮਹੀਨਾਵਾਰ ਮਜ਼ਦੂਰੀ (₹)",
+  vetCostPerMonth: "ਪ੍ਰਤੀ ਪਸ਼ੂ ਮਹੀਨਾਵਾਰ ਡਾਕਟਰੀ ਅਤੇ ਦਵਾਈ (₹)",
+  insurancePercentPerYear: "ਬੀਮਾ ਪ੍ਰੀਮੀਅਮ (ਕੀਮਤ ਦਾ % ਸਾਲਾਨਾ)",
+  fatSnfAxis: "ਫੈਟ % ↓ ਐੱਸਐੱਨਐੱਫ % →",
+  milkPrice: "ਦੁੱਧ ਦਾ ਭਾਅ",
+  litreShort: "ਲੀ",
+  fat: "ਫੈਟ",
+  discountRatePercent: "ਛੂਟ ਦਰ (% ਸਾਲਾਨਾ)",
+  projectionYears: "ਅਨੁਮਾਨ ਦੀ ਮਿਆਦ",
+  years: "ਸਾਲ",
+  cashFlowProjection: "ਨਕਦ ਪ੍ਰਵਾਹ ਅਨੁਮਾਨ (ਇੱਕ ਪਸ਼ੂ)",
+  netCashFlow: "ਸ਼ੁੱਧ ਨਕਦ ਪ੍ਰਵਾਹ",
+  cumulativeCashFlow: "ਸੰਚਿਤ",
+  npv: "ਸ਼ੁੱਧ ਮੌਜੂਦਾ ਮੁੱਲ (NPV)",
+  irr: "ਅੰਦਰੂਨੀ ਵਾਪਸੀ ਦਰ (IRR)",
+  year: "ਸਾਲ",
+  yearShort: "ਸਾ",
+  regionalClimate: "ਖੇਤਰੀ ਮੌਸਮ",
+  selectClimatePlaceholder: "ਆਪਣਾ ਮੌਸਮ ਚੁਣੋ...",
+  climateHotDry: "ਗਰਮ ਅਤੇ ਖੁਸ਼ਕ",
+  climateHotHumid: "ਗਰਮ ਅਤੇ ਸਿੱਲ੍ਹਾ",
+  climateModerate: "ਦਰਮਿਆਨਾ",
+  climateCold: "ਠੰਢਾ",
+  getRecommendations: "ਸਿਫ਼ਾਰਸ਼ਾਂ ਲਓ",
+  findingBestBreeds: "ਤੁਹਾਡੇ ਲਈ ਵਧੀਆ ਨਸਲਾਂ ਲੱਭ ਰਹੇ ਹਾਂ...",
+  topRecommendations: "ਮੁੱਖ ਸਿਫ਼ਾਰਸ਼ਾਂ",
+  overallScore: "ਕੁੱਲ ਅੰਕ",
+  estimatedROI: "ਅਨੁਮਾਨਿਤ ROI",
+  pros: "ਫਾਇਦੇ",
+  cons: "ਨੁਕਸਾਨ",
+  careLevel: "ਦੇਖਭਾਲ ਦਾ ਪੱਧਰ",
+  Low: "ਘੱਟ",
+  Medium: "ਦਰਮਿਆਨਾ",
+  High: "ਵੱਧ",
+  suitabilityScorecard: "ਅਨੁਕੂਲਤਾ ਸਕੋਰਕਾਰਡ",
+  milkYieldScore: "ਦੁੱਧ ਉਤਪਾਦਨ",
+  strengthScore: "ਤਾਕਤ",
+  careRequirementScore: "ਘੱਟ ਦੇਖਭਾਲ ਦੀ ਲੋੜ",
+  roiScore: "ਮੁਨਾਫ਼ਾ (ROI)",
+  climateMatchScore: "ਮੌਸਮ ਅਨੁਕੂਲਤਾ",
+  noBreedsFoundTitle: "ਮੇਲ ਖਾਂਦੀ ਨਸਲ ਨਹੀਂ ਮਿਲੀ",
+  noBreedsFoundDescription: "ਤੁਹਾਡੇ ਮਾਪਦੰਡਾਂ ਨਾਲ ਮੇਲ ਖਾਂਦੀ ਕੋਈ ਨਸਲ ਨਹੀਂ ਮਿਲੀ। ਕਿਰਪਾ ਕਰਕੇ ਫਿਲਟਰ ਬਦਲ ਕੇ ਦੇਖੋ।",
+  compare: "ਤੁਲਨਾ ਕਰੋ",
+  compareBreeds: "ਨਸਲਾਂ ਦੀ ਤੁਲਨਾ ਕਰੋ",
+  feature: "ਵਿਸ਼ੇਸ਼ਤਾ",
+  diseaseDetection: "ਬਿਮਾਰੀ ਦੀ ਜਾਂਚ",
+  detectDisease: "ਬਿਮਾਰੀ ਪਛਾਣੋ",
+  detectDiseaseDescription: "ਏਆਈ ਅਧਾਰਿਤ ਸਿਹਤ ਜਾਂਚ ਲਈ ਫੋਟੋ ਅਪਲੋਡ ਕਰੋ ਅਤੇ ਲੱਛਣਾਂ ਦਾ ਵੇਰਵਾ ਦਿਓ।",
+  addDescription: "ਲੱਛਣਾਂ ਦਾ ਵੇਰਵਾ ਜੋੜੋ (ਵਿਕਲਪਿਕ)",
+  symptomDescriptionPlaceholder: "ਜਿਵੇਂ, ਪਸ਼ੂ ਸੁਸਤ ਹੈ, ਠੀਕ ਨਹੀਂ ਖਾ ਰਿਹਾ, ਖੰਘ ਰਿਹਾ ਹੈ...",
+  speakSymptoms: "ਲੱਛਣ ਬੋਲੋ",
+  stopRecording: "ਰਿਕਾਰਡਿੰਗ ਰੋਕੋ",
+  listening: "ਸੁਣ ਰਹੇ ਹਾਂ...",
+  transcribing: "ਲਿਖ ਰਹੇ ਹਾਂ...",
+  microphoneAccessDeniedTitle: "ਮਾਈਕ੍ਰੋਫ਼ੋਨ ਦੀ ਇਜਾਜ਼ਤ ਨਹੀਂ ਮਿਲੀ",
+  microphoneAccessDeniedDescription: "ਲੱਛਣ ਬੋਲ ਕੇ ਦੱਸਣ ਲਈ ਕਿਰਪਾ ਕਰਕੇ ਆਪਣੇ ਬ੍ਰਾਊਜ਼ਰ ਦੀਆਂ ਸੈਟਿੰਗਾਂ ਵਿੱਚ ਮਾਈਕ੍ਰੋਫ਼ੋਨ ਦੀ ਇਜਾਜ਼ਤ ਦਿਓ।",
+  transcriptionFailed: "ਰਿਕਾਰਡਿੰਗ ਨੂੰ ਲਿਖਿਆ ਨਹੀਂ ਜਾ ਸਕਿਆ। ਕਿਰਪਾ ਕਰਕੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ ਜਾਂ ਲੱਛਣ ਟਾਈਪ ਕਰੋ।",
+  voiceNote: "ਆਵਾਜ਼ ਨੋਟ",
+  removeVoiceNote: "ਆਵਾਜ਼ ਨੋਟ ਹਟਾਓ",
+  getDiagnosis: "ਜਾਂਚ ਨਤੀਜਾ ਲਓ",
+  analyzingHealth: "ਪਸ਼ੂ ਦੀ ਸਿਹਤ ਦਾ ਵਿਸ਼ਲੇਸ਼ਣ ਹੋ ਰਿਹਾ ਹੈ...",
+  analyzingHealthDescription: "ਸਾਡਾ ਏਆਈ ਫੋਟੋ ਅਤੇ ਲੱਛਣਾਂ ਦਾ ਵਿਸ਼ਲੇਸ਼ਣ ਕਰ ਰਿਹਾ ਹੈ। ਕਿਰਪਾ ਕਰਕੇ ਥੋੜ੍ਹੀ ਉਡੀਕ ਕਰੋ।",
+  diagnosisResult: "ਜਾਂਚ ਦਾ ਨਤੀਜਾ",
+  noDiseaseDetected: "ਕੋਈ ਬਿਮਾਰੀ ਨਹੀਂ ਮਿਲੀ",
+  preventiveCare: "ਰੋਕਥਾਮ ਦੇਖਭਾਲ",
+  disease: "ਬਿਮਾਰੀ",
+  urgency: "ਜ਼ਰੂਰੀਅਤ",
+  description: "ਵੇਰਵਾ",
+  firstAid: "ਮੁਢਲੀ ਸਹਾਇਤਾ / ਦੇਖਭਾਲ",
+  veterinaryAttention: "ਪਸ਼ੂ ਡਾਕਟਰ ਦੀ ਦੇਖਭਾਲ",
+  listen: "ਸੁਣੋ",
+  stopReading: "ਰੋਕੋ",
+  listenTo: "ਸੁਣੋ:",
+  readingSpeed: "ਪੜ੍ਹਨ ਦੀ ਗਤੀ",
+  speedSlow: "ਹੌਲੀ",
+  speedNormal: "ਆਮ",
+  speedFast: "ਤੇਜ਼",
+  immediateAttentionRequired: "ਤੁਰੰਤ ਪਸ਼ੂ ਡਾਕਟਰ ਦੇ ਇਲਾਜ ਦੀ ਲੋੜ ਹੈ।",
+  attentionRecommended: "ਪਸ਼ੂ ਡਾਕਟਰ ਨੂੰ ਦਿਖਾਉਣ ਦੀ ਸਲਾਹ ਹੈ।",
+  monitorAnimal: "ਪਸ਼ੂ 'ਤੇ ਨੇੜਿਓਂ ਨਜ਼ਰ ਰੱਖੋ।",
+  addSymptoms: "ਆਮ ਲੱਛਣ ਜੋੜੋ",
+  commonSymptoms: "ਆਮ ਲੱਛਣ",
+  selectedSymptoms: "ਚੁਣੇ ਲੱਛਣ",
+  symptomLethargy: "ਸੁਸਤੀ/ਕਮਜ਼ੋਰੀ",
+  symptomAppetiteLoss: "ਭੁੱਖ ਨਾ ਲੱਗਣਾ",
+  symptomCoughing: "ਖੰਘ",
+  symptomSores: "ਛਾਲੇ ਜਾਂ ਜ਼ਖ਼ਮ",
+  symptomLimping: "ਲੰਗੜਾਉਣਾ",
+  symptomSwelling: "ਸੋਜ",
+  symptomDischarge: "ਅਸਧਾਰਨ ਰਿਸਾਅ",
+  symptomDiarrhea: "ਦਸਤ",
+  emergencyHelpline: "ਐਮਰਜੈਂਸੀ ਹੈਲਪਲਾਈਨ",
+  findVet: "ਪਸ਼ੂ ਡਾਕਟਰੀ ਮਦਦ ਲੱਭੋ",
+  enterLocation: "ਨੇੜਲੀ ਮਦਦ ਲੱਭਣ ਲਈ ਆਪਣਾ ਸ਼ਹਿਰ, ਜ਼ਿਲ੍ਹਾ ਜਾਂ ਪਿੰਨਕੋਡ ਦਰਜ ਕਰੋ।",
+  locationPlaceholder: "ਜਿਵੇਂ, 'ਲੁਧਿਆਣਾ' ਜਾਂ '141001'",
+  findingHelp: "ਮਦਦ ਲੱਭ ਰਹੇ ਹਾਂ...",
+  noVetsFound: "ਇਸ ਥਾਂ ਲਈ ਕੋਈ ਹਸਪਤਾਲ ਜਾਂ ਡਿਸਪੈਂਸਰੀ ਨਹੀਂ ਮਿਲੀ। ਆਪਣੇ ਜ਼ਿਲ੍ਹੇ ਦਾ ਨਾਮ ਅਜ਼ਮਾਓ, ਜਾਂ ਉੱਪਰ ਦਿੱਤੀ ਹੈਲਪਲਾਈਨ 'ਤੇ ਫ਼ੋਨ ਕਰੋ।",
+  vetDirectoryNotLoaded: "ਇਸ ਐਪ ਵਿੱਚ ਅਜੇ ਪਸ਼ੂ ਚਿਕਿਤਸਾ ਡਾਇਰੈਕਟਰੀ ਲੋਡ ਨਹੀਂ ਕੀਤੀ ਗਈ, ਇਸ ਲਈ ਸਿਰਫ਼ ਰਾਸ਼ਟਰੀ ਹੈਲਪਲਾਈਨ ਦਿਖਾਈ ਗਈ ਹੈ। ਨੇੜਲੀ ਪਸ਼ੂ ਚਿਕਿਤਸਾ ਇਕਾਈ ਤੱਕ ਪਹੁੰਚਣ ਲਈ ਉਸ 'ਤੇ ਕਾਲ ਕਰੋ।",
+  Hospital: "ਹਸਪਤਾਲ",
+  Clinic: "ਕਲੀਨਿਕ",
+  Helpline: "ਹੈਲਪਲਾਈਨ",
+  Dispensary: "ਡਿਸਪੈਂਸਰੀ",
+  unverified: "ਪੁਸ਼ਟੀ ਨਹੀਂ ਹੋਈ",
+  useMyLocation: "ਮੇਰੀ ਥਾਂ ਵਰਤੋ",
+  locationUnavailableTitle: "ਥਾਂ ਉਪਲਬਧ ਨਹੀਂ",
+  locationUnavailableDescription: "ਇਸਦੀ ਬਜਾਏ ਆਪਣਾ ਪਿੰਨਕੋਡ ਦਰਜ ਕਰੋ, ਅਸੀਂ ਉਸਦੇ ਆਲੇ-ਦੁਆਲੇ ਲੱਭਾਂਗੇ।",
+  kmAway: "ਕਿਮੀ ਦੂਰ",
+  animals: "ਪਸ਼ੂ",
+  animalRegistry: "ਪਸ਼ੂ ਰਜਿਸਟਰ",
+  animalRegistryDescription: "ਹਰ ਪਸ਼ੂ ਦਾ ਵੇਰਵਾ ਰੱਖੋ: ਕੰਨ ਦਾ ਟੈਗ, ਨਸਲ, ਮਾਲਕ ਅਤੇ ਫੋਟੋਆਂ।",
+  searchAnimals: "ਕੰਨ ਦੇ ਟੈਗ, ਮਾਲਕ, ਪਿੰਡ ਜਾਂ ਨਸਲ ਨਾਲ ਲੱਭੋ...",
+  registerAnimal: "ਪਸ਼ੂ ਦਰਜ ਕਰੋ",
+  noAnimalsFound: "ਕੋਈ ਪਸ਼ੂ ਨਹੀਂ ਮਿਲਿਆ। ਸ਼ੁਰੂ ਕਰਨ ਲਈ ਇੱਕ ਪਸ਼ੂ ਦਰਜ ਕਰੋ।",
+  earTag: "ਕੰਨ ਟੈਗ ਨੰਬਰ",
+  species: "ਪ੍ਰਜਾਤੀ",
+  Cattle: "ਗਾਂ",
+  Buffalo: "ਮੱਝ",
+  breed: "ਨਸਲ",
+  sex: "ਲਿੰਗ",
+  Female: "ਮਾਦਾ",
+  Male: "ਨਰ",
+  dateOfBirth: "ਜਨਮ ਮਿਤੀ",
+  age: "ਉਮਰ",
+  yearsShort: "ਸਾ",
+  monthsShort: "ਮ",
+  owner: "ਮਾਲਕ",
+  village: "ਪਿੰਡ",
+  photos: "ਫੋਟੋਆਂ",
+  noPhotos: "ਅਜੇ ਕੋਈ ਫੋਟੋ ਨਹੀਂ।",
+  addPhoto: "ਫੋਟੋ ਜੋੜੋ",
+  save: "ਸੰਭਾਲੋ",
+  edit: "ਸੋਧੋ",
+  saveToAnimalProfile: "ਪਸ਼ੂ ਦੀ ਪ੍ਰੋਫਾਈਲ ਵਿੱਚ ਸੰਭਾਲੋ",
+  existingAnimal: "ਮੌਜੂਦਾ ਪਸ਼ੂ",
+  newAnimal: "ਨਵਾਂ ਪਸ਼ੂ",
+  attach: "ਜੋੜੋ",
+  animalSavedTitle: "ਪਸ਼ੂ ਦੀ ਪ੍ਰੋਫਾਈਲ ਸੰਭਾਲੀ ਗਈ",
+  animalSavedDescription: "ਨਸਲ ਅਤੇ ਫੋਟੋ ਪਸ਼ੂ ਦੀ ਪ੍ਰੋਫਾਈਲ ਵਿੱਚ ਸੰਭਾਲੇ ਗਏ ਹਨ।",
+  breedSpeciesMismatch: "ਸਕੈਨ ਕੀਤੀ ਨਸਲ ਇਸ ਪਸ਼ੂ ਦੀ ਪ੍ਰਜਾਤੀ ਨਾਲ ਮੇਲ ਨਹੀਂ ਖਾਂਦੀ। ਕੋਈ ਹੋਰ ਪਸ਼ੂ ਚੁਣੋ ਜਾਂ ਨਵਾਂ ਪਸ਼ੂ ਦਰਜ ਕਰੋ।",
+  viewProfile: "ਪ੍ਰੋਫਾਈਲ ਦੇਖੋ",
+  backToRegistry: "ਰਜਿਸਟਰ 'ਤੇ ਵਾਪਸ",
+  animalNotFound: "ਇਹ ਪਸ਼ੂ ਨਹੀਂ ਮਿਲਿਆ।",
+  loading: "ਲੋਡ ਹੋ ਰਿਹਾ ਹੈ...",
+  healthHistory: "ਸਿਹਤ ਇਤਿਹਾਸ",
+  noHealthRecords: "ਇਸ ਪਸ਼ੂ ਲਈ ਅਜੇ ਕੋਈ ਜਾਂਚ ਨਹੀਂ ਸੰਭਾਲੀ ਗਈ।",
+  saveToHealthHistory: "ਸਿਹਤ ਇਤਿਹਾਸ ਵਿੱਚ ਸੰਭਾਲੋ",
+  diagnosisSavedTitle: "ਜਾਂਚ ਸੰਭਾਲੀ ਗਈ",
+  diagnosisSavedDescription: "ਜਾਂਚ ਪਸ਼ੂ ਦੇ ਸਿਹਤ ਇਤਿਹਾਸ ਵਿੱਚ ਜੋੜ ਦਿੱਤੀ ਗਈ ਹੈ।",
+  statusPending: "ਡਾਕਟਰ ਦੀ ਉਡੀਕ ਵਿੱਚ",
+  statusVetConfirmed: "ਡਾਕਟਰ ਨੇ ਪੁਸ਼ਟੀ ਕੀਤੀ",
+  statusRuledOut: "ਰੱਦ ਕੀਤਾ",
+  statusResolved: "ਠੀਕ ਹੋ ਗਿਆ",
+  vaccinationSchedule: "ਟੀਕਾਕਰਨ ਅਤੇ ਕਿਰਮ ਨਾਸ਼ਕ",
+  vaccinationReminders: "ਟੀਕਾਕਰਨ ਯਾਦ-ਦਹਾਨੀਆਂ",
+  noRemindersDue: "ਅਗਲੇ ਦੋ ਹਫ਼ਤਿਆਂ ਵਿੱਚ ਕੋਈ ਟੀਕਾ ਜਾਂ ਕਿਰਮ ਨਾਸ਼ਕ ਬਾਕੀ ਨਹੀਂ।",
+  noScheduleItems: "ਇਸ ਵੇਲੇ ਇਸ ਪਸ਼ੂ 'ਤੇ ਕੋਈ ਟੀਕਾ ਜਾਂ ਕਿਰਮ ਨਾਸ਼ਕ ਲਾਗੂ ਨਹੀਂ ਹੁੰਦਾ।",
+  overdue: "ਸਮਾਂ ਲੰਘ ਗਿਆ",
+  dueSoon: "ਜਲਦੀ ਬਾਕੀ",
+  upcoming: "ਆਉਣ ਵਾਲੇ",
+  dueOn: "ਬਾਕੀ ਮਿਤੀ",
+  lastGiven: "ਆਖਰੀ ਵਾਰ ਦਿੱਤਾ",
+  markGiven: "ਦਿੱਤਾ ਗਿਆ ਨਿਸ਼ਾਨ ਲਗਾਓ",
+  givenOn: "ਦੇਣ ਦੀ ਮਿਤੀ",
+  doseRecordedTitle: "ਖੁਰਾਕ ਦਰਜ ਹੋਈ",
+  vaccineFmd: "ਮੂੰਹ-ਖੁਰ ਦੀ ਬਿਮਾਰੀ (FMD)",
+  vaccineHs: "ਗਲਘੋਟੂ (HS)",
+  vaccineBq: "ਲੰਗੜਾ ਬੁਖਾਰ (BQ)",
+  vaccineBrucellosis: "ਬਰੂਸੈਲੋਸਿਸ",
+  vaccineLsd: "ਲੰਪੀ ਚਮੜੀ ਰੋਗ (LSD)",
+  deworming: "ਕੀੜੇ ਮਾਰਨਾ",
+  vaccineNotesFmd: "ਪਹਿਲੀ ਖੁਰਾਕ ਤੋਂ ਇੱਕ ਮਹੀਨੇ ਬਾਅਦ ਬੂਸਟਰ, ਫਿਰ ਹਰ ਛੇ ਮਹੀਨੇ।",
+  vaccineNotesMonsoon: "ਹਰ ਸਾਲ, ਪ੍ਰਭਾਵਿਤ ਇਲਾਕਿਆਂ ਵਿੱਚ ਹੋ ਸਕੇ ਤਾਂ ਮਾਨਸੂਨ ਤੋਂ ਪਹਿਲਾਂ।",
+  vaccineNotesBrucellosis: "ਜੀਵਨ ਵਿੱਚ ਇੱਕ ਵਾਰ, ਚਾਰ ਤੋਂ ਅੱਠ ਮਹੀਨਿਆਂ ਦੀਆਂ ਵੱਛੀਆਂ ਨੂੰ।",
+  vaccineNotesYearly: "ਹਰ ਸਾਲ।",
+  vaccineNotesDeworming: "ਹਰ ਤਿੰਨ ਮਹੀਨੇ; ਰੋਧਕਤਾ ਤੋਂ ਬਚਣ ਲਈ ਦਵਾਈ ਦੀ ਸ਼੍ਰੇਣੀ ਬਦਲਦੇ ਰਹੋ।",
+  allVillages: "ਸਾਰੇ ਪਿੰਡ",
+  breedEncyclopedia: "ਨਸਲ ਵਿਸ਼ਵਕੋਸ਼",
+  breedEncyclopediaDescription: "ਭਾਰਤ ਦੀਆਂ ਸਾਰੀਆਂ ਦਰਜ ਗਾਂ ਅਤੇ ਮੱਝ ਦੀਆਂ ਨਸਲਾਂ ਦੇਖੋ।",
+  searchBreeds: "ਨਸਲ ਜਾਂ ਰਾਜ ਨਾਲ ਲੱਭੋ...",
+  allSpecies: "ਸਾਰੀਆਂ ਪ੍ਰਜਾਤੀਆਂ",
+  allPurposes: "ਸਾਰੇ ਉਦੇਸ਼",
+  purpose: "ਉਦੇਸ਼",
+  purposeMilk: "ਦੁੱਧ",
+  purposeDraught: "ਖੇਤੀ ਕੰਮ",
+  purposeDual: "ਦੋਹਰਾ ਉਦੇਸ਼",
+  noBreedsMatch: "ਇਨ੍ਹਾਂ ਫਿਲਟਰਾਂ ਨਾਲ ਕੋਈ ਨਸਲ ਮੇਲ ਨਹੀਂ ਖਾਂਦੀ।",
+  backToBreeds: "ਨਸਲਾਂ 'ਤੇ ਵਾਪਸ",
+  breedNotFound: "ਇਹ ਨਸਲ ਸੂਚੀ ਵਿੱਚ ਨਹੀਂ ਹੈ।",
+  milkYield: "ਦੁੱਧ ਉਤਪਾਦਨ",
+  litresPerDay: "ਲੀ/ਦਿਨ",
+  snf: "ਐੱਸਐੱਨਐੱਫ",
+  climateSuitability: "ਮੌਸਮ ਅਨੁਕੂਲਤਾ",
+  diseaseResistance: "ਬਿਮਾਰੀ ਨਾਲ ਲੜਨ ਦੀ ਸਮਰੱਥਾ",
+  lifespan: "ਉਮਰ",
+  marketPrice: "ਬਾਜ਼ਾਰ ਭਾਅ",
+  nativeTract: "ਮੂਲ ਖੇਤਰ",
+  physicalTraits: "ਪਛਾਣ ਦੇ ਲੱਛਣ",
+  referencePhotos: "ਨਮੂਨਾ ਫੋਟੋਆਂ",
+  noReferencePhotos: "ਅਜੇ ਕੋਈ ਨਮੂਨਾ ਫੋਟੋ ਨਹੀਂ।",
+  viewBreedPage: "ਇਸ ਨਸਲ ਬਾਰੇ ਹੋਰ ਪੜ੍ਹੋ",
+  unverifiedBreedInfo: "ਇਹ ਨਸਲ ਸਾਡੀ ਸੂਚੀ ਵਿੱਚ ਨਹੀਂ ਹੈ, ਇਸ ਲਈ ਇਹ ਵੇਰਵੇ ਏਆਈ ਨੇ ਲਿਖੇ ਹਨ ਅਤੇ ਗਲਤ ਹੋ ਸਕਦੇ ਹਨ।",
+};
@@ -0,0 +1,320 @@
+import type { LocalePack } from '@/lib/translations';
+
+export const ta: LocalePack = {
+  appName: "பசு ஏஐ",
+  tagline: "இந்திய கால்நடைகளுக்கான ஏஐ அடிப்படையிலான இன அடையாளம்",
+  navHome: "முகப்பு",
+  navScanner: "ஸ்கேனர்",
+  navDecisionSupport: "முடிவு உதவி",
+  navDiseaseDetection: "நோய் கண்டறிதல்",
+  navAnimals: "விலங்குகள்",
+  navBreeds: "இனங்கள்",
+  featureScanDescription: "உங்கள் கேமரா மூலம் அல்லது புகைப்படம் பதிவேற்றி பசு மற்றும் எருமை இனங்களை உடனே கண்டறியுங்கள்.",
+  featureRecommendDescription: "உங்கள் விவசாய நோக்கங்கள் மற்றும் சூழலுக்கு ஏற்ற சிறந்த இனங்களுக்கான பரிந்துரைகளைப் பெறுங்கள்.",
+  featureDiseaseDescription: "பொதுவான நோய்களின் ஆரம்ப அறிகுறிகளைக் கண்டறிந்து பராமரிப்பு ஆலோசனைகளைப் பெற விலங்கின் புகைப்படத்தைப் பதிவேற்றுங்கள்.",
+  language: "மொழி",
+  toggleMode: "ஆன்லைன்/ஆஃப்லைன் முறையை மாற்று",
+  toggleTheme: "தீமை மாற்று",
+  themeLight: "வெளிர்",
+  themeDark: "இருள்",
+  themeSystem: "கணினி",
+  online: "ஆன்லைன்",
+  offline: "ஆஃப்லைன்",
+  offlineModelUnavailable: "ஆஃப்லைன் இன மாதிரி இன்னும் இந்தச் சாதனத்தில் இல்லை. அதைப் பதிவிறக்க ஒருமுறை இணையத்துடன் இணையுங்கள், அல்லது ஆன்லைன் முறைக்கு மாறுங்கள்.",
+  offlineLowConfidence: "ஆஃப்லைன் மாதிரியால் போதுமான உறுதியுடன் இனத்தைக் கண்டறிய முடியவில்லை. விலங்கின் பக்கவாட்டிலிருந்து தெளிவான புகைப்படம் எடுத்துப் பாருங்கள்.",
+  offlineFallbackTitle: "இணைய இணைப்பு இல்லை",
+  offlineFallbackDescription: "அதற்குப் பதிலாக சாதனத்தில் உள்ள மாதிரி பயன்படுத்தப்படுகிறது. மீண்டும் ஆன்லைனில் வரும்போது ஸ்கேன் பதிவேற்றப்படும்.",
+  noConnectionTitle: "இணைய இணைப்பு இல்லை",
+  noConnectionDescription: "இதற்கு இணைய இணைப்பு தேவை. உங்கள் புகைப்படமும் குறிப்பும் இங்கே வைக்கப்பட்டுள்ளன, எனவே ஆன்லைனில் வந்ததும் மீண்டும் முயற்சிக்கவும்.",
+  scanAnimal: "விலங்கை ஸ்கேன் செய்",
+  selectImage: "புகைப்படம் பதிவேற்று",
+  useCamera: "கேமராவைப் பயன்படுத்து",
+  positionAnimal: "விலங்கைச் சட்டகத்துக்குள் வைத்து புகைப்படம் எடுக்கவும்.",
+  capture: "புகைப்படம் எடு",
+  cancel: "ரத்து செய்",
+  or: "அல்லது",
+  tryDemo: "மாதிரிப் புகைப்படத்துடன் முயற்சிக்கவும்:",
+  analyzing: "புகைப்படம் பகுப்பாய்வு செய்யப்படுகிறது...",
+  analyzingDescription: "எங்கள் ஏஐ இனத்தைக் கண்டறிகிறது. சற்றுக் காத்திருக்கவும்.",
+  aiSuggestions: "ஏஐ பரிந்துரைகள்",
+  confidence: "உறுதி",
+  confirm: "உறுதிப்படுத்து",
+  correctionPrompt: "இனம் தவறா?",
+  correctBreed: "சரியான இனம்",
+  selectCorrectBreed: "சரியான இனத்தைத் தேர்ந்தெடுக்கவும்",
+  unknownBreed: "தெரியாதது / கலப்பினம்",
+  submitCorrection: "திருத்தத்தைச் சமர்ப்பி",
+  correctionSubmittedTitle: "கருத்து பெறப்பட்டது",
+  correctionSubmittedDescription: "நன்றி! உங்கள் தகவலால் எங்கள் ஏஐ கற்றுக்கொண்டு மேம்படுகிறது.",
+  correctionQueuedDescription: "நன்றி! நீங்கள் ஆஃப்லைனில் இருப்பதால், உங்கள் திருத்தம் இந்தச் சாதனத்தில் சேமிக்கப்பட்டு ஆன்லைனில் வரும்போது பதிவேற்றப்படும்.",
+  pendingSync: "பதிவேற்றக் காத்திருக்கிறது",
+  failedSync: "சேவையகம் நிராகரித்தது",
+  discardFailedSync: "நீக்கு",
+  discardFailedSyncDescription: "சேவையகம் இந்தப் பதிவுகளை ஏற்கவில்லை, எனவே அவை பதிவேற்றப்படாது. இந்தச் சாதனத்திலிருந்து அவற்றை நீக்கவா?",
+  errorTitle: "பிழை ஏற்பட்டது",
+  errorDescription: "கோரிக்கையை முடிக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.",
+  serviceUnavailableError: "ஏஐ சேவை தற்போது கிடைக்கவில்லை. சிறிது நேரம் கழித்து மீண்டும் முயற்சிக்கவும்.",
+  finalBreed: "கண்டறியப்பட்ட இனம்",
+  startOver: "மீண்டும் தொடங்கு",
+  uploading: "பதிவேற்றப்படுகிறது...",
+  invalidImage: "கொடுக்கப்பட்ட புகைப்படம் பசு அல்லது எருமையின் சரியான புகைப்படம் அல்ல. மீண்டும் முயற்சிக்கவும்.",
+  invalidImageTitle: "தவறான புகைப்படம்",
+  tryAgain: "வேறு புகைப்படத்துடன் மீண்டும் முயற்சிக்கவும்.",
+  size: "அளவு",
+  colors: "நிறங்கள்",
+  nutrition: "ஊட்டச்சத்து",
+  noInfo: "இந்த இனத்துக்கான தகவல் இல்லை.",
+  cameraAccessDeniedTitle: "கேமரா அனுமதி மறுக்கப்பட்டது",
+  cameraAccessDeniedDescription: "இந்த வசதியைப் பயன்படுத்த உலாவி அமைப்புகளில் கேமரா அனுமதியை இயக்கவும்.",
+  cameraAccessRequiredTitle: "கேமரா அனுமதி தேவை",
+  cameraAccessRequiredDescription: "இந்த வசதியைப் பயன்படுத்த கேமராவை அணுக அனுமதிக்கவும். இதற்கு உலாவி அமைப்புகளை மாற்ற வேண்டியிருக்கலாம்.",
+  rotateCamera: "கேமராவைச் சுழற்று",
+  uploadedAnimalAlt: "பதிவேற்றிய விலங்கு",
+  breedRecommendationEngine: "இனப் பரிந்துரை அமைப்பு",
+  findThePerfectBreed: "உங்கள் பண்ணைக்கு ஏற்ற இனத்தைக் கண்டறிய சில கேள்விகளுக்குப் பதிலளிக்கவும்.",
+  primaryGoal: "முதன்மை நோக்கம்",
+  selectGoalPlaceholder: "உங்கள் முதன்மை நோக்கத்தைத் தேர்ந்தெடுக்கவும்...",
+  highMilkYield: "அதிக பால் உற்பத்தி",
+  draughtStrength: "உழவு வேலைக்கான வலிமை",
+  dualPurpose: "இரட்டை நோக்கம் (பால் மற்றும் உழவு)",
+  lowMaintenance: "குறைந்த பராமரிப்பு / செலவு",
+  budgetPerAnimalInRupees: "ஒரு விலங்குக்கான பட்ஜெட் (₹ இல்)",
+  landSizeInAcres: "நிலப் பரப்பு (ஏக்கரில்)",
+  acres: "ஏக்கர்",
+  singleAnimal: "ஒரு விலங்கு",
+  herdPlanner: "மந்தைத் திட்டமிடல்",
+  totalBudgetInRupees: "மொத்த மந்தை பட்ஜெட் (₹ இல்)",
+  fodderAvailability: "தீவனம் கிடைப்பது",
+  fodderScarce: "குறைவு",
+  fodderAdequate: "போதுமானது",
+  fodderAbundant: "ஏராளம்",
+  labourAvailable: "முழுநேரப் பணியாளர்கள்",
+  herdPlanTitle: "பரிந்துரைக்கப்பட்ட மந்தை",
+  noHerdPlan: "உங்கள் பட்ஜெட்டில் இந்தச் சூழலுக்கு ஏற்ற எந்த விலங்கையும் வாங்க முடியாது. பெரிய பட்ஜெட் அல்லது வேறு நோக்கத்தை முயற்சிக்கவும்.",
+  animalsLandCanSustain: "விலங்குகளை உங்கள் நிலம் தாங்கும்",
+  limitedBy: "வரம்பு",
+  limitBudget: "பட்ஜெட்",
+  limitLand: "நிலம் மற்றும் தீவனம்",
+  limitLabour: "உழைப்பு",
+  limitHerdSize: "திட்டமிடக்கூடிய பெரிய மந்தை",
+  totalInvestment: "மொத்த முதலீடு",
+  monthlyIncome: "மாத வருமானம்",
+  monthlyCost: "மாதச் செலவு",
+  monthlyProfit: "மாத லாபம்",
+  paybackPeriod: "முதலீடு திரும்பும் காலம்",
+  months: "மாதங்கள்",
+  notProfitable: "லாபகரமானது அல்ல",
+  economicAssumptions: "பொருளாதார அனுமானங்கள்",
+  savedRegions: "சேமித்த பகுதிகள்",
+  regionName: "பகுதியாகச் சேமி",
+  regionNamePlaceholder: "எ.கா., தமிழ்நாடு",
+  deleteRegion: "இந்தப் பகுதியை நீக்கு",
+  milkPricing: "பால் விலை",
+  milkPricingFlat: "லிட்டருக்கு ஒரே விலை",
+  milkPricingFatSnf: "கொழுப்பு/எஸ்என்எஃப் விலைப் பட்டியல் (இரு அச்சு)",
+  pricePerLitre: "லிட்டருக்கு விலை (₹)",
+  fatRatePerKg: "கிலோ கொழுப்புக்கு விலை (₹)",
+  snfRatePerKg: "கிலோ எஸ்என்எஃப் க்கு விலை (₹)",
+  feedCostPerDay: "ஒரு விலங்குக்கு நாள் தீவனச் செலவு (₹), தீவனத் தேவைக்கு ஏற்ப",
+  labourCostPerMonth: "ஒரு விலங்குக்கு மாத உழைப்புச் செலவு (₹)",
+  vetCostPerMonth: "ஒரு விலங்குக்கு மாத கால்நடை மருத்துவம் மற்றும் மருந்து (₹)",
+  insurancePercentPerYear: "காப்பீட்டுக் கட்டணம் (மதிப்பின் % ஆண்டுக்கு)",
+  fatSnfAxis: "கொழுப்பு % ↓ எஸ்என்எஃப் % →",
+  milkPrice: "பால் விலை",
+  litreShort: "லி",
+  fat: "கொழுப்பு",
+  discountRatePercent: "தள்ளுபடி விகிதம் (% ஆண்டுக்கு)",
+  projectionYears: "கணிப்புக் காலம்",
+  years: "ஆண்டுகள்",
+  cashFlowProjection: "பணப்புழக்கக் கணிப்பு (ஒரு விலங்கு)",
+  netCashFlow: "நிகர பணப்புழக்கம்",
+  cumulativeCashFlow: "ஒட்டுமொத்தம்",
+  npv: "நிகர தற்போதைய மதிப்பு (NPV)",
+  irr: "உள் வருவாய் விகிதம் (IRR)",
+  year: "ஆண்டு",
+  yearShort: "ஆ",
+  regionalClimate: "பிராந்தியக் காலநிலை",
+  selectClimatePlaceholder: "உங்கள் காலநிலையைத் தேர்ந்தெடுக்கவும்...",
+  climateHotDry: "வெப்பம் மற்றும் வறட்சி",
+  climateHotHumid: "வெப்பம் மற்றும் ஈரப்பதம்",
+  climateModerate: "மிதமானது",
+  climateCold: "குளிர்",
+  getRecommendations: "பரிந்துரைகளைப் பெறு",
+  findingBestBreeds: "உங்களுக்கான சிறந்த இனங்களைத் தேடுகிறோம்...",
+  topRecommendations: "முதன்மைப் பரிந்துரைகள்",
+  overallScore: "மொத்த மதிப்பெண்",
+  estimatedROI: "மதிப்பிடப்பட்ட ROI",
+  pros: "நன்மைகள்",
+  cons: "குறைகள்",
+  careLevel: "பராமரிப்பு நிலை",
+  Low: "குறைவு",
+  Medium: "நடுத்தரம்",
+  High: "அதிகம்",
+  suitabilityScorecard: "பொருத்த மதிப்பெண் அட்டை",
+  milkYieldScore: "பால் உற்பத்தி",
+  strengthScore: "வலிமை",
+  careRequirementScore: "குறைந்த பராமரிப்புத் தேவை",
+  roiScore: "லாபம் (ROI)",
+  climateMatchScore: "காலநிலைப் பொருத்தம்",
+  noBreedsFoundTitle: "பொருந்தும் இனம் இல்லை",
+  noBreedsFoundDescription: "உங்கள் அளவுகோல்களுக்குப் பொருந்தும் இனம் எதுவும் இல்லை. வடிகட்டிகளை மாற்றிப் பாருங்கள்.",
+  compare: "ஒப்பிடு",
+  compareBreeds: "இனங்களை ஒப்பிடு",
+  feature: "அம்சம்",
+  diseaseDetection: "நோய் கண்டறிதல்",
+  detectDisease: "நோயைக் கண்டறி",
+  detectDiseaseDescription: "ஏஐ அடிப்படையிலான உடல்நலப் பரிசோதனைக்குப் புகைப்படத்தைப் பதிவேற்றி அறிகுறிகளை விவரிக்கவும்.",
+  addDescription: "அறிகுறிகளின் விளக்கத்தைச் சேர் (விருப்பம்)",
+  symptomDescriptionPlaceholder: "எ.கா., விலங்கு சோர்வாக உள்ளது, சரியாகச் சாப்பிடவில்லை, இருமுகிறது...",
+  speakSymptoms: "அறிகுறிகளைப் பேசுங்கள்",
+  stopRecording: "பதிவை நிறுத்து",
+  listening: "கேட்கிறது...",
+  transcribing: "எழுதுகிறது...",
+  microphoneAccessDeniedTitle: "மைக்ரோஃபோன் அனுமதி மறுக்கப்பட்டது",
+  microphoneAccessDeniedDescription: "அறிகுறிகளைக் குரல் மூலம் சொல்ல, உங்கள் உலாவி அமைப்புகளில் மைக்ரோஃபோன் அனுமதியை வழங்கவும்.",
+  transcriptionFailed: "பதிவை எழுத்தாக மாற்ற முடியவில்லை. மீண்டும் முயற்சிக்கவும் அல்லது அறிகுறிகளைத் தட்டச்சு செய்யவும்.",
+  voiceNote: "குரல் குறிப்பு",
+  removeVoiceNote: "குரல் குறிப்பை நீக்கு",
+  getDiagnosis: "நோயறிதலைப் பெறு",
+  analyzingHealth: "விலங்கின் உடல்நலம் பகுப்பாய்வு செய்யப்படுகிறது...",
+  analyzingHealthDescription: "எங்கள் ஏஐ புகைப்படத்தையும் அறிகுறிகளையும் பகுப்பாய்வு செய்கிறது. சற்றுக் காத்திருக்கவும்.",
+  diagnosisResult: "நோயறிதல் முடிவு",
+  noDiseaseDetected: "நோய் எதுவும் கண்டறியப்படவில்லை",
+  preventiveCare: "தடுப்புப் பராமரிப்பு",
+  disease: "நோய்",
+  urgency: "அவசரம்",
+  description: "விளக்கம்",
+  firstAid: "முதலுதவி / பராமரிப்பு",
+  veterinaryAttention: "கால்நடை மருத்துவர் கவனிப்பு",
+  listen: "கேளுங்கள்",
+  stopReading: "நிறுத்து",
+  listenTo: "கேளுங்கள்:",
+  readingSpeed: "வாசிப்பு வேகம்",
+  speedSlow: "மெதுவாக",
+  speedNormal: "சாதாரணம்",
+  speedFast: "வேகமாக",
+  immediateAttentionRequired: "உடனடியாகக் கால்நடை மருத்துவர் கவனிப்பு தேவை.",
+  attentionRecommended: "கால்நடை மருத்துவரைச் சந்திக்கப் பரிந்துரைக்கப்படுகிறது.",
+  monitorAnimal: "விலங்கை நெருக்கமாகக் கண்காணிக்கவும்.",
+  addSymptoms: "பொதுவான அறிகுறிகளைச் சேர்",
+  commonSymptoms: "பொதுவான அறிகுறிகள்",
+  selectedSymptoms: "தேர்ந்தெடுத்த அறிகுறிகள்",
+  symptomLethargy: "சோர்வு/பலவீனம்",
+  symptomAppetiteLoss: "பசியின்மை",
+  symptomCoughing: "இருமல்",
+  symptomSores: "புண்கள் அல்லது காயங்கள்",
+  symptomLimping: "நொண்டுதல்",
+  symptomSwelling: "வீக்கம்",
+  symptomDischarge: "அசாதாரணக் கசிவு",
+  symptomDiarrhea: "வயிற்றுப்போக்கு",
+  emergencyHelpline: "அவசர உதவி எண்",
+  findVet: "கால்நடை மருத்துவ உதவியைத் தேடு",
+  enterLocation: "அருகிலுள்ள உதவியைக் கண்டறிய உங்கள் நகரம், மாவட்டம் அல்லது அஞ்சல் குறியீட்டை உள்ளிடவும்.",
+  locationPlaceholder: "எ.கா., 'நாமக்கல்' அல்லது '637001'",
+  findingHelp: "உதவியைத் தேடுகிறோம்...",
+  noVetsFound: "இந்த இடத்துக்கு மருத்துவமனை அல்லது மருந்தகம் எதுவும் கிடைக்கவில்லை. உங்கள் மாவட்டப் பெயரை முயற்சிக்கவும், அல்லது மேலே உள்ள உதவி எண்ணை அழைக்கவும்.",
+  vetDirectoryNotLoaded: "இந்தச் செயலியில் இன்னும் கால்நடை மருத்துவ அடைவு ஏற்றப்படவில்லை, எனவே தேசிய உதவி எண் மட்டுமே காட்டப்படுகிறது. அருகிலுள்ள கால்நடை மருத்துவப் பிரிவைத் தொடர்புகொள்ள அதை அழையுங்கள்.",
+  Hospital: "மருத்துவமனை",
+  Clinic: "கிளினிக்",
+  Helpline: "உதவி எண்",
+  Dispensary: "மருந்தகம்",
+  unverified: "சரிபார்க்கப்படவில்லை",
+  useMyLocation: "என் இருப்பிடத்தைப் பயன்படுத்து",
+  locationUnavailableTitle: "இருப்பிடம் கிடைக்கவில்லை",
+  locationUnavailableDescription: "அதற்குப் பதிலாக உங்கள் அஞ்சல் குறியீட்டை உள்ளிடவும், அதைச் சுற்றித் தேடுவோம்.",
+  kmAway: "கிமீ தொலைவில்",
+  animals: "விலங்குகள்",
+  animalRegistry: "விலங்குப் பதிவேடு",
+  animalRegistryDescription: "ஒவ்வொரு விலங்கின் விவரங்களையும் வைத்திருங்கள்: காது அடையாளம், இனம், உரிமையாளர் மற்றும் புகைப்படங்கள்.",
+  searchAnimals: "காது அடையாளம், உரிமையாளர், கிராமம் அல்லது இனம் மூலம் தேடு...",
+  registerAnimal: "விலங்கைப் பதிவு செய்",
+  noAnimalsFound: "விலங்கு எதுவும் இல்லை. தொடங்க ஒரு விலங்கைப் பதிவு செய்யுங்கள்.",
+  earTag: "காது அடையாள எண்",
+  species: "இனவகை",
+  Cattle: "பசு",
+  Buffalo: "எருமை",
+  breed: "இனம்",
+  sex: "பாலினம்",
+  Female: "பெண்",
+  Male: "ஆண்",
+  dateOfBirth: "பிறந்த தேதி",
+  age: "வயது",
+  yearsShort: "ஆ",
+  monthsShort: "மா",
+  owner: "உரிமையாளர்",
+  village: "கிராமம்",
+  photos: "புகைப்படங்கள்",
+  noPhotos: "இன்னும் புகைப்படங்கள் இல்லை.",
+  addPhoto: "புகைப்படம் சேர்",
+  save: "சேமி",
+  edit: "திருத்து",
+  saveToAnimalProfile: "விலங்கின் சுயவிவரத்தில் சேமி",
+  existingAnimal: "ஏற்கனவே உள்ள விலங்கு",
+  newAnimal: "புதிய விலங்கு",
+  attach: "இணை",
+  animalSavedTitle: "விலங்கின் சுயவிவரம் சேமிக்கப்பட்டது",
+  animalSavedDescription: "இனமும் புகைப்படமும் விலங்கின் சுயவிவரத்தில் சேமிக்கப்பட்டன.",
+  breedSpeciesMismatch: "ஸ்கேன் செய்த இனம் இந்த விலங்கின் வகையுடன் பொருந்தவில்லை. வேறொரு விலங்கைத் தேர்ந்தெடுக்கவும் அல்லது புதிய விலங்கைப் பதிவு செய்யவும்.",
+  viewProfile: "சுயவிவரத்தைப் பார்",
+  backToRegistry: "பதிவேட்டுக்குத் திரும்பு",
+  animalNotFound: "இந்த விலங்கு கிடைக்கவில்லை.",
+  loading: "ஏற்றப்படுகிறது...",
+  healthHistory: "உடல்நல வரலாறு",
+  noHealthRecords: "இந்த விலங்குக்கு இன்னும் நோயறிதல் எதுவும் சேமிக்கப்படவில்லை.",
+  saveToHealthHistory: "உடல்நல வரலாற்றில் சேமி",
+  diagnosisSavedTitle: "நோயறிதல் சேமிக்கப்பட்டது",
+  diagnosisSavedDescription: "நோயறிதல் விலங்கின் உடல்நல வரலாற்றில் சேர்க்கப்பட்டது.",
+  statusPending: "மருத்துவருக்குக் காத்திருக்கிறது",
+  statusVetConfirmed: "மருத்துவர் உறுதிப்படுத்தினார்",
+  statusRuledOut: "நிராகரிக்கப்பட்டது",
+  statusResolved: "குணமானது",
+  vaccinationSchedule: "தடுப்பூசி மற்றும் குடற்புழு நீக்கம்",
+  vaccinationReminders: "தடுப்பூசி நினைவூட்டல்கள்",
+  noRemindersDue: "அடுத்த இரண்டு வாரங்களில் தடுப்பூசி அல்லது குடற்புழு நீக்கம் எதுவும் நிலுவையில் இல்லை.",
+  noScheduleItems: "தற்போது இந்த விலங்குக்குத் தடுப்பூசி அல்லது குடற்புழு நீக்கம் எதுவும் பொருந்தாது.",
+  overdue: "காலம் கடந்தது",
+  dueSoon: "விரைவில் நிலுவை",
+  upcoming: "வரவிருப்பவை",
+  dueOn: "நிலுவைத் தேதி",
+  lastGiven: "கடைசியாகக் கொடுத்தது",
+  markGiven: "கொடுத்ததாகக் குறி",
+  givenOn: "கொடுத்த தேதி",
+  doseRecordedTitle: "டோஸ் பதிவு செய்யப்பட்டது",
+  vaccineFmd: "கோமாரி நோய் (FMD)",
+  vaccineHs: "தொண்டை அடைப்பான் நோய் (HS)",
+  vaccineBq: "சப்பை நோய் (BQ)",
+  vaccineBrucellosis: "புருசெல்லோசிஸ்",
+  vaccineLsd: "தோல் கழலை நோய் (LSD)",
+  deworming: "குடற்புழு நீக்கம்",
+  vaccineNotesFmd: "முதல் தவணைக்கு ஒரு மாதம் கழித்து ஊக்கத் தவணை, பின்னர் ஆறு மாதங்களுக்கு ஒருமுறை.",
+  vaccineNotesMonsoon: "ஆண்டுதோறும், நோய் பரவும் பகுதிகளில் முடிந்தால் பருவமழைக்கு முன்.",
+  vaccineNotesBrucellosis: "வாழ்நாளில் ஒருமுறை, நான்கு முதல் எட்டு மாத வயதுள்ள கிடேரிக் கன்றுகளுக்கு.",
+  vaccineNotesYearly: "ஆண்டுதோறும்.",
+  vaccineNotesDeworming: "மூன்று மாதங்களுக்கு ஒருமுறை; எதிர்ப்புத் திறனைத் தவிர்க்க மருந்து வகையை மாற்றுங்கள்.",
+  allVillages: "அனைத்துக் கிராமங்கள்",
+  breedEncyclopedia: "இனக் களஞ்சியம்",
+  breedEncyclopediaDescription: "இந்தியாவின் பதிவு செய்யப்பட்ட அனைத்து பசு மற்றும் எருமை இனங்களையும் பாருங்கள்.",
+  searchBreeds: "இனம் அல்லது மாநிலம் மூலம் தேடு...",
+  allSpecies: "அனைத்து இனவகைகள்",
+  allPurposes: "அனைத்து நோக்கங்கள்",
+  purpose: "நோக்கம்",
+  purposeMilk: "பால்",
+  purposeDraught: "உழவு",
+  purposeDual: "இரட்டை நோக்கம்",
+  noBreedsMatch: "இந்த வடிகட்டிகளுக்கு எந்த இனமும் பொருந்தவில்லை.",
+  backToBreeds: "இனங்களுக்குத் திரும்பு",
+  breedNotFound: "இந்த இனம் பட்டியலில் இல்லை.",
+  milkYield: "பால் உற்பத்தி",
+  litresPerDay: "லி/நாள்",
+  snf: "எஸ்என்எஃப்",
+  climateSuitability: "காலநிலைப் பொருத்தம்",
+  diseaseResistance: "நோய் எதிர்ப்புத் திறன்",
+  lifespan: "ஆயுட்காலம்",
+  marketPrice: "சந்தை விலை",
+  nativeTract: "பூர்வீகப் பகுதி",
+  physicalTraits: "அடையாளப் பண்புகள்",
+  referencePhotos: "குறிப்புப் புகைப்படங்கள்",
+  noReferencePhotos: "இன்னும் குறிப்புப் புகைப்படங்கள் இல்லை.",
+  viewBreedPage: "இந்த இனத்தைப் பற்றி மேலும் படிக்கவும்",
+  unverifiedBreedInfo: "இந்த இனம் எங்கள் பட்டியலில் இல்லை, எனவே இந்த விவரங்களை ஏஐ எழுதியது, அவை தவறாக இருக்கலாம்.",
+};
@@ -0,0 +1,320 @@
+import type { LocalePack } from '@/lib/translations';
+
+export const te: LocalePack = {
+  appName: "పశు ఏఐ",
+  tagline: "భారతీయ పశువుల కోసం ఏఐ ఆధారిత జాతి గుర్తింపు",
+  navHome: "హోమ్",
+  navScanner: "స్కానర్",
+  navDecisionSupport: "నిర్ణయ సహాయం",
+  navDiseaseDetection: "వ్యాధి గుర్తింపు",
+  navAnimals: "పశువులు",
+  navBreeds: "జాతులు",
+  featureScanDescription: "మీ కెమెరాతో లేదా ఫోటో అప్‌లోడ్ చేసి ఆవు మరియు గేదె జాతులను వెంటనే గుర్తించండి.",
+  featureRecommendDescription: "మీ వ్యవసాయ లక్ష్యాలు మరియు పరిస్థితులకు తగిన ఉత్తమ జాతుల సిఫార్సులు పొందండి.",
+  featureDiseaseDescription: "సాధారణ వ్యాధుల ప్రారంభ లక్షణాలను గుర్తించి సంరక్షణ సూచనలు పొందడానికి పశువు ఫోటో అప్‌లోడ్ చేయండి.",
+  language: "భాష",
+  toggleMode: "ఆన్‌లైన్/ఆఫ్‌లైన్ మోడ్ మార్చండి",
+  toggleTheme: "థీమ్ మార్చండి",
+  themeLight: "లైట్",
+  themeDark: "డార్క్",
+  themeSystem: "సిస్టమ్",
+  online: "ఆన్‌లైన్",
+  offline: "ఆఫ్‌లైన్",
+  offlineModelUnavailable: "ఆఫ్‌లైన్ జాతి మోడల్ ఇంకా ఈ పరికరంలో అందుబాటులో లేదు. దాన్ని డౌన్‌లోడ్ చేయడానికి ఒకసారి ఇంటర్నెట్‌కు కనెక్ట్ అవ్వండి, లేదా ఆన్‌లైన్ మోడ్‌కు మారండి.",
+  offlineLowConfidence: "ఆఫ్‌లైన్ మోడల్ తగినంత నమ్మకంతో జాతిని గుర్తించలేకపోయింది. పశువు పక్క నుండి మరింత స్పష్టమైన ఫోటో తీసి ప్రయత్నించండి.",
+  offlineFallbackTitle: "ఇంటర్నెట్ కనెక్షన్ లేదు",
+  offlineFallbackDescription: "దానికి బదులుగా పరికరంలోని మోడల్ వాడబడుతోంది. మీరు మళ్లీ ఆన్‌లైన్‌కు వచ్చినప్పుడు స్కాన్ అప్‌లోడ్ అవుతుంది.",
+  noConnectionTitle: "ఇంటర్నెట్ కనెక్షన్ లేదు",
+  noConnectionDescription: "దీనికి ఇంటర్నెట్ కనెక్షన్ అవసరం. మీ ఫోటో మరియు గమనిక ఇక్కడే ఉంచబడ్డాయి, కాబట్టి ఆన్‌లైన్‌కు వచ్చాక మళ్లీ ప్రయత్నించండి.",
+  scanAnimal: "పశువును స్కాన్ చేయండి",
+  selectImage: "ఫోటో అప్‌లోడ్ చేయండి",
+  useCamera: "కెమెరా వాడండి",
+  positionAnimal: "పశువును ఫ్రేమ్ లోపల ఉంచి ఫోటో తీయండి.",
+  capture: "ఫోటో తీయండి",
+  cancel: "రద్దు చేయండి",
+  or: "లేదా",
+  tryDemo: "డెమో ఫోటోతో ప్రయత్నించండి:",
+  analyzing: "ఫోటో విశ్లేషించబడుతోంది...",
+  analyzingDescription: "మా ఏఐ జాతిని గుర్తిస్తోంది. దయచేసి కొంచెం వేచి ఉండండి.",
+  aiSuggestions: "ఏఐ సూచనలు",
+  confidence: "నమ్మకం",
+  confirm: "నిర్ధారించండి",
+  correctionPrompt: "జాతి తప్పా?",
+  correctBreed: "సరైన జాతి",
+  selectCorrectBreed: "సరైన జాతిని ఎంచుకోండి",
+  unknownBreed: "తెలియదు / సంకర జాతి",
+  submitCorrection: "సవరణను సమర్పించండి",
+  correctionSubmittedTitle: "అభిప్రాయం అందింది",
+  correctionSubmittedDescription: "ధన్యవాదాలు! మీ సమాచారంతో మా ఏఐ నేర్చుకుని మెరుగుపడుతుంది.",
+  correctionQueuedDescription: "ధన్యవాదాలు! మీరు ఆఫ్‌లైన్‌లో ఉన్నందున మీ సవరణ ఈ పరికరంలో సేవ్ చేయబడింది, ఆన్‌లైన్‌కు వచ్చినప్పుడు అప్‌లోడ్ అవుతుంది.",
+  pendingSync: "అప్‌లోడ్ కోసం వేచి ఉంది",
+  failedSync: "సర్వర్ తిరస్కరించింది",
+  discardFailedSync: "తొలగించు",
+  discardFailedSyncDescription: "సర్వర్ ఈ నమోదులను అంగీకరించలేదు, కాబట్టి అవి అప్‌లోడ్ కావు. వాటిని ఈ పరికరం నుండి తొలగించాలా?",
+  errorTitle: "లోపం జరిగింది",
+  errorDescription: "అభ్యర్థనను పూర్తి చేయలేకపోయాం. దయచేసి మళ్లీ ప్రయత్నించండి.",
+  serviceUnavailableError: "ఏఐ సేవ ప్రస్తుతం అందుబాటులో లేదు. దయచేసి కొద్దిసేపటి తర్వాత మళ్లీ ప్రయత్నించండి.",
+  finalBreed: "గుర్తించిన జాతి",
+  startOver: "మళ్లీ ప్రారంభించండి",
+  uploading: "అప్‌లోడ్ అవుతోంది...",
+  invalidImage: "ఇచ్చిన ఫోటో ఆవు లేదా గేదె యొక్క సరైన ఫోటో కాదు. దయచేసి మళ్లీ ప్రయత్నించండి.",
+  invalidImageTitle: "చెల్లని ఫోటో",
+  tryAgain: "దయచేసి వేరే ఫోటోతో మళ్లీ ప్రయత్నించండి.",
+  size: "పరిమాణం",
+  colors: "రంగులు",
+  nutrition: "పోషణ",
+  noInfo: "ఈ జాతికి సమాచారం అందుబాటులో లేదు.",
+  cameraAccessDeniedTitle: "కెమెరా అనుమతి నిరాకరించబడింది",
+  cameraAccessDeniedDescription: "ఈ సౌకర్యాన్ని వాడటానికి దయచేసి బ్రౌజర్ సెట్టింగ్‌లలో కెమెరా అనుమతిని ఆన్ చేయండి.",
+  cameraAccessRequiredTitle: "కెమెరా అనుమతి అవసరం",
+  cameraAccessRequiredDescription: "ఈ సౌకర్యాన్ని వాడటానికి దయచేసి కెమెరా యాక్సెస్‌కు అనుమతించండి. దీని కోసం బ్రౌజర్ సెట్టింగ్‌లు మార్చవలసి రావచ్చు.",
+  rotateCamera: "కెమెరా తిప్పండి",
+  uploadedAnimalAlt: "అప్‌లోడ్ చేసిన పశువు",
+  breedRecommendationEngine: "జాతి సిఫార్సు వ్యవస్థ",
+  findThePerfectBreed: "మీ పొలానికి సరైన జాతిని కనుగొనడానికి కొన్ని ప్రశ్నలకు సమాధానం ఇవ్వండి.",
+  primaryGoal: "ప్రధాన లక్ష్యం",
+  selectGoalPlaceholder: "మీ ప్రధాన లక్ష్యాన్ని ఎంచుకోండి...",
+  highMilkYield: "అధిక పాల దిగుబడి",
+  draughtStrength: "వ్యవసాయ పనికి బలం",
+  dualPurpose: "ద్వంద్వ ప్రయోజనం (పాలు మరియు వ్యవసాయ పని)",
+  lowMaintenance: "తక్కువ సంరక్షణ / ఖర్చు",
+  budgetPerAnimalInRupees: "ఒక్కో పశువుకు బడ్జెట్ (₹ లో)",
+  landSizeInAcres: "భూమి విస్తీర్ణం (ఎకరాల్లో)",
+  acres: "ఎకరాలు",
+  singleAnimal: "ఒక పశువు",
+  herdPlanner: "మంద ప్రణాళిక",
+  totalBudgetInRupees: "మొత్తం మంద బడ్జెట్ (₹ లో)",
+  fodderAvailability: "మేత లభ్యత",
+  fodderScarce: "తక్కువ",
+  fodderAdequate: "సరిపడా",
+  fodderAbundant: "పుష్కలం",
+  labourAvailable: "పూర్తి సమయ కూలీలు",
+  herdPlanTitle: "సూచించిన మంద",
+  noHerdPlan: "మీ బడ్జెట్‌లో ఈ పరిస్థితులకు సరిపోయే పశువును కొనలేము. పెద్ద బడ్జెట్ లేదా వేరే లక్ష్యాన్ని ప్రయత్నించండి.",
+  animalsLandCanSustain: "పశువులను మీ భూమి పోషించగలదు",
+  limitedBy: "పరిమితి",
+  limitBudget: "బడ్జెట్",
+  limitLand: "భూమి మరియు మేత",
+  limitLabour: "కూలీలు",
+  limitHerdSize: "ప్రణాళికలో అతిపెద్ద మంద",
+  totalInvestment: "మొత్తం పెట్టుబడి",
+  monthlyIncome: "నెలవారీ ఆదాయం",
+  monthlyCost: "నెలవారీ ఖర్చు",
+  monthlyProfit: "నెలవారీ లాభం",
+  paybackPeriod: "పెట్టుబడి తిరిగి వచ్చే కాలం",
+  months: "నెలలు",
+  notProfitable: "లాభదాయకం కాదు",
+  economicAssumptions: "ఆర్థిక అంచనాలు",
+  savedRegions: "సేవ్ చేసిన ప్రాంతాలు",
+  regionName: "ప్రాంతంగా సేవ్ చేయండి",
+  regionNamePlaceholder: "ఉదా., ఆంధ్రప్రదేశ్",
+  deleteRegion: "ఈ ప్రాంతాన్ని తొలగించండి",
+  milkPricing: "పాల ధర",
+  milkPricingFlat: "లీటరుకు ఒకే ధర",
+  milkPricingFatSnf: "కొవ్వు/ఎస్ఎన్ఎఫ్ ధర పట్టిక (రెండు అక్షాలు)",
+  pricePerLitre: "లీటరు ధర (₹)",
+  fatRatePerKg: "కిలో కొవ్వుకు ధర (₹)",
+  snfRatePerKg: "కిలో ఎస్ఎన్ఎఫ్‌కు ధర (₹)",
+  feedCostPerDay: "ఒక్కో పశువుకు రోజువారీ దాణా ఖర్చు (₹), దాణా అవసరాన్ని బట్టి",
+  labourCostPerMonth: "ఒక్కో పశువుకు నెలవారీ కూలీ (₹)",
+  vetCostPerMonth: "ఒక్కో పశువుకు నెలవారీ పశువైద్యం మరియు మందులు (₹)",
+  insurancePercentPerYear: "బీమా ప్రీమియం (విలువలో % సంవత్సరానికి)",
+  fatSnfAxis: "కొవ్వు % ↓ ఎస్ఎన్ఎఫ్ % →",
+  milkPrice: "పాల ధర",
+  litreShort: "లీ",
+  fat: "కొవ్వు",
+  discountRatePercent: "డిస్కౌంట్ రేటు (% సంవత్సరానికి)",
+  projectionYears: "అంచనా కాలం",
+  years: "సంవత్సరాలు",
+  cashFlowProjection: "నగదు ప్రవాహ అంచనా (ఒక పశువు)",
+  netCashFlow: "నికర నగదు ప్రవాహం",
+  cumulativeCashFlow: "సంచిత",
+  npv: "నికర ప్రస్తుత విలువ (NPV)",
+  irr: "అంతర్గత రాబడి రేటు (IRR)",
+  year: "సంవత్సరం",
+  yearShort: "సం",
+  regionalClimate: "ప్రాంతీయ వాతావరణం",
+  selectClimatePlaceholder: "మీ వాతావరణాన్ని ఎంచుకోండి...",
+  climateHotDry: "వేడి మరియు పొడి",
+  climateHotHumid: "వేడి మరియు తేమ",
+  climateModerate: "మితమైన",
+  climateCold: "చల్లని",
+  getRecommendations: "సిఫార్సులు పొందండి",
+  findingBestBreeds: "మీ కోసం ఉత్తమ జాతులను వెతుకుతున్నాం...",
+  topRecommendations: "అగ్ర సిఫార్సులు",
+  overallScore: "మొత్తం స్కోరు",
+  estimatedROI: "అంచనా ROI",
+  pros: "లాభాలు",
+  cons: "నష్టాలు",
+  careLevel: "సంరక్షణ స్థాయి",
+  Low: "తక్కువ",
+  Medium: "మధ్యస్థం",
+  High: "ఎక్కువ",
+  suitabilityScorecard: "అనుకూలత స్కోరు కార్డు",
+  milkYieldScore: "పాల దిగుబడి",
+  strengthScore: "బలం",
+  careRequirementScore: "తక్కువ సంరక్షణ అవసరం",
+  roiScore: "లాభదాయకత (ROI)",
+  climateMatchScore: "వాతావరణ అనుకూలత",
+  noBreedsFoundTitle: "సరిపోయే జాతి దొరకలేదు",
+  noBreedsFoundDescription: "మీ ప్రమాణాలకు సరిపోయే జాతి ఏదీ దొరకలేదు. దయచేసి ఫిల్టర్లు మార్చి చూడండి.",
+  compare: "పోల్చండి",
+  compareBreeds: "జాతులను పోల్చండి",
+  feature: "లక్షణం",
+  diseaseDetection: "వ్యాధి గుర్తింపు",
+  detectDisease: "వ్యాధిని గుర్తించండి",
+  detectDiseaseDescription: "ఏఐ ఆధారిత ఆరోగ్య పరీక్ష కోసం ఫోటో అప్‌లోడ్ చేసి లక్షణాలను వివరించండి.",
+  addDescription: "లక్షణాల వివరణ జోడించండి (ఐచ్ఛికం)",
+  symptomDescriptionPlaceholder: "ఉదా., పశువు నీరసంగా ఉంది, సరిగా తినడం లేదు, దగ్గుతోంది...",
+  speakSymptoms: "లక్షణాలు చెప్పండి",
+  stopRecording: "రికార్డింగ్ ఆపండి",
+  listening: "వింటోంది...",
+  transcribing: "రాస్తోంది...",
+  microphoneAccessDeniedTitle: "మైక్రోఫోన్ అనుమతి నిరాకరించబడింది",
+  microphoneAccessDeniedDescription: "లక్షణాలను మాటల్లో చెప్పడానికి దయచేసి మీ బ్రౌజర్ సెట్టింగ్‌లలో మైక్రోఫోన్ అనుమతి ఇవ్వండి.",
+  transcriptionFailed: "రికార్డింగ్‌ను రాయలేకపోయాం. దయచేసి మళ్లీ ప్రయత్నించండి లేదా లక్షణాలను టైప్ చేయండి.",
+  voiceNote: "వాయిస్ నోట్",
+  removeVoiceNote: "వాయిస్ నోట్ తొలగించండి",
+  getDiagnosis: "నిర్ధారణ పొందండి",
+  analyzingHealth: "పశువు ఆరోగ్యం విశ్లేషించబడుతోంది...",
+  analyzingHealthDescription: "మా ఏఐ ఫోటో మరియు లక్షణాలను విశ్లేషిస్తోంది. దయచేసి కొంచెం వేచి ఉండండి.",
+  diagnosisResult: "నిర్ధారణ ఫలితం",
+  noDiseaseDetected: "ఏ వ్యాధీ కనిపించలేదు",
+  preventiveCare: "నివారణ సంరక్షణ",
+  disease: "వ్యాధి",
+  urgency: "అత్యవసరత",
+  description: "వివరణ",
+  firstAid: "ప్రథమ చికిత్స / సంరక్షణ",
+  veterinaryAttention: "పశువైద్యుని పర్యవేక్షణ",
+  listen: "వినండి",
+  stopReading: "ఆపండి",
+  listenTo: "వినండి:",
+  readingSpeed: "చదివే వేగం",
+  speedSlow: "నెమ్మదిగా",
+  speedNormal: "సాధారణం",
+  speedFast: "వేగంగా",
+  immediateAttentionRequired: "వెంటనే పశువైద్యుని చికిత్స అవసరం.",
+  attentionRecommended: "పశువైద్యునికి చూపించమని సిఫార్సు.",
+  monitorAnimal: "పశువును దగ్గరగా గమనిస్తూ ఉండండి.",
+  addSymptoms: "సాధారణ లక్షణాలను జోడించండి",
+  commonSymptoms: "సాధారణ లక్షణాలు",
+  selectedSymptoms: "ఎంచుకున్న లక్షణాలు",
+  symptomLethargy: "నీరసం/బలహీనత",
+  symptomAppetiteLoss: "ఆకలి లేకపోవడం",
+  symptomCoughing: "దగ్గు",
+  symptomSores: "పుండ్లు లేదా గాయాలు",
+  symptomLimping: "కుంటడం",
+  symptomSwelling: "వాపు",
+  symptomDischarge: "అసాధారణ స్రావం",
+  symptomDiarrhea: "విరేచనాలు",
+  emergencyHelpline: "అత్యవసర హెల్ప్‌లైన్",
+  findVet: "పశువైద్య సహాయం కనుగొనండి",
+  enterLocation: "సమీపంలోని సహాయం కోసం మీ నగరం, జిల్లా లేదా పిన్‌కోడ్ నమోదు చేయండి.",
+  locationPlaceholder: "ఉదా., 'గుంటూరు' లేదా '522001'",
+  findingHelp: "సహాయం కోసం వెతుకుతున్నాం...",
+  noVetsFound: "ఈ ప్రదేశానికి ఆసుపత్రి లేదా డిస్పెన్సరీ ఏదీ దొరకలేదు. మీ జిల్లా పేరుతో ప్రయత్నించండి, లేదా పై హెల్ప్‌లైన్‌కు కాల్ చేయండి.",
+  vetDirectoryNotLoaded: "ఈ యాప్‌లో ఇంకా పశువైద్య డైరెక్టరీ లోడ్ కాలేదు, కాబట్టి జాతీయ హెల్ప్‌లైన్ మాత్రమే చూపబడింది. దగ్గరలోని పశువైద్య యూనిట్‌ను సంప్రదించడానికి దానికి కాల్ చేయండి.",
+  Hospital: "ఆసుపత్రి",
+  Clinic: "క్లినిక్",
+  Helpline: "హెల్ప్‌లైన్",
+  Dispensary: "డిస్పెన్సరీ",
+  unverified: "ధృవీకరించబడలేదు",
+  useMyLocation: "నా స్థానాన్ని వాడండి",
+  locationUnavailableTitle: "స్థానం అందుబాటులో లేదు",
+  locationUnavailableDescription: "దానికి బదులుగా మీ పిన్‌కోడ్ నమోదు చేయండి, దాని చుట్టూ వెతుకుతాం.",
+  kmAway: "కి.మీ. దూరంలో",
+  animals: "పశువులు",
+  animalRegistry: "పశువుల రిజిస్టర్",
+  animalRegistryDescription: "ప్రతి పశువు వివరాలు ఉంచండి: చెవి ట్యాగ్, జాతి, యజమాని మరియు ఫోటోలు.",
+  searchAnimals: "చెవి ట్యాగ్, యజమాని, గ్రామం లేదా జాతితో వెతకండి...",
+  registerAnimal: "పశువును నమోదు చేయండి",
+  noAnimalsFound: "పశువులు ఏవీ లేవు. ప్రారంభించడానికి ఒక పశువును నమోదు చేయండి.",
+  earTag: "చెవి ట్యాగ్ నంబర్",
+  species: "జాతి రకం",
+  Cattle: "ఆవు",
+  Buffalo: "గేదె",
+  breed: "జాతి",
+  sex: "లింగం",
+  Female: "ఆడ",
+  Male: "మగ",
+  dateOfBirth: "పుట్టిన తేదీ",
+  age: "వయస్సు",
+  yearsShort: "సం",
+  monthsShort: "నె",
+  owner: "యజమాని",
+  village: "గ్రామం",
+  photos: "ఫోటోలు",
+  noPhotos: "ఇంకా ఫోటోలు లేవు.",
+  addPhoto: "ఫోటో జోడించండి",
+  save: "సేవ్ చేయండి",
+  edit: "సవరించండి",
+  saveToAnimalProfile: "పశువు ప్రొఫైల్‌లో సేవ్ చేయండి",
+  existingAnimal: "ఇప్పటికే ఉన్న పశువు",
+  newAnimal: "కొత్త పశువు",
+  attach: "జత చేయండి",
+  animalSavedTitle: "పశువు ప్రొఫైల్ సేవ్ అయింది",
+  animalSavedDescription: "జాతి మరియు ఫోటో పశువు ప్రొఫైల్‌లో సేవ్ చేయబడ్డాయి.",
+  breedSpeciesMismatch: "స్కాన్ చేసిన జాతి ఈ పశువు రకంతో సరిపోలడం లేదు. వేరే పశువును ఎంచుకోండి లేదా కొత్త పశువును నమోదు చేయండి.",
+  viewProfile: "ప్రొఫైల్ చూడండి",
+  backToRegistry: "రిజిస్టర్‌కు తిరిగి వెళ్లండి",
+  animalNotFound: "ఈ పశువు దొరకలేదు.",
+  loading: "లోడ్ అవుతోంది...",
+  healthHistory: "ఆరోగ్య చరిత్ర",
+  noHealthRecords: "ఈ పశువుకు ఇంకా ఏ నిర్ధారణా సేవ్ చేయలేదు.",
+  saveToHealthHistory: "ఆరోగ్య చరిత్రలో సేవ్ చేయండి",
+  diagnosisSavedTitle: "నిర్ధారణ సేవ్ అయింది",
+  diagnosisSavedDescription: "నిర్ధారణ పశువు ఆరోగ్య చరిత్రలో జోడించబడింది.",
+  statusPending: "పశువైద్యుని కోసం వేచి ఉంది",
+  statusVetConfirmed: "పశువైద్యుడు నిర్ధారించారు",
+  statusRuledOut: "తోసిపుచ్చబడింది",
+  statusResolved: "నయమైంది",
+  vaccinationSchedule: "టీకాలు మరియు నులిపురుగుల నివారణ",
+  vaccinationReminders: "టీకా రిమైండర్లు",
+  noRemindersDue: "రాబోయే రెండు వారాల్లో టీకాలు లేదా నులిపురుగుల మందు ఏదీ బాకీ లేదు.",
+  noScheduleItems: "ప్రస్తుతం ఈ పశువుకు టీకాలు లేదా నులిపురుగుల మందు ఏదీ వర్తించదు.",
+  overdue: "గడువు దాటింది",
+  dueSoon: "త్వరలో బాకీ",
+  upcoming: "రాబోయేవి",
+  dueOn: "గడువు తేదీ",
+  lastGiven: "చివరిగా ఇచ్చినది",
+  markGiven: "ఇచ్చినట్లు గుర్తించండి",
+  givenOn: "ఇచ్చిన తేదీ",
+  doseRecordedTitle: "డోస్ నమోదైంది",
+  vaccineFmd: "గాలికుంటు వ్యాధి (FMD)",
+  vaccineHs: "గొంతువాపు వ్యాధి (HS)",
+  vaccineBq: "జబ్బవాపు వ్యాధి (BQ)",
+  vaccineBrucellosis: "బ్రూసెల్లోసిస్",
+  vaccineLsd: "ముద్ద చర్మ వ్యాధి (LSD)",
+  deworming: "నట్టల నివారణ",
+  vaccineNotesFmd: "మొదటి మోతాదు తర్వాత ఒక నెలకు బూస్టర్, ఆ తర్వాత ప్రతి ఆరు నెలలకు.",
+  vaccineNotesMonsoon: "ప్రతి సంవత్సరం, వ్యాధి ఉన్న ప్రాంతాల్లో వీలైతే వర్షాకాలానికి ముందు.",
+  vaccineNotesBrucellosis: "జీవితంలో ఒక్కసారి, నాలుగు నుండి ఎనిమిది నెలల ఆడ దూడలకు.",
+  vaccineNotesYearly: "ప్రతి సంవత్సరం.",
+  vaccineNotesDeworming: "ప్రతి మూడు నెలలకు; నిరోధకత రాకుండా మందు రకాన్ని మారుస్తూ ఉండండి.",
+  allVillages: "అన్ని గ్రామాలు",
+  breedEncyclopedia: "జాతుల విజ్ఞాన సర్వస్వం",
+  breedEncyclopediaDescription: "భారతదేశంలో నమోదైన అన్ని ఆవు మరియు గేదె జాతులను చూడండి.",
+  searchBreeds: "జాతి లేదా రాష్ట్రంతో వెతకండి...",
+  allSpecies: "అన్ని రకాలు",
+  allPurposes: "అన్ని ప్రయోజనాలు",
+  purpose: "ప్రయోజనం",
+  purposeMilk: "పాలు",
+  purposeDraught: "వ్యవసాయ పని",
+  purposeDual: "ద్వంద్వ ప్రయోజనం",
+  noBreedsMatch: "ఈ ఫిల్టర్లకు ఏ జాతీ సరిపోలేదు.",
+  backToBreeds: "జాతులకు తిరిగి వెళ్లండి",
+  breedNotFound: "ఈ జాతి జాబితాలో లేదు.",
+  milkYield: "పాల దిగుబడి",
+  litresPerDay: "లీ/రోజు",
+  snf: "ఎస్ఎన్ఎఫ్",
+  climateSuitability: "వాతావరణ అనుకూలత",
+  diseaseResistance: "వ్యాధి నిరోధకత",
+  lifespan: "జీవితకాలం",
+  marketPrice: "మార్కెట్ ధర",
+  nativeTract: "స్వస్థల ప్రాంతం",
+  physicalTraits: "గుర్తింపు లక్షణాలు",
+  referencePhotos: "సూచన ఫోటోలు",
+  noReferencePhotos: "ఇంకా సూచన ఫోటోలు లేవు.",
+  viewBreedPage: "ఈ జాతి గురించి మరింత చదవండి",
+  unverifiedBreedInfo: "ఈ జాతి మా జాబితాలో లేదు, కాబట్టి ఈ వివరాలను ఏఐ రాసింది మరియు అవి తప్పు కావచ్చు.",
+};
@@ -0,0 +1,36 @@
+import { findBreedBySlug } from '@/lib/breed-data';
+import { breedDetails } from '@/lib/breed-matching';
+
+/**
+ * Translated catalogue details of the breeds seen in online scans, by language and breed ID.
+ * The device cannot translate on its own, so offline scans reuse these.
+ */
+const DETAILS_KEY = 'pashu-ai:breed-details';
+
+type BreedDetails = ReturnType<typeof breedDetails>;
+
+function readDetails(): Record<string, Record<string, BreedDetails>> {
+  try {
+    return JSON.parse(window.localStorage.getItem(DETAILS_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+/** Keeps the catalogue details of a breed in a language for later offline scans. */
+export function rememberBreedDetails(breedId: string, language: string, details: BreedDetails): void {
+  if (language === 'en') return;
+  const stored = readDetails();
+  stored[language] = { ...stored[language], [breedId]: details };
+  window.localStorage.setItem(DETAILS_KEY, JSON.stringify(stored));
+}
+
+/**
+ * The catalogue details of a breed in a language: as remembered from an online scan, or the
+ * English catalogue text when the breed has not yet been seen online in that language.
+ */
+export function localBreedDetails(breedId: string, language: string): BreedDetails | undefined {
+  const breed = findBreedBySlug(breedId);
+  if (!breed) return undefined;
+  return (language !== 'en' && readDetails()[language]?.[breedId]) || breedDetails(breed);
+}
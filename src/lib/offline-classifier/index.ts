@@ -0,0 +1,119 @@
+/**
+ * @fileOverview On-device breed identification used when the scanner is in offline mode.
+ *
+ * - BreedClassifier - The interface a local image classifier must implement.
+ * - setBreedClassifier - Replaces the classifier used for offline identification.
+ * - preloadBreedClassifier - Loads the classifier while online, so its files are cached for offline scans.
+ * - identifyBreedLocally - Classifies a photo on the device and returns an IdentifyBreedOfflineOutput.
+ * - rememberBreedDetails - Keeps the translated details of a breed from an online scan for offline use.
+ */
+
+import type { IdentifyBreedOfflineInput, IdentifyBreedOfflineOutput } from '@/ai/flows/identify-breed-offline';
+import { UNKNOWN_BREED_ID } from '@/lib/breed-data';
+import { toBreedId } from '@/lib/breed-matching';
+import { translations } from '@/lib/translations';
+import { createOnnxBreedClassifier } from './onnx-classifier';
+import { localBreedDetails } from './breed-details';
+
+export { rememberBreedDetails } from './breed-details';
+
+export type ClassifierPrediction = {
+  label: string;
+  score: number;
+  /** True for the catch-all class a model uses for images without cattle or buffalo. */
+  isBackground: boolean;
+};
+
+export interface BreedClassifier {
+  /** Predictions below this score are not shown as a breed suggestion. */
+  readonly minConfidence: number;
+  load(): Promise<void>;
+  /** Returns every label with its score, highest score first. */
+  classify(photoDataUri: string): Promise<ClassifierPrediction[]>;
+}
+
+let classifier: BreedClassifier | null = null;
+
+export function setBreedClassifier(next: BreedClassifier) {
+  classifier = next;
+}
+
+export function getBreedClassifier(): BreedClassifier {
+  if (!classifier) {
+    classifier = createOnnxBreedClassifier();
+  }
+  return classifier;
+}
+
+/**
+ * Loads the classifier now if the device is online, or else as soon as it comes online. The
+ * service worker caches the model and runtime as they download, so later scans work offline.
+ */
+export function preloadBreedClassifier() {
+  const load = () =>
+    getBreedClassifier()
+      .load()
+      .catch(err => console.warn('Offline breed model could not be loaded:', err));
+  if (navigator.onLine) {
+    load();
+  } else {
+    window.addEventListener('online', load, { once: true });
+  }
+}
+
+export async function identifyBreedLocally({
+  photoDataUri,
+  language,
+}: IdentifyBreedOfflineInput): Promise<IdentifyBreedOfflineOutput> {
+  const t = translations[language as keyof typeof translations] ?? translations.en;
+  const activeClassifier = getBreedClassifier();
+
+  let predictions: ClassifierPrediction[];
+  try {
+    predictions = await activeClassifier.classify(photoDataUri);
+  } catch (err) {
+    console.error('Offline classifier failed:', err);
+    throw new Error(t.offlineModelUnavailable);
+  }
+
+  const top = predictions[0];
+  const notAnimal = {
+    isAnimal: false,
+    breedSuggestion: UNKNOWN_BREED_ID,
+    confidenceScore: 0,
+    description: '',
+    size: '',
+    colors: [],
+    nutrition: '',
+    verified: false,
+  };
+
+  if (!top || top.isBackground) {
+    return { ...notAnimal, reason: t.invalidImage };
+  }
+  if (top.score < activeClassifier.minConfidence) {
+    return { ...notAnimal, reason: t.offlineLowConfidence };
+  }
+
+  const breedId = toBreedId(top.label);
+  const details = localBreedDetails(breedId, language);
+  if (!details) {
+    return {
+      isAnimal: true,
+      breedSuggestion: breedId,
+      confidenceScore: top.score,
+      description: t.noInfo,
+      size: t.noInfo,
+      colors: [],
+      nutrition: t.noInfo,
+      verified: false,
+    };
+  }
+  return {
+    isAnimal: true,
+    breedSuggestion: breedId,
+    confidenceScore: top.score,
+    ...details,
+    verified: true,
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * @fileOverview An ONNX Runtime Web implementation of the on-device breed classifier.
+ *
+ * The model and its manifest are served as static assets from `public/models/breed-classifier/`,
+ * and the ONNX Runtime wasm binaries from `public/models/ort/` (see the `models:copy-runtime` script),
+ * so inference never leaves the device. Neither is committed; docs/offline-model.md describes how
+ * to provide them, and `npm run models:check` checks they are in place.
+ */
+
+import type { BreedClassifier, ClassifierPrediction } from './index';
+import { imageToTensorData, softmax } from './preprocess';
+
+export const DEFAULT_MANIFEST_URL = '/models/breed-classifier/manifest.json';
+
+/** The ONNX Runtime files loaded from the manifest's `wasmPaths`; `models:copy-runtime` copies them there. */
+export const ORT_RUNTIME_FILES = ['ort-wasm-simd-threaded.wasm', 'ort-wasm-simd-threaded.mjs'];
+
+export type ClassifierManifest = {
+  modelUrl: string;
+  wasmPaths: string;
+  inputName: string;
+  outputName: string;
+  inputSize: number;
+  mean: [number, number, number];
+  std: [number, number, number];
+  applySoftmax: boolean;
+  backgroundLabel: string;
+  labels: string[];
+};
+
+export type OnnxBreedClassifierOptions = {
+  manifestUrl?: string;
+  minConfidence?: number;
+};
+
+export function createOnnxBreedClassifier({
+  manifestUrl = DEFAULT_MANIFEST_URL,
+  minConfidence = 0.35,
+}: OnnxBreedClassifierOptions = {}): BreedClassifier {
+  let loading: Promise<{ manifest: ClassifierManifest; run: (input: Float32Array) => Promise<Float32Array> }> | null = null;
+
+  const load = () => {
+    if (!loading) {
+      loading = (async () => {
+        const response = await fetch(manifestUrl);
+        if (!response.ok) {
+          throw new Error(`Classifier manifest not found at ${manifestUrl}.`);
+        }
+        const manifest: ClassifierManifest = await response.json();
+
+        const ort = await import('onnxruntime-web');
+        ort.env.wasm.wasmPaths = manifest.wasmPaths;
+        const session = await ort.InferenceSession.create(manifest.modelUrl, {
+          executionProviders: ['wasm'],
+        });
+
+        const run = async (input: Float32Array) => {
+          const tensor = new ort.Tensor('float32', input, [1, 3, manifest.inputSize, manifest.inputSize]);
+          const results = await session.run({ [manifest.inputName]: tensor });
+          return results[manifest.outputName].data as Float32Array;
+        };
+        return { manifest, run };
+      })().catch(err => {
+        // Allow a later call to retry, e.g. once the model has been downloaded.
+        loading = null;
+        throw err;
+      });
+    }
+    return loading;
+  };
+
+  return {
+    minConfidence,
+    async load() {
+      await load();
+    },
+    async classify(photoDataUri: string): Promise<ClassifierPrediction[]> {
+      const { manifest, run } = await load();
+      const input = await imageToTensorData(photoDataUri, manifest);
+      const output = await run(input);
+      const scores = manifest.applySoftmax ? softmax(output) : Array.from(output);
+
+      return manifest.labels
+        .map((label, index) => ({
+          label,
+          score: scores[index] ?? 0,
+          isBackground: label === manifest.backgroundLabel,
+        }))
+        .sort((a, b) => b.score - a.score);
+    },
+  };
+}
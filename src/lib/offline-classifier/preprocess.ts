@@ -0,0 +1,53 @@
+/**
+ * @fileOverview Turns a captured photo into the float tensor layout expected by image classifiers.
+ */
+
+export type PreprocessOptions = {
+  inputSize: number;
+  mean: [number, number, number];
+  std: [number, number, number];
+};
+
+function loadImage(photoDataUri: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not decode the captured image.'));
+    image.src = photoDataUri;
+  });
+}
+
+/**
+ * Resizes the photo to a square `inputSize` canvas and returns normalized RGB values in NCHW order.
+ */
+export async function imageToTensorData(
+  photoDataUri: string,
+  { inputSize, mean, std }: PreprocessOptions
+): Promise<Float32Array> {
+  const image = await loadImage(photoDataUri);
+  const canvas = document.createElement('canvas');
+  canvas.width = inputSize;
+  canvas.height = inputSize;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported on this device.');
+  }
+  context.drawImage(image, 0, 0, inputSize, inputSize);
+  const { data } = context.getImageData(0, 0, inputSize, inputSize);
+
+  const pixels = inputSize * inputSize;
+  const tensor = new Float32Array(3 * pixels);
+  for (let i = 0; i < pixels; i++) {
+    for (let c = 0; c < 3; c++) {
+      tensor[c * pixels + i] = (data[i * 4 + c] / 255 - mean[c]) / std[c];
+    }
+  }
+  return tensor;
+}
+
+export function softmax(logits: Float32Array | number[]): number[] {
+  const max = Math.max(...logits);
+  const exps = Array.from(logits, value => Math.exp(value - max));
+  const sum = exps.reduce((acc, value) => acc + value, 0);
+  return exps.map(value => value / sum);
+}
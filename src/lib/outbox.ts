@@ -0,0 +1,207 @@
+/**
+ * @fileOverview An IndexedDB-backed outbox for scans and breed labels made in the field.
+ *
+ * Submissions are always written to the outbox first and then delivered to the server,
+ * so nothing is lost when the device has no coverage. After a network error, delivery is
+ * retried for as long as it takes, with exponential backoff capped at `MAX_RETRY_DELAY_MS` and
+ * whenever the browser comes back online. Only an entry the server rejects is marked failed;
+ * it is kept aside until the farmer confirms discarding it.
+ *
+ * Conflicts are resolved on the server: every entry carries its outbox id as `clientId`,
+ * which makes replays idempotent, and labels for the same photo are ordered by
+ * `capturedAt`, so the most recent confirmation or correction wins.
+ *
+ * - submitViaOutbox - Queues a submission and tries to deliver it straight away.
+ * - flushOutbox - Delivers every entry whose retry time has come.
+ * - subscribeToOutbox - Notifies a listener whenever the number of queued or failed entries changes.
+ * - discardFailedOutboxEntries - Removes every entry the server rejected.
+ * - startOutboxSync - Starts background delivery; safe to call more than once.
+ */
+
+import { improveModelAccuracy, type ImproveModelAccuracyInput } from '@/ai/flows/improve-model-accuracy';
+import { confirmBreed, type ConfirmBreedInput } from '@/ai/flows/confirm-breed';
+import { recordScan, type RecordScanInput } from '@/ai/flows/record-scan';
+
+type OutboxPayloads = {
+  scan: RecordScanInput;
+  confirmation: ConfirmBreedInput;
+  correction: ImproveModelAccuracyInput;
+};
+export type OutboxKind = keyof OutboxPayloads;
+
+export type OutboxEntry<K extends OutboxKind = OutboxKind> = {
+  id: string;
+  kind: K;
+  payload: OutboxPayloads[K];
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  /** Set when the server rejected the entry; it is not retried and stays visible until discarded. */
+  failed?: boolean;
+};
+
+export type OutboxCounts = { pending: number; failed: number };
+
+const senders: { [K in OutboxKind]: (payload: OutboxPayloads[K]) => Promise<unknown> } = {
+  scan: recordScan,
+  confirmation: confirmBreed,
+  correction: improveModelAccuracy,
+};
+
+const DB_NAME = 'pashu-ai';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+const BASE_RETRY_DELAY_MS = 5_000;
+const MAX_RETRY_DELAY_MS = 30 * 60_000;
+const SYNC_INTERVAL_MS = 15_000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function listOutboxEntries(): Promise<OutboxEntry[]> {
+  const entries = await withStore<OutboxEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+const listeners = new Set<(counts: OutboxCounts) => void>();
+
+async function notifyListeners() {
+  const entries = await listOutboxEntries();
+  const failed = entries.filter(entry => entry.failed).length;
+  const counts = { pending: entries.length - failed, failed };
+  listeners.forEach(listener => listener(counts));
+}
+
+export function subscribeToOutbox(listener: (counts: OutboxCounts) => void): () => void {
+  listeners.add(listener);
+  notifyListeners();
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function isNetworkError(err: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  return err instanceof TypeError && /fetch|network|load failed/i.test(err.message);
+}
+
+function retryDelay(attempts: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  // Spread retries out so a village full of phones regaining coverage does not reconnect at once.
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+async function deliver(entry: OutboxEntry): Promise<void> {
+  try {
+    const send = senders[entry.kind] as (payload: OutboxPayloads[OutboxKind]) => Promise<unknown>;
+    await send({ ...entry.payload, clientId: entry.id });
+    await withStore('readwrite', store => store.delete(entry.id));
+  } catch (err) {
+    const attempts = entry.attempts + 1;
+    await withStore('readwrite', store =>
+      store.put({
+        ...entry,
+        attempts,
+        nextAttemptAt: Date.now() + retryDelay(attempts),
+        lastError: (err as Error).message,
+        // A rejection (invalid payload, deleted animal, ...) fails the same way every time.
+        ...(!isNetworkError(err) && { failed: true }),
+      })
+    );
+    if (isNetworkError(err)) throw err;
+  }
+}
+
+export async function discardFailedOutboxEntries(): Promise<void> {
+  for (const entry of await listOutboxEntries()) {
+    if (entry.failed) await withStore('readwrite', store => store.delete(entry.id));
+  }
+  await notifyListeners();
+}
+
+let flushing: Promise<void> | null = null;
+
+export function flushOutbox(): Promise<void> {
+  if (!flushing) {
+    flushing = (async () => {
+      try {
+        if (!navigator.onLine) return;
+        const now = Date.now();
+        for (const entry of await listOutboxEntries()) {
+          if (entry.failed || entry.nextAttemptAt > now) continue;
+          await deliver(entry);
+        }
+      } catch (err) {
+        // Lost connectivity part-way through; the remaining entries wait for the next sync.
+        if (!isNetworkError(err)) console.error('Outbox sync failed:', err);
+      } finally {
+        flushing = null;
+        await notifyListeners();
+      }
+    })();
+  }
+  return flushing;
+}
+
+/**
+ * Queues a submission and tries to deliver it. Resolves to `'sent'` if it reached the
+ * server, or `'queued'` if it will be retried in the background. Rejects with the server's
+ * error if the server refused it; the entry is then dropped rather than kept as failed.
+ */
+export async function submitViaOutbox<K extends OutboxKind>(kind: K, payload: OutboxPayloads[K]): Promise<'sent' | 'queued'> {
+  const now = Date.now();
+  const entry: OutboxEntry<K> = {
+    id: crypto.randomUUID(),
+    kind,
+    payload,
+    createdAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+  };
+  await withStore('readwrite', store => store.put(entry));
+  await notifyListeners();
+
+  // A flush that was already running may have listed the entries before this one was added.
+  if (flushing) await flushing;
+  await flushOutbox();
+  const remaining = await withStore<OutboxEntry | undefined>('readonly', store => store.get(entry.id));
+  if (remaining?.failed) {
+    await withStore('readwrite', store => store.delete(entry.id));
+    await notifyListeners();
+    throw new Error(remaining.lastError);
+  }
+  return remaining ? 'queued' : 'sent';
+}
+
+let syncStarted = false;
+
+export function startOutboxSync() {
+  if (syncStarted || typeof window === 'undefined') return;
+  syncStarted = true;
+  window.addEventListener('online', () => flushOutbox());
+  window.setInterval(() => flushOutbox(), SYNC_INTERVAL_MS);
+  flushOutbox();
+}
@@ -1,4 +1,5 @@
 import data from './placeholder-images.json';
+import { breedSlug, type BreedData } from './breed-data';
 
 export type ImagePlaceholder = {
   id: string;
@@ -8,3 +9,9 @@ export type ImagePlaceholder = {
 };
 
 export const PlaceHolderImages: ImagePlaceholder[] = data.placeholderImages;
+
+/** Reference photos for a catalogue breed, whose ids are `<slug>-<category>` (e.g. `gir-cattle`). */
+export function breedReferenceImages(breed: BreedData): ImagePlaceholder[] {
+  const id = `${breedSlug(breed.breedName)}-${breed.category.toLowerCase()}`;
+  return PlaceHolderImages.filter(img => img.id === id || img.id.startsWith(`${id}-`));
+}
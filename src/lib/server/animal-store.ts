@@ -0,0 +1,131 @@
+/**
+ * @fileOverview The registry of individual animals and their profiles.
+ *
+ * - AnimalSchema - The Zod schema for a stored animal profile.
+ * - listAnimalRecords - Lists registered animals, optionally filtered by a search query.
+ * - getAnimalRecord - Looks up one animal by id.
+ * - createAnimalRecord - Registers a new animal; ear tags must be unique.
+ * - updateAnimalRecord - Edits an animal's profile fields.
+ * - addAnimalPhoto - Attaches a photo to an animal's profile.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+import { BREED_IDS, findBreedBySlug } from '@/lib/breed-data';
+import { toBreedId } from '@/lib/breed-matching';
+import { saveImageDataUri } from './image-files';
+import { createJsonCollection } from './json-collection';
+
+export const AnimalPhotoSchema = z.object({
+  sha256: z.string(),
+  mimeType: z.string(),
+  path: z.string(),
+  source: z.enum(['scan', 'upload']),
+  addedAt: z.string().datetime(),
+});
+export type AnimalPhoto = z.infer<typeof AnimalPhotoSchema>;
+
+export const AnimalProfileFieldsSchema = z.object({
+  tagId: z.string().trim().min(1),
+  species: z.enum(['Cattle', 'Buffalo']),
+  // A catalogue breed ID, or `unknown` for crossbred animals. Profiles saved before breed IDs
+  // hold breed names, which are resolved to IDs when read.
+  breed: z.preprocess(
+    value => (typeof value === 'string' && value.trim() ? toBreedId(value.trim()) : undefined),
+    z.enum(BREED_IDS).optional()
+  ),
+  sex: z.enum(['Female', 'Male']),
+  dateOfBirth: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(),
+  ownerName: z.string().trim().min(1),
+  village: z.string().trim().min(1),
+});
+export type AnimalProfileFields = z.infer<typeof AnimalProfileFieldsSchema>;
+
+export const AnimalSchema = AnimalProfileFieldsSchema.extend({
+  schemaVersion: z.literal(1),
+  id: z.string(),
+  photos: z.array(AnimalPhotoSchema),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+export type Animal = z.infer<typeof AnimalSchema>;
+
+const animals = createJsonCollection('animals/animals.json', AnimalSchema);
+
+const normalizeTag = (tagId: string) => tagId.trim().toUpperCase();
+
+function assertTagIsFree(items: Animal[], tagId: string, exceptId?: string) {
+  const tag = normalizeTag(tagId);
+  if (items.some(animal => animal.id !== exceptId && normalizeTag(animal.tagId) === tag)) {
+    throw new Error(`An animal with ear tag ${tagId} is already registered.`);
+  }
+}
+
+export async function listAnimalRecords(query?: string): Promise<Animal[]> {
+  const items = await animals.readAll();
+  const terms = query?.toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+  return items
+    .filter(animal => {
+      const breedName = animal.breed && findBreedBySlug(animal.breed)?.breedName;
+      const haystack = [animal.tagId, breedName, animal.ownerName, animal.village, animal.species]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase();
+      return terms.every(term => haystack.includes(term));
+    })
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getAnimalRecord(id: string): Promise<Animal | null> {
+  const items = await animals.readAll();
+  return items.find(animal => animal.id === id) ?? null;
+}
+
+async function toPhoto(photoDataUri: string, source: AnimalPhoto['source']): Promise<AnimalPhoto> {
+  return { ...(await saveImageDataUri(photoDataUri)), source, addedAt: new Date().toISOString() };
+}
+
+export async function createAnimalRecord(
+  fields: AnimalProfileFields,
+  photo?: { dataUri: string; source: AnimalPhoto['source'] }
+): Promise<Animal> {
+  const profile = AnimalProfileFieldsSchema.parse(fields);
+  const photos = photo ? [await toPhoto(photo.dataUri, photo.source)] : [];
+
+  return animals.mutate(items => {
+    assertTagIsFree(items, profile.tagId);
+    const now = new Date().toISOString();
+    const animal: Animal = { ...profile, schemaVersion: 1, id: randomUUID(), photos, createdAt: now, updatedAt: now };
+    items.push(animal);
+    return animal;
+  });
+}
+
+export async function updateAnimalRecord(id: string, fields: Partial<AnimalProfileFields>): Promise<Animal> {
+  const changes = AnimalProfileFieldsSchema.partial().parse(fields);
+
+  return animals.mutate(items => {
+    const index = items.findIndex(animal => animal.id === id);
+    if (index === -1) throw new Error('Animal not found.');
+    if (changes.tagId) assertTagIsFree(items, changes.tagId, id);
+    items[index] = { ...items[index], ...changes, updatedAt: new Date().toISOString() };
+    return items[index];
+  });
+}
+
+export async function addAnimalPhoto(id: string, photoDataUri: string, source: AnimalPhoto['source']): Promise<Animal> {
+  const photo = await toPhoto(photoDataUri, source);
+
+  return animals.mutate(items => {
+    const animal = items.find(item => item.id === id);
+    if (!animal) throw new Error('Animal not found.');
+    if (!animal.photos.some(existing => existing.sha256 === photo.sha256)) {
+      animal.photos.push(photo);
+    }
+    animal.updatedAt = new Date().toISOString();
+    return animal;
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * @fileOverview Content-addressed storage for voice notes, e.g. a farmer's spoken description
+ * of symptoms kept with a diagnosis.
+ *
+ * Recordings are written once under `audio/<sha256>.<ext>`, like photos in `image-files`.
+ */
+
+import { createHash } from 'node:crypto';
+import { access, readFile, writeFile } from 'node:fs/promises';
+import { dataPath } from './data-dir';
+import { parseDataUri } from './image-files';
+
+export type StoredAudio = {
+  sha256: string;
+  mimeType: string;
+  /** Path relative to the data directory. */
+  path: string;
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+};
+
+export async function saveAudioDataUri(dataUri: string): Promise<StoredAudio> {
+  const { mimeType, data } = parseDataUri(dataUri);
+  const extension = EXTENSIONS[mimeType];
+  if (!extension) {
+    throw new Error(`Unsupported audio type "${mimeType}".`);
+  }
+  const sha256 = createHash('sha256').update(data).digest('hex');
+  const relativePath = `audio/${sha256}.${extension}`;
+  const absolutePath = await dataPath(relativePath);
+
+  try {
+    await access(absolutePath);
+  } catch {
+    await writeFile(absolutePath, data);
+  }
+  return { sha256, mimeType, path: relativePath };
+}
+
+/** Looks up a stored recording by its hash, or returns null if there is none. */
+export async function readStoredAudio(sha256: string): Promise<{ data: Buffer; mimeType: string } | null> {
+  if (!/^[a-f0-9]{64}$/.test(sha256)) return null;
+  for (const [mimeType, extension] of Object.entries(EXTENSIONS)) {
+    try {
+      return { data: await readFile(await dataPath(`audio/${sha256}.${extension}`)), mimeType };
+    } catch {
+      // Try the next extension.
+    }
+  }
+  return null;
+}
@@ -0,0 +1,20 @@
+/**
+ * @fileOverview Resolves where server-side records are kept on disk.
+ *
+ * Defaults to `.data/` in the project root; set `PASHU_DATA_DIR` to keep data elsewhere
+ * (e.g. a mounted volume in production).
+ */
+
+import path from 'node:path';
+import { mkdir } from 'node:fs/promises';
+
+export function getDataDir(): string {
+  return process.env.PASHU_DATA_DIR ?? path.join(process.cwd(), '.data');
+}
+
+/** Returns an absolute path inside the data directory, creating its parent folders. */
+export async function dataPath(...segments: string[]): Promise<string> {
+  const target = path.join(getDataDir(), ...segments);
+  await mkdir(path.dirname(target), { recursive: true });
+  return target;
+}
@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseDateBound, selectDatasetEntries } from './dataset-export';
+import type { LabelRecord } from './label-store';
+
+const label = (sha256: string, capturedAt: string): LabelRecord => ({
+  schemaVersion: 1,
+  id: `record-${sha256}`,
+  source: 'confirmation',
+  label: 'gir',
+  originalSuggestions: [{ breed: 'gir', confidence: 0.9 }],
+  predictionMode: 'online',
+  image: { sha256, mimeType: 'image/jpeg', path: `images/${sha256}.jpg` },
+  language: 'en',
+  submittedBy: 'device-1',
+  capturedAt,
+  receivedAt: capturedAt,
+});
+
+describe('parseDateBound', () => {
+  it('starts a date-only from at the beginning of the day', () => {
+    assert.equal(parseDateBound('2025-03-01', 'from').toISOString(), '2025-03-01T00:00:00.000Z');
+  });
+
+  it('ends a date-only to at the end of the day', () => {
+    assert.equal(parseDateBound('2025-03-31', 'to').toISOString(), '2025-03-31T23:59:59.999Z');
+  });
+
+  it('keeps a to with a time as given', () => {
+    assert.equal(parseDateBound('2025-03-31T12:00:00Z', 'to').toISOString(), '2025-03-31T12:00:00.000Z');
+  });
+
+  it('rejects a value that is not a date', () => {
+    assert.throws(() => parseDateBound('last week', 'to'), /--to must be a date, got "last week"/);
+  });
+});
+
+describe('selectDatasetEntries', () => {
+  it('includes labels captured during the day given as to', () => {
+    const records = [label('a', '2025-03-31T09:30:00.000Z'), label('b', '2025-04-01T00:00:00.000Z')];
+
+    const entries = selectDatasetEntries(records, { to: parseDateBound('2025-03-31', 'to') });
+
+    assert.deepEqual(entries.map(entry => entry.sha256), ['a']);
+  });
+});
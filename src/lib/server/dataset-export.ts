@@ -0,0 +1,133 @@
+/**
+ * @fileOverview Builds a training-ready dataset from stored breed labels.
+ *
+ * The export is an ImageFolder-style tree (`images/<breed>/<sha256>.<ext>`) with a
+ * `manifest.jsonl` and `manifest.csv` describing every image. Records that share an image
+ * hash are collapsed into one entry whose label is the most recent one, so a later
+ * correction supersedes an earlier confirmation of the same photo. Labels are canonical
+ * breed IDs; records stored before breed IDs existed carry names and are resolved on export.
+ *
+ * - parseDateBound - Parses a `from` or `to` date for a DatasetFilter.
+ * - selectDatasetEntries - Resolves, deduplicates and filters label records.
+ * - exportDataset - Writes the selected entries to a directory.
+ */
+
+import path from 'node:path';
+import { copyFile, mkdir, writeFile } from 'node:fs/promises';
+import { toBreedId } from '@/lib/breed-matching';
+import { getDataDir } from './data-dir';
+import { LabelRecord, readLabelRecords } from './label-store';
+
+export type DatasetFilter = {
+  /** Inclusive lower bound on when the label was captured. */
+  from?: Date;
+  /** Inclusive upper bound on when the label was captured. */
+  to?: Date;
+  /** Only export these breeds (IDs or names). */
+  breeds?: string[];
+  /** Only export labels that came from these actions. */
+  sources?: LabelRecord['source'][];
+};
+
+export type DatasetEntry = {
+  file: string;
+  sha256: string;
+  label: string;
+  source: LabelRecord['source'];
+  capturedAt: string;
+  recordId: string;
+  submittedBy: string;
+  /** How many label records were submitted for this image. */
+  labelCount: number;
+  /** Distinct labels ever given to this image, if they disagree. */
+  conflictingLabels: string[];
+};
+
+/**
+ * Parses a date or timestamp for `DatasetFilter.from` or `.to`. A date-only `to`
+ * ("2025-03-31") covers the whole of that day (UTC), so the bound stays inclusive.
+ */
+export function parseDateBound(value: string, bound: 'from' | 'to'): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`--${bound} must be a date, got "${value}".`);
+  }
+  if (bound === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+export function selectDatasetEntries(records: LabelRecord[], filter: DatasetFilter = {}): DatasetEntry[] {
+  const byImage = new Map<string, LabelRecord[]>();
+  for (const record of records) {
+    const group = byImage.get(record.image.sha256) ?? [];
+    group.push(record);
+    byImage.set(record.image.sha256, group);
+  }
+
+  const breeds = filter.breeds?.map(toBreedId);
+  const entries: DatasetEntry[] = [];
+
+  for (const [sha256, group] of byImage) {
+    group.sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+    const latest = group[group.length - 1];
+    const label = toBreedId(latest.label);
+    const capturedAt = new Date(latest.capturedAt);
+
+    if (filter.from && capturedAt < filter.from) continue;
+    if (filter.to && capturedAt > filter.to) continue;
+    if (breeds && !breeds.includes(label)) continue;
+    if (filter.sources && !filter.sources.includes(latest.source)) continue;
+
+    const labels = [...new Set(group.map(record => toBreedId(record.label)))];
+    entries.push({
+      file: path.posix.join('images', toDirectoryName(label), path.posix.basename(latest.image.path)),
+      sha256,
+      label,
+      source: latest.source,
+      capturedAt: latest.capturedAt,
+      recordId: latest.id,
+      submittedBy: latest.submittedBy,
+      labelCount: group.length,
+      conflictingLabels: labels.length > 1 ? labels : [],
+    });
+  }
+
+  return entries.sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+}
+
+export async function exportDataset(outDir: string, filter: DatasetFilter = {}): Promise<DatasetEntry[]> {
+  const records = await readLabelRecords();
+  const entries = selectDatasetEntries(records, filter);
+  const imagePaths = new Map(records.map(record => [record.image.sha256, record.image.path]));
+
+  for (const entry of entries) {
+    const target = path.join(outDir, entry.file);
+    await mkdir(path.dirname(target), { recursive: true });
+    await copyFile(path.join(getDataDir(), imagePaths.get(entry.sha256)!), target);
+  }
+
+  await mkdir(outDir, { recursive: true });
+  await writeFile(path.join(outDir, 'manifest.jsonl'), entries.map(entry => JSON.stringify(entry) + '\n').join(''));
+  await writeFile(path.join(outDir, 'manifest.csv'), toCsv(entries));
+  return entries;
+}
+
+function toDirectoryName(label: string): string {
+  return label.trim().replace(/[^\p{L}\p{N}-]+/gu, '_') || 'unlabelled';
+}
+
+function toCsv(entries: DatasetEntry[]): string {
+  const columns = ['file', 'sha256', 'label', 'source', 'capturedAt', 'recordId', 'submittedBy', 'labelCount', 'conflictingLabels'] as const;
+  const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const rows = entries.map(entry =>
+    columns
+      .map(column => {
+        const value = entry[column];
+        return escape(Array.isArray(value) ? value.join('|') : String(value));
+      })
+      .join(',')
+  );
+  return [columns.join(','), ...rows].join('\n') + '\n';
+}
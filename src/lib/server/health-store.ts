@@ -0,0 +1,117 @@
+/**
+ * @fileOverview Per-animal health history built from saved diagnoses.
+ *
+ * - HealthRecordSchema - The Zod schema for one saved diagnosis.
+ * - listHealthRecordsForAnimal - Lists an animal's diagnoses, newest first.
+ * - createHealthRecord - Saves a diagnosis, its photo, the reported symptoms and any voice note against an animal.
+ * - updateHealthRecordStatus - Marks a diagnosis as vet-confirmed, ruled out or resolved.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+import { DiagnoseAnimalHealthOutputSchema } from '@/ai/schemas/diagnose-animal-health-schema';
+import { SYMPTOMS } from '@/lib/symptoms';
+import { getAnimalRecord } from './animal-store';
+import { saveAudioDataUri } from './audio-files';
+import { saveImageDataUri } from './image-files';
+import { createJsonCollection } from './json-collection';
+
+export const HEALTH_STATUSES = ['pending', 'vet-confirmed', 'ruled-out', 'resolved'] as const;
+export type HealthStatus = (typeof HEALTH_STATUSES)[number];
+
+export const HealthRecordSchema = z.object({
+  schemaVersion: z.literal(1),
+  id: z.string(),
+  animalId: z.string(),
+  image: z.object({
+    sha256: z.string(),
+    mimeType: z.string(),
+    path: z.string(),
+  }),
+  symptoms: z.array(z.enum(SYMPTOMS)),
+  description: z.string(),
+  // The farmer's spoken descriptions, in the order they were recorded, when the symptoms were given by voice.
+  audio: z
+    .array(
+      z.object({
+        sha256: z.string(),
+        mimeType: z.string(),
+        path: z.string(),
+      })
+    )
+    .optional(),
+  language: z.string(),
+  result: DiagnoseAnimalHealthOutputSchema,
+  status: z.enum(HEALTH_STATUSES),
+  statusHistory: z.array(
+    z.object({
+      status: z.enum(HEALTH_STATUSES),
+      changedAt: z.string().datetime(),
+    })
+  ),
+  diagnosedAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+export type HealthRecord = z.infer<typeof HealthRecordSchema>;
+
+export const NewHealthRecordSchema = HealthRecordSchema.pick({
+  symptoms: true,
+  description: true,
+  language: true,
+  result: true,
+}).extend({
+  photoDataUri: z.string(),
+  audioDataUris: z.array(z.string()).optional(),
+  diagnosedAt: z.string().datetime().optional(),
+});
+export type NewHealthRecord = z.infer<typeof NewHealthRecordSchema>;
+
+const healthRecords = createJsonCollection('health/records.json', HealthRecordSchema);
+
+export async function listHealthRecordsForAnimal(animalId: string): Promise<HealthRecord[]> {
+  const items = await healthRecords.readAll();
+  return items
+    .filter(record => record.animalId === animalId)
+    .sort((a, b) => b.diagnosedAt.localeCompare(a.diagnosedAt));
+}
+
+export async function createHealthRecord(animalId: string, input: NewHealthRecord): Promise<HealthRecord> {
+  const { photoDataUri, audioDataUris = [], diagnosedAt, ...fields } = NewHealthRecordSchema.parse(input);
+  if (!(await getAnimalRecord(animalId))) throw new Error('Animal not found.');
+  const image = await saveImageDataUri(photoDataUri);
+  const audio = await Promise.all(audioDataUris.map(saveAudioDataUri));
+
+  return healthRecords.mutate(items => {
+    const now = new Date().toISOString();
+    const record: HealthRecord = {
+      ...fields,
+      schemaVersion: 1,
+      id: randomUUID(),
+      animalId,
+      image,
+      ...(audio.length > 0 && { audio }),
+      status: 'pending',
+      statusHistory: [{ status: 'pending', changedAt: now }],
+      diagnosedAt: diagnosedAt ?? now,
+      updatedAt: now,
+    };
+    items.push(record);
+    return record;
+  });
+}
+
+export async function updateHealthRecordStatus(id: string, status: HealthStatus): Promise<HealthRecord> {
+  const next = z.enum(HEALTH_STATUSES).parse(status);
+
+  return healthRecords.mutate(items => {
+    const record = items.find(item => item.id === id);
+    if (!record) throw new Error('Health record not found.');
+    if (record.status !== next) {
+      const now = new Date().toISOString();
+      record.status = next;
+      record.statusHistory.push({ status: next, changedAt: now });
+      record.updatedAt = now;
+    }
+    return record;
+  });
+}
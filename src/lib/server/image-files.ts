@@ -0,0 +1,59 @@
+/**
+ * @fileOverview Content-addressed storage for captured animal photos.
+ *
+ * Images are written once under `images/<sha256>.<ext>`, so the same photo submitted
+ * several times is stored once and can be recognised by its hash.
+ */
+
+import { createHash } from 'node:crypto';
+import { access, readFile, writeFile } from 'node:fs/promises';
+import { dataPath } from './data-dir';
+
+export type StoredImage = {
+  sha256: string;
+  mimeType: string;
+  /** Path relative to the data directory. */
+  path: string;
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+export function parseDataUri(dataUri: string): { mimeType: string; data: Buffer } {
+  const match = /^data:([^;,]+);base64,([\s\S]*)$/.exec(dataUri);
+  if (!match) {
+    throw new Error('Expected a base64 data URI.');
+  }
+  return { mimeType: match[1], data: Buffer.from(match[2], 'base64') };
+}
+
+export async function saveImageDataUri(dataUri: string): Promise<StoredImage> {
+  const { mimeType, data } = parseDataUri(dataUri);
+  const sha256 = createHash('sha256').update(data).digest('hex');
+  const relativePath = `images/${sha256}.${EXTENSIONS[mimeType] ?? 'bin'}`;
+  const absolutePath = await dataPath(relativePath);
+
+  try {
+    await access(absolutePath);
+  } catch {
+    await writeFile(absolutePath, data);
+  }
+  return { sha256, mimeType, path: relativePath };
+}
+
+/** Looks up a stored image by its hash, or returns null if there is none. */
+export async function readStoredImage(sha256: string): Promise<{ data: Buffer; mimeType: string } | null> {
+  if (!/^[a-f0-9]{64}$/.test(sha256)) return null;
+  for (const [mimeType, extension] of Object.entries(EXTENSIONS)) {
+    try {
+      return { data: await readFile(await dataPath(`images/${sha256}.${extension}`)), mimeType };
+    } catch {
+      // Try the next extension.
+    }
+  }
+  return null;
+}
@@ -0,0 +1,53 @@
+/**
+ * @fileOverview A small JSON-file backed collection for records that are edited after creation.
+ *
+ * The whole collection lives in one file that is rewritten atomically; writes are serialized
+ * within the server process so concurrent requests cannot lose each other's updates.
+ */
+
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import type { z } from 'zod';
+import { dataPath } from './data-dir';
+
+export type JsonCollection<T> = {
+  readAll(): Promise<T[]>;
+  /** Runs `change` on the current items and saves whatever it leaves in the array. */
+  mutate<R>(change: (items: T[]) => R | Promise<R>): Promise<R>;
+};
+
+export function createJsonCollection<S extends z.ZodTypeAny>(file: string, schema: S): JsonCollection<z.infer<S>> {
+  type T = z.infer<S>;
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const readAll = async (): Promise<T[]> => {
+    let contents: string;
+    try {
+      contents = await readFile(await dataPath(file), 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw err;
+    }
+    return (JSON.parse(contents) as unknown[]).map(item => schema.parse(item));
+  };
+
+  const writeAll = async (items: T[]) => {
+    const target = await dataPath(file);
+    const temporary = `${target}.${process.pid}.tmp`;
+    await writeFile(temporary, JSON.stringify(items, null, 2));
+    await rename(temporary, target);
+  };
+
+  return {
+    readAll,
+    mutate<R>(change: (items: T[]) => R | Promise<R>): Promise<R> {
+      const run = pending.then(async () => {
+        const items = await readAll();
+        const result = await change(items);
+        await writeAll(items.map(item => schema.parse(item)));
+        return result;
+      });
+      pending = run.catch(() => undefined);
+      return run;
+    },
+  };
+}
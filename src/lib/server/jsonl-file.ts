@@ -0,0 +1,26 @@
+/**
+ * @fileOverview Helpers for the append-only JSON Lines files used by the server-side stores.
+ */
+
+import { appendFile, readFile } from 'node:fs/promises';
+import type { z } from 'zod';
+import { dataPath } from './data-dir';
+
+export async function appendJsonLine(file: string, record: unknown): Promise<void> {
+  await appendFile(await dataPath(file), JSON.stringify(record) + '\n');
+}
+
+/** Reads and validates every line of a JSON Lines file in the data directory. A missing file is empty. */
+export async function readJsonLines<T extends z.ZodTypeAny>(file: string, schema: T): Promise<z.infer<T>[]> {
+  let contents: string;
+  try {
+    contents = await readFile(await dataPath(file), 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw err;
+  }
+  return contents
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => schema.parse(JSON.parse(line)));
+}
@@ -0,0 +1,76 @@
+/**
+ * @fileOverview Append-only store of breed labels submitted from the scanner.
+ *
+ * Every record is one line of `labels/records.jsonl` in the data directory and points at
+ * its photo in the content-addressed image store. The schema is versioned so that
+ * retraining and audit tooling can rely on it.
+ *
+ * - LabelRecordSchema - The Zod schema for a stored label record.
+ * - saveLabelRecord - Persists a new label record together with its image. Saving is idempotent per `clientId`.
+ * - readLabelRecords - Reads all stored label records, oldest first.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+import { saveImageDataUri } from './image-files';
+import { appendJsonLine, readJsonLines } from './jsonl-file';
+
+const RECORDS_FILE = 'labels/records.jsonl';
+
+export const LabelSuggestionSchema = z.object({
+  breed: z.string(),
+  confidence: z.number(),
+});
+export type LabelSuggestion = z.infer<typeof LabelSuggestionSchema>;
+
+export const LabelRecordSchema = z.object({
+  schemaVersion: z.literal(1),
+  id: z.string(),
+  /** Set by clients that may replay a submission (see the offline outbox); used to drop duplicates. */
+  clientId: z.string().optional(),
+  /** Whether the label confirms one of the suggestions or replaces them. */
+  source: z.enum(['confirmation', 'correction']),
+  /** The breed ID the field worker says is correct (records from before breed IDs hold a name). */
+  label: z.string(),
+  originalSuggestions: z.array(LabelSuggestionSchema),
+  predictionMode: z.enum(['online', 'offline']),
+  image: z.object({
+    sha256: z.string(),
+    mimeType: z.string(),
+    path: z.string(),
+  }),
+  language: z.string(),
+  submittedBy: z.string(),
+  capturedAt: z.string().datetime(),
+  receivedAt: z.string().datetime(),
+});
+export type LabelRecord = z.infer<typeof LabelRecordSchema>;
+
+export type NewLabelRecord = Omit<LabelRecord, 'schemaVersion' | 'id' | 'image' | 'capturedAt' | 'receivedAt'> & {
+  imageDataUri: string;
+  capturedAt?: string;
+};
+
+export async function saveLabelRecord({ imageDataUri, capturedAt, ...fields }: NewLabelRecord): Promise<LabelRecord> {
+  if (fields.clientId) {
+    const existing = (await readLabelRecords()).find(record => record.clientId === fields.clientId);
+    if (existing) return existing;
+  }
+
+  const receivedAt = new Date().toISOString();
+  const record = LabelRecordSchema.parse({
+    ...fields,
+    schemaVersion: 1,
+    id: randomUUID(),
+    image: await saveImageDataUri(imageDataUri),
+    capturedAt: capturedAt ?? receivedAt,
+    receivedAt,
+  });
+
+  await appendJsonLine(RECORDS_FILE, record);
+  return record;
+}
+
+export async function readLabelRecords(): Promise<LabelRecord[]> {
+  return readJsonLines(RECORDS_FILE, LabelRecordSchema);
+}
@@ -0,0 +1,63 @@
+/**
+ * @fileOverview Append-only log of every scan made in the scanner, including those made offline.
+ *
+ * - ScanRecordSchema - The Zod schema for a stored scan record.
+ * - saveScanRecord - Persists a scan together with its image. Saving is idempotent per `clientId`.
+ * - readScanRecords - Reads all stored scan records, oldest first.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+import { saveImageDataUri } from './image-files';
+import { appendJsonLine, readJsonLines } from './jsonl-file';
+import { LabelSuggestionSchema } from './label-store';
+
+const RECORDS_FILE = 'scans/records.jsonl';
+
+export const ScanRecordSchema = z.object({
+  schemaVersion: z.literal(1),
+  id: z.string(),
+  clientId: z.string().optional(),
+  predictionMode: z.enum(['online', 'offline']),
+  isAnimal: z.boolean(),
+  suggestions: z.array(LabelSuggestionSchema),
+  image: z.object({
+    sha256: z.string(),
+    mimeType: z.string(),
+    path: z.string(),
+  }),
+  language: z.string(),
+  submittedBy: z.string(),
+  capturedAt: z.string().datetime(),
+  receivedAt: z.string().datetime(),
+});
+export type ScanRecord = z.infer<typeof ScanRecordSchema>;
+
+export type NewScanRecord = Omit<ScanRecord, 'schemaVersion' | 'id' | 'image' | 'capturedAt' | 'receivedAt'> & {
+  imageDataUri: string;
+  capturedAt?: string;
+};
+
+export async function saveScanRecord({ imageDataUri, capturedAt, ...fields }: NewScanRecord): Promise<ScanRecord> {
+  if (fields.clientId) {
+    const existing = (await readScanRecords()).find(record => record.clientId === fields.clientId);
+    if (existing) return existing;
+  }
+
+  const receivedAt = new Date().toISOString();
+  const record = ScanRecordSchema.parse({
+    ...fields,
+    schemaVersion: 1,
+    id: randomUUID(),
+    image: await saveImageDataUri(imageDataUri),
+    capturedAt: capturedAt ?? receivedAt,
+    receivedAt,
+  });
+
+  await appendJsonLine(RECORDS_FILE, record);
+  return record;
+}
+
+export async function readScanRecords(): Promise<ScanRecord[]> {
+  return readJsonLines(RECORDS_FILE, ScanRecordSchema);
+}
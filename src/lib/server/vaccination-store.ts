@@ -0,0 +1,48 @@
+/**
+ * @fileOverview Vaccination and deworming doses given to registered animals.
+ *
+ * - DoseRecordSchema - The Zod schema for one recorded dose.
+ * - listDoseRecords - Lists recorded doses, optionally for one animal.
+ * - createDoseRecord - Records that a vaccine or dewormer was given on a date.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+import { vaccinationRules } from '@/lib/vaccination-rules';
+import { getAnimalRecord } from './animal-store';
+import { createJsonCollection } from './json-collection';
+
+export const DoseRecordSchema = z.object({
+  schemaVersion: z.literal(1),
+  id: z.string(),
+  animalId: z.string(),
+  ruleId: z.string(),
+  givenOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  recordedAt: z.string().datetime(),
+});
+export type DoseRecord = z.infer<typeof DoseRecordSchema>;
+
+const doses = createJsonCollection('vaccinations/doses.json', DoseRecordSchema);
+
+export async function listDoseRecords(animalId?: string): Promise<DoseRecord[]> {
+  const items = await doses.readAll();
+  return animalId ? items.filter(dose => dose.animalId === animalId) : items;
+}
+
+export async function createDoseRecord(animalId: string, ruleId: string, givenOn: string): Promise<DoseRecord> {
+  if (!vaccinationRules.some(rule => rule.id === ruleId)) throw new Error(`Unknown vaccination rule: ${ruleId}`);
+  if (!(await getAnimalRecord(animalId))) throw new Error('Animal not found.');
+
+  return doses.mutate(items => {
+    const record = DoseRecordSchema.parse({
+      schemaVersion: 1,
+      id: randomUUID(),
+      animalId,
+      ruleId,
+      givenOn,
+      recordedAt: new Date().toISOString(),
+    });
+    items.push(record);
+    return record;
+  });
+}
@@ -0,0 +1,227 @@
+/**
+ * @fileOverview The curated directory of veterinary services used for emergency referrals.
+ *
+ * Entries are loaded with `npm run vets:import` from official lists (state animal husbandry
+ * department hospital and dispensary lists, district contacts). Nothing here is generated:
+ * an entry is only marked verified when the import says it was checked against its source.
+ *
+ * - VetDirectoryEntrySchema - The Zod schema for one directory entry.
+ * - VetDirectoryImportSchema - The Zod schema for one row of an import file.
+ * - NATIONAL_HELPLINES - Helplines that apply everywhere and are always returned.
+ * - listVetDirectoryEntries - Lists every imported entry.
+ * - isVetDirectoryLoaded - Whether any entries have been imported yet.
+ * - pincodeCentroid - Estimates a pincode's position from the directory entries inside it.
+ * - searchVetDirectory - Finds services near a position, or for a pincode, district, state or town.
+ * - importVetDirectory - Adds or updates entries from an import file.
+ */
+
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+import { GeoPoint, centroid, distanceKm } from '@/lib/geo';
+import { createJsonCollection } from './json-collection';
+
+export const VET_SERVICE_TYPES = ['Hospital', 'Dispensary', 'Clinic', 'Helpline'] as const;
+
+/** Services further than this from the searcher are left out of distance-ranked results. */
+const MAX_DISTANCE_KM = 100;
+
+const GeoPointSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+export const VetDirectoryEntrySchema = z.object({
+  schemaVersion: z.literal(1),
+  id: z.string(),
+  name: z.string().min(1),
+  type: z.enum(VET_SERVICE_TYPES),
+  address: z.string(),
+  district: z.string().optional(),
+  state: z.string().optional(),
+  pincode: z
+    .string()
+    .regex(/^\d{6}$/)
+    .optional(),
+  phone: z.string().min(1),
+  coordinates: GeoPointSchema.optional(),
+  verified: z.boolean(),
+  source: z.string().optional(),
+  updatedAt: z.string().datetime(),
+});
+export type VetDirectoryEntry = z.infer<typeof VetDirectoryEntrySchema>;
+
+const optionalText = z
+  .string()
+  .trim()
+  .optional()
+  .transform(value => value || undefined);
+
+export const VetDirectoryImportSchema = z.object({
+  id: optionalText,
+  name: z.string().trim().min(1),
+  type: z.enum(VET_SERVICE_TYPES),
+  address: z.string().trim().default(''),
+  district: optionalText,
+  state: optionalText,
+  pincode: optionalText.pipe(z.string().regex(/^\d{6}$/, 'pincode must be 6 digits').optional()),
+  phone: z.string().trim().min(1),
+  latitude: z.union([z.number(), optionalText]).pipe(z.coerce.number().min(-90).max(90).optional()),
+  longitude: z.union([z.number(), optionalText]).pipe(z.coerce.number().min(-180).max(180).optional()),
+  verified: z
+    .union([z.boolean(), z.string()])
+    .optional()
+    .transform(value => value === true || (typeof value === 'string' && /^(true|yes|y|1)$/i.test(value.trim()))),
+  source: optionalText,
+});
+export type VetDirectoryImportRow = z.input<typeof VetDirectoryImportSchema>;
+
+export const NATIONAL_HELPLINES: VetDirectoryEntry[] = [
+  {
+    schemaVersion: 1,
+    id: 'national-1962',
+    name: 'Mobile Veterinary Unit Helpline',
+    type: 'Helpline',
+    address: 'Toll-free number 1962; connects to the Mobile Veterinary Units run by your state.',
+    phone: '1962',
+    verified: true,
+    source: 'Department of Animal Husbandry and Dairying, Government of India',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  },
+];
+
+const directory = createJsonCollection('vets/directory.json', VetDirectoryEntrySchema);
+
+const normalize = (value: string | undefined) => value?.trim().toLowerCase() ?? '';
+
+/** A stable id for rows that do not bring their own, so re-importing a list updates rather than duplicates. */
+function entryId(row: z.output<typeof VetDirectoryImportSchema>): string {
+  if (row.id) return row.id;
+  const key = [row.name, row.pincode ?? row.district ?? '', row.phone].map(normalize).join('|');
+  return createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+export async function listVetDirectoryEntries(): Promise<VetDirectoryEntry[]> {
+  return directory.readAll();
+}
+
+/** False until `npm run vets:import` has loaded a directory, so callers can say only helplines are available. */
+export async function isVetDirectoryLoaded(): Promise<boolean> {
+  return (await directory.readAll()).length > 0;
+}
+
+export type VetDirectoryMatch = VetDirectoryEntry & { distanceKm?: number };
+
+export function pincodeCentroid(entries: VetDirectoryEntry[], pincode: string): GeoPoint | undefined {
+  const sameArea = [
+    (entry: VetDirectoryEntry) => entry.pincode === pincode,
+    (entry: VetDirectoryEntry) => entry.pincode?.slice(0, 3) === pincode.slice(0, 3),
+  ];
+  for (const inArea of sameArea) {
+    const point = centroid(entries.filter(inArea).flatMap(entry => (entry.coordinates ? [entry.coordinates] : [])));
+    if (point) return point;
+  }
+  return undefined;
+}
+
+/** How closely an entry matches a typed location; lower is better and null is no match. */
+function textRank(entries: VetDirectoryEntry[], query: string): (entry: VetDirectoryEntry) => number | null {
+  if (/^\d{6}$/.test(query)) {
+    const districts = new Set(entries.filter(entry => entry.pincode === query).map(entry => normalize(entry.district)));
+    districts.delete('');
+    return entry => {
+      if (entry.pincode === query) return 0;
+      if (districts.has(normalize(entry.district))) return 1;
+      if (entry.pincode?.slice(0, 3) === query.slice(0, 3)) return 2;
+      return null;
+    };
+  }
+  return entry => {
+    if (normalize(entry.district) === query) return 1;
+    if (normalize(entry.address).includes(query)) return 2;
+    if (normalize(entry.state) === query) return 3;
+    return null;
+  };
+}
+
+/**
+ * Finds services for a searcher. With `coordinates` (or a typed pincode whose centroid can
+ * be worked out from the directory) services are ranked by straight-line distance; entries
+ * without coordinates follow, ranked by how closely they match the typed pincode, district,
+ * state or town. National helplines always come first so an emergency number is never missing.
+ */
+export async function searchVetDirectory(
+  { location, coordinates }: { location?: string; coordinates?: GeoPoint },
+  limit = 8
+): Promise<VetDirectoryMatch[]> {
+  const entries = await directory.readAll();
+  const query = normalize(location);
+  const origin = coordinates ?? (/^\d{6}$/.test(query) ? pincodeCentroid(entries, query) : undefined);
+  const rank = query ? textRank(entries, query) : () => null;
+
+  const matches = entries
+    .map(entry => {
+      const distance = origin && entry.coordinates ? distanceKm(origin, entry.coordinates) : undefined;
+      return { entry, rank: rank(entry), distance: distance !== undefined && distance <= MAX_DISTANCE_KM ? distance : undefined };
+    })
+    .filter(match => match.distance !== undefined || match.rank !== null)
+    .sort(
+      (a, b) =>
+        (a.distance ?? Infinity) - (b.distance ?? Infinity) ||
+        (a.rank ?? Infinity) - (b.rank ?? Infinity) ||
+        Number(b.entry.verified) - Number(a.entry.verified) ||
+        a.entry.name.localeCompare(b.entry.name)
+    )
+    .slice(0, limit)
+    .map(({ entry, distance }): VetDirectoryMatch => (distance === undefined ? entry : { ...entry, distanceKm: distance }));
+
+  return [...NATIONAL_HELPLINES, ...matches];
+}
+
+/** Adds or updates entries; with `replace`, entries missing from `rows` are removed. */
+export async function importVetDirectory(
+  rows: VetDirectoryImportRow[],
+  { replace = false }: { replace?: boolean } = {}
+): Promise<{ added: number; updated: number; removed: number; unverified: number }> {
+  const parsed = rows.map((row, index) => {
+    const result = VetDirectoryImportSchema.safeParse(row);
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+      throw new Error(`Row ${index + 1} is invalid: ${issues}`);
+    }
+    return result.data;
+  });
+
+  return directory.mutate(items => {
+    const now = new Date().toISOString();
+    const imported = new Set<string>();
+    let added = 0;
+    let updated = 0;
+
+    for (const row of parsed) {
+      const { latitude, longitude, ...fields } = row;
+      const entry: VetDirectoryEntry = {
+        ...fields,
+        schemaVersion: 1,
+        id: entryId(row),
+        coordinates: latitude !== undefined && longitude !== undefined ? { latitude, longitude } : undefined,
+        updatedAt: now,
+      };
+      imported.add(entry.id);
+      const index = items.findIndex(item => item.id === entry.id);
+      if (index === -1) {
+        items.push(entry);
+        added++;
+      } else {
+        items[index] = entry;
+        updated++;
+      }
+    }
+
+    const before = items.length;
+    if (replace) {
+      items.splice(0, items.length, ...items.filter(item => imported.has(item.id)));
+    }
+    const unverified = parsed.filter(row => !row.verified).length;
+    return { added, updated, removed: before - items.length, unverified };
+  });
+}
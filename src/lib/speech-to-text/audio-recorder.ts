@@ -0,0 +1,72 @@
+/**
+ * @fileOverview Records microphone audio so a spoken description can be kept with a diagnosis.
+ *
+ * - AudioRecording - A recording in progress.
+ * - MAX_RECORDING_SECONDS - How long a recording can run before it stops by itself.
+ * - isAudioRecordingSupported - Whether the browser can record from the microphone.
+ * - startAudioRecording - Asks for the microphone and starts recording.
+ */
+
+/** Voice notes are sent to the server with the diagnosis they describe, so they are kept short. */
+export const MAX_RECORDING_SECONDS = 120;
+
+// Plenty for speech, and keeps a full-length note under 1 MB.
+const AUDIO_BITS_PER_SECOND = 32_000;
+
+export interface AudioRecording {
+  /**
+   * Stops recording and resolves with the audio as a base64 data URI. After
+   * MAX_RECORDING_SECONDS the recording has already stopped, and this resolves with what was recorded.
+   */
+  stop(): Promise<string>;
+  /** Stops recording and discards the audio. */
+  cancel(): void;
+}
+
+export function isAudioRecordingSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+}
+
+function toDataUri(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** Rejects if the microphone cannot be opened, e.g. because access was denied. */
+export async function startAudioRecording(): Promise<AudioRecording> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream, { audioBitsPerSecond: AUDIO_BITS_PER_SECOND });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = event => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      resolve();
+    };
+  });
+  recorder.start();
+  const limit = setTimeout(() => {
+    if (recorder.state !== 'inactive') recorder.stop();
+  }, MAX_RECORDING_SECONDS * 1000);
+
+  return {
+    async stop() {
+      clearTimeout(limit);
+      if (recorder.state !== 'inactive') recorder.stop();
+      await stopped;
+      // Drop codec parameters ("audio/webm;codecs=opus"): stored data URIs carry only the MIME type.
+      const mimeType = recorder.mimeType.split(';')[0] || 'audio/webm';
+      return toDataUri(new Blob(chunks, { type: mimeType }));
+    },
+    cancel() {
+      clearTimeout(limit);
+      if (recorder.state !== 'inactive') recorder.stop();
+    },
+  };
+}
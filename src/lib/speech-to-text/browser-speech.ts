@@ -0,0 +1,79 @@
+import type { Language } from '@/lib/translations';
+import { isAudioRecordingSupported, startAudioRecording } from './audio-recorder';
+import type { Dictation, SpeechToText } from './index';
+
+// The Web Speech API is not in TypeScript's DOM library; these are the parts used here.
+type SpeechRecognitionResultList = ArrayLike<ArrayLike<{ transcript: string }> & { isFinal: boolean }>;
+
+interface SpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: { results: SpeechRecognitionResultList }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognition;
+
+function recognitionConstructor(): SpeechRecognitionConstructor | undefined {
+  if (typeof window === 'undefined') return undefined;
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+}
+
+/**
+ * Transcribes on the device with the browser's speech recognition (Chrome and Android WebView),
+ * showing words as they are recognised. The microphone is recorded alongside for the voice note.
+ */
+export function createBrowserSpeechToText(): SpeechToText {
+  return {
+    name: 'browser',
+    isSupported: () => !!recognitionConstructor() && isAudioRecordingSupported(),
+    async start(language: Language, onPartialTranscript?: (transcript: string) => void): Promise<Dictation> {
+      const Recognition = recognitionConstructor();
+      if (!Recognition) throw new Error('Speech recognition is not available in this browser.');
+
+      const recording = await startAudioRecording();
+      const recognition = new Recognition();
+      // Indian English and Indian languages, e.g. "hi-IN", "ta-IN".
+      recognition.lang = `${language}-IN`;
+      recognition.continuous = true;
+      recognition.interimResults = true;
+
+      let transcript = '';
+      let failure: string | null = null;
+      recognition.onresult = event => {
+        transcript = Array.from(event.results, result => result[0].transcript).join(' ').trim();
+        onPartialTranscript?.(transcript);
+      };
+      recognition.onerror = event => {
+        // "no-speech" and "aborted" just mean nothing was transcribed.
+        if (event.error !== 'no-speech' && event.error !== 'aborted') failure = event.error;
+      };
+      const ended = new Promise<void>(resolve => {
+        recognition.onend = () => resolve();
+      });
+      recognition.start();
+
+      return {
+        async stop() {
+          recognition.stop();
+          const [audioDataUri] = await Promise.all([recording.stop(), ended]);
+          if (failure) throw new Error(`Speech recognition failed: ${failure}`);
+          return { transcript, audioDataUri };
+        },
+        cancel() {
+          recognition.abort();
+          recording.cancel();
+        },
+      };
+    },
+  };
+}
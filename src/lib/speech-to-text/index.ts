@@ -0,0 +1,53 @@
+/**
+ * @fileOverview Speech-to-text for voice input, e.g. describing symptoms by speaking.
+ *
+ * - MAX_RECORDING_SECONDS - How long a dictation can run; voice input stops it at this length.
+ * - SpeechToText - The interface a speech-to-text engine must implement.
+ * - Dictation - A dictation in progress.
+ * - setSpeechToText - Replaces the engine used for voice input.
+ * - getSpeechToText - Returns the engine in use: the browser's own speech recognition where the
+ *   browser has it, otherwise transcription on the server through the model provider.
+ */
+
+import type { Language } from '@/lib/translations';
+import { createBrowserSpeechToText } from './browser-speech';
+import { createServerSpeechToText } from './server-transcription';
+
+export { MAX_RECORDING_SECONDS } from './audio-recorder';
+
+export type DictationResult = {
+  transcript: string;
+  /** The recording as a base64 data URI, to keep with the record it describes. */
+  audioDataUri: string;
+};
+
+export interface Dictation {
+  /** Stops listening and resolves with what was said and the recording. */
+  stop(): Promise<DictationResult>;
+  /** Stops listening and discards the recording. */
+  cancel(): void;
+}
+
+export interface SpeechToText {
+  readonly name: string;
+  isSupported(): boolean;
+  /**
+   * Starts recording from the microphone; rejects if it cannot be opened. Engines that
+   * recognise speech as it is spoken report the transcript so far to `onPartialTranscript`.
+   */
+  start(language: Language, onPartialTranscript?: (transcript: string) => void): Promise<Dictation>;
+}
+
+let engine: SpeechToText | null = null;
+
+export function setSpeechToText(next: SpeechToText) {
+  engine = next;
+}
+
+export function getSpeechToText(): SpeechToText {
+  if (!engine) {
+    const browser = createBrowserSpeechToText();
+    engine = browser.isSupported() ? browser : createServerSpeechToText();
+  }
+  return engine;
+}
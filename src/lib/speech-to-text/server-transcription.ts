@@ -0,0 +1,23 @@
+import { transcribeAudio } from '@/ai/flows/transcribe-audio';
+import type { Language } from '@/lib/translations';
+import { isAudioRecordingSupported, startAudioRecording } from './audio-recorder';
+import type { Dictation, SpeechToText } from './index';
+
+/** Records the whole description, then has the model provider transcribe it. */
+export function createServerSpeechToText(): SpeechToText {
+  return {
+    name: 'server',
+    isSupported: isAudioRecordingSupported,
+    async start(language: Language): Promise<Dictation> {
+      const recording = await startAudioRecording();
+      return {
+        async stop() {
+          const audioDataUri = await recording.stop();
+          const { transcript } = await transcribeAudio({ audioDataUri, language });
+          return { transcript, audioDataUri };
+        },
+        cancel: () => recording.cancel(),
+      };
+    },
+  };
+}
@@ -0,0 +1,26 @@
+import type { translations } from '@/lib/translations';
+
+export const SYMPTOMS = [
+  'lethargy',
+  'appetiteLoss',
+  'coughing',
+  'sores',
+  'limping',
+  'swelling',
+  'discharge',
+  'diarrhea',
+] as const;
+
+export type Symptom = (typeof SYMPTOMS)[number];
+
+/** The translation key for each symptom's checkbox label. */
+export const symptomLabels: Record<Symptom, keyof (typeof translations)['en']> = {
+  lethargy: 'symptomLethargy',
+  appetiteLoss: 'symptomAppetiteLoss',
+  coughing: 'symptomCoughing',
+  sores: 'symptomSores',
+  limping: 'symptomLimping',
+  swelling: 'symptomSwelling',
+  discharge: 'symptomDischarge',
+  diarrhea: 'symptomDiarrhea',
+};
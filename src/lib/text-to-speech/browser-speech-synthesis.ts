@@ -0,0 +1,56 @@
+import type { Language } from '@/lib/translations';
+import type { TextToSpeech } from './index';
+
+// Chrome stops long utterances after about 15 seconds, so text is read a sentence at a time.
+function sentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?।])\s+/u)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+/** Prefers a voice for the Indian variant of the language, e.g. "hi-IN", then any voice for it. */
+function voiceFor(language: Language): SpeechSynthesisVoice | undefined {
+  const voices = window.speechSynthesis.getVoices();
+  const tag = (voice: SpeechSynthesisVoice) => voice.lang.replace('_', '-').toLowerCase();
+  return (
+    voices.find(voice => tag(voice) === `${language}-in`) ??
+    voices.find(voice => tag(voice).split('-')[0] === language)
+  );
+}
+
+/** Reads aloud with the browser's speech synthesis and the device's installed voices. */
+export function createBrowserTextToSpeech(): TextToSpeech {
+  // Bumped by stop(), so a reading in progress knows not to go on to its next sentence.
+  let generation = 0;
+
+  const speakSentence = (sentence: string, language: Language, rate: number) =>
+    new Promise<boolean>(resolve => {
+      const utterance = new SpeechSynthesisUtterance(sentence);
+      utterance.lang = `${language}-IN`;
+      const voice = voiceFor(language);
+      if (voice) utterance.voice = voice;
+      utterance.rate = rate;
+      utterance.onend = () => resolve(true);
+      // Cancelling fires "interrupted" or "canceled"; either way, stop reading.
+      utterance.onerror = () => resolve(false);
+      window.speechSynthesis.speak(utterance);
+    });
+
+  return {
+    name: 'browser',
+    isSupported: () => typeof window !== 'undefined' && 'speechSynthesis' in window,
+    async speak(text, { language, rate }) {
+      const current = generation;
+      for (const sentence of sentences(text)) {
+        if (generation !== current) return false;
+        if (!(await speakSentence(sentence, language, rate))) return false;
+      }
+      return generation === current;
+    },
+    stop() {
+      generation++;
+      window.speechSynthesis.cancel();
+    },
+  };
+}
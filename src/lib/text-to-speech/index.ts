@@ -0,0 +1,36 @@
+/**
+ * @fileOverview Text-to-speech for reading results aloud to farmers who find reading hard.
+ *
+ * - TextToSpeech - The interface a speech engine must implement.
+ * - SPEECH_RATES - The reading speeds offered, slowest first.
+ * - setTextToSpeech - Replaces the engine used for reading aloud.
+ * - getTextToSpeech - Returns the engine in use, by default the browser's speech synthesis.
+ */
+
+import type { Language } from '@/lib/translations';
+import { createBrowserTextToSpeech } from './browser-speech-synthesis';
+
+export const SPEECH_RATES = { slow: 0.75, normal: 1, fast: 1.25 } as const;
+export type SpeechRate = keyof typeof SPEECH_RATES;
+
+export interface TextToSpeech {
+  readonly name: string;
+  isSupported(): boolean;
+  /** Reads `text` aloud. Resolves true once it has all been read, or false if it was stopped. */
+  speak(text: string, options: { language: Language; rate: number }): Promise<boolean>;
+  /** Stops reading, wherever it was started from. */
+  stop(): void;
+}
+
+let engine: TextToSpeech | null = null;
+
+export function setTextToSpeech(next: TextToSpeech) {
+  engine = next;
+}
+
+export function getTextToSpeech(): TextToSpeech {
+  if (!engine) {
+    engine = createBrowserTextToSpeech();
+  }
+  return engine;
+}
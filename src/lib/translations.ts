@@ -1,248 +1,369 @@
-export const translations = {
-  en: {
-    appName: "Pashu AI",
-    tagline: "AI-Powered Breed Recognition for Indian Livestock",
-    online: "Online",
-    offline: "Offline",
-    scanAnimal: "Scan Animal",
-    selectImage: "Upload Image",
-    useCamera: "Use Camera",
-    positionAnimal: "Position the animal within the frame and capture the image.",
-    capture: "Capture",
-    cancel: "Cancel",
-    or: "or",
-    tryDemo: "Try with a demo image:",
-    analyzing: "Analyzing Image...",
-    analyzingDescription: "Our AI is identifying the breed. Please wait a moment.",
-    aiSuggestions: "AI Suggestions",
-    confidence: "Confidence",
-    confirm: "Confirm",
-    correctionPrompt: "Not the right breed?",
-    correctBreed: "Correct Breed",
-    enterCorrectBreed: "Enter the correct breed",
-    submitCorrection: "Submit Correction",
-    correctionSubmittedTitle: "Feedback Received",
-    correctionSubmittedDescription: "Thank you! Your input helps our AI learn and improve.",
-    errorTitle: "An Error Occurred",
-    errorDescription: "Could not complete the request. Please try again.",
-    serviceUnavailableError: "The AI service is currently unavailable. Please try again in a few moments.",
-    finalBreed: "Identified Breed",
-    startOver: "Start Over",
-    uploading: "Uploading...",
-    invalidImage: "The provided image is not a valid image of a cattle or buffalo. Please try again.",
-    invalidImageTitle: "Invalid Image",
-    tryAgain: "Please try again with a different image.",
-    size: "Size",
-    colors: "Colors",
-    nutrition: "Nutrition",
-    noInfo: "Information not available for this breed.",
-    cameraAccessDeniedTitle: "Camera Access Denied",
-    cameraAccessDeniedDescription: "Please enable camera permissions in your browser settings to use this feature.",
-    cameraAccessRequiredTitle: "Camera Access Required",
-    cameraAccessRequiredDescription: "Please allow camera access to use this feature. You may need to change permissions in your browser settings.",
-    rotateCamera: "Rotate Camera",
-    uploadedAnimalAlt: "Uploaded animal",
-    breedRecommendationEngine: "Breed Recommendation Engine",
-    findThePerfectBreed: "Answer a few questions to find the perfect breed for your farm.",
-    primaryGoal: "Primary Goal",
-    selectGoalPlaceholder: "Select your primary goal...",
-    highMilkYield: "High Milk Yield",
-    draughtStrength: "Draught Strength",
-    dualPurpose: "Dual-Purpose (Milk & Draught)",
-    lowMaintenance: "Low Maintenance / Cost",
-    budgetPerAnimalInRupees: "Budget per Animal (in ₹)",
-    landSizeInAcres: "Land Size in Acres",
-    acres: "Acres",
-    regionalClimate: "Regional Climate",
-    selectClimatePlaceholder: "Select your climate...",
-    climateHotDry: "Hot and Dry",
-    climateHotHumid: "Hot and Humid",
-    climateModerate: "Moderate",
-    climateCold: "Cold",
-    getRecommendations: "Get Recommendations",
-    findingBestBreeds: "Finding the best breeds for you...",
-    topRecommendations: "Top Recommendations",
-    overallScore: "Overall Score",
-    estimatedROI: "Estimated ROI",
-    pros: "Pros",
-    cons: "Cons",
-    careLevel: "Care Level",
-    Low: "Low",
-    Medium: "Medium",
-    High: "High",
-    suitabilityScorecard: "Suitability Scorecard",
-    milkYieldScore: "Milk Yield",
-    strengthScore: "Strength",
-    careRequirementScore: "Low Care Needs",
-    roiScore: "Profitability (ROI)",
-    climateMatchScore: "Climate Match",
-    noBreedsFoundTitle: "No Matching Breeds Found",
-    noBreedsFoundDescription: "We couldn't find any breeds that match your criteria. Please try adjusting your filters.",
-    compare: "Compare",
-    compareBreeds: "Compare Breeds",
-    feature: "Feature",
-    diseaseDetection: "Disease Detection",
-    detectDisease: "Detect Disease",
-    detectDiseaseDescription: "Upload an image and add a description to get an AI-powered health diagnosis.",
-    addDescription: "Add a description of symptoms (optional)",
-    symptomDescriptionPlaceholder: "e.g., animal is lethargic, not eating well, has a cough...",
-    getDiagnosis: "Get Diagnosis",
-    analyzingHealth: "Analyzing Animal's Health...",
-    analyzingHealthDescription: "Our AI is analyzing the image and symptoms. Please wait a moment.",
-    diagnosisResult: "Diagnosis Result",
-    noDiseaseDetected: "No Disease Detected",
-    preventiveCare: "Preventive Care",
-    disease: "Disease",
-    urgency: "Urgency",
-    description: "Description",
-    firstAid: "First-Aid / Care",
-    veterinaryAttention: "Veterinary Attention",
-    immediateAttentionRequired: "Immediate veterinary attention is required.",
-    attentionRecommended: "Veterinary attention is recommended.",
-    monitorAnimal: "Monitor the animal closely.",
-    addSymptoms: "Add Common Symptoms",
-    commonSymptoms: "Common Symptoms",
-    selectedSymptoms: "Selected Symptoms",
-    symptomLethargy: "Lethargy/Weakness",
-    symptomAppetiteLoss: "Loss of Appetite",
-    symptomCoughing: "Coughing",
-    symptomSores: "Sores or Lesions",
-    symptomLimping: "Limping",
-    symptomSwelling: "Swelling",
-    symptomDischarge: "Unusual Discharge",
-    symptomDiarrhea: "Diarrhea",
-    emergencyHelpline: "Emergency Helpline",
-    findVet: "Find Veterinary Help",
-    enterLocation: "Enter your city, district, or pincode to find nearby help.",
-    locationPlaceholder: "e.g., 'Pune' or '411001'",
-    findingHelp: "Finding help...",
-    noVetsFound: "No services found for this location. Please try a broader location.",
-    Hospital: "Hospital",
-    Clinic: "Clinic",
-    Helpline: "Helpline",
-  },
-  hi: {
-    appName: "पशु एआई",
-    tagline: "भारतीय पशुधन के लिए एआई-संचालित नस्ल पहचान",
-    online: "ऑनलाइन",
-    offline: "ऑफलाइन",
-    scanAnimal: "पशु को स्कैन करें",
-    selectImage: "छवि अपलोड करें",
-    useCamera: "कैमरे का उपयोग करें",
-    positionAnimal: "जानवर को फ्रेम में रखें और तस्वीर खींचे।",
-    capture: "कैप्चर",
-    cancel: "रद्द करें",
-    or: "या",
-    tryDemo: "डेमो छवि के साथ प्रयास करें:",
-    analyzing: "छवि का विश्लेषण हो रहा है...",
-    analyzingDescription: "हमारा एआई नस्ल की पहचान कर रहा है। कृपया प्रतीक्षा करें।",
-    aiSuggestions: "एआई सुझाव",
-    confidence: "आत्मविश्वास",
-    confirm: "पुष्टि करें",
-    correctionPrompt: "सही नस्ल नहीं है?",
-    correctBreed: "नस्ल सुधारें",
-    enterCorrectBreed: "सही नस्ल दर्ज करें",
-    submitCorrection: "सुधार जमा करें",
-    correctionSubmittedTitle: "प्रतिक्रिया प्राप्त हुई",
-    correctionSubmittedDescription: "धन्यवाद! आपकी प्रतिक्रिया हमारे एआई को सीखने और सुधारने में मदद करती है।",
-    errorTitle: "एक त्रुटि हुई",
-    errorDescription: "अनुरोध पूरा नहीं हो सका। कृपया पुनः प्रयास करें।",
-    serviceUnavailableError: "एआई सेवा वर्तमान में अनुपलब्ध है। कृपया कुछ क्षण बाद पुनः प्रयास करें।",
-    finalBreed: "पहचानी गई नस्ल",
-    startOver: "फिर से शुरू करें",
-    uploading: "अपलोड हो रहा है...",
-    invalidImage: "प्रदान की गई छवि मवेशी या भैंस की वैध छवि नहीं है। कृपया पुन: प्रयास करें।",
-    invalidImageTitle: "अमान्य छवि",
-    tryAgain: "कृपया एक अलग छवि के साथ पुनः प्रयास करें।",
-    size: "आकार",
-    colors: "रंग",
-    nutrition: "पोषण",
-    noInfo: "इस नस्ल के लिए जानकारी उपलब्ध नहीं है।",
-    cameraAccessDeniedTitle: "कैमरा एक्सेस अस्वीकृत",
-    cameraAccessDeniedDescription: "इस सुविधा का उपयोग करने के लिए कृपया अपनी ब्राउज़र सेटिंग्स में कैमरा अनुमतियों को सक्षम करें।",
-    cameraAccessRequiredTitle: "कैमरा एक्सेस आवश्यक है",
-    cameraAccessRequiredDescription: "इस सुविधा का उपयोग करने के लिए कृपया कैमरा एक्सेस की अनुमति दें। आपको अपनी ब्राउज़र सेटिंग्स में अनुमतियां बदलने की आवश्यकता हो सकती है।",
-    rotateCamera: "कैमरा घुमाएँ",
-    uploadedAnimalAlt: "अपलोड किया गया जानवर",
-    breedRecommendationEngine: "नस्ल सिफारिश इंजन",
-    findThePerfectBreed: "अपने खेत के लिए उपयुक्त नस्ल खोजने के लिए कुछ सवालों के जवाब दें।",
-    primaryGoal: "प्राथमिक लक्ष्य",
-    selectGoalPlaceholder: "अपना प्राथमिक लक्ष्य चुनें...",
-    highMilkYield: "उच्च दूध उपज",
-    draughtStrength: "खेती-किसानी की ताकत",
-    dualPurpose: "दोहरे उद्देश्य (दूध और खेती)",
-    lowMaintenance: "कम रखरखाव / लागत",
-    budgetPerAnimalInRupees: "प्रति पशु बजट (₹ में)",
-    landSizeInAcres: "एकड़ में भूमि का आकार",
-    acres: "एकड़",
-    regionalClimate: "क्षेत्रीय जलवायु",
-    selectClimatePlaceholder: "अपनी जलवायु चुनें...",
-    climateHotDry: "गर्म और शुष्क",
-    climateHotHumid: "गर्म और आर्द्र",
-    climateModerate: "मध्यम",
-    climateCold: "ठंडा",
-    getRecommendations: "सिफारिशें प्राप्त करें",
-    findingBestBreeds: "आपके लिए सर्वोत्तम नस्लें ढूंढ रहे हैं...",
-    topRecommendations: "शीर्ष सिफारिशें",
-    overallScore: "कुल स्कोर",
-    estimatedROI: "अनुमानित ROI",
-    pros: "फायदे",
-    cons: "नुकसान",
-    careLevel: "देखभाल का स्तर",
-    Low: "कम",
-    Medium: "मध्यम",
-    High: "उच्च",
-    suitabilityScorecard: "उपयुक्तता स्कोरकार्ड",
-    milkYieldScore: "दूध की पैदावार",
-    strengthScore: "शक्ति",
-    careRequirementScore: "कम देखभाल की जरूरत",
-roiScore: "लाभप्रदता (ROI)",
-    climateMatchScore: "जलवायु अनुकूलता",
-    noBreedsFoundTitle: "कोई मेल खाने वाली नस्लें नहीं मिलीं",
-    noBreedsFoundDescription: "हमें कोई ऐसी नस्ल नहीं मिली जो आपके मानदंडों से मेल खाती हो। कृपया अपने फ़िल्टर समायोजित करने का प्रयास करें।",
-    compare: "तुलना",
-    compareBreeds: "नस्लों की तुलना करें",
-    feature: "विशेषता",
-    diseaseDetection: "रोग का निदान",
-    detectDisease: "रोग का निदान करें",
-    detectDiseaseDescription: "एआई-संचालित स्वास्थ्य निदान प्राप्त करने के लिए एक छवि अपलोड करें और विवरण जोड़ें।",
-    addDescription: "लक्षणों का विवरण जोड़ें (वैकल्पिक)",
-    symptomDescriptionPlaceholder: "जैसे, जानवर सुस्त है, ठीक से नहीं खा रहा है, खांसी है...",
-    getDiagnosis: "निदान प्राप्त करें",
-    analyzingHealth: "पशु के स्वास्थ्य का विश्लेषण हो रहा है...",
-    analyzingHealthDescription: "हमारा AI छवि और लक्षणों का विश्लेषण कर रहा है। कृपया प्रतीक्षा करें।",
-    diagnosisResult: "निदान परिणाम",
-    noDiseaseDetected: "कोई रोग नहीं पाया गया",
-    preventiveCare: "निवारक देखभाल",
-    disease: "रोग",
-    urgency: "तत्काल आवश्यकता",
-    description: "विवरण",
-    firstAid: "प्राथमिक उपचार / देखभाल",
-    veterinaryAttention: "पशु चिकित्सा ध्यान",
-    immediateAttentionRequired: "तत्काल पशु चिकित्सा ध्यान देने की आवश्यकता है।",
-    attentionRecommended: "पशु चिकित्सा ध्यान देने की सिफारिश की जाती है।",
-    monitorAnimal: "जानवर पर कड़ी नजर रखें।",
-    addSymptoms: "सामान्य लक्षण जोड़ें",
-    commonSymptoms: "सामान्य लक्षण",
-    selectedSymptoms: "चयनित लक्षण",
-    symptomLethargy: "सुस्ती/कमजोरी",
-    symptomAppetiteLoss: "भूख न लगना",
-    symptomCoughing: "खांसी",
-    symptomSores: "घाव या छाले",
-    symptomLimping: "लंगड़ापन",
-    symptomSwelling: "सूजन",
-    symptomDischarge: "असामान्य स्राव",
-    symptomDiarrhea: "दस्त",
-    emergencyHelpline: "आपातकालीन हेल्पलाइन",
-    findVet: "पशु चिकित्सा सहायता खोजें",
-    enterLocation: "आस-पास सहायता खोजने के लिए अपना शहर, जिला या पिनकोड दर्ज करें।",
-    locationPlaceholder: "जैसे, 'पुणे' या '411001'",
-    findingHelp: "सहायता ढूंढी जा रही है...",
-    noVetsFound: "इस स्थान के लिए कोई सेवा नहीं मिली। कृपया एक व्यापक स्थान का प्रयास करें।",
-    Hospital: "अस्पताल",
-    Clinic: "क्लिनिक",
-    Helpline: "हेल्पलाइन",
-  },
+import { hi } from './locales/hi';
+import { mr } from './locales/mr';
+import { gu } from './locales/gu';
+import { ta } from './locales/ta';
+import { te } from './locales/te';
+import { kn } from './locales/kn';
+import { bn } from './locales/bn';
+import { pa } from './locales/pa';
+
+/** The English text is the source every other language pack is translated from. */
+const en = {
+  appName: "Pashu AI",
+  tagline: "AI-Powered Breed Recognition for Indian Livestock",
+  navHome: "Home",
+  navScanner: "Scanner",
+  navDecisionSupport: "Decision Support",
+  navDiseaseDetection: "Disease Detection",
+  navAnimals: "Animals",
+  navBreeds: "Breeds",
+  featureScanDescription: "Instantly identify cattle and buffalo breeds using your camera or by uploading an image.",
+  featureRecommendDescription: "Get tailored recommendations for the best breeds based on your specific farming goals and conditions.",
+  featureDiseaseDescription: "Upload an image of an animal to detect early signs of common diseases and get care suggestions.",
+  language: "Language",
+  toggleMode: "Toggle online/offline mode",
+  toggleTheme: "Toggle theme",
+  themeLight: "Light",
+  themeDark: "Dark",
+  themeSystem: "System",
+  online: "Online",
+  offline: "Offline",
+  offlineModelUnavailable: "The offline breed model is not available on this device yet. Connect to the internet once to download it, or switch to online mode.",
+  offlineLowConfidence: "The offline model could not recognise the breed with enough confidence. Try a clearer side-on photo of the animal.",
+  offlineFallbackTitle: "No Internet Connection",
+  offlineFallbackDescription: "Using the on-device model instead. The scan will be uploaded when you are back online.",
+  noConnectionTitle: "No Internet Connection",
+  noConnectionDescription: "This needs an internet connection. Your photo and notes are kept here, so try again when you are back online.",
+  scanAnimal: "Scan Animal",
+  selectImage: "Upload Image",
+  useCamera: "Use Camera",
+  positionAnimal: "Position the animal within the frame and capture the image.",
+  capture: "Capture",
+  cancel: "Cancel",
+  or: "or",
+  tryDemo: "Try with a demo image:",
+  analyzing: "Analyzing Image...",
+  analyzingDescription: "Our AI is identifying the breed. Please wait a moment.",
+  aiSuggestions: "AI Suggestions",
+  confidence: "Confidence",
+  confirm: "Confirm",
+  correctionPrompt: "Not the right breed?",
+  correctBreed: "Correct Breed",
+  selectCorrectBreed: "Select the correct breed",
+  unknownBreed: "Unknown / crossbred",
+  submitCorrection: "Submit Correction",
+  correctionSubmittedTitle: "Feedback Received",
+  correctionSubmittedDescription: "Thank you! Your input helps our AI learn and improve.",
+  correctionQueuedDescription: "Thank you! You are offline, so your correction is saved on this device and will be uploaded when you are back online.",
+  pendingSync: "waiting to upload",
+  failedSync: "rejected by the server",
+  discardFailedSync: "Discard",
+  discardFailedSyncDescription: "The server did not accept these submissions, so they will not be uploaded. Discard them from this device?",
+  errorTitle: "An Error Occurred",
+  errorDescription: "Could not complete the request. Please try again.",
+  serviceUnavailableError: "The AI service is currently unavailable. Please try again in a few moments.",
+  finalBreed: "Identified Breed",
+  startOver: "Start Over",
+  uploading: "Uploading...",
+  invalidImage: "The provided image is not a valid image of a cattle or buffalo. Please try again.",
+  invalidImageTitle: "Invalid Image",
+  tryAgain: "Please try again with a different image.",
+  size: "Size",
+  colors: "Colors",
+  nutrition: "Nutrition",
+  noInfo: "Information not available for this breed.",
+  cameraAccessDeniedTitle: "Camera Access Denied",
+  cameraAccessDeniedDescription: "Please enable camera permissions in your browser settings to use this feature.",
+  cameraAccessRequiredTitle: "Camera Access Required",
+  cameraAccessRequiredDescription: "Please allow camera access to use this feature. You may need to change permissions in your browser settings.",
+  rotateCamera: "Rotate Camera",
+  uploadedAnimalAlt: "Uploaded animal",
+  breedRecommendationEngine: "Breed Recommendation Engine",
+  findThePerfectBreed: "Answer a few questions to find the perfect breed for your farm.",
+  primaryGoal: "Primary Goal",
+  selectGoalPlaceholder: "Select your primary goal...",
+  highMilkYield: "High Milk Yield",
+  draughtStrength: "Draught Strength",
+  dualPurpose: "Dual-Purpose (Milk & Draught)",
+  lowMaintenance: "Low Maintenance / Cost",
+  budgetPerAnimalInRupees: "Budget per Animal (in ₹)",
+  landSizeInAcres: "Land Size in Acres",
+  acres: "Acres",
+  singleAnimal: "Single Animal",
+  herdPlanner: "Herd Planner",
+  totalBudgetInRupees: "Total Budget for the Herd (in ₹)",
+  fodderAvailability: "Fodder Availability",
+  fodderScarce: "Scarce",
+  fodderAdequate: "Adequate",
+  fodderAbundant: "Abundant",
+  labourAvailable: "Full-time Workers",
+  herdPlanTitle: "Suggested Herd",
+  noHerdPlan: "Your budget cannot buy any animal suited to these conditions. Try a larger budget or a different goal.",
+  animalsLandCanSustain: "animals your land can sustain",
+  limitedBy: "Limited by",
+  limitBudget: "Budget",
+  limitLand: "Land and fodder",
+  limitLabour: "Labour",
+  limitHerdSize: "Largest herd planned",
+  totalInvestment: "Total Investment",
+  monthlyIncome: "Monthly Income",
+  monthlyCost: "Monthly Cost",
+  monthlyProfit: "Monthly Profit",
+  paybackPeriod: "Payback Period",
+  months: "months",
+  notProfitable: "Not profitable",
+  economicAssumptions: "Economic Assumptions",
+  savedRegions: "Saved regions",
+  regionName: "Save as region",
+  regionNamePlaceholder: "e.g., Punjab",
+  deleteRegion: "Delete this region",
+  milkPricing: "Milk pricing",
+  milkPricingFlat: "Flat price per litre",
+  milkPricingFatSnf: "Fat/SNF rate chart (two-axis)",
+  pricePerLitre: "Price per litre (₹)",
+  fatRatePerKg: "Rate per kg fat (₹)",
+  snfRatePerKg: "Rate per kg SNF (₹)",
+  feedCostPerDay: "Feed cost per animal per day (₹), by feed requirement",
+  labourCostPerMonth: "Labour per animal per month (₹)",
+  vetCostPerMonth: "Vet and medicines per animal per month (₹)",
+  insurancePercentPerYear: "Insurance premium (% of price per year)",
+  fatSnfAxis: "Fat % ↓ SNF % →",
+  milkPrice: "Milk Price",
+  litreShort: "L",
+  fat: "Fat",
+  discountRatePercent: "Discount rate (% per year)",
+  projectionYears: "Projection Period",
+  years: "years",
+  cashFlowProjection: "Cash-flow Projection (one animal)",
+  netCashFlow: "Net cash flow",
+  cumulativeCashFlow: "Cumulative",
+  npv: "Net Present Value (NPV)",
+  irr: "Internal Rate of Return (IRR)",
+  year: "Year",
+  yearShort: "Y",
+  regionalClimate: "Regional Climate",
+  selectClimatePlaceholder: "Select your climate...",
+  climateHotDry: "Hot and Dry",
+  climateHotHumid: "Hot and Humid",
+  climateModerate: "Moderate",
+  climateCold: "Cold",
+  getRecommendations: "Get Recommendations",
+  findingBestBreeds: "Finding the best breeds for you...",
+  topRecommendations: "Top Recommendations",
+  overallScore: "Overall Score",
+  estimatedROI: "Estimated ROI",
+  pros: "Pros",
+  cons: "Cons",
+  careLevel: "Care Level",
+  Low: "Low",
+  Medium: "Medium",
+  High: "High",
+  suitabilityScorecard: "Suitability Scorecard",
+  milkYieldScore: "Milk Yield",
+  strengthScore: "Strength",
+  careRequirementScore: "Low Care Needs",
+  roiScore: "Profitability (ROI)",
+  climateMatchScore: "Climate Match",
+  noBreedsFoundTitle: "No Matching Breeds Found",
+  noBreedsFoundDescription: "We couldn't find any breeds that match your criteria. Please try adjusting your filters.",
+  compare: "Compare",
+  compareBreeds: "Compare Breeds",
+  feature: "Feature",
+  diseaseDetection: "Disease Detection",
+  detectDisease: "Detect Disease",
+  detectDiseaseDescription: "Upload an image and add a description to get an AI-powered health diagnosis.",
+  addDescription: "Add a description of symptoms (optional)",
+  symptomDescriptionPlaceholder: "e.g., animal is lethargic, not eating well, has a cough...",
+  speakSymptoms: "Speak Symptoms",
+  stopRecording: "Stop Recording",
+  listening: "Listening...",
+  transcribing: "Transcribing...",
+  microphoneAccessDeniedTitle: "Microphone Access Denied",
+  microphoneAccessDeniedDescription: "Please allow microphone access in your browser settings to describe symptoms by voice.",
+  transcriptionFailed: "Could not transcribe the recording. Please try again or type the symptoms.",
+  voiceNote: "Voice Note",
+  removeVoiceNote: "Remove voice note",
+  getDiagnosis: "Get Diagnosis",
+  analyzingHealth: "Analyzing Animal's Health...",
+  analyzingHealthDescription: "Our AI is analyzing the image and symptoms. Please wait a moment.",
+  diagnosisResult: "Diagnosis Result",
+  noDiseaseDetected: "No Disease Detected",
+  preventiveCare: "Preventive Care",
+  disease: "Disease",
+  urgency: "Urgency",
+  description: "Description",
+  firstAid: "First-Aid / Care",
+  veterinaryAttention: "Veterinary Attention",
+  listen: "Listen",
+  stopReading: "Stop",
+  listenTo: "Listen to",
+  readingSpeed: "Reading speed",
+  speedSlow: "Slow",
+  speedNormal: "Normal",
+  speedFast: "Fast",
+  immediateAttentionRequired: "Immediate veterinary attention is required.",
+  attentionRecommended: "Veterinary attention is recommended.",
+  monitorAnimal: "Monitor the animal closely.",
+  addSymptoms: "Add Common Symptoms",
+  commonSymptoms: "Common Symptoms",
+  selectedSymptoms: "Selected Symptoms",
+  symptomLethargy: "Lethargy/Weakness",
+  symptomAppetiteLoss: "Loss of Appetite",
+  symptomCoughing: "Coughing",
+  symptomSores: "Sores or Lesions",
+  symptomLimping: "Limping",
+  symptomSwelling: "Swelling",
+  symptomDischarge: "Unusual Discharge",
+  symptomDiarrhea: "Diarrhea",
+  emergencyHelpline: "Emergency Helpline",
+  findVet: "Find Veterinary Help",
+  enterLocation: "Enter your city, district, or pincode to find nearby help.",
+  locationPlaceholder: "e.g., 'Pune' or '411001'",
+  findingHelp: "Finding help...",
+  noVetsFound: "No hospitals or dispensaries found for this location. Try your district name, or call the helpline above.",
+  vetDirectoryNotLoaded: "No vet directory has been loaded for this app yet, so only the national helpline is listed. Call it to reach your nearest veterinary unit.",
+  Hospital: "Hospital",
+  Clinic: "Clinic",
+  Helpline: "Helpline",
+  Dispensary: "Dispensary",
+  unverified: "Unverified",
+  useMyLocation: "Use my location",
+  locationUnavailableTitle: "Location unavailable",
+  locationUnavailableDescription: "Enter your pincode instead and we will search around it.",
+  kmAway: "km away",
+  animals: "Animals",
+  animalRegistry: "Animal Registry",
+  animalRegistryDescription: "Keep a profile for every animal: ear tag, breed, owner and photos.",
+  searchAnimals: "Search by ear tag, owner, village or breed...",
+  registerAnimal: "Register Animal",
+  noAnimalsFound: "No animals found. Register one to get started.",
+  earTag: "Ear Tag ID",
+  species: "Species",
+  Cattle: "Cattle",
+  Buffalo: "Buffalo",
+  breed: "Breed",
+  sex: "Sex",
+  Female: "Female",
+  Male: "Male",
+  dateOfBirth: "Date of Birth",
+  age: "Age",
+  yearsShort: "y",
+  monthsShort: "m",
+  owner: "Owner",
+  village: "Village",
+  photos: "Photos",
+  noPhotos: "No photos yet.",
+  addPhoto: "Add Photo",
+  save: "Save",
+  edit: "Edit",
+  saveToAnimalProfile: "Save to Animal Profile",
+  existingAnimal: "Existing Animal",
+  newAnimal: "New Animal",
+  attach: "Attach",
+  animalSavedTitle: "Animal Profile Saved",
+  animalSavedDescription: "The breed and photo have been saved to the animal's profile.",
+  breedSpeciesMismatch: "The scanned breed does not match this animal's species. Choose another animal or register a new one.",
+  viewProfile: "View Profile",
+  backToRegistry: "Back to Registry",
+  animalNotFound: "This animal could not be found.",
+  loading: "Loading...",
+  healthHistory: "Health History",
+  noHealthRecords: "No diagnoses saved for this animal yet.",
+  saveToHealthHistory: "Save to Health History",
+  diagnosisSavedTitle: "Diagnosis Saved",
+  diagnosisSavedDescription: "The diagnosis has been added to the animal's health history.",
+  statusPending: "Awaiting vet",
+  statusVetConfirmed: "Vet-confirmed",
+  statusRuledOut: "Ruled out",
+  statusResolved: "Resolved",
+  vaccinationSchedule: "Vaccination & Deworming",
+  vaccinationReminders: "Vaccination Reminders",
+  noRemindersDue: "No vaccinations or deworming due in the next two weeks.",
+  noScheduleItems: "No vaccinations or deworming apply to this animal right now.",
+  overdue: "Overdue",
+  dueSoon: "Due soon",
+  upcoming: "Upcoming",
+  dueOn: "Due",
+  lastGiven: "Last given",
+  markGiven: "Mark as given",
+  givenOn: "Date given",
+  doseRecordedTitle: "Dose recorded",
+  vaccineFmd: "Foot and Mouth Disease (FMD)",
+  vaccineHs: "Haemorrhagic Septicaemia (HS)",
+  vaccineBq: "Black Quarter (BQ)",
+  vaccineBrucellosis: "Brucellosis",
+  vaccineLsd: "Lumpy Skin Disease (LSD)",
+  deworming: "Deworming",
+  vaccineNotesFmd: "Booster one month after the first dose, then every six months.",
+  vaccineNotesMonsoon: "Yearly, ideally before the monsoon in endemic areas.",
+  vaccineNotesBrucellosis: "Once in a lifetime, for female calves between four and eight months old.",
+  vaccineNotesYearly: "Yearly.",
+  vaccineNotesDeworming: "Every three months; rotate the drug class to avoid resistance.",
+  allVillages: "All villages",
+  breedEncyclopedia: "Breed Encyclopedia",
+  breedEncyclopediaDescription: "Browse every registered Indian cattle and buffalo breed.",
+  searchBreeds: "Search by breed or state...",
+  allSpecies: "All species",
+  allPurposes: "All purposes",
+  purpose: "Purpose",
+  purposeMilk: "Milk",
+  purposeDraught: "Draught",
+  purposeDual: "Dual-Purpose",
+  noBreedsMatch: "No breeds match these filters.",
+  backToBreeds: "Back to Breeds",
+  breedNotFound: "This breed is not in the catalogue.",
+  milkYield: "Milk Yield",
+  litresPerDay: "L/day",
+  snf: "SNF",
+  climateSuitability: "Climate Suitability",
+  diseaseResistance: "Disease Resistance",
+  lifespan: "Lifespan",
+  marketPrice: "Market Price",
+  nativeTract: "Native Tract",
+  physicalTraits: "Identifying Traits",
+  referencePhotos: "Reference Photos",
+  noReferencePhotos: "No reference photos yet.",
+  viewBreedPage: "Read more about this breed",
+  unverifiedBreedInfo: "This breed is not in our catalogue, so these details were written by the AI and may be inaccurate.",
 };
 
-export type Language = keyof typeof translations;
+export type TranslationKey = keyof typeof en;
+
+/** A language pack; keys it leaves out are shown in English. */
+export type LocalePack = Partial<Record<TranslationKey, string>>;
+
+const packs = { en, hi, mr, gu, ta, te, kn, bn, pa } satisfies Record<string, LocalePack>;
+
+export type Language = keyof typeof packs;
+
+/** The languages offered in the app, each with its own name for the language picker. */
+export const LANGUAGES: { code: Language; nativeName: string; englishName: string }[] = [
+  { code: 'en', nativeName: 'English', englishName: 'English' },
+  { code: 'hi', nativeName: 'हिन्दी', englishName: 'Hindi' },
+  { code: 'mr', nativeName: 'मराठी', englishName: 'Marathi' },
+  { code: 'gu', nativeName: 'ગુજરાતી', englishName: 'Gujarati' },
+  { code: 'ta', nativeName: 'தமிழ்', englishName: 'Tamil' },
+  { code: 'te', nativeName: 'తెలుగు', englishName: 'Telugu' },
+  { code: 'kn', nativeName: 'ಕನ್ನಡ', englishName: 'Kannada' },
+  { code: 'bn', nativeName: 'বাংলা', englishName: 'Bengali' },
+  { code: 'pa', nativeName: 'ਪੰਜਾਬੀ', englishName: 'Punjabi' },
+];
+
+export const translations = Object.fromEntries(
+  Object.entries(packs).map(([language, pack]) => [language, { ...en, ...pack }])
+) as Record<Language, typeof en>;
+
+export function isLanguage(value: string): value is Language {
+  return value in packs;
+}
+
+/** The English name of a language code, for telling a model which language to answer in. */
+export function languageName(code: string): string {
+  return LANGUAGES.find(language => language.code === code)?.englishName ?? code;
+}
+
+/** Keys a language pack has no text for, which are therefore shown in English. */
+export function missingTranslationKeys(language: Language): TranslationKey[] {
+  const pack: LocalePack = packs[language];
+  return (Object.keys(en) as TranslationKey[]).filter(key => !pack[key]);
+}
@@ -0,0 +1,75 @@
+import type { translations } from '@/lib/translations';
+
+type TranslationKey = keyof (typeof translations)['en'];
+
+export type VaccinationRule = {
+  id: string;
+  nameKey: TranslationKey;
+  kind: 'Vaccination' | 'Deworming';
+  species: ('Cattle' | 'Buffalo')[];
+  sex?: 'Female' | 'Male'; // only given to animals of this sex
+  firstDoseAgeMonths: number;
+  lastFirstDoseAgeMonths?: number; // the first dose is skipped if the animal is older than this
+  boosterAfterMonths?: number; // gap between the first dose and the booster
+  repeatEveryMonths?: number; // omitted for once-in-a-lifetime doses
+  notesKey: TranslationKey;
+};
+
+export const vaccinationRules: VaccinationRule[] = [
+  {
+    id: 'fmd',
+    nameKey: 'vaccineFmd',
+    kind: 'Vaccination',
+    species: ['Cattle', 'Buffalo'],
+    firstDoseAgeMonths: 4,
+    boosterAfterMonths: 1,
+    repeatEveryMonths: 6,
+    notesKey: 'vaccineNotesFmd',
+  },
+  {
+    id: 'hs',
+    nameKey: 'vaccineHs',
+    kind: 'Vaccination',
+    species: ['Cattle', 'Buffalo'],
+    firstDoseAgeMonths: 6,
+    repeatEveryMonths: 12,
+    notesKey: 'vaccineNotesMonsoon',
+  },
+  {
+    id: 'bq',
+    nameKey: 'vaccineBq',
+    kind: 'Vaccination',
+    species: ['Cattle', 'Buffalo'],
+    firstDoseAgeMonths: 6,
+    repeatEveryMonths: 12,
+    notesKey: 'vaccineNotesMonsoon',
+  },
+  {
+    id: 'brucellosis',
+    nameKey: 'vaccineBrucellosis',
+    kind: 'Vaccination',
+    species: ['Cattle', 'Buffalo'],
+    sex: 'Female',
+    firstDoseAgeMonths: 4,
+    lastFirstDoseAgeMonths: 8,
+    notesKey: 'vaccineNotesBrucellosis',
+  },
+  {
+    id: 'lsd',
+    nameKey: 'vaccineLsd',
+    kind: 'Vaccination',
+    species: ['Cattle', 'Buffalo'],
+    firstDoseAgeMonths: 4,
+    repeatEveryMonths: 12,
+    notesKey: 'vaccineNotesYearly',
+  },
+  {
+    id: 'deworming',
+    nameKey: 'deworming',
+    kind: 'Deworming',
+    species: ['Cattle', 'Buffalo'],
+    firstDoseAgeMonths: 1,
+    repeatEveryMonths: 3,
+    notesKey: 'vaccineNotesDeworming',
+  },
+];
@@ -0,0 +1,117 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { addMonths, computeSchedule, type GivenDose } from './vaccination-schedule';
+import { vaccinationRules, type VaccinationRule } from './vaccination-rules';
+
+const TODAY = '2025-06-15';
+
+const rule = (id: string): VaccinationRule => {
+  const found = vaccinationRules.find(r => r.id === id);
+  assert.ok(found, `no rule ${id}`);
+  return found;
+};
+
+const schedule = (
+  animal: { species?: 'Cattle' | 'Buffalo'; sex?: 'Female' | 'Male'; dateOfBirth?: string },
+  doses: GivenDose[] = [],
+  rules?: VaccinationRule[]
+) => computeSchedule({ species: 'Cattle', sex: 'Female', ...animal }, doses, TODAY, rules);
+
+const itemFor = (items: ReturnType<typeof computeSchedule>, ruleId: string) => items.find(item => item.rule.id === ruleId);
+
+describe('addMonths', () => {
+  it('keeps the day of the month when it exists', () => {
+    assert.equal(addMonths('2025-01-15', 1), '2025-02-15');
+  });
+
+  it('clamps the 31st to the last day of a shorter month', () => {
+    assert.equal(addMonths('2025-01-31', 1), '2025-02-28');
+    assert.equal(addMonths('2025-08-31', 1), '2025-09-30');
+  });
+
+  it('rolls over to 29 February in a leap year', () => {
+    assert.equal(addMonths('2024-01-31', 1), '2024-02-29');
+  });
+
+  it('crosses the year boundary', () => {
+    assert.equal(addMonths('2025-11-30', 3), '2026-02-28');
+    assert.equal(addMonths('2025-12-31', 12), '2026-12-31');
+  });
+
+  it('goes backwards for a negative count', () => {
+    assert.equal(addMonths('2025-03-31', -1), '2025-02-28');
+  });
+});
+
+describe('computeSchedule', () => {
+  it('marks doses as overdue, due or upcoming and lists the soonest first', () => {
+    const items = schedule({ dateOfBirth: '2025-02-15' });
+
+    assert.deepEqual(
+      items.map(item => [item.rule.id, item.dueOn, item.status]),
+      [
+        ['deworming', '2025-03-15', 'overdue'],
+        ['fmd', '2025-06-15', 'due'],
+        ['brucellosis', '2025-06-15', 'due'],
+        ['lsd', '2025-06-15', 'due'],
+        ['hs', '2025-08-15', 'upcoming'],
+        ['bq', '2025-08-15', 'upcoming'],
+      ]
+    );
+  });
+
+  it('counts a dose as due up to two weeks ahead', () => {
+    const rules: VaccinationRule[] = [{ ...rule('hs'), firstDoseAgeMonths: 0 }];
+
+    assert.equal(schedule({ dateOfBirth: '2025-06-29' }, [], rules)[0].status, 'due');
+    assert.equal(schedule({ dateOfBirth: '2025-06-30' }, [], rules)[0].status, 'upcoming');
+  });
+
+  it('schedules the booster after the first dose, then the regular repeat', () => {
+    const afterFirst = itemFor(schedule({ dateOfBirth: '2025-01-01' }, [{ ruleId: 'fmd', givenOn: '2025-05-31' }]), 'fmd');
+    assert.equal(afterFirst?.dueOn, '2025-06-30');
+    assert.equal(afterFirst?.lastGivenOn, '2025-05-31');
+
+    const afterBooster = itemFor(
+      schedule({ dateOfBirth: '2025-01-01' }, [
+        { ruleId: 'fmd', givenOn: '2025-06-30' },
+        { ruleId: 'fmd', givenOn: '2025-05-31' },
+      ]),
+      'fmd'
+    );
+    assert.equal(afterBooster?.dueOn, '2025-12-30');
+    assert.equal(afterBooster?.lastGivenOn, '2025-06-30');
+  });
+
+  it('repeats from the last dose given', () => {
+    const item = itemFor(schedule({ dateOfBirth: '2020-01-01' }, [{ ruleId: 'hs', givenOn: '2024-05-01' }]), 'hs');
+    assert.equal(item?.dueOn, '2025-05-01');
+    assert.equal(item?.status, 'overdue');
+  });
+
+  it('gives brucellosis only to female calves inside the age window, once', () => {
+    assert.ok(itemFor(schedule({ dateOfBirth: '2025-02-15' }), 'brucellosis'));
+    assert.equal(itemFor(schedule({ sex: 'Male', dateOfBirth: '2025-02-15' }), 'brucellosis'), undefined);
+    assert.equal(itemFor(schedule({ dateOfBirth: '2024-06-01' }), 'brucellosis'), undefined);
+    assert.equal(
+      itemFor(schedule({ dateOfBirth: '2025-02-15' }, [{ ruleId: 'brucellosis', givenOn: '2025-06-20' }]), 'brucellosis'),
+      undefined
+    );
+  });
+
+  it('treats an animal without a date of birth as an adult due now', () => {
+    const items = schedule({});
+
+    assert.equal(itemFor(items, 'brucellosis'), undefined);
+    assert.ok(items.length > 0);
+    for (const item of items) {
+      assert.equal(item.dueOn, TODAY);
+      assert.equal(item.status, 'due');
+    }
+  });
+
+  it('skips rules for another species', () => {
+    const rules: VaccinationRule[] = [{ ...rule('lsd'), species: ['Cattle'] }];
+    assert.deepEqual(schedule({ species: 'Buffalo', dateOfBirth: '2025-01-01' }, [], rules), []);
+  });
+});
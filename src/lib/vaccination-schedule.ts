@@ -0,0 +1,90 @@
+import type { Animal } from '@/lib/server/animal-store';
+import { VaccinationRule, vaccinationRules } from '@/lib/vaccination-rules';
+
+/** How many days ahead a dose counts as due rather than upcoming. */
+export const DUE_WINDOW_DAYS = 14;
+
+export type ScheduleStatus = 'overdue' | 'due' | 'upcoming';
+
+export type ScheduleItem = {
+  rule: VaccinationRule;
+  status: ScheduleStatus;
+  dueOn: string; // YYYY-MM-DD
+  lastGivenOn?: string; // YYYY-MM-DD
+};
+
+export type GivenDose = { ruleId: string; givenOn: string };
+
+const toDate = (isoDate: string) => new Date(`${isoDate}T00:00:00Z`);
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+export function addMonths(isoDate: string, months: number): string {
+  const date = toDate(isoDate);
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  date.setUTCDate(Math.min(day, lastDay));
+  return toIsoDate(date);
+}
+
+function addDays(isoDate: string, days: number): string {
+  const date = toDate(isoDate);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toIsoDate(date);
+}
+
+/**
+ * When the next dose of `rule` falls due, or null when the rule does not apply
+ * (wrong species or sex, a missed once-only window, or a completed course).
+ */
+function nextDueDate(
+  rule: VaccinationRule,
+  animal: Pick<Animal, 'species' | 'sex' | 'dateOfBirth'>,
+  givenOn: string[],
+  today: string
+): string | null {
+  if (!rule.species.includes(animal.species)) return null;
+  if (rule.sex && rule.sex !== animal.sex) return null;
+
+  const last = givenOn[givenOn.length - 1];
+  if (!last) {
+    if (!animal.dateOfBirth) {
+      // Without a date of birth we assume an adult: age-limited doses are skipped, the rest are due now.
+      return rule.lastFirstDoseAgeMonths === undefined ? today : null;
+    }
+    if (rule.lastFirstDoseAgeMonths !== undefined && addMonths(animal.dateOfBirth, rule.lastFirstDoseAgeMonths) < today) {
+      return null;
+    }
+    return addMonths(animal.dateOfBirth, rule.firstDoseAgeMonths);
+  }
+
+  if (rule.boosterAfterMonths !== undefined && givenOn.length === 1) {
+    return addMonths(last, rule.boosterAfterMonths);
+  }
+  return rule.repeatEveryMonths === undefined ? null : addMonths(last, rule.repeatEveryMonths);
+}
+
+/** Works out every applicable dose for an animal from the rules and the doses already given, soonest first. */
+export function computeSchedule(
+  animal: Pick<Animal, 'species' | 'sex' | 'dateOfBirth'>,
+  doses: GivenDose[],
+  today: string = toIsoDate(new Date()),
+  rules: VaccinationRule[] = vaccinationRules
+): ScheduleItem[] {
+  const dueSoonUntil = addDays(today, DUE_WINDOW_DAYS);
+  const items: ScheduleItem[] = [];
+
+  for (const rule of rules) {
+    const givenOn = doses
+      .filter(dose => dose.ruleId === rule.id)
+      .map(dose => dose.givenOn)
+      .sort();
+    const dueOn = nextDueDate(rule, animal, givenOn, today);
+    if (!dueOn) continue;
+    const status: ScheduleStatus = dueOn < today ? 'overdue' : dueOn <= dueSoonUntil ? 'due' : 'upcoming';
+    items.push({ rule, status, dueOn, lastGivenOn: givenOn[givenOn.length - 1] });
+  }
+
+  return items.sort((a, b) => a.dueOn.localeCompare(b.dueOn));
+}